@@ -0,0 +1,39 @@
+-- 自定义词库（个人 / 团队规则）
+
+-- 团队表
+CREATE TABLE IF NOT EXISTS teams (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  owner_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (owner_id) REFERENCES users(uid) ON DELETE CASCADE
+);
+
+-- 团队成员表
+CREATE TABLE IF NOT EXISTS team_members (
+  team_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  role TEXT DEFAULT 'member',
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (team_id, user_id),
+  FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(uid) ON DELETE CASCADE
+);
+
+-- 自定义词库表
+CREATE TABLE IF NOT EXISTS lexicon_entries (
+  id TEXT PRIMARY KEY,
+  entry_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  team_id TEXT,
+  data TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(uid) ON DELETE CASCADE,
+  FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON team_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_lexicon_entries_user_id ON lexicon_entries(user_id);
+CREATE INDEX IF NOT EXISTS idx_lexicon_entries_team_id ON lexicon_entries(team_id);
@@ -0,0 +1,2 @@
+-- 产品会话白名单（词库误报短语）
+ALTER TABLE sessions ADD COLUMN allow_list TEXT;
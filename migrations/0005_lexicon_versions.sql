@@ -0,0 +1,16 @@
+-- 词库版本记录（作者、时间、条目级 diff）
+
+CREATE TABLE IF NOT EXISTS lexicon_versions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  team_id TEXT,
+  version INTEGER NOT NULL,
+  changes TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(uid) ON DELETE CASCADE,
+  FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_lexicon_versions_user_id ON lexicon_versions(user_id);
+CREATE INDEX IF NOT EXISTS idx_lexicon_versions_team_id ON lexicon_versions(team_id);
@@ -0,0 +1,2 @@
+-- OCR 行框（词库 / 确定性命中定位到图片区域）
+ALTER TABLE images ADD COLUMN ocr_lines TEXT;
@@ -0,0 +1,8 @@
+-- 模型供应商（管理员配置，覆盖或补充 data/model-providers.json 中的内置供应商）
+CREATE TABLE IF NOT EXISTS model_providers (
+  id TEXT PRIMARY KEY,
+  data TEXT NOT NULL,
+  updated_by TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
@@ -0,0 +1,2 @@
+-- OCR 来源：model（模型识别）/ pdf（PDF 内嵌文字层）
+ALTER TABLE images ADD COLUMN ocr_source TEXT;
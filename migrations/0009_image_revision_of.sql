@@ -0,0 +1,2 @@
+-- 修订关联：上一版设计稿的图片 ID（同一产品内）
+ALTER TABLE images ADD COLUMN revision_of TEXT;
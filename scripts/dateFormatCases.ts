@@ -0,0 +1,29 @@
+import { checkLotNumbers, extractLotMentions } from '../src/services/dateFormatService';
+
+// 用法：npm run date:cases（CI 中失败时退出码为 1）
+// 批号提取的回归样例：code 为期望提取到的批号，undefined 表示应报告缺少批号
+const lotCases: { sample: string; code: string | undefined }[] = [
+  { sample: 'LOT: A1234', code: 'A1234' },
+  { sample: 'Lot No. 24B07-1', code: '24B07-1' },
+  { sample: 'Lot No.\nA1', code: 'A1' },
+  { sample: '批号：\n20240501', code: '20240501' },
+  { sample: '批号：见瓶底', code: '见瓶底' },
+  { sample: 'Batch No.\n\nMade in China', code: undefined },
+  { sample: 'LOT:', code: undefined }
+];
+
+let failed = 0;
+for (const { sample, code } of lotCases) {
+  const mention = extractLotMentions(sample)[0];
+  const missing = checkLotNumbers(sample).length > 0;
+  if (!mention || mention.code !== code || missing !== (code === undefined)) {
+    failed++;
+    console.log(`FAIL ${JSON.stringify(sample)}: expected ${code ?? 'missing'}, got ${mention?.code ?? 'missing'}${missing ? ' (reported)' : ''}`);
+  }
+}
+
+console.log(`${lotCases.length} lot cases, ${failed} failing`);
+
+if (failed > 0) {
+  process.exitCode = 1;
+}
@@ -0,0 +1,38 @@
+import { readFileSync } from 'node:fs';
+import { getBuiltinLexicon, mergeLexicon, runLexiconFixtures, type LexiconEntry } from '../src/services/lexiconService';
+import { parseLexiconCsv, parseLexiconJson } from '../src/services/lexiconImportService';
+
+// 用法：npm run lexicon:fixtures [-- 导出的词库 .json / .csv]（CI 中失败时退出码为 1）
+// 不传文件时只检查内置词库；传入时按 id 覆盖内置规则后一起检查
+const exportPath = process.argv[2];
+let entries: LexiconEntry[] = getBuiltinLexicon();
+
+if (exportPath) {
+  const text = readFileSync(exportPath, 'utf-8');
+  const report = exportPath.toLowerCase().endsWith('.json') ? parseLexiconJson(text) : parseLexiconCsv(text);
+  for (const row of report.rows.filter(r => r.errors.length > 0)) {
+    console.log(`[skip] line ${row.line}: ${row.errors.join('; ')}`);
+  }
+  entries = mergeLexicon(entries, report.validEntries);
+} else {
+  entries = mergeLexicon(entries);
+}
+
+const results = entries.map(runLexiconFixtures);
+const withFixtures = results.filter(r => r.cases.length > 0);
+const failed = results.filter(r => !r.passed);
+
+for (const result of failed) {
+  console.log(`FAIL ${result.entryId}`);
+  for (const c of result.cases.filter(c => !c.passed)) {
+    const detail = c.expected === 'match' ? 'expected match, got none' : `expected no match, got "${c.matchedText}"`;
+    console.log(`  ${JSON.stringify(c.sample)}: ${detail}`);
+  }
+}
+
+const caseCount = withFixtures.reduce((sum, r) => sum + r.cases.length, 0);
+console.log(`${withFixtures.length}/${entries.length} entries with fixtures, ${caseCount} cases, ${failed.length} failing`);
+
+if (failed.length > 0) {
+  process.exitCode = 1;
+}
@@ -3,12 +3,19 @@ import { useLocation, useNavigate } from 'react-router-dom';
 import { localDiffSpecs, getModelId, setModelId, extractOcrOnly } from './services/openaiService';
 // Firebase Auth 已移除，统一使用 Better Auth
 import {
-  getOrCreateUser, getUserData, useQuotaFirebase, UserData,
+  getOrCreateUser, getUserData, UserData,
   getOrCreateSession, updateImageInCloud, deleteImageFromCloud, saveQilToCloud,
   loadSessionFromCloud, clearSessionInCloud, CloudImageData, CloudSession,
-  getUserSessions, createNewSession, updateSessionProductName, deleteSession, getQuotaUsageHistory, QuotaUsageRecord
+  getUserSessions, createNewSession, updateSessionProductName, deleteSession, getQuotaUsageHistory, QuotaUsageRecord,
+  listCustomLexicon, listLexiconVersions, saveSessionAllowList, listModelProviders, saveImageRevision
 } from './services/cloudflare';
-import { SourceField, DiffResult, ImageItem, ImageSpec, BoundingBox, IndustryType, INDUSTRY_LABELS, INDUSTRY_LIST, MarketType, MARKET_LABELS, MARKET_LIST } from './types/types';
+import { setCustomLexiconEntries, setCustomLexiconVersions, getLatestScopeVersions, setSessionAllowList, applyAllowListToIssues } from './services/lexiconService';
+import { checkBarcodes, scanBarcodes } from './services/barcodeService';
+import { getAvailableModels, setModelProviders, type ModelProvider } from './services/modelRegistryService';
+import { mergeConsensusIssues, resolveResultModel, CONSENSUS_TAB_ID } from './services/consensusService';
+import { isPdfFile, rasterizePdf, MAX_PDF_PAGES } from './services/pdfService';
+import { isInRevisionChain } from './services/revisionService';
+import { SourceField, DiffResult, ImageItem, ImageSpec, BoundingBox, LexiconIssue, BarcodeIssue, BarcodeResult, ConsensusIssue, PreflightIssue, TextLayer, ISSUE_TYPE_LABELS, IndustryType, INDUSTRY_LABELS, INDUSTRY_LIST, MarketType, MARKET_LABELS, MARKET_LIST } from './types/types';
 import { useImageAnalysis } from './hooks/useImageAnalysis';
 import { DiffSummary } from './components/features/DiffSummary';
 import { ComparisonPanel } from './components/features/ComparisonPanel';
@@ -18,12 +25,13 @@ import {
   ZoomIn, ZoomOut, RotateCcw, RotateCw, FileText, AlertTriangle, CheckCircle,
   ClipboardCheck, Image, Search, FileSpreadsheet, Loader2, Maximize2,
   Type, Brackets, ShieldAlert, GitCompare, LogOut, User as UserIcon, X, Cloud, CloudOff,
-  Menu, Home, List, Settings, Package, Bell, Plus, Check
+  Menu, Home, List, Settings, Package, Bell, Plus, Check, Grid3x3
 } from 'lucide-react';
 import { LoginModal, GoogleIcon } from './components/features/LoginModal';
 import { QuotaModal } from './components/features/QuotaModal';
 import { AllProductsPage } from './components/features/AllProductsPage';
 import { IssuesPanel } from './components/features/IssuesPanel';
+import { RevisionCompareView } from './components/features/RevisionCompareView';
 import { QilPanel, QilPanelRef } from './components/features/QilPanel';
 import { AnnouncementBanner, AnnouncementModal } from './components/features/AnnouncementBanner';
 import { UpgradeModal } from './components/features/UpgradeModal';
@@ -59,6 +67,8 @@ const PATH_TO_VIEW: Record<string, AppView> = {
 // 已知的有效路径前缀
 const VALID_PATH_PREFIXES = ['/', '/home', '/app', '/config', '/reports'];
 
+const TILED_ANALYSIS_KEY = 'packverify_tiled_analysis';
+
 const App: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
@@ -145,6 +155,7 @@ const App: React.FC = () => {
   const [currentImageIndex, setCurrentImageIndex] = useState<number>(0);
   const [manualSourceFields, setManualSourceFields] = useState<SourceField[]>([]);
   const [qilRawText, setQilRawText] = useState<string>(''); // QIL 原始文本
+  const [allowList, setAllowList] = useState<string[]>([]); // 当前产品的词库白名单短语
 
   // UI State
   const [selectedIssueId, setSelectedIssueId] = useState<string | null>(null);
@@ -154,15 +165,21 @@ const App: React.FC = () => {
   const [showIndustryMenu, setShowIndustryMenu] = useState(false);
   const [showMarketMenu, setShowMarketMenu] = useState(false);
   const [qilProcessing, setQilProcessing] = useState(false);
+  const [showRevisionMenu, setShowRevisionMenu] = useState(false);
+  const [showRevisionCompare, setShowRevisionCompare] = useState(false);
 
   // Refs for click-outside detection
   const industryMenuRef = useRef<HTMLDivElement>(null);
   const marketMenuRef = useRef<HTMLDivElement>(null);
+  const revisionMenuRef = useRef<HTMLDivElement>(null);
   const hasLoadedCloudData = useRef(false); // 防止重复加载云端数据
   const [currentModel, setCurrentModel] = useState(getModelId());
   const [activeModelTab, setActiveModelTab] = useState<string>(currentModel);
+  const [availableModels, setAvailableModels] = useState(getAvailableModels()); // 供应商注册表中可用于图片分析的模型
   const [imageScale, setImageScale] = useState(1);
   const [showOverlay, setShowOverlay] = useState(true);
+  // 高清分块分析（大幅面刀版图切块分别分析），偏好保存在本地
+  const [tiledAnalysis, setTiledAnalysis] = useState(() => localStorage.getItem(TILED_ANALYSIS_KEY) === '1');
   const [copiedId, setCopiedId] = useState<string | null>(null);
 
   // Bottom panel height (resizable) - 默认收起（24px 仅显示标题栏）
@@ -183,6 +200,7 @@ const App: React.FC = () => {
 
   // Current image
   const currentImage = images[currentImageIndex] || null;
+  const revisionBase = currentImage?.revisionOf ? images.find(img => img.id === currentImage.revisionOf) || null : null; // 当前图片的上一版
 
   const toggleMarket = useCallback((market: MarketType) => {
     setSelectedMarkets(prev => {
@@ -194,6 +212,13 @@ const App: React.FC = () => {
     });
   }, []);
 
+  const toggleTiledAnalysis = useCallback(() => {
+    setTiledAnalysis((prev: boolean) => {
+      localStorage.setItem(TILED_ANALYSIS_KEY, prev ? '0' : '1');
+      return !prev;
+    });
+  }, []);
+
   const marketSummary = useMemo(() => {
     if (selectedMarkets.length === MARKET_LIST.length) return '全部市场';
     return selectedMarkets.map(m => MARKET_LABELS[m]).join(' / ') || '通用';
@@ -204,7 +229,7 @@ const App: React.FC = () => {
     isProcessing, processingImageId, processingModelId, processingStep, isSyncing,
     processFile, retryAnalysis, addModelAnalysis
   } = useImageAnalysis({
-    user, sessionId, cloudSyncEnabled, industry, markets: selectedMarkets, manualSourceFields,
+    user, sessionId, cloudSyncEnabled, industry, markets: selectedMarkets, manualSourceFields, tiledAnalysis,
     onShowLogin: () => setShowLoginModal(true),
     onError: setErrorMessage,
     onUserUpdate: setUser
@@ -241,7 +266,7 @@ const App: React.FC = () => {
         try {
           const ocrResult = await extractOcrOnly(img.base64, img.file.type);
           setImages(prev => prev.map(image =>
-            image.id === img.id ? { ...image, ocrText: ocrResult.ocrText } : image
+            image.id === img.id ? { ...image, ocrText: ocrResult.ocrText, ocrLines: ocrResult.ocrLines } : image
           ));
         } catch (error) {
           console.error(`Failed to extract OCR for image ${img.id}:`, error);
@@ -250,6 +275,48 @@ const App: React.FC = () => {
     })();
   }, [analysisMode, images, isProcessing]);
 
+  // 本地扫描条码（不消耗配额、不同步云端）：覆盖从云端加载和仅 OCR 上传的图片，新上传的图片在分析时已扫描
+  const scanningBarcodeIds = useRef(new Set<string>());
+  useEffect(() => {
+    const imagesNeedScan = images.filter(img => img.base64 && !img.barcodes && !scanningBarcodeIds.current.has(img.id));
+    if (imagesNeedScan.length === 0) return;
+    imagesNeedScan.forEach(img => scanningBarcodeIds.current.add(img.id));
+
+    (async () => {
+      for (const img of imagesNeedScan) {
+        let barcodes: BarcodeResult[] = [];
+        try {
+          barcodes = await scanBarcodes(img.base64, img.file.type);
+        } catch (error) {
+          console.error(`Failed to scan barcodes for image ${img.id}:`, error);
+        }
+        scanningBarcodeIds.current.delete(img.id);
+        setImages(prev => prev.map(image =>
+          image.id === img.id ? { ...image, barcodes } : image
+        ));
+      }
+    })();
+  }, [images]);
+
+  // 当前图片的条码问题；QIL 中的 GTIN 是否缺失按整个产品判断（所有图片扫描完成后）
+  const barcodeIssues: BarcodeIssue[] = useMemo(() => {
+    if (!currentImage?.barcodes) return [];
+    const allScanned = images.every(img => img.barcodes || !img.base64);
+    return checkBarcodes(currentImage.barcodes, {
+      ocrText: currentImage.ocrText,
+      sourceFields: manualSourceFields,
+      productBarcodes: allScanned ? images.flatMap(img => img.barcodes || []) : undefined
+    });
+  }, [currentImage, images, manualSourceFields]);
+
+  // 多模型共识：合并当前图片所选模型的 AI 建议（正在分析中的模型不参与）
+  const consensusIssues: ConsensusIssue[] = useMemo(() => {
+    if (!currentImage) return [];
+    const modelIds = (currentImage.consensusModels || Object.keys(currentImage.issuesByModel || {}))
+      .filter(modelId => !(processingImageId === currentImage.id && processingModelId === modelId));
+    return modelIds.length > 1 ? mergeConsensusIssues(currentImage.issuesByModel, modelIds) : [];
+  }, [currentImage, processingImageId, processingModelId]);
+
   // 检查登录状态 (只使用 Better Auth)
   useEffect(() => {
     const checkAuth = async () => {
@@ -363,6 +430,9 @@ const App: React.FC = () => {
                   file: new File([blob], cloudImg.fileName, { type: cloudImg.mimeType }),
                   description: cloudImg.description,
                   ocrText: cloudImg.ocrText,
+                  ocrLines: cloudImg.ocrLines,
+                  ocrSource: cloudImg.ocrSource,
+                  revisionOf: cloudImg.revisionOf,
                   specs: cloudImg.specs || [],
                   issues: cloudImg.issues || [],
                   deterministicIssues: cloudImg.deterministicIssues || [],
@@ -375,6 +445,7 @@ const App: React.FC = () => {
             setImages(loadedImages);
           }
           setManualSourceFields(session.qilFields || []);
+          setAllowList(session.allowList || []);
           console.log(`Loaded ${cloudImages.length} images from cloud`);
         }
 
@@ -397,6 +468,43 @@ const App: React.FC = () => {
     loadCloudData();
   }, [user, cloudSyncEnabled]);
 
+  // 用户登录后加载自定义词库（与内置词库合并后参与检测）；退出或切换账号时先清空上一个用户的规则
+  useEffect(() => {
+    setCustomLexiconEntries([]);
+    setCustomLexiconVersions([]);
+    if (!user) return;
+    let cancelled = false;
+    listCustomLexicon().then(rows => { if (!cancelled) setCustomLexiconEntries(rows.map(row => row.entry)); });
+    listLexiconVersions().then(versions => { if (!cancelled) setCustomLexiconVersions(getLatestScopeVersions(versions)); });
+    return () => { cancelled = true; };
+  }, [user?.uid]);
+
+  // 用户登录后加载模型供应商注册表（失败时保留内置供应商）
+  const handleModelProvidersChange = useCallback((providers: ModelProvider[]) => {
+    setModelProviders(providers);
+    setAvailableModels(getAvailableModels());
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    listModelProviders().then(result => {
+      if (result) handleModelProvidersChange(result.providers);
+    });
+  }, [user?.uid, handleModelProvidersChange]);
+
+  // 白名单参与后续词库匹配
+  useEffect(() => {
+    setSessionAllowList(allowList);
+  }, [allowList]);
+
+  const handleAllowListChange = useCallback(async (phrases: string[]) => {
+    setAllowList(phrases);
+    if (cloudSyncEnabled && sessionId && user) {
+      const saved = await saveSessionAllowList(sessionId, phrases);
+      if (!saved) console.error('Failed to save allow list');
+    }
+  }, [cloudSyncEnabled, sessionId, user]);
+
   // 切换到产品列表时刷新数据
   useEffect(() => {
     if (currentView === 'products' && user && !isLoadingHistory) {
@@ -409,13 +517,6 @@ const App: React.FC = () => {
     }
   }, [currentView, user]);
 
-  // Check for API Key on mount
-  useEffect(() => {
-    if (!import.meta.env.VITE_PACKY_API_KEY) {
-      setErrorMessage("Missing VITE_PACKY_API_KEY in .env.local");
-    }
-  }, []);
-
   const handleCopy = async (text: string, id: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -427,7 +528,7 @@ const App: React.FC = () => {
   };
 
   // --- Handlers ---
-  const handleImageUpload = useCallback(async (file: File) => {
+  const handleImageUpload = useCallback(async (file: File, textLayer?: TextLayer, preflight?: PreflightIssue[]) => {
     // 立即创建占位图片，快速显示预览
     const placeholderId = `img-${Date.now()}`;
     const url = URL.createObjectURL(file);
@@ -439,7 +540,8 @@ const App: React.FC = () => {
       specs: [],
       issues: [],
       diffs: [],
-      issuesByModel: {}
+      issuesByModel: {},
+      preflight
     };
 
     // 立即添加图片并选中
@@ -449,16 +551,49 @@ const App: React.FC = () => {
     });
 
     // 后台进行 AI 分析，传入占位 ID
-    const result = await processFile(file, images, currentModel, placeholderId);
+    const result = await processFile(file, images, currentModel, placeholderId, textLayer);
     if (result) {
       // 用分析结果替换占位图片
-      setImages(prev => prev.map(img => img.id === placeholderId ? result : img));
+      setImages(prev => prev.map(img => img.id === placeholderId ? { ...result, preflight } : img));
     } else {
       // 分析失败，移除占位图片
       setImages(prev => prev.filter(img => img.id !== placeholderId));
     }
   }, [processFile, images, currentModel]);
 
+  // PDF：逐页栅格化，每页作为一张图片依次分析（有文字层的页面用文字层替代模型 OCR）
+  const handlePdfUpload = useCallback(async (file: File) => {
+    if (!user) { setShowLoginModal(true); return; }
+    const remaining = MAX_PDF_PAGES - images.length;
+    if (remaining <= 0) {
+      setErrorMessage('每个产品最多支持 30 张图片');
+      return;
+    }
+
+    setErrorMessage('正在解析 PDF...');
+    let result: Awaited<ReturnType<typeof rasterizePdf>>;
+    try {
+      result = await rasterizePdf(file, remaining, (done, total) => setErrorMessage(`正在解析 PDF（${done}/${total} 页）...`));
+    } catch (e: any) {
+      console.error('PDF rasterize failed:', e);
+      setErrorMessage(e.message || 'PDF 解析失败');
+      return;
+    }
+    setErrorMessage(result.totalPages > result.pages.length
+      ? `PDF 共 ${result.totalPages} 页，已导入前 ${result.pages.length} 页（每个产品最多 30 张图片）`
+      : null);
+
+    for (const page of result.pages) {
+      await handleImageUpload(page.file, page.textLayer, page.preflight);
+    }
+  }, [user, images, handleImageUpload]);
+
+  // 上传入口：PDF 按页导入，其余按图片处理
+  const handleFileUpload = useCallback((file: File) => {
+    if (isPdfFile(file)) handlePdfUpload(file);
+    else handleImageUpload(file);
+  }, [handlePdfUpload, handleImageUpload]);
+
   // 仅 OCR 提取（参数对比模式专用，不做完整分析）
   const handleOcrOnlyUpload = useCallback(async (file: File) => {
     if (!user) { setShowLoginModal(true); return; }
@@ -482,19 +617,11 @@ const App: React.FC = () => {
       try {
         const ocrResult = await extractOcrOnly(base64, file.type);
         setImages(prev => prev.map(img =>
-          img.id === placeholderId ? { ...img, ocrText: ocrResult.ocrText, description: '已提取文字' } : img
+          img.id === placeholderId ? { ...img, ocrText: ocrResult.ocrText, ocrLines: ocrResult.ocrLines, description: '已提取文字' } : img
         ));
-        // 消耗配额
-        if (ocrResult.tokenUsage) {
-          await useQuotaFirebase(user.uid, 1, file.name, 'ocr', {
-            promptTokens: ocrResult.tokenUsage.promptTokens,
-            completionTokens: ocrResult.tokenUsage.completionTokens,
-            totalTokens: ocrResult.tokenUsage.totalTokens,
-            model: ocrResult.tokenUsage.model
-          });
-          const updatedUser = await getUserData(user.uid);
-          if (updatedUser) setUser(updatedUser);
-        }
+        // 配额由 Worker AI 代理扣减，刷新用户数据
+        const updatedUser = await getUserData(user.uid);
+        if (updatedUser) setUser(updatedUser);
       } catch (error: any) {
         setErrorMessage(error.message || 'OCR 提取失败');
         setImages(prev => prev.filter(img => img.id !== placeholderId));
@@ -520,6 +647,28 @@ const App: React.FC = () => {
     }
   }, [images, addModelAnalysis]);
 
+  // 共识模式：依次运行尚未分析过的所选模型（模型 ID 为全局状态，不能并行），完成后切到共识 tab
+  const handleRunConsensus = useCallback(async (imageId: string, modelIds: string[]) => {
+    let image = images.find(img => img.id === imageId);
+    if (!image) return;
+    setImages(prev => prev.map(img => img.id === imageId ? { ...img, consensusModels: modelIds } : img));
+    for (const modelId of modelIds) {
+      if (image.issuesByModel?.[modelId]) continue;
+      const imageBefore: ImageItem = image;
+      setImages(prev => prev.map(img =>
+        img.id === imageId ? { ...img, issuesByModel: { ...img.issuesByModel, [modelId]: { issues: [], deterministicIssues: [] } } } : img
+      ));
+      const result = await addModelAnalysis(imageBefore, modelId);
+      if (!result) {
+        setImages(prev => prev.map(img => img.id === imageId ? { ...img, issuesByModel: imageBefore.issuesByModel } : img));
+        return;
+      }
+      image = { ...imageBefore, issuesByModel: result };
+      setImages(prev => prev.map(img => img.id === imageId ? { ...img, issuesByModel: result } : img));
+    }
+    setActiveModelTab(CONSENSUS_TAB_ID);
+  }, [images, addModelAnalysis]);
+
   const handleUpdateQilFields = useCallback(async (fields: SourceField[], rawText: string) => {
     setManualSourceFields(fields);
     setQilRawText(rawText); // 保存原文
@@ -543,10 +692,10 @@ const App: React.FC = () => {
           try {
             const ocrResult = await extractOcrOnly(img.base64, img.file.type);
             setImages(prev => prev.map(image =>
-              image.id === img.id ? { ...image, ocrText: ocrResult.ocrText } : image
+              image.id === img.id ? { ...image, ocrText: ocrResult.ocrText, ocrLines: ocrResult.ocrLines } : image
             ));
             if (cloudSyncEnabled && sessionId && user) {
-              await updateImageInCloud(user.uid, sessionId, img.id, { ocrText: ocrResult.ocrText });
+              await updateImageInCloud(user.uid, sessionId, img.id, { ocrText: ocrResult.ocrText, ocrLines: ocrResult.ocrLines });
             }
           } catch (error) {
             console.error(`Failed to extract OCR for image ${img.id}:`, error);
@@ -573,7 +722,10 @@ const App: React.FC = () => {
   }, []);
 
   const handleRemoveImage = useCallback(async (id: string) => {
-    setImages(prev => prev.filter(i => i.id !== id));
+    // 以被删图片为上一版的修订关联一并解除（云端由删除接口处理）
+    setImages(prev => prev
+      .filter(i => i.id !== id)
+      .map(i => i.revisionOf === id ? { ...i, revisionOf: undefined } : i));
     if (currentImageIndex >= images.length - 1 && currentImageIndex > 0) {
       setCurrentImageIndex(currentImageIndex - 1);
     }
@@ -589,6 +741,17 @@ const App: React.FC = () => {
     }
   }, [currentImageIndex, images.length, cloudSyncEnabled, sessionId, user]);
 
+  // 标记当前图片为某张图片的修订版（previousId 为空时取消关联）
+  const handleSetRevision = useCallback(async (imageId: string, previousId?: string) => {
+    setImages(prev => prev.map(img => img.id === imageId ? { ...img, revisionOf: previousId } : img));
+    setShowRevisionMenu(false);
+
+    if (cloudSyncEnabled && sessionId && user) {
+      const saved = await saveImageRevision(imageId, previousId || null);
+      if (!saved) setErrorMessage('修订关联保存失败');
+    }
+  }, [cloudSyncEnabled, sessionId, user]);
+
   const handleReset = useCallback(async () => {
     setImages([]);
     setCurrentImageIndex(0);
@@ -645,6 +808,9 @@ const App: React.FC = () => {
                 file: new File([blob], cloudImg.fileName, { type: cloudImg.mimeType }),
                 description: cloudImg.description,
                 ocrText: cloudImg.ocrText,
+                ocrLines: cloudImg.ocrLines,
+                ocrSource: cloudImg.ocrSource,
+                revisionOf: cloudImg.revisionOf,
                 specs: cloudImg.specs || [],
                 issues: cloudImg.issues || [],
                 deterministicIssues: cloudImg.deterministicIssues || [],
@@ -659,6 +825,7 @@ const App: React.FC = () => {
         }
 
         setManualSourceFields(session.qilFields || []);
+        setAllowList(session.allowList || []);
         setCurrentImageIndex(0);
       }
     } catch (error) {
@@ -683,6 +850,7 @@ const App: React.FC = () => {
       setProductName(newName);
       setImages([]);
       setManualSourceFields([]);
+      setAllowList([]);
       setCurrentImageIndex(0);
 
       // 刷新历史列表
@@ -754,6 +922,9 @@ const App: React.FC = () => {
       if (marketMenuRef.current && !marketMenuRef.current.contains(event.target as Node)) {
         setShowMarketMenu(false);
       }
+      if (revisionMenuRef.current && !revisionMenuRef.current.contains(event.target as Node)) {
+        setShowRevisionMenu(false);
+      }
     };
 
     document.addEventListener('mousedown', handleClickOutside);
@@ -800,11 +971,11 @@ const App: React.FC = () => {
     const files = Array.from(e.dataTransfer.files || []) as File[];
     files.forEach(file => {
       const isHeic = file.name.toLowerCase().endsWith('.heic') || file.name.toLowerCase().endsWith('.heif');
-      if (file.type.startsWith('image/') || isHeic) {
-        handleImageUpload(file);
+      if (file.type.startsWith('image/') || isHeic || isPdfFile(file)) {
+        handleFileUpload(file);
       }
     });
-  }, [handleImageUpload]);
+  }, [handleFileUpload]);
 
   // Resize handler for bottom panel
   const handleResizeStart = useCallback((e: React.MouseEvent) => {
@@ -855,6 +1026,27 @@ const App: React.FC = () => {
 
   const isCurrentProcessing = currentImage && processingImageId === currentImage.id;
 
+  // 词库 / 确定性命中在图片上的区域（由 OCR 行框推算，已忽略的词库命中不显示）
+  const locatedTextIssues: Array<{ id: string; kind: 'lexicon' | 'deterministic' | 'barcode' | 'preflight'; label: string; severity: string; box_2d: BoundingBox }> = useMemo(() => {
+    if (!currentImage) return [];
+    const tabData = currentImage.issuesByModel?.[resolveResultModel(activeModelTab, currentImage.issuesByModel)];
+    const lexiconIssues: LexiconIssue[] = applyAllowListToIssues(tabData?.lexiconIssues || [], allowList, currentImage.ocrText);
+    return [
+      ...(tabData?.deterministicIssues || currentImage.deterministicIssues || [])
+        .filter(issue => issue.box_2d)
+        .map(issue => ({ id: issue.id, kind: 'deterministic' as const, label: issue.description, severity: issue.severity, box_2d: issue.box_2d! })),
+      ...lexiconIssues
+        .filter(issue => issue.box_2d && !issue.suppressed)
+        .map(issue => ({ id: issue.id, kind: 'lexicon' as const, label: `${issue.ruleHits?.[0]?.id || ''} ${issue.original}`.trim(), severity: issue.severity, box_2d: issue.box_2d! })),
+      ...barcodeIssues
+        .filter(issue => issue.box_2d)
+        .map(issue => ({ id: issue.id, kind: 'barcode' as const, label: issue.code, severity: issue.severity, box_2d: issue.box_2d! })),
+      ...(currentImage.preflight || [])
+        .filter(issue => issue.box_2d)
+        .map(issue => ({ id: issue.id, kind: 'preflight' as const, label: ISSUE_TYPE_LABELS[issue.type], severity: issue.severity, box_2d: issue.box_2d! }))
+    ];
+  }, [currentImage, activeModelTab, allowList, barcodeIssues]);
+
   // 加载中状态
   if (isCheckingAuth) {
     return (
@@ -930,6 +1122,17 @@ const App: React.FC = () => {
         onClose={() => setShowAnnouncementModal(false)}
       />
 
+      {/* 修订版对比 */}
+      {showRevisionCompare && currentImage && revisionBase && (
+        <RevisionCompareView
+          previous={revisionBase}
+          current={currentImage}
+          modelId={resolveResultModel(activeModelTab, currentImage.issuesByModel)}
+          allowList={allowList}
+          onClose={() => setShowRevisionCompare(false)}
+        />
+      )}
+
       {/* TOP BAR - 分析视图显示 */}
       {currentView === 'analysis' && (
       <div className="border-b border-border bg-white shrink-0 relative z-50">
@@ -1050,6 +1253,16 @@ const App: React.FC = () => {
                   </div>
                 )}
               </div>
+              <button
+                onClick={toggleTiledAnalysis}
+                className={`flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-full transition-colors ${
+                  tiledAnalysis ? 'bg-surface-100 text-text-primary font-medium' : 'text-text-secondary hover:bg-surface-50'
+                }`}
+                title="大幅面刀版图切成重叠分块分别分析，识别小字号法规文字（按分块数计费）"
+              >
+                <Grid3x3 size={12} />
+                <span>高清分块</span>
+              </button>
             </div>
           )}
           {analysisMode === 'comparison' && <div />}
@@ -1086,6 +1299,54 @@ const App: React.FC = () => {
               <Maximize2 size={13} />
               <span>重置</span>
             </button>
+            {images.length > 1 && (
+              <div ref={revisionMenuRef} className="relative">
+                <button
+                  onClick={() => setShowRevisionMenu(!showRevisionMenu)}
+                  className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs transition-colors ${revisionBase ? 'bg-surface-100 text-text-primary' : 'text-text-muted hover:bg-surface-50'}`}
+                  title="标记当前图片是哪一版设计稿的修订"
+                >
+                  <GitCompare size={13} />
+                  <span className="truncate max-w-[140px]">{revisionBase ? `修订自 ${revisionBase.file.name}` : '标记为修订版'}</span>
+                  <ChevronDown size={12} className={`transition-transform ${showRevisionMenu ? 'rotate-180' : ''}`} />
+                </button>
+                {showRevisionMenu && (
+                  <div className="absolute top-full left-0 mt-1 bg-white rounded-lg shadow-lg overflow-hidden z-[100] border border-border min-w-[180px] max-h-[280px] overflow-y-auto py-1">
+                    {images
+                      .filter(img => img.id !== currentImage.id && !isInRevisionChain(images, img.id, currentImage.id))
+                      .map(img => (
+                        <button
+                          key={img.id}
+                          onClick={() => handleSetRevision(currentImage.id, img.id)}
+                          className={`w-full px-3 py-1.5 text-left text-xs flex items-center justify-between gap-2 transition-colors ${
+                            revisionBase?.id === img.id ? 'bg-surface-100 text-text-primary font-medium' : 'text-text-secondary hover:bg-surface-50'
+                          }`}
+                        >
+                          <span className="truncate max-w-[200px]">{img.file.name}</span>
+                          {revisionBase?.id === img.id && <Check size={12} className="text-text-primary" />}
+                        </button>
+                      ))}
+                    {revisionBase && (
+                      <button
+                        onClick={() => handleSetRevision(currentImage.id)}
+                        className="w-full px-3 py-1.5 text-left text-xs text-text-muted hover:bg-surface-50 border-t border-border transition-colors"
+                      >
+                        取消关联
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+            {revisionBase && (
+              <button
+                onClick={() => setShowRevisionCompare(true)}
+                className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs text-text-primary bg-surface-100 hover:bg-surface-200 transition-colors"
+              >
+                <Eye size={13} />
+                <span>对比上一版</span>
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -1142,9 +1403,13 @@ const App: React.FC = () => {
           }}
         />
       ) : currentView === 'detection-config' ? (
-        <DetectionConfigPage onBack={() => setCurrentView('products')} />
+        <DetectionConfigPage onBack={() => setCurrentView('products')} onModelProvidersChange={handleModelProvidersChange} />
       ) : currentView === 'batch-report' ? (
         <BatchReportPage
+          user={user}
+          onUserUpdate={setUser}
+          industry={industry}
+          markets={selectedMarkets}
           onBack={() => setCurrentView('products')}
           onViewReport={(id) => { setSelectedReportId(id); setCurrentView('batch-view'); }}
         />
@@ -1192,9 +1457,9 @@ const App: React.FC = () => {
           <label className="md:hidden flex items-center justify-center gap-1.5 px-3 py-2 mb-2 bg-text-primary hover:bg-text-secondary text-white text-xs font-medium rounded-md cursor-pointer transition-colors">
             <ImagePlus size={14} />
             <span>添加图片</span>
-            <input type="file" accept="image/*" className="hidden" onChange={(e) => {
+            <input type="file" accept="image/*,application/pdf,.pdf,.ai" className="hidden" onChange={(e) => {
               if (e.target.files?.[0]) {
-                handleImageUpload(e.target.files[0]);
+                handleFileUpload(e.target.files[0]);
                 setMobileTab('viewer');
               }
             }} />
@@ -1239,7 +1504,7 @@ const App: React.FC = () => {
           <label className="hidden md:flex items-center justify-center gap-1.5 px-3 py-2 mt-2 bg-text-primary hover:bg-text-secondary text-white text-xs font-medium rounded-md cursor-pointer transition-colors">
             <ImagePlus size={14} />
             <span>添加</span>
-            <input type="file" accept="image/*" className="hidden" onChange={(e) => e.target.files?.[0] && handleImageUpload(e.target.files[0])} />
+            <input type="file" accept="image/*,application/pdf,.pdf,.ai" className="hidden" onChange={(e) => e.target.files?.[0] && handleFileUpload(e.target.files[0])} />
           </label>
         </div>
 
@@ -1305,7 +1570,7 @@ const App: React.FC = () => {
                     </>
                   )}
 
-                  {showOverlay && !isCurrentProcessing && (currentImage.issuesByModel?.[activeModelTab]?.issues || currentImage.issues).map(issue => (
+                  {showOverlay && !isCurrentProcessing && (activeModelTab === CONSENSUS_TAB_ID ? consensusIssues : currentImage.issuesByModel?.[activeModelTab]?.issues || currentImage.issues).map(issue => (
                     issue.box_2d && (
                       <div
                         key={issue.id}
@@ -1325,6 +1590,26 @@ const App: React.FC = () => {
                       </div>
                     )
                   ))}
+
+                  {/* 词库 / 确定性命中（虚线框，与 AI 问题区分） */}
+                  {showOverlay && !isCurrentProcessing && locatedTextIssues.map(issue => (
+                    <div
+                      key={issue.id}
+                      onClick={() => setSelectedIssueId(issue.id)}
+                      className={`absolute rounded-sm cursor-pointer transition-all ${
+                        selectedIssueId === issue.id
+                          ? 'border-2 border-text-primary bg-text-primary/20 shadow-[0_0_20px_rgba(24,24,27,0.3)] z-10'
+                          : issue.severity === 'high'
+                            ? 'border-2 border-dashed border-red-500 bg-red-500/10 hover:bg-red-500/30'
+                            : 'border-2 border-dashed border-amber-400 bg-amber-400/10 hover:bg-amber-400/30'
+                      }`}
+                      style={getStyleForBox(issue.box_2d)}
+                    >
+                      <div className={`absolute -top-8 left-1/2 -translate-x-1/2 bg-white text-text-primary text-[10px] px-2 py-1 rounded shadow-lg whitespace-nowrap pointer-events-none border border-border transition-opacity ${selectedIssueId === issue.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+                        {issue.kind === 'lexicon' ? '词库' : issue.kind === 'barcode' ? '条码' : issue.kind === 'preflight' ? '印前' : '规则'} · {issue.label}
+                      </div>
+                    </div>
+                  ))}
                 </div>
               </div>
 
@@ -1375,9 +1660,9 @@ const App: React.FC = () => {
               >
                 <span className="relative z-10">选择文件</span>
                 <div className="absolute inset-0 bg-gradient-to-r from-text-primary via-text-secondary to-text-primary bg-[length:200%_100%] animate-[shimmer_2s_ease-in-out_infinite]" />
-                <input type="file" accept="image/*" className="hidden" onChange={(e) => e.target.files?.[0] && handleImageUpload(e.target.files[0])} />
+                <input type="file" accept="image/*,application/pdf,.pdf,.ai" className="hidden" onChange={(e) => e.target.files?.[0] && handleFileUpload(e.target.files[0])} />
               </label>
-              <span className="text-text-muted text-sm mt-4">点击空白粘贴 · Ctrl+V · 拖拽上传</span>
+              <span className="text-text-muted text-sm mt-4">点击空白粘贴 · Ctrl+V · 拖拽上传（支持 PDF）</span>
               {!user && <span className="text-text-muted text-xs mt-2">需要先登录</span>}
             </div>
           )}
@@ -1396,9 +1681,13 @@ const App: React.FC = () => {
           onSelectIssue={setSelectedIssueId}
           copiedId={copiedId}
           onCopy={handleCopy}
+          allowList={allowList}
+          onAllowListChange={handleAllowListChange}
+          barcodeIssues={barcodeIssues}
           mobileTab={mobileTab}
           issueListRef={issueListRef}
           currentModelId={currentModel}
+          availableModels={availableModels}
           onAddModel={(modelId) => currentImage && handleAddModelAnalysis(currentImage.id, modelId)}
           onRemoveModel={async (modelId) => {
             if (!currentImage) return;
@@ -1414,6 +1703,8 @@ const App: React.FC = () => {
           }}
           activeModelTab={activeModelTab}
           onActiveModelChange={setActiveModelTab}
+          consensusIssues={consensusIssues}
+          onRunConsensus={(modelIds) => currentImage && handleRunConsensus(currentImage.id, modelIds)}
         />
       </div>
       )}
@@ -1452,8 +1743,9 @@ const App: React.FC = () => {
           <AlertTriangle size={18} />
           <span className="text-[9px] font-medium">问题</span>
           {currentImage && (() => {
-            const modelData = currentImage.issuesByModel?.[activeModelTab];
-            const count = (modelData?.issues?.length || currentImage.issues.length) + (modelData?.deterministicIssues?.length || currentImage.deterministicIssues?.length || 0);
+            const modelData = currentImage.issuesByModel?.[resolveResultModel(activeModelTab, currentImage.issuesByModel)];
+            const aiCount = activeModelTab === CONSENSUS_TAB_ID ? consensusIssues.length : modelData?.issues?.length || currentImage.issues.length;
+            const count = aiCount + (modelData?.deterministicIssues?.length || currentImage.deterministicIssues?.length || 0);
             return count > 0 && (
               <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 bg-error text-white text-[8px] rounded-full flex items-center justify-center">
                 {count}
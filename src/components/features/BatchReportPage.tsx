@@ -1,9 +1,14 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Loader2, X, FileText, Clock, CheckCircle, AlertCircle, Eye, Play } from 'lucide-react';
-import { listBatchReports, createBatchReport, uploadImageToBatchReport, updateBatchReportImage, updateBatchReportStatus, BatchReport, useQuota, getBatchReport, getBatchReportImageData } from '../../services/cloudflare';
-import { analyzeImageWithCustomPrompt, runDeterministicChecks } from '../../services/openaiService';
+import { listBatchReports, createBatchReport, uploadImageToBatchReport, updateBatchReportImage, updateBatchReportStatus, BatchReport, getBatchReport, getBatchReportImageData, getUserData, UserData } from '../../services/cloudflare';
+import { analyzeImageWithCustomPrompt, needsLocalOcr, runDeterministicChecks } from '../../services/openaiService';
+import { IndustryType, MarketType } from '../../types/types';
 
 interface BatchReportPageProps {
+  user: UserData | null;
+  onUserUpdate: (user: UserData) => void;
+  industry: IndustryType;     // 本地规则按当前会话的行业 / 市场运行
+  markets: MarketType[];
   onBack: () => void;
   onViewReport: (reportId: string) => void;
 }
@@ -15,7 +20,7 @@ const statusConfig = {
   failed: { icon: AlertCircle, label: '失败', color: 'text-red-500' }
 };
 
-export const BatchReportPage: React.FC<BatchReportPageProps> = ({ onBack, onViewReport }) => {
+export const BatchReportPage: React.FC<BatchReportPageProps> = ({ user, onUserUpdate, industry, markets, onBack, onViewReport }) => {
   const [uploadedImages, setUploadedImages] = useState<File[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -108,20 +113,9 @@ export const BatchReportPage: React.FC<BatchReportPageProps> = ({ onBack, onView
           const imageData = await getBatchReportImageData(reportId, img.imageId);
           if (!imageData) throw new Error('无法获取图片数据');
 
-          const aiResult = await analyzeImageWithCustomPrompt(imageData.base64, imageData.mimeType, '', false);
-          const deterministicIssues = runDeterministicChecks(aiResult.ocrText);
-
-          const result = {
-            description: aiResult.description,
-            ocrText: aiResult.ocrText,
-            issues: aiResult.issues,
-            deterministicIssues,
-            specs: aiResult.specs,
-            tokenUsage: aiResult.tokenUsage
-          };
+          const result = await analyzeBatchImage(imageData.base64, imageData.mimeType);
 
           await updateBatchReportImage(reportId, img.imageId, 'completed', result);
-          await useQuota('batch_analysis', `image_${img.imageId}`, 1);
         } catch (error) {
           await updateBatchReportImage(reportId, img.imageId, 'failed', { error: error instanceof Error ? error.message : 'Unknown error' });
         }
@@ -130,6 +124,7 @@ export const BatchReportPage: React.FC<BatchReportPageProps> = ({ onBack, onView
       });
 
       await Promise.all(analyzePromises);
+      await refreshUser();
 
       // 更新报告状态为 completed
       await updateBatchReportStatus(reportId, 'completed', images.length);
@@ -141,6 +136,28 @@ export const BatchReportPage: React.FC<BatchReportPageProps> = ({ onBack, onView
     }
   };
 
+  // 单张分析：AI 结果之后按会话的行业 / 市场在 OCR 原文上运行本地规则
+  const analyzeBatchImage = async (base64: string, mimeType: string) => {
+    const aiResult = await analyzeImageWithCustomPrompt(base64, mimeType, '', needsLocalOcr(industry, markets));
+    const deterministicIssues = runDeterministicChecks(aiResult.ocrText, industry, markets, aiResult.specs, aiResult.ocrLines);
+
+    return {
+      description: aiResult.description,
+      ocrText: aiResult.ocrText,
+      issues: aiResult.issues,
+      deterministicIssues,
+      specs: aiResult.specs,
+      tokenUsage: aiResult.tokenUsage
+    };
+  };
+
+  // 配额已由 Worker AI 代理按实际 token 扣减，这里只刷新用户数据
+  const refreshUser = async () => {
+    if (!user) return;
+    const updatedUser = await getUserData(user.uid);
+    if (updatedUser) onUserUpdate(updatedUser);
+  };
+
   const startAnalysis = async () => {
     if (uploadedImages.length === 0) return;
     setIsAnalyzing(true);
@@ -167,21 +184,9 @@ export const BatchReportPage: React.FC<BatchReportPageProps> = ({ onBack, onView
       const analyzePromises = uploadedItems.map(async ({ imageId, file }) => {
         try {
           const { base64, mimeType } = await fileToBase64(file);
-          const aiResult = await analyzeImageWithCustomPrompt(base64, mimeType, '', false);
-          const deterministicIssues = runDeterministicChecks(aiResult.ocrText);
-
-          const result = {
-            description: aiResult.description,
-            ocrText: aiResult.ocrText,
-            issues: aiResult.issues,
-            deterministicIssues,
-            specs: aiResult.specs,
-            tokenUsage: aiResult.tokenUsage
-          };
+          const result = await analyzeBatchImage(base64, mimeType);
 
           await updateBatchReportImage(report.id, imageId, 'completed', result);
-          // 扣减额度
-          await useQuota('batch_analysis', file.name, 1);
         } catch (error) {
           await updateBatchReportImage(report.id, imageId, 'failed', { error: error instanceof Error ? error.message : 'Unknown error' });
         }
@@ -190,6 +195,7 @@ export const BatchReportPage: React.FC<BatchReportPageProps> = ({ onBack, onView
       });
 
       await Promise.all(analyzePromises);
+      await refreshUser();
 
       // 4. 更新报告状态为 completed
       await updateBatchReportStatus(report.id, 'completed', uploadedItems.length);
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { ArrowLeft, Loader2, ChevronDown, ChevronRight, Download, FileSpreadsheet, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
 import { getBatchReport, BatchReport, BatchReportImage } from '../../services/cloudflare';
+import { ISSUE_TYPE_LABELS, IssueType } from '../../types/types';
 
 interface BatchReportViewProps {
   reportId: string;
@@ -49,7 +50,7 @@ export const BatchReportView: React.FC<BatchReportViewProps> = ({ reportId, onBa
           rows.push([
             idx === 0 ? img.imageId.slice(0, 8) : '',
             idx === 0 ? '有问题' : '',
-            issue.type || '未分类',
+            ISSUE_TYPE_LABELS[issue.type as IssueType] || issue.type || '未分类',
             issue.problem || '',
             issue.suggestion || ''
           ]);
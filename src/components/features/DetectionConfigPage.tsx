@@ -1,11 +1,28 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { BookOpen, Search, Plus, Edit2, Trash2, X, Download, MoreHorizontal, Link2, Copy, Check } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { BookOpen, ListChecks, Search, Plus, Edit2, Trash2, X, Download, Upload, MoreHorizontal, Link2, Copy, Check, AlertTriangle, History, ChevronDown, Cpu, RotateCcw } from 'lucide-react';
 import lexiconData from '../../../data/lexicon.json';
-import { getLexiconStats, type LexiconEntry } from '../../services/lexiconService';
+import {
+  getLexiconStats, getBuiltinLexicon, mergeLexicon, setCustomLexiconEntries, setCustomLexiconVersions, getLatestScopeVersions,
+  getLexiconVersion, composeLexiconChanges, diffLexiconEntryFields, runLexiconFixtures,
+  type LexiconEntry, type LexiconException, type LexiconChange, type LexiconFixtures, type LexiconFixtureResult
+} from '../../services/lexiconService';
+import { parseLexiconFile, serializeLexiconCsv, serializeLexiconJson, type LexiconImportReport } from '../../services/lexiconImportService';
+import {
+  listCustomLexicon, saveCustomLexiconEntry, importCustomLexiconEntries, deleteCustomLexiconEntry, listTeams, listLexiconVersions,
+  listModelProviders, saveModelProvider, deleteModelProvider,
+  type CustomLexiconEntry, type Team, type LexiconVersion
+} from '../../services/cloudflare';
+import {
+  getDeterministicRules, loadDeterministicRuleSettings, saveDeterministicRuleSettings, isDeterministicRuleEnabled,
+  type DeterministicRule, type DeterministicRuleSetting
+} from '../../services/deterministicRuleService';
+import { getModelProviders, validateModelProvider, MODEL_PROVIDER_TEMPLATE, type ModelProvider } from '../../services/modelRegistryService';
+import { MARKET_LABELS, type MarketType } from '../../types/types';
 import { Pagination } from '../ui/pagination';
 
 interface DetectionConfigPageProps {
   onBack: () => void;
+  onModelProvidersChange?: (providers: ModelProvider[]) => void;
 }
 
 const STORAGE_KEY = 'packverify_custom_prompt';
@@ -84,6 +101,12 @@ const createEmptyLexiconEntry = (domain?: string | null): LexiconEntry => ({
   sourceUrl: ''
 });
 
+const EXCEPTION_TYPE_LABELS: Record<LexiconException['type'], string> = {
+  followed_by: '后接',
+  preceded_by: '前接',
+  inside_phrase: '位于短语内'
+};
+
 const DEFAULT_PROMPT = `你是一个专业的印刷品质量检测专家。请仔细检查图片中的以下问题：
 
 1. 文字错误：错别字、漏字、多字
@@ -94,17 +117,39 @@ const DEFAULT_PROMPT = `你是一个专业的印刷品质量检测专家。请
 
 请用中文回复，列出发现的所有问题。`;
 
-export const DetectionConfigPage: React.FC<DetectionConfigPageProps> = ({ onBack }) => {
+export const DetectionConfigPage: React.FC<DetectionConfigPageProps> = ({ onBack, onModelProvidersChange }) => {
   const [enabled, setEnabled] = useState(false);
   const [prompt, setPrompt] = useState('');
 
-  // 词库管理状态
-  const [lexiconEntries, setLexiconEntries] = useState<LexiconEntry[]>(lexiconData.entries as LexiconEntry[]);
+  // 词库管理状态（内置词库 + 云端自定义规则）
+  const [customRows, setCustomRows] = useState<CustomLexiconEntry[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const lexiconEntries = useMemo(
+    () => mergeLexicon(getBuiltinLexicon(), customRows.map(row => row.entry)).filter(entry => !entry.disabled),
+    [customRows]
+  );
+  const customScopes = useMemo(() => {
+    return customRows.reduce<Record<string, CustomLexiconEntry>>((acc, row) => {
+      acc[row.entry.id] = row;
+      return acc;
+    }, {});
+  }, [customRows]);
   const [lexiconSearch, setLexiconSearch] = useState('');
   const [activeLexiconDomain, setActiveLexiconDomain] = useState<string | null>(null);
   const [editingEntry, setEditingEntry] = useState<LexiconEntry | null>(null);
   const [isAddingNew, setIsAddingNew] = useState(false);
   const [domainToggles, setDomainToggles] = useState<Record<string, boolean>>({});
+  const [importReport, setImportReport] = useState<LexiconImportReport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [lexiconVersions, setLexiconVersions] = useState<LexiconVersion[]>([]);
+  const [lexiconVersion, setLexiconVersion] = useState(getLexiconVersion());
+  const [showChangelog, setShowChangelog] = useState(false);
+  const [ruleSettings, setRuleSettings] = useState<Record<string, DeterministicRuleSetting>>(() => loadDeterministicRuleSettings());
+  const deterministicRules: DeterministicRule[] = useMemo(() => getDeterministicRules(), []);
+  const [modelProviders, setModelProvidersState] = useState(getModelProviders());
+  const [canEditProviders, setCanEditProviders] = useState(false);
+  const [editingProvider, setEditingProvider]: [ModelProvider | null, (provider: ModelProvider | null) => void] = useState(null);
 
   const lexiconStats = useMemo(() => getLexiconStats(lexiconEntries), [lexiconEntries]);
   const domainList = useMemo(() => {
@@ -136,6 +181,13 @@ export const DetectionConfigPage: React.FC<DetectionConfigPageProps> = ({ onBack
     setPrompt(storedPrompt || DEFAULT_PROMPT);
   }, []);
 
+  useEffect(() => {
+    listCustomLexicon().then(setCustomRows);
+    listTeams().then(setTeams);
+    refreshLexiconVersions();
+    refreshModelProviders();
+  }, []);
+
   useEffect(() => {
     try {
       const stored = localStorage.getItem(LEXICON_TOGGLE_KEY);
@@ -199,30 +251,122 @@ export const DetectionConfigPage: React.FC<DetectionConfigPageProps> = ({ onBack
     });
   }, [lexiconEntries, lexiconSearch, activeLexiconDomain]);
 
-  const handleExportLexicon = () => {
-    const data = { version: lexiconData.version, updatedAt: new Date().toISOString().split('T')[0], entries: lexiconEntries };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  // 已停用的内置规则（可重新启用）
+  const disabledBuiltinEntries = useMemo(() => {
+    const builtinIds = new Set(getBuiltinLexicon().map(entry => entry.id));
+    return customRows
+      .filter(row => customScopes[row.entry.id] === row)
+      .map(row => row.entry)
+      .filter(entry => entry.disabled && builtinIds.has(entry.id) && (!activeLexiconDomain || entry.domain === activeLexiconDomain));
+  }, [customRows, customScopes, activeLexiconDomain]);
+
+  // 导出格式与导入一致，可直接回传
+  const handleExportLexicon = (format: 'csv' | 'json', entries: LexiconEntry[] = lexiconEntries, filename = 'lexicon') => {
+    const blob = format === 'csv'
+      ? new Blob(['\uFEFF' + serializeLexiconCsv(entries)], { type: 'text/csv;charset=utf-8' })
+      : new Blob([serializeLexiconJson(entries, lexiconData.version)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'lexicon.json';
+    a.download = `${filename}.${format}`;
     a.click();
     URL.revokeObjectURL(url);
   };
 
-  const handleSaveLexiconEntry = (entry: LexiconEntry) => {
-    if (isAddingNew) {
-      setLexiconEntries([...lexiconEntries, entry]);
-    } else {
-      setLexiconEntries(lexiconEntries.map(e => e.id === entry.id ? entry : e));
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const report = await parseLexiconFile(file, new Set(lexiconEntries.map(entry => entry.id)));
+    setImportReport(report);
+  };
+
+  const handleConfirmImport = async (teamId?: string) => {
+    if (!importReport || importReport.validEntries.length === 0) return;
+    setIsImporting(true);
+    const imported = await importCustomLexiconEntries(importReport.validEntries, teamId);
+    setIsImporting(false);
+    if (imported === null) {
+      alert('导入失败，请确认已登录后重试');
+      return;
     }
+    applyCustomRows(await listCustomLexicon());
+    setImportReport(null);
+  };
+
+  // 每次规则变更后服务端都会生成新版本，同步刷新版本记录
+  const refreshLexiconVersions = async () => {
+    const versions = await listLexiconVersions();
+    setLexiconVersions(versions);
+    setCustomLexiconVersions(getLatestScopeVersions(versions));
+    setLexiconVersion(getLexiconVersion());
+  };
+
+  const applyCustomRows = (rows: CustomLexiconEntry[]) => {
+    setCustomRows(rows);
+    setCustomLexiconEntries(rows.map(row => row.entry));
+    refreshLexiconVersions();
+  };
+
+  const handleSaveLexiconEntry = async (entry: LexiconEntry, teamId?: string) => {
+    const previous = isAddingNew ? null : editingEntry;
+    const saved = await saveCustomLexiconEntry(entry, teamId);
+    if (!saved) {
+      alert('保存失败，请确认已登录后重试');
+      return;
+    }
+
+    let nextRows = customRows.filter(row => row.rowId !== saved.rowId);
+    // 修改了规则 ID：旧 ID 的同作用域规则一并删除
+    const staleRow = previous && previous.id !== entry.id ? customScopes[previous.id] : undefined;
+    if (staleRow && (staleRow.teamId || undefined) === teamId && await deleteCustomLexiconEntry(staleRow.rowId)) {
+      nextRows = nextRows.filter(row => row.rowId !== staleRow.rowId);
+    }
+    applyCustomRows(saved.scope === 'team'
+      ? [saved, ...nextRows]
+      : [...nextRows, saved]);
     setEditingEntry(null);
     setIsAddingNew(false);
   };
 
-  const handleDeleteLexiconEntry = (id: string) => {
-    if (confirm('确定删除这条规则？')) {
-      setLexiconEntries(lexiconEntries.filter(e => e.id !== id));
+  const handleDeleteLexiconEntry = async (id: string) => {
+    const entry = lexiconEntries.find(e => e.id === id);
+    if (!entry) return;
+    const isBuiltin = getBuiltinLexicon().some(e => e.id === id);
+
+    // 内置规则的覆盖：删除覆盖即恢复为内置规则
+    if (isBuiltin && customScopes[id]) {
+      if (confirm('确定删除修改，恢复为内置规则？')) await handleRestoreLexiconEntry(id);
+      return;
+    }
+
+    if (!confirm(isBuiltin ? '内置规则无法删除，确定停用这条规则？' : '确定删除这条规则？')) return;
+
+    // 内置规则无法删除，保存一条停用覆盖
+    if (isBuiltin) {
+      const saved = await saveCustomLexiconEntry({ ...entry, disabled: true });
+      if (!saved) {
+        alert('删除失败，请确认已登录后重试');
+        return;
+      }
+      applyCustomRows([...customRows.filter(row => row.rowId !== saved.rowId), saved]);
+      return;
+    }
+
+    const row = customScopes[id];
+    if (row && await deleteCustomLexiconEntry(row.rowId)) {
+      applyCustomRows(customRows.filter(r => r.rowId !== row.rowId));
+    }
+  };
+
+  // 删除当前生效的覆盖（修改或停用），回到下一层规则（团队覆盖或内置规则）
+  const handleRestoreLexiconEntry = async (id: string) => {
+    const row = customScopes[id];
+    if (!row) return;
+    if (await deleteCustomLexiconEntry(row.rowId)) {
+      applyCustomRows(customRows.filter(r => r.rowId !== row.rowId));
+    } else {
+      alert('操作失败，请确认已登录后重试');
     }
   };
 
@@ -236,6 +380,41 @@ export const DetectionConfigPage: React.FC<DetectionConfigPageProps> = ({ onBack
     });
   };
 
+  // 确定性规则：启用状态 / 严重度覆盖
+  const updateRuleSetting = (ruleId: string, patch: DeterministicRuleSetting) => {
+    setRuleSettings(prev => {
+      const next = { ...prev, [ruleId]: { ...prev[ruleId], ...patch } };
+      saveDeterministicRuleSettings(next);
+      return next;
+    });
+  };
+
+  // 模型供应商：重新拉取并同步到分析服务
+  const refreshModelProviders = async () => {
+    const result = await listModelProviders();
+    if (!result) return;
+    setModelProvidersState(result.providers);
+    setCanEditProviders(result.canEdit);
+    onModelProvidersChange?.(result.providers);
+  };
+
+  const handleSaveModelProvider = async (provider: ModelProvider): Promise<boolean> => {
+    const saved = await saveModelProvider(provider);
+    if (!saved) return false;
+    await refreshModelProviders();
+    return true;
+  };
+
+  const handleDeleteModelProvider = async (provider: ModelProvider) => {
+    const message = provider.builtin ? `确定将 "${provider.name}" 恢复为默认配置？` : `确定删除供应商 "${provider.name}"？`;
+    if (!confirm(message)) return;
+    if (await deleteModelProvider(provider.id)) {
+      await refreshModelProviders();
+    } else {
+      alert('操作失败，请稍后重试');
+    }
+  };
+
   const handleOpenDomainPanel = (domain: string) => {
     setActiveLexiconDomain(domain);
   };
@@ -307,15 +486,43 @@ export const DetectionConfigPage: React.FC<DetectionConfigPageProps> = ({ onBack
                   覆盖美国 FDA、欧盟 EFSA、加拿大 HC 等出口法规要点 · 默认全行业启用
                 </p>
                 <p className="text-[11px] text-text-muted">
-                  共 {lexiconStats.total} 条（P0 {lexiconStats.bySeverity['P0'] || 0} · P1 {lexiconStats.bySeverity['P1'] || 0} · P2 {lexiconStats.bySeverity['P2'] || 0}）
+                  共 {lexiconStats.total} 条（P0 {lexiconStats.bySeverity['P0'] || 0} · P1 {lexiconStats.bySeverity['P1'] || 0} · P2 {lexiconStats.bySeverity['P2'] || 0}）· 版本 <span className="font-mono">{lexiconVersion}</span>
                 </p>
               </div>
-              <button
-                onClick={handleExportLexicon}
-                className="self-start sm:self-auto inline-flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-lg text-text-primary hover:bg-surface-50"
-              >
-                <Download size={14} /> 导出全部
-              </button>
+              <div className="self-start sm:self-auto flex items-center gap-2">
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".csv,.json"
+                  className="hidden"
+                  onChange={handleImportFile}
+                />
+                <button
+                  onClick={() => setShowChangelog(true)}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-lg text-text-primary hover:bg-surface-50"
+                >
+                  <History size={14} /> 版本记录
+                </button>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-lg text-text-primary hover:bg-surface-50"
+                  title="支持 CSV（同 lexicon-template.csv 列）和 JSON"
+                >
+                  <Upload size={14} /> 导入
+                </button>
+                <button
+                  onClick={() => handleExportLexicon('csv')}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-lg text-text-primary hover:bg-surface-50"
+                >
+                  <Download size={14} /> 导出 CSV
+                </button>
+                <button
+                  onClick={() => handleExportLexicon('json')}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 text-xs border border-border rounded-lg text-text-primary hover:bg-surface-50"
+                >
+                  <Download size={14} /> 导出 JSON
+                </button>
+              </div>
             </div>
 
             <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
@@ -386,6 +593,157 @@ export const DetectionConfigPage: React.FC<DetectionConfigPageProps> = ({ onBack
             </div>
           </div>
 
+          {/* 确定性规则配置 */}
+          <div className="space-y-3">
+            <div>
+              <div className="flex items-center gap-2 text-text-primary">
+                <ListChecks size={14} />
+                <p className="text-sm font-medium">确定性规则</p>
+              </div>
+              <p className="text-xs text-text-muted">
+                不依赖 AI 的格式校验，结果可复现 · 按行业和出口市场自动生效
+              </p>
+            </div>
+
+            <div className="bg-white rounded-xl border border-border divide-y divide-border">
+              {deterministicRules.map(rule => {
+                const ruleEnabled = isDeterministicRuleEnabled(rule, ruleSettings);
+                const severity = ruleSettings[rule.id]?.severity || rule.severity;
+                const scope = [
+                  rule.domains ? rule.domains.map(domain => getDomainMeta(domain).label).join('、') : '全行业',
+                  rule.markets ? rule.markets.map(market => MARKET_LABELS[market as MarketType] || market).join('、') : '全市场'
+                ].join(' · ');
+                return (
+                  <div key={rule.id} className="px-4 py-3 flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium text-text-primary">{rule.name}</p>
+                        <span className="text-[10px] font-mono text-text-muted">{rule.id}</span>
+                      </div>
+                      <p className="text-[11px] text-text-muted mt-0.5">{rule.description}</p>
+                      <p className="text-[11px] text-text-muted mt-0.5">适用：{scope}</p>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <select
+                        value={severity}
+                        onChange={(e) => updateRuleSetting(rule.id, { severity: e.target.value as DeterministicRule['severity'] })}
+                        disabled={!ruleEnabled}
+                        className="text-xs border border-border rounded-lg px-2 py-1 bg-white disabled:opacity-60"
+                        title="严重度"
+                      >
+                        <option value="high">高</option>
+                        <option value="medium">中</option>
+                      </select>
+                      <button
+                        onClick={() => updateRuleSetting(rule.id, { enabled: !ruleEnabled })}
+                        className={`relative w-11 h-6 rounded-full transition-colors ${ruleEnabled ? 'bg-text-primary' : 'bg-surface-200'}`}
+                        title={ruleEnabled ? '点击关闭该规则' : '点击开启该规则'}
+                      >
+                        <span className={`absolute top-1 w-4 h-4 bg-white rounded-full shadow transition-transform ${ruleEnabled ? 'left-6' : 'left-1'}`} />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* 模型供应商 */}
+          <div className="space-y-3">
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <div className="flex items-center gap-2 text-text-primary">
+                  <Cpu size={14} />
+                  <p className="text-sm font-medium">模型供应商</p>
+                </div>
+                <p className="text-xs text-text-muted">
+                  OpenAI 兼容接口 · 经 Worker 代理调用 · 新增模型或接入自建服务无需重新部署{canEditProviders ? '' : ' · 仅管理员可修改'}
+                </p>
+              </div>
+              {canEditProviders && (
+                <button
+                  onClick={() => setEditingProvider({ ...MODEL_PROVIDER_TEMPLATE })}
+                  className="self-start sm:self-auto flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg border border-border hover:border-text-primary hover:text-text-primary transition"
+                >
+                  <Plus size={12} />
+                  新增供应商
+                </button>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl border border-border divide-y divide-border">
+              {modelProviders.map((provider: ModelProvider) => {
+                const providerEnabled = provider.enabled !== false;
+                return (
+                  <div key={provider.id} className="px-4 py-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="text-sm font-medium text-text-primary">{provider.name}</p>
+                          <span className="text-[10px] font-mono text-text-muted">{provider.id}</span>
+                          {provider.builtin && (
+                            <span className="text-[10px] px-1.5 py-0.5 rounded bg-surface-200 text-text-secondary">内置</span>
+                          )}
+                        </div>
+                        <p className="text-[11px] text-text-muted mt-0.5 font-mono break-all">
+                          {provider.baseURL}{provider.apiKeyRef ? ` · ${provider.apiKeyRef}` : ' · 无需 API Key'}
+                        </p>
+                      </div>
+                      {canEditProviders && (
+                        <div className="flex items-center gap-2 shrink-0">
+                          <button
+                            onClick={() => setEditingProvider(provider)}
+                            className="p-1.5 text-text-muted hover:text-text-primary hover:bg-surface-100 rounded"
+                            title="编辑配置"
+                          >
+                            <Edit2 size={14} />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteModelProvider(provider)}
+                            className="p-1.5 text-text-muted hover:text-red-600 hover:bg-surface-100 rounded"
+                            title={provider.builtin ? '恢复默认配置' : '删除供应商'}
+                          >
+                            {provider.builtin ? <RotateCcw size={14} /> : <Trash2 size={14} />}
+                          </button>
+                          <button
+                            onClick={() => handleSaveModelProvider({ ...provider, enabled: !providerEnabled })}
+                            className={`relative w-11 h-6 rounded-full transition-colors ${providerEnabled ? 'bg-text-primary' : 'bg-surface-200'}`}
+                            title={providerEnabled ? '点击停用该供应商' : '点击启用该供应商'}
+                          >
+                            <span className={`absolute top-1 w-4 h-4 bg-white rounded-full shadow transition-transform ${providerEnabled ? 'left-6' : 'left-1'}`} />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    <div className="mt-2 space-y-1">
+                      {provider.models.map(model => {
+                        const capabilities = [
+                          model.capabilities?.vision && '视觉',
+                          model.capabilities?.jsonMode && 'JSON',
+                          model.capabilities?.jsonSchema && 'Schema',
+                          model.capabilities?.streaming && '流式'
+                        ].filter(Boolean).join(' / ');
+                        return (
+                          <div
+                            key={model.id}
+                            className={`flex flex-wrap items-center gap-x-3 gap-y-0.5 text-[11px] text-text-muted ${model.enabled === false || !providerEnabled ? 'opacity-50' : ''}`}
+                          >
+                            <span className="text-xs text-text-secondary">{model.name}</span>
+                            <span className="font-mono">{model.id}</span>
+                            <span>{capabilities || '仅文本'}</span>
+                            <span>输出上限 {model.maxTokens}</span>
+                            {model.pricing && <span>${model.pricing.input} / ${model.pricing.output} 每百万 token</span>}
+                            {model.enabled === false && <span>已停用</span>}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
         </div>
       </div>
 
@@ -397,12 +755,45 @@ export const DetectionConfigPage: React.FC<DetectionConfigPageProps> = ({ onBack
           stats={domainStats[activeLexiconDomain]}
           searchValue={lexiconSearch}
           entries={filteredLexicon}
+          disabledEntries={disabledBuiltinEntries}
+          customScopes={customScopes}
           onSearchChange={setLexiconSearch}
           onAdd={() => handleAddLexiconEntry(activeLexiconDomain)}
           onEdit={(entry) => { setEditingEntry(entry); setIsAddingNew(false); }}
           onDelete={handleDeleteLexiconEntry}
+          onRestore={handleRestoreLexiconEntry}
           onClose={handleCloseDomainPanel}
-          onExport={() => handleExportLexicon()}
+          onExport={(format) => handleExportLexicon(format, filteredLexicon, `lexicon-${activeLexiconDomain}`)}
+        />
+      )}
+
+      {/* 版本记录 */}
+      {showChangelog && (
+        <LexiconChangelogModal
+          versions={lexiconVersions}
+          teams={teams}
+          onClose={() => setShowChangelog(false)}
+        />
+      )}
+
+      {/* 导入校验报告 */}
+      {importReport && (
+        <LexiconImportModal
+          report={importReport}
+          teams={teams}
+          isImporting={isImporting}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setImportReport(null)}
+        />
+      )}
+
+      {/* 模型供应商编辑 */}
+      {editingProvider && (
+        <ModelProviderForm
+          provider={editingProvider}
+          isNew={!modelProviders.some((p: ModelProvider) => p.id === editingProvider.id)}
+          onSave={handleSaveModelProvider}
+          onCancel={() => setEditingProvider(null)}
         />
       )}
 
@@ -411,6 +802,8 @@ export const DetectionConfigPage: React.FC<DetectionConfigPageProps> = ({ onBack
         <LexiconEntryForm
           entry={isAddingNew ? null : editingEntry}
           defaultDomain={isAddingNew ? activeLexiconDomain : editingEntry?.domain}
+          teams={teams}
+          defaultTeamId={!isAddingNew && editingEntry ? customScopes[editingEntry.id]?.teamId : undefined}
           onSave={handleSaveLexiconEntry}
           onCancel={() => { setEditingEntry(null); setIsAddingNew(false); }}
         />
@@ -425,12 +818,15 @@ interface DomainLexiconModalProps {
   stats?: { total: number; severity: Record<'P0' | 'P1' | 'P2', number> };
   searchValue: string;
   entries: LexiconEntry[];
+  disabledEntries: LexiconEntry[];   // 已停用的内置规则
+  customScopes: Record<string, CustomLexiconEntry>;
   onSearchChange: (value: string) => void;
   onAdd: () => void;
   onEdit: (entry: LexiconEntry) => void;
   onDelete: (id: string) => void;
+  onRestore: (id: string) => void;
   onClose: () => void;
-  onExport: () => void;
+  onExport: (format: 'csv' | 'json') => void;
 }
 
 const DomainLexiconModal: React.FC<DomainLexiconModalProps> = ({
@@ -439,14 +835,18 @@ const DomainLexiconModal: React.FC<DomainLexiconModalProps> = ({
   stats,
   searchValue,
   entries,
+  disabledEntries,
+  customScopes,
   onSearchChange,
   onAdd,
   onEdit,
   onDelete,
+  onRestore,
   onClose,
   onExport
 }) => {
   const meta = getDomainMeta(domain);
+  const builtinIds = useMemo(() => new Set(getBuiltinLexicon().map(entry => entry.id)), []);
   const [rowMenuId, setRowMenuId] = useState<string | null>(null);
   const [copiedLinkId, setCopiedLinkId] = useState<string | null>(null);
   const [page, setPage] = useState(1);
@@ -514,11 +914,18 @@ const DomainLexiconModal: React.FC<DomainLexiconModalProps> = ({
           </div>
           <div className="flex items-center gap-2">
             <button
-              onClick={onExport}
-              className="p-1.5 text-text-muted hover:text-text-primary hover:bg-surface-100 rounded-lg"
-              title="导出词库"
+              onClick={() => onExport('csv')}
+              className="flex items-center gap-1 px-2 py-1.5 text-xs text-text-muted hover:text-text-primary hover:bg-surface-100 rounded-lg"
+              title="按当前筛选导出 CSV"
+            >
+              <Download size={14} /> CSV
+            </button>
+            <button
+              onClick={() => onExport('json')}
+              className="flex items-center gap-1 px-2 py-1.5 text-xs text-text-muted hover:text-text-primary hover:bg-surface-100 rounded-lg"
+              title="按当前筛选导出 JSON"
             >
-              <Download size={16} />
+              <Download size={14} /> JSON
             </button>
             <button
               onClick={onClose}
@@ -577,11 +984,19 @@ const DomainLexiconModal: React.FC<DomainLexiconModalProps> = ({
                         {entry.severity}
                       </span>
                       <span className="font-mono text-text-secondary">{entry.id}</span>
+                      {customScopes[entry.id] && (
+                        <span className="px-1.5 py-0.5 text-[10px] rounded bg-surface-100 text-text-muted">
+                          {customScopes[entry.id].scope === 'team' ? '团队' : '自定义'}
+                        </span>
+                      )}
                     </div>
                   </td>
                   <td className="py-3 px-4 align-top">
                     <div className="font-mono text-text-primary text-xs break-all">{entry.pattern}</div>
-                    <div className="mt-1 text-[10px] text-text-muted uppercase">{entry.patternType}</div>
+                    <div className="mt-1 text-[10px] text-text-muted uppercase">
+                      {entry.patternType}
+                      {entry.kind === 'required' && <span className="ml-1.5 normal-case text-amber-600">必备内容</span>}
+                    </div>
                   </td>
                   <td className="py-3 px-4 align-top text-text-muted">
                     {entry.market.toUpperCase()}
@@ -640,8 +1055,8 @@ const DomainLexiconModal: React.FC<DomainLexiconModalProps> = ({
                           onClick={() => { setRowMenuId(null); onDelete(entry.id); }}
                           className="w-full px-3 py-2 text-left text-red-600 hover:bg-red-50 flex items-center gap-2"
                         >
-                          <Trash2 size={12} />
-                          删除
+                          {builtinIds.has(entry.id) && customScopes[entry.id] ? <RotateCcw size={12} /> : <Trash2 size={12} />}
+                          {builtinIds.has(entry.id) ? (customScopes[entry.id] ? '恢复内置' : '停用') : '删除'}
                         </button>
                       </div>
                     )}
@@ -650,6 +1065,23 @@ const DomainLexiconModal: React.FC<DomainLexiconModalProps> = ({
               ))}
             </tbody>
           </table>
+          {disabledEntries.length > 0 && (
+            <div className="border-t border-border">
+              <p className="px-4 py-2 text-[11px] font-medium text-text-muted bg-surface-50">已停用的内置规则（{disabledEntries.length}）</p>
+              {disabledEntries.map(entry => (
+                <div key={entry.id} className="px-4 py-2 flex items-center gap-3 border-b border-border/60 text-[11px]">
+                  <span className="font-mono text-text-muted">{entry.id}</span>
+                  <span className="flex-1 font-mono text-text-muted line-through break-all">{entry.pattern}</span>
+                  <button
+                    onClick={() => onRestore(entry.id)}
+                    className="flex items-center gap-1 px-2 py-1 text-text-secondary hover:text-text-primary hover:bg-surface-100 rounded-lg shrink-0"
+                  >
+                    <RotateCcw size={12} /> 启用
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
         {entries.length > 0 && (
           <div className="px-5 py-3 border-t border-border flex flex-col gap-2 text-[11px] text-text-muted">
@@ -667,14 +1099,386 @@ const DomainLexiconModal: React.FC<DomainLexiconModalProps> = ({
   );
 };
 
+const CHANGE_ACTION_META: Record<LexiconChange['action'], { label: string; className: string }> = {
+  added: { label: '新增', className: 'bg-emerald-50 text-emerald-600' },
+  removed: { label: '删除', className: 'bg-red-50 text-red-600' },
+  modified: { label: '修改', className: 'bg-amber-50 text-amber-600' }
+};
+
+// 条目级变更列表，修改项展开字段差异
+const LexiconChangeList: React.FC<{ changes: LexiconChange[] }> = ({ changes }) => {
+  if (changes.length === 0) {
+    return <p className="text-xs text-text-muted py-2">无变化</p>;
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {changes.map(change => {
+        const meta = CHANGE_ACTION_META[change.action];
+        const entry = change.after || change.before;
+        return (
+          <div key={`${change.action}-${change.entryId}`} className="text-xs">
+            <div className="flex items-center gap-2">
+              <span className={`text-[10px] px-1.5 py-0.5 rounded ${meta.className}`}>{meta.label}</span>
+              <span className="font-mono text-text-primary">{change.entryId}</span>
+              <span className="text-text-muted truncate">{entry?.pattern}</span>
+            </div>
+            {change.action === 'modified' && (
+              <div className="ml-10 mt-1 space-y-0.5">
+                {diffLexiconEntryFields(change.before, change.after).map(field => (
+                  <p key={field.field} className="text-[11px] text-text-muted break-all">
+                    <span className="font-mono">{field.field}</span>：
+                    <span className="line-through text-red-500/80">{field.before || '(空)'}</span>
+                    {' → '}
+                    <span className="text-emerald-600">{field.after || '(空)'}</span>
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// 词库版本记录：按作用域查看变更历史，并比较任意两个版本
+const LexiconChangelogModal: React.FC<{
+  versions: LexiconVersion[];
+  teams: Team[];
+  onClose: () => void;
+}> = ({ versions, teams, onClose }) => {
+  const scopes = useMemo(() => {
+    const keys = Array.from(new Set<string>(versions.map((v: LexiconVersion) => (v.scope === 'team' ? v.teamId! : ''))));
+    return keys.map(key => ({
+      key,
+      label: key ? `团队：${teams.find(team => team.id === key)?.name || key.slice(0, 8)}` : '个人词库'
+    }));
+  }, [versions, teams]);
+  const [scopeKey, setScopeKey] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [compare, setCompare] = useState<{ from: number; to: number } | null>(null);
+
+  useEffect(() => {
+    if (scopes.length > 0 && !scopes.some(scope => scope.key === scopeKey)) {
+      setScopeKey(scopes[0].key);
+    }
+  }, [scopes, scopeKey]);
+
+  // 当前作用域的版本（新 → 旧）
+  const scopeVersions: LexiconVersion[] = versions.filter((v: LexiconVersion) => (v.scope === 'team' ? v.teamId : '') === scopeKey);
+  const latestVersion = scopeVersions[0]?.version || 0;
+
+  useEffect(() => {
+    setCompare(null);
+    setExpandedId(null);
+  }, [scopeKey]);
+
+  const compareChanges = useMemo(() => {
+    if (!compare) return [];
+    const from = Math.min(compare.from, compare.to);
+    const to = Math.max(compare.from, compare.to);
+    const changeSets = scopeVersions
+      .filter(v => v.version > from && v.version <= to)
+      .sort((a, b) => a.version - b.version)
+      .map(v => v.changes);
+    return composeLexiconChanges(changeSets);
+  }, [compare, scopeVersions]);
+
+  const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString('zh-CN', { hour12: false });
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-border flex items-center justify-between">
+          <div>
+            <h3 className="font-medium text-sm">词库版本记录</h3>
+            <p className="text-xs text-text-muted mt-0.5">内置词库 v{lexiconData.version} · 自定义规则每次变更生成一个版本</p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-surface-100 rounded"><X size={18} /></button>
+        </div>
+
+        {scopes.length === 0 ? (
+          <div className="text-center text-xs text-text-muted py-12">暂无自定义规则变更</div>
+        ) : (
+          <>
+            <div className="px-4 py-2 border-b border-border flex flex-wrap items-center gap-2">
+              {scopes.length > 1 && (
+                <select
+                  value={scopeKey}
+                  onChange={e => setScopeKey(e.target.value)}
+                  className="px-2 py-1 border border-border rounded-lg text-xs"
+                >
+                  {scopes.map(scope => (
+                    <option key={scope.key} value={scope.key}>{scope.label}</option>
+                  ))}
+                </select>
+              )}
+              <div className="flex items-center gap-1 text-xs text-text-muted ml-auto">
+                比较
+                <select
+                  value={compare?.from ?? ''}
+                  onChange={e => setCompare(e.target.value === '' ? null : { from: Number(e.target.value), to: compare?.to ?? latestVersion })}
+                  className="px-2 py-1 border border-border rounded-lg text-xs"
+                >
+                  <option value="">选择版本</option>
+                  <option value={0}>v0（初始）</option>
+                  {scopeVersions.map(v => (
+                    <option key={v.id} value={v.version}>v{v.version}</option>
+                  ))}
+                </select>
+                →
+                <select
+                  value={compare?.to ?? latestVersion}
+                  onChange={e => setCompare({ from: compare?.from ?? 0, to: Number(e.target.value) })}
+                  className="px-2 py-1 border border-border rounded-lg text-xs"
+                >
+                  {scopeVersions.map(v => (
+                    <option key={v.id} value={v.version}>v{v.version}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              {compare ? (
+                <div className="p-4">
+                  <p className="text-xs text-text-muted mb-2">
+                    v{Math.min(compare.from, compare.to)} → v{Math.max(compare.from, compare.to)}：
+                    新增 {compareChanges.filter(c => c.action === 'added').length} ·
+                    修改 {compareChanges.filter(c => c.action === 'modified').length} ·
+                    删除 {compareChanges.filter(c => c.action === 'removed').length}
+                  </p>
+                  <LexiconChangeList changes={compareChanges} />
+                </div>
+              ) : (
+                scopeVersions.map(v => {
+                  const counts = v.changes.reduce<Record<string, number>>((acc, change) => {
+                    acc[change.action] = (acc[change.action] || 0) + 1;
+                    return acc;
+                  }, {});
+                  const expanded = expandedId === v.id;
+                  return (
+                    <div key={v.id} className="border-b border-border last:border-b-0">
+                      <button
+                        onClick={() => setExpandedId(expanded ? null : v.id)}
+                        className="w-full px-4 py-2.5 flex items-center gap-3 text-left hover:bg-surface-50"
+                      >
+                        <span className="text-xs font-mono font-medium text-text-primary w-10">v{v.version}</span>
+                        <span className="text-xs text-text-secondary flex-1 truncate">{v.authorName}</span>
+                        <span className="text-[11px] text-text-muted">
+                          {counts.added ? <span className="text-emerald-600">+{counts.added} </span> : null}
+                          {counts.modified ? <span className="text-amber-600">~{counts.modified} </span> : null}
+                          {counts.removed ? <span className="text-red-600">-{counts.removed}</span> : null}
+                        </span>
+                        <span className="text-[11px] text-text-muted w-36 text-right">{formatTime(v.createdAt)}</span>
+                        <ChevronDown size={12} className={`text-text-muted transition-transform ${expanded ? 'rotate-180' : ''}`} />
+                      </button>
+                      {expanded && (
+                        <div className="px-4 pb-3">
+                          <LexiconChangeList changes={v.changes} />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// 导入校验报告：逐行列出错误 / 提示，仅合并校验通过的规则
+const LexiconImportModal: React.FC<{
+  report: LexiconImportReport;
+  teams: Team[];
+  isImporting: boolean;
+  onConfirm: (teamId?: string) => void;
+  onCancel: () => void;
+}> = ({ report, teams, isImporting, onConfirm, onCancel }) => {
+  const [teamId, setTeamId] = useState('');
+  const [showAll, setShowAll] = useState(false);
+  const lineLabel = report.format === 'csv' ? '行' : '条';
+  const visibleRows = showAll
+    ? report.rows
+    : report.rows.filter(row => row.errors.length > 0 || row.warnings.length > 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-border flex items-center justify-between">
+          <div>
+            <h3 className="font-medium text-sm">导入校验报告</h3>
+            <p className="text-xs text-text-muted mt-0.5">
+              共 {report.rows.length} {lineLabel} · 可导入 <span className="text-emerald-600">{report.validEntries.length}</span> · 错误 <span className="text-red-600">{report.errorCount}</span> · 提示 <span className="text-amber-600">{report.warningCount}</span>
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-1 hover:bg-surface-100 rounded"><X size={18} /></button>
+        </div>
+        <div className="px-4 py-2 border-b border-border flex items-center justify-between text-xs text-text-muted">
+          <span>有错误的{lineLabel}将被跳过</span>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={showAll} onChange={e => setShowAll(e.target.checked)} />
+            显示全部
+          </label>
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          {visibleRows.length === 0 ? (
+            <div className="text-center text-xs text-text-muted py-10">
+              {report.rows.length === 0 ? '文件中没有规则' : '全部校验通过'}
+            </div>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="bg-surface-50 text-text-muted sticky top-0">
+                <tr>
+                  <th className="text-left font-normal px-4 py-2 w-16">{lineLabel}</th>
+                  <th className="text-left font-normal px-2 py-2 w-40">规则 ID</th>
+                  <th className="text-left font-normal px-2 py-2">结果</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map(row => (
+                  <tr key={row.line} className="border-t border-border align-top">
+                    <td className="px-4 py-2 text-text-muted">{row.line}</td>
+                    <td className="px-2 py-2 font-mono text-text-primary break-all">{row.entry?.id || '—'}</td>
+                    <td className="px-2 py-2 space-y-0.5">
+                      {row.errors.map((msg, idx) => (
+                        <p key={`e-${idx}`} className="text-red-600 flex items-start gap-1"><X size={12} className="mt-0.5 shrink-0" />{msg}</p>
+                      ))}
+                      {row.warnings.map((msg, idx) => (
+                        <p key={`w-${idx}`} className="text-amber-600 flex items-start gap-1"><AlertTriangle size={12} className="mt-0.5 shrink-0" />{msg}</p>
+                      ))}
+                      {row.errors.length === 0 && row.warnings.length === 0 && (
+                        <p className="text-emerald-600 flex items-center gap-1"><Check size={12} />通过</p>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div className="p-4 border-t border-border flex items-center justify-between gap-2">
+          {teams.length > 0 ? (
+            <select
+              value={teamId}
+              onChange={e => setTeamId(e.target.value)}
+              className="px-3 py-1.5 border border-border rounded-lg text-sm"
+            >
+              <option value="">导入到个人词库</option>
+              {teams.map(team => (
+                <option key={team.id} value={team.id}>导入到团队：{team.name}</option>
+              ))}
+            </select>
+          ) : <span />}
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="px-4 py-1.5 text-sm text-text-muted hover:bg-surface-100 rounded-lg">取消</button>
+            <button
+              onClick={() => onConfirm(teamId || undefined)}
+              disabled={report.validEntries.length === 0 || isImporting}
+              className="px-4 py-1.5 text-sm bg-text-primary text-white rounded-lg hover:bg-text-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isImporting ? '导入中...' : `合并 ${report.validEntries.length} 条规则`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 模型供应商编辑：直接编辑 JSON 配置，保存前按 Worker 端规则校验
+const ModelProviderForm: React.FC<{
+  provider: ModelProvider;
+  isNew: boolean;
+  onSave: (provider: ModelProvider) => Promise<boolean>;
+  onCancel: () => void;
+}> = ({ provider, isNew, onSave, onCancel }) => {
+  const [text, setText] = useState(() => {
+    const { builtin, ...config } = provider;
+    return JSON.stringify(config, null, 2);
+  });
+  const [errors, setErrors] = useState([] as string[]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      setErrors(['JSON 格式错误：' + (error as Error).message]);
+      return;
+    }
+    const validation = validateModelProvider(parsed);
+    if (!isNew && parsed?.id !== provider.id) validation.push(`id 不能修改（${provider.id}），如需新增请使用"新增供应商"`);
+    if (validation.length > 0) {
+      setErrors(validation);
+      return;
+    }
+    setIsSaving(true);
+    const ok = await onSave(parsed as ModelProvider);
+    setIsSaving(false);
+    if (ok) {
+      onCancel();
+    } else {
+      setErrors(['保存失败，请检查权限或稍后重试']);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-border flex items-center justify-between">
+          <div>
+            <h3 className="font-medium text-sm">{isNew ? '新增模型供应商' : `编辑 ${provider.name}`}</h3>
+            <p className="text-xs text-text-muted mt-0.5">
+              apiKeyRef 填 Worker secret 名（wrangler secret put 设置），不要填写 Key 本身 · pricing 为每百万 token 的美元成本价
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-1 hover:bg-surface-100 rounded"><X size={18} /></button>
+        </div>
+        <textarea
+          value={text}
+          onChange={e => { setText(e.target.value); setErrors([]); }}
+          spellCheck={false}
+          className="flex-1 min-h-[360px] p-4 text-xs font-mono text-text-primary resize-none focus:outline-none"
+        />
+        {errors.length > 0 && (
+          <div className="px-4 py-2 border-t border-border space-y-0.5">
+            {errors.map((msg, idx) => (
+              <p key={idx} className="text-xs text-red-600 flex items-start gap-1"><X size={12} className="mt-0.5 shrink-0" />{msg}</p>
+            ))}
+          </div>
+        )}
+        <div className="p-4 border-t border-border flex justify-end gap-2">
+          <button onClick={onCancel} className="px-4 py-1.5 text-sm text-text-muted hover:bg-surface-100 rounded-lg">取消</button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-1.5 text-sm bg-text-primary text-white rounded-lg hover:bg-text-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? '保存中...' : '保存'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 // 词库规则编辑表单
 const LexiconEntryForm: React.FC<{
   entry: LexiconEntry | null;
-  onSave: (e: LexiconEntry) => void;
+  onSave: (e: LexiconEntry, teamId?: string) => void;
   onCancel: () => void;
   defaultDomain?: string | null;
-}> = ({ entry, onSave, onCancel, defaultDomain }) => {
+  teams: Team[];
+  defaultTeamId?: string;
+}> = ({ entry, onSave, onCancel, defaultDomain, teams, defaultTeamId }) => {
   const [form, setForm] = useState<LexiconEntry>(entry || createEmptyLexiconEntry(defaultDomain));
+  const [teamId, setTeamId] = useState<string>(defaultTeamId || '');
 
   useEffect(() => {
     if (entry) {
@@ -684,6 +1488,46 @@ const LexiconEntryForm: React.FC<{
     setForm(createEmptyLexiconEntry(defaultDomain));
   }, [entry, defaultDomain]);
 
+  const updateExceptions = (exceptions: LexiconException[]) => {
+    setForm(prev => ({ ...prev, exceptions: exceptions.length > 0 ? exceptions : undefined }));
+  };
+
+  const updateException = (idx: number, exception: LexiconException) => {
+    updateExceptions((form.exceptions || []).map((item, i) => (i === idx ? exception : item)));
+  };
+
+  // 样例按行编辑，保存时再去掉空行
+  const updateFixtures = (key: keyof LexiconFixtures, value: string) => {
+    setForm(prev => ({ ...prev, fixtures: { ...prev.fixtures, [key]: value ? value.split('\n') : undefined } }));
+  };
+
+  const patternError = useMemo(() => {
+    if (form.patternType !== 'regex' || !form.pattern) return null;
+    try {
+      new RegExp(form.pattern, 'gi');
+      return null;
+    } catch (e) {
+      return e instanceof Error ? e.message : String(e);
+    }
+  }, [form.pattern, form.patternType]);
+
+  // 输入 pattern / 例外时实时运行样例
+  const fixtureResult: LexiconFixtureResult | null = useMemo(
+    () => (form.pattern && !patternError ? runLexiconFixtures(form) : null),
+    [form, patternError]
+  );
+  const failedFixtureCount = fixtureResult ? fixtureResult.cases.filter((c: LexiconFixtureResult['cases'][number]) => !c.passed).length : 0;
+
+  const handleSave = () => {
+    const exceptions = form.exceptions?.filter(exception => exception.pattern.trim());
+    const shouldMatch = form.fixtures?.shouldMatch?.map(s => s.trim()).filter(Boolean);
+    const shouldNotMatch = form.fixtures?.shouldNotMatch?.map(s => s.trim()).filter(Boolean);
+    const fixtures = shouldMatch?.length || shouldNotMatch?.length
+      ? { ...(shouldMatch?.length ? { shouldMatch } : {}), ...(shouldNotMatch?.length ? { shouldNotMatch } : {}) }
+      : undefined;
+    onSave({ ...form, exceptions: exceptions?.length ? exceptions : undefined, fixtures }, teamId || undefined);
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
@@ -705,14 +1549,26 @@ const LexiconEntryForm: React.FC<{
               <label className="block text-xs text-text-muted mb-1">匹配类型</label>
               <select
                 value={form.patternType}
-                onChange={e => setForm({ ...form, patternType: e.target.value as 'keyword' | 'regex' })}
+                onChange={e => setForm({ ...form, patternType: e.target.value as LexiconEntry['patternType'] })}
                 className="w-full px-3 py-1.5 border border-border rounded-lg text-sm"
               >
                 <option value="keyword">关键词</option>
+                <option value="stem">关键词（含词形变化）</option>
                 <option value="regex">正则表达式</option>
               </select>
             </div>
           </div>
+          <div>
+            <label className="block text-xs text-text-muted mb-1">规则类型</label>
+            <select
+              value={form.kind || 'forbidden'}
+              onChange={e => setForm({ ...form, kind: e.target.value === 'required' ? 'required' : undefined })}
+              className="w-full px-3 py-1.5 border border-border rounded-lg text-sm"
+            >
+              <option value="forbidden">禁用内容（出现即报告）</option>
+              <option value="required">必备内容（缺失时报告）</option>
+            </select>
+          </div>
           <div>
             <label className="block text-xs text-text-muted mb-1">匹配模式</label>
             <input
@@ -721,6 +1577,7 @@ const LexiconEntryForm: React.FC<{
               className="w-full px-3 py-1.5 border border-border rounded-lg text-sm font-mono"
               placeholder="cure / FDA approved"
             />
+            {patternError && <p className="text-xs text-red-600 mt-1">正则无法编译：{patternError}</p>}
           </div>
           <div className="grid grid-cols-3 gap-3">
             <div>
@@ -781,6 +1638,106 @@ const LexiconEntryForm: React.FC<{
               rows={2}
             />
           </div>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-xs text-text-muted">例外条件（满足时视为误报，不计入问题）</label>
+              <button
+                onClick={() => updateExceptions([...(form.exceptions || []), { type: 'followed_by', pattern: '' }])}
+                className="text-xs text-text-muted hover:text-text-primary inline-flex items-center gap-0.5"
+              >
+                <Plus size={12} /> 添加
+              </button>
+            </div>
+            {(form.exceptions || []).map((exception, idx) => (
+              <div key={idx} className="flex items-center gap-2 mb-2">
+                <select
+                  value={exception.type}
+                  onChange={e => updateException(idx, { ...exception, type: e.target.value as LexiconException['type'] })}
+                  className="px-2 py-1.5 border border-border rounded-lg text-xs"
+                >
+                  {(Object.keys(EXCEPTION_TYPE_LABELS) as LexiconException['type'][]).map(type => (
+                    <option key={type} value={type}>{EXCEPTION_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                <input
+                  value={exception.pattern}
+                  onChange={e => updateException(idx, { ...exception, pattern: e.target.value })}
+                  placeholder={exception.type === 'inside_phrase' ? 'Heal & Co' : 'ment plan'}
+                  className="flex-1 min-w-0 px-2 py-1.5 border border-border rounded-lg text-xs font-mono"
+                />
+                <input
+                  value={exception.reason || ''}
+                  onChange={e => updateException(idx, { ...exception, reason: e.target.value || undefined })}
+                  placeholder="原因（可选）"
+                  className="flex-1 min-w-0 px-2 py-1.5 border border-border rounded-lg text-xs"
+                />
+                <button
+                  onClick={() => updateExceptions((form.exceptions || []).filter((_, i) => i !== idx))}
+                  className="p-1 text-text-muted hover:text-red-600 rounded"
+                  title="删除例外"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-xs text-text-muted">回归样例（每行一条，修改匹配模式时实时检查）</label>
+              {fixtureResult && fixtureResult.cases.length > 0 && (
+                <span className={`text-xs ${failedFixtureCount > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {fixtureResult.cases.length - failedFixtureCount}/{fixtureResult.cases.length} 通过
+                </span>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <textarea
+                value={(form.fixtures?.shouldMatch || []).join('\n')}
+                onChange={e => updateFixtures('shouldMatch', e.target.value)}
+                placeholder={'应命中\nHelps cure dry skin'}
+                className="w-full px-2 py-1.5 border border-border rounded-lg text-xs font-mono"
+                rows={3}
+              />
+              <textarea
+                value={(form.fixtures?.shouldNotMatch || []).join('\n')}
+                onChange={e => updateFixtures('shouldNotMatch', e.target.value)}
+                placeholder={'不应命中\nSecure the cap'}
+                className="w-full px-2 py-1.5 border border-border rounded-lg text-xs font-mono"
+                rows={3}
+              />
+            </div>
+            {fixtureResult && fixtureResult.cases.length > 0 && (
+              <div className="mt-2 space-y-1">
+                {fixtureResult.cases.map((c: LexiconFixtureResult['cases'][number], idx: number) => (
+                  <div key={idx} className="flex items-center gap-1.5 text-xs">
+                    {c.passed
+                      ? <Check size={12} className="text-green-600 flex-shrink-0" />
+                      : <X size={12} className="text-red-600 flex-shrink-0" />}
+                    <span className="text-text-muted flex-shrink-0">{c.expected === 'match' ? '应命中' : '不应命中'}</span>
+                    <span className="font-mono truncate">{c.sample}</span>
+                    {c.matchedText && (
+                      <span className="text-text-muted flex-shrink-0">→ {c.matchedText}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          {teams.length > 0 && (
+            <div>
+              <label className="block text-xs text-text-muted mb-1">保存到</label>
+              <select
+                value={teamId}
+                onChange={e => setTeamId(e.target.value)}
+                className="w-full px-3 py-1.5 border border-border rounded-lg text-sm"
+              >
+                <option value="">个人词库</option>
+                {teams.map(team => (
+                  <option key={team.id} value={team.id}>团队：{team.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
           <div className="grid grid-cols-2 gap-3">
             <div>
               <label className="block text-xs text-text-muted mb-1">来源</label>
@@ -800,10 +1757,15 @@ const LexiconEntryForm: React.FC<{
             </div>
           </div>
         </div>
-        <div className="p-4 border-t border-border flex justify-end gap-2">
+        <div className="p-4 border-t border-border flex items-center justify-end gap-2">
+          {failedFixtureCount > 0 && (
+            <span className="mr-auto text-xs text-red-600 inline-flex items-center gap-1">
+              <AlertTriangle size={12} /> {failedFixtureCount} 条样例未通过
+            </span>
+          )}
           <button onClick={onCancel} className="px-4 py-1.5 text-sm text-text-muted hover:bg-surface-100 rounded-lg">取消</button>
           <button
-            onClick={() => onSave(form)}
+            onClick={handleSave}
             className="px-4 py-1.5 text-sm bg-text-primary text-white rounded-lg hover:bg-text-secondary"
           >
             保存
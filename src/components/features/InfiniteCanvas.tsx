@@ -11,13 +11,14 @@ interface InfiniteCanvasProps {
   diffResults: DiffResult[];
   selectedId: string | null;
   onSelect: (id: string | null) => void;
-  onUpload: (file: File) => void;
+  onUpload?: (file: File) => void;      // 不传时为只读画布（不显示上传入口）
   isProcessing: boolean;
   processingImageId: string | null;
   processingStep?: number; // 1=视觉分析, 2=OCR提取, 3=终审验证
   streamText?: string; // 流式输出文本
-  onRemoveImage: (id: string) => void;
+  onRemoveImage?: (id: string) => void;
   onRetryAnalysis?: (imageId: string) => void;
+  renderOverlay?: (image: ImageItem) => React.ReactNode; // 叠加在图片上的自定义图层（如修订对比的热力图）
 }
 
 export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({
@@ -35,7 +36,8 @@ export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({
   processingStep = 1,
   streamText = '',
   onRemoveImage,
-  onRetryAnalysis
+  onRetryAnalysis,
+  renderOverlay
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -57,7 +59,7 @@ export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      onUpload(e.target.files[0]);
+      onUpload?.(e.target.files[0]);
     }
   };
 
@@ -122,7 +124,7 @@ export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({
     e.preventDefault();
     setIsDragOver(false);
     const file = e.dataTransfer.files?.[0];
-    if (file && (file.type.startsWith('image/') || file.type === 'application/pdf')) {
+    if (onUpload && file && (file.type.startsWith('image/') || file.type === 'application/pdf')) {
       onUpload(file);
     }
   };
@@ -177,7 +179,7 @@ export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({
       onMouseMove={handleMouseMove}
       onMouseUp={handleMouseUp}
       onMouseLeave={handleMouseUp}
-      onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
+      onDragOver={(e) => { e.preventDefault(); setIsDragOver(!!onUpload); }}
       onDragLeave={() => setIsDragOver(false)}
       onDrop={handleDrop}
     >
@@ -256,13 +258,15 @@ export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({
                         <RefreshCw size={12} />
                       </button>
                     )}
-                    <button
-                      onClick={(e) => { e.stopPropagation(); onRemoveImage(imgItem.id); }}
-                      className="p-1.5 bg-red-500/80 hover:bg-red-500 text-white rounded-full transition-colors"
-                      title="删除"
-                    >
-                      <Trash2 size={12} />
-                    </button>
+                    {onRemoveImage && (
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onRemoveImage(imgItem.id); }}
+                        className="p-1.5 bg-red-500/80 hover:bg-red-500 text-white rounded-full transition-colors"
+                        title="删除"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    )}
                   </div>
 
                   {/* 扫描动画 + 三步进度 */}
@@ -331,6 +335,8 @@ export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({
                       </div>
                     )
                   ))}
+
+                  {renderOverlay?.(imgItem)}
                 </div>
 
                 {/* 下部：分析结果区域 - 可滚动，阻止事件冒泡 */}
@@ -460,7 +466,7 @@ export const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({
           })}
 
           {/* 添加图片 */}
-          {images.length < 8 && (
+          {onUpload && images.length < 8 && (
             <div
               onClick={() => fileInputRef.current?.click()}
               className="w-[420px] min-h-[500px] flex items-center justify-center border border-dashed border-slate-600 rounded-xl cursor-pointer shrink-0 hover:border-slate-500 hover:bg-slate-800/20 transition-all"
@@ -1,8 +1,13 @@
 import React, { useState } from 'react';
 import { createPortal } from 'react-dom';
-import { AlertTriangle, Type, RefreshCw, FileText, AlertCircle, Loader2, CheckCheck, Copy, Brackets, ShieldAlert, CheckCircle, Plus, X, Columns, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, RotateCw, BookOpen, ExternalLink } from 'lucide-react';
-import { ImageItem, LexiconIssue } from '../../types/types';
-import { AVAILABLE_MODELS } from '../../services/openaiService';
+import { AlertTriangle, Type, RefreshCw, FileText, AlertCircle, Loader2, CheckCheck, Copy, Brackets, ShieldAlert, CheckCircle, Plus, X, Columns, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, RotateCw, BookOpen, ExternalLink, EyeOff, ChevronDown, MapPin, ScanBarcode, GitMerge, Printer } from 'lucide-react';
+import { ImageItem, LexiconIssue, RequiredStatementIssue, BarcodeIssue, PreflightIssue, DiagnosisIssue, ConsensusIssue, IssueType, ISSUE_TYPE_LABELS, ISSUE_TYPE_LIST, CONFIDENCE_LABELS } from '../../types/types';
+import { getEnabledLexiconDomains } from '../../services/openaiService';
+import type { RegisteredModel } from '../../services/modelRegistryService';
+import { applyAllowListToIssues, checkRequiredStatements, requiredStatementsToIssues, type RequiredStatementResult } from '../../services/lexiconService';
+import { getDeterministicLabel } from '../../services/deterministicRuleService';
+import { BARCODE_FORMAT_LABELS, gtinFromBarcode, lookupGs1Prefix } from '../../services/barcodeService';
+import { CONSENSUS_TAB_ID, resolveResultModel } from '../../services/consensusService';
 
 interface IssuesPanelProps {
   currentImage: ImageItem | null;
@@ -16,13 +21,19 @@ interface IssuesPanelProps {
   onSelectIssue: (id: string) => void;
   copiedId: string | null;
   onCopy: (text: string, id: string) => void;
+  allowList: string[];
+  onAllowListChange: (phrases: string[]) => void;
+  barcodeIssues: BarcodeIssue[];
   mobileTab: string;
   issueListRef: React.RefObject<HTMLDivElement>;
   currentModelId: string;
+  availableModels: RegisteredModel[];   // 供应商注册表中的模型（添加模型菜单）
   onAddModel: (modelId: string) => void;
   onRemoveModel: (modelId: string) => void;
   activeModelTab: string;
   onActiveModelChange: (modelId: string) => void;
+  consensusIssues: ConsensusIssue[];    // 多模型合并后的 AI 建议（少于两个模型时为空）
+  onRunConsensus: (modelIds: string[]) => void;
 }
 
 export const IssuesPanel: React.FC<IssuesPanelProps> = ({
@@ -37,13 +48,19 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
   onSelectIssue,
   copiedId,
   onCopy,
+  allowList,
+  onAllowListChange,
+  barcodeIssues,
   mobileTab,
   issueListRef,
   currentModelId,
+  availableModels,
   onAddModel,
   onRemoveModel,
   activeModelTab,
-  onActiveModelChange
+  onActiveModelChange,
+  consensusIssues,
+  onRunConsensus
 }) => {
   const defaultModelId = currentModelId || 'gemini-3-pro-preview';
   const [showModelMenu, setShowModelMenu] = useState(false);
@@ -53,18 +70,24 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
   const [modalImageIndex, setModalImageIndex] = useState(currentIndex);
   const [modalZoom, setModalZoom] = useState(1);
   const [modalRotation, setModalRotation] = useState(0);
+  const [showSuppressed, setShowSuppressed] = useState(false);
+  const [issueTypeFilter, setIssueTypeFilter]: [IssueType | null, (type: IssueType | null) => void] = useState(null);
+  const [showConsensusMenu, setShowConsensusMenu] = useState(false);
+  const [consensusSelection, setConsensusSelection]: [string[], (modelIds: string[]) => void] = useState([]);
 
   // 获取当前图片已分析的模型列表
   const analyzedModels = currentImage?.issuesByModel && Object.keys(currentImage.issuesByModel).length > 0
     ? Object.keys(currentImage.issuesByModel)
     : [defaultModelId]; // 默认显示当前选中的模型
 
-  // 确保 activeModelTab 在 analyzedModels 中
+  const isConsensusTab = activeModelTab === CONSENSUS_TAB_ID;
+
+  // 确保 activeModelTab 在 analyzedModels 中（共识 tab 需要至少两个模型）
   React.useEffect(() => {
-    if (!analyzedModels.includes(activeModelTab)) {
+    if (isConsensusTab ? analyzedModels.length < 2 : !analyzedModels.includes(activeModelTab)) {
       onActiveModelChange(analyzedModels[0] || defaultModelId);
     }
-  }, [analyzedModels, activeModelTab, defaultModelId]);
+  }, [analyzedModels, activeModelTab, isConsensusTab, defaultModelId]);
 
   // 打开弹窗时同步图片索引并重置缩放/旋转
   React.useEffect(() => {
@@ -79,15 +102,73 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
   const safeModalIndex = Math.min(Math.max(0, modalImageIndex), images.length - 1);
   const modalImage = images.length > 0 ? images[safeModalIndex] : null;
 
-  // 获取当前 tab 的检测结果
-  const currentTabData = currentImage?.issuesByModel?.[activeModelTab] || {
+  // 获取当前 tab 的检测结果（共识 tab 的 AI 建议为合并结果）
+  const resultModelData = currentImage?.issuesByModel?.[resolveResultModel(activeModelTab, currentImage?.issuesByModel)] || {
     issues: currentImage?.issues || [],
     deterministicIssues: currentImage?.deterministicIssues || [],
     lexiconIssues: []
   };
+  const currentTabData = isConsensusTab ? { ...resultModelData, issues: consensusIssues } : resultModelData;
+
+  // AI 建议按分类分组（按检查清单顺序，只保留有问题的分类）
+  const issueGroups: { type: IssueType; issues: DiagnosisIssue[] }[] = ISSUE_TYPE_LIST
+    .map(type => ({ type, issues: currentTabData.issues.filter(issue => (issue.type || 'content') === type) }))
+    .filter(group => group.issues.length > 0);
+  // 切换图片或模型后所选分类可能不存在，此时显示全部
+  const activeIssueType = issueGroups.some(group => group.type === issueTypeFilter) ? issueTypeFilter : null;
+  // 共识 tab 不分组，保持按置信度排序的单一列表
+  const visibleIssueGroups: { type: IssueType | null; issues: DiagnosisIssue[] }[] = isConsensusTab
+    ? [{ type: null, issues: currentTabData.issues.filter(issue => !activeIssueType || issue.type === activeIssueType) }]
+    : activeIssueType ? issueGroups.filter(group => group.type === activeIssueType) : issueGroups;
+
+  // 词库命中按会话白名单重新标记，已忽略的单独展示
+  const lexiconIssues: LexiconIssue[] = applyAllowListToIssues(currentTabData.lexiconIssues || [], allowList, currentImage?.ocrText);
+  const activeLexiconIssues = lexiconIssues.filter(issue => !issue.suppressed);
+  const suppressedLexiconIssues = lexiconIssues.filter(issue => issue.suppressed);
+
+  // 必备内容按整个产品检查（可能印在任意一面），没有 OCR 文本时不检查
+  const productOcrText = images.map(img => img.ocrText || '').filter(Boolean).join('\n');
+  const requiredResults: RequiredStatementResult[] = productOcrText
+    ? checkRequiredStatements(productOcrText, currentImage?.industry || 'general', currentImage?.markets, getEnabledLexiconDomains() || undefined)
+    : [];
+  const missingStatements: RequiredStatementIssue[] = requiredStatementsToIssues(requiredResults);
+  // 印前检查按检查清单分类排序
+  const preflightIssues: PreflightIssue[] = [...(currentImage?.preflight || [])]
+    .sort((a, b) => ISSUE_TYPE_LIST.indexOf(a.type) - ISSUE_TYPE_LIST.indexOf(b.type));
+
+  const countActiveLexicon = (issues?: LexiconIssue[]) =>
+    applyAllowListToIssues(issues || [], allowList, currentImage?.ocrText).filter(issue => !issue.suppressed).length;
+
+  const handleAllowPhrase = (issue: LexiconIssue) => {
+    const phrase = window.prompt('加入本产品白名单（可补全为完整短语，如品牌名）', issue.original)?.trim();
+    if (!phrase || allowList.some(p => p.toLowerCase() === phrase.toLowerCase())) return;
+    onAllowListChange([...allowList, phrase]);
+  };
+
+  const handleRestorePhrase = (issue: LexiconIssue) => {
+    const phrase = issue.suppressed?.phrase?.toLowerCase();
+    onAllowListChange(allowList.filter(p => p.trim().toLowerCase() !== phrase));
+  };
+
+  const getModelName = (modelId: string) => {
+    const model = availableModels.find(m => m.id === modelId);
+    return model?.name || (modelId.includes('gemini') ? 'Gemini 3 Pro' : modelId);
+  };
+
+  // 打开共识菜单：默认选中已分析的模型
+  const openConsensusMenu = () => {
+    setConsensusSelection(analyzedModels.filter(modelId => availableModels.some(m => m.id === modelId)));
+    setShowConsensusMenu(true);
+  };
+
+  const toggleConsensusModel = (modelId: string) => {
+    setConsensusSelection(consensusSelection.includes(modelId)
+      ? consensusSelection.filter(id => id !== modelId)
+      : [...consensusSelection, modelId]);
+  };
 
   // 可添加的模型列表（排除已分析的）
-  const availableModelsToAdd = AVAILABLE_MODELS.filter(
+  const availableModelsToAdd = availableModels.filter(
     m => !analyzedModels.includes(m.id)
   );
   const renderOriginal = (text: string) => {
@@ -108,7 +189,7 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
 
   const handleCopyModelResult = (modelId: string) => {
     const modelData = currentImage?.issuesByModel?.[modelId];
-    const model = AVAILABLE_MODELS.find(m => m.id === modelId);
+    const model = availableModels.find(m => m.id === modelId);
     const displayName = model?.name || modelId;
     const issues = modelData?.issues || [];
     const detIssues = modelData?.deterministicIssues || [];
@@ -117,14 +198,14 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
     if (detIssues.length > 0) {
       text += `确定性问题（${detIssues.length}）:\n`;
       detIssues.forEach((issue, i) => {
-        const typeLabel = issue.type === 'bracket_mismatch' ? '括号不配对' : issue.type === 'encoding_error' ? '编码错误' : '格式错误';
-        text += `${i + 1}. [${typeLabel}] ${issue.description}\n   位置: ${issue.location}\n\n`;
+        const typeLabel = getDeterministicLabel(issue);
+        text += `${i + 1}. [${typeLabel}] ${issue.description}\n   位置: ${issue.location}\n${issue.suggestion ? `   建议: ${issue.suggestion}\n` : ''}\n`;
       });
     }
     if (issues.length > 0) {
       text += `AI建议（${issues.length}）:\n`;
       issues.forEach((issue, i) => {
-        text += `${i + 1}. 原文: ${issue.original || issue.text}\n   问题: ${issue.problem || ''}\n   建议: ${issue.suggestion}\n\n`;
+        text += `${i + 1}. [${ISSUE_TYPE_LABELS[issue.type] || issue.type}] 原文: ${issue.original || issue.text}\n   问题: ${issue.problem || ''}\n   建议: ${issue.suggestion}\n\n`;
       });
     }
     navigator.clipboard.writeText(text);
@@ -159,6 +240,16 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
               <Columns size={12} />
             </button>
           )}
+          {availableModels.length > 1 && (
+            <button
+              onClick={openConsensusMenu}
+              disabled={isCurrentProcessing || !currentImage}
+              className="p-1 rounded text-text-muted hover:text-text-primary hover:bg-surface-100 transition-colors disabled:opacity-50"
+              title="多模型共识"
+            >
+              <GitMerge size={12} />
+            </button>
+          )}
           {availableModelsToAdd.length > 0 && (
             <button
               onClick={() => setShowModelMenu(!showModelMenu)}
@@ -181,9 +272,9 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
       {/* 模型 Tabs - 可换行 */}
       <div className="px-2 py-1.5 border-b border-border bg-white flex flex-wrap gap-1">
         {analyzedModels.map((modelId) => {
-          const model = AVAILABLE_MODELS.find(m => m.id === modelId);
+          const model = availableModels.find(m => m.id === modelId);
           const modelData = currentImage?.issuesByModel?.[modelId];
-          const issueCount = (modelData?.issues.length || 0) + (modelData?.deterministicIssues?.length || 0) + (modelData?.lexiconIssues?.length || 0);
+          const issueCount = (modelData?.issues.length || 0) + (modelData?.deterministicIssues?.length || 0) + countActiveLexicon(modelData?.lexiconIssues);
           const displayName = model?.name || (modelId.includes('gemini') ? 'Gemini 3 Pro' : modelId);
 
           const isProcessing = isCurrentProcessing && processingModelId === modelId;
@@ -207,6 +298,22 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
             </button>
           );
         })}
+        {analyzedModels.length > 1 && (
+          <button
+            onClick={() => onActiveModelChange(CONSENSUS_TAB_ID)}
+            className={`flex items-center gap-1 px-2.5 py-1 rounded-lg text-[11px] font-medium transition-all ${
+              isConsensusTab
+                ? 'bg-white text-text-primary shadow-sm'
+                : 'text-text-muted hover:text-text-secondary hover:bg-white/50'
+            }`}
+          >
+            <GitMerge size={10} />
+            <span>共识</span>
+            {consensusIssues.length > 0 && (
+              <span className="bg-text-primary text-white text-[9px] px-1.5 rounded-full">{consensusIssues.length}</span>
+            )}
+          </button>
+        )}
       </div>
 
       {/* 模型选择菜单 - 使用 Portal 确保在最顶层 */}
@@ -239,6 +346,51 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
         document.body
       )}
 
+      {/* 共识模型选择菜单 */}
+      {showConsensusMenu && createPortal(
+        <>
+          <div
+            className="fixed inset-0 z-[9998]"
+            onClick={() => setShowConsensusMenu(false)}
+          />
+          <div className="fixed top-20 right-4 w-56 bg-surface-100 border border-border rounded-lg shadow-xl z-[9999] overflow-hidden">
+            <div className="p-2 border-b border-border">
+              <p className="text-[10px] text-text-muted">选择参与共识的模型，合并去重后按一致度排序</p>
+            </div>
+            {availableModels.map((model) => (
+              <label
+                key={model.id}
+                className="flex items-start gap-2 px-3 py-2 hover:bg-surface-200 transition-colors cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={consensusSelection.includes(model.id)}
+                  onChange={() => toggleConsensusModel(model.id)}
+                  className="mt-0.5"
+                />
+                <div>
+                  <div className="text-xs font-medium text-text-secondary">{model.name}</div>
+                  <div className="text-[10px] text-text-muted">{analyzedModels.includes(model.id) && currentImage?.issuesByModel?.[model.id] ? '已分析' : model.description}</div>
+                </div>
+              </label>
+            ))}
+            <div className="p-2 border-t border-border">
+              <button
+                onClick={() => {
+                  onRunConsensus(consensusSelection);
+                  setShowConsensusMenu(false);
+                }}
+                disabled={consensusSelection.length < 2}
+                className="w-full py-1.5 rounded bg-text-primary text-white text-[11px] font-medium disabled:opacity-40"
+              >
+                运行共识检测（{consensusSelection.length} 个模型）
+              </button>
+            </div>
+          </div>
+        </>,
+        document.body
+      )}
+
       {currentImage?.description && (
         <div>
           <div className="flex items-center gap-2 px-3 py-2 text-[10px] font-medium text-text-muted bg-surface-50 border-b border-border/50">
@@ -270,16 +422,24 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
                   确定性问题
                 </div>
                 {currentTabData.deterministicIssues.map((issue) => {
-                  const copyText = `类型: ${issue.type === 'bracket_mismatch' ? '括号不配对' : issue.type === 'encoding_error' ? '编码错误' : '格式错误'}\n问题: ${issue.description}\n位置: ${issue.location}`;
+                  const copyText = `类型: ${getDeterministicLabel(issue)}\n问题: ${issue.description}\n位置: ${issue.location}${issue.suggestion ? `\n建议: ${issue.suggestion}` : ''}`;
                   return (
-                    <div key={issue.id} className="px-3 py-2 border-b border-border/50 last:border-b-0 bg-white group">
+                    <div
+                      key={issue.id}
+                      data-issue-id={issue.id}
+                      onClick={() => onSelectIssue(issue.id)}
+                      className={`px-3 py-2 border-b border-border/50 last:border-b-0 cursor-pointer transition-all group bg-white ${
+                        selectedIssueId === issue.id ? 'bg-primary-50/50' : 'hover:bg-surface-50'
+                      }`}
+                    >
                       <div className="flex items-center gap-2 mb-1">
                         <span className="w-1.5 h-1.5 rounded-full bg-red-500 shrink-0"></span>
                         <span className="text-[10px] font-medium text-red-600">
-                          {issue.type === 'bracket_mismatch' ? '括号不配对' : issue.type === 'encoding_error' ? '编码错误' : '格式错误'}
+                          {getDeterministicLabel(issue)}
                         </span>
+                        {issue.box_2d && <MapPin size={10} className="text-text-muted" aria-label="已定位到图片" />}
                         <button
-                          onClick={() => onCopy(copyText, issue.id)}
+                          onClick={(e) => { e.stopPropagation(); onCopy(copyText, issue.id); }}
                           className="p-1 rounded hover:bg-surface-100 transition-colors opacity-0 group-hover:opacity-100 ml-auto"
                           title="复制"
                         >
@@ -287,6 +447,9 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
                         </button>
                       </div>
                       <p className="text-xs text-text-primary mb-1">{issue.description}</p>
+                      {issue.suggestion && (
+                        <p className="text-[11px] text-text-secondary mb-1">→ {issue.suggestion}</p>
+                      )}
                       <div className="text-[10px] text-text-muted font-mono">{issue.location}</div>
                     </div>
                   );
@@ -294,16 +457,126 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
               </div>
             )}
 
-            {currentTabData.lexiconIssues && currentTabData.lexiconIssues.length > 0 && (
+            {((currentImage.barcodes && currentImage.barcodes.length > 0) || barcodeIssues.length > 0) && (
               <div>
                 <div className="flex items-center gap-2 px-3 py-2 text-[10px] font-medium text-text-muted bg-surface-50 border-b border-border/50">
-                  <BookOpen size={10} />
-                  词库命中
-                  <span className="ml-auto text-[9px] text-amber-600 bg-amber-50 px-1.5 py-0.5 rounded">确定性</span>
+                  <ScanBarcode size={10} />
+                  条码 / GTIN
+                  <span className="ml-auto text-[9px] text-amber-600 bg-amber-50 px-1.5 py-0.5 rounded">本地识别</span>
                 </div>
-                {currentTabData.lexiconIssues.map((issue: LexiconIssue) => {
-                  const ruleHit = issue.ruleHits?.[0];
-                  const copyText = `命中词: ${issue.original}\n风险: ${issue.problem}\n建议: ${issue.suggestion}\n来源: ${ruleHit?.source || ''}`;
+                {(currentImage.barcodes || []).length > 0 && (
+                  <div className="px-3 py-2 border-b border-border/50 bg-white flex flex-wrap gap-1">
+                    {(currentImage.barcodes || []).map((barcode, i) => {
+                      const gtin = gtinFromBarcode(barcode);
+                      const prefix = gtin ? lookupGs1Prefix(gtin) : null;
+                      return (
+                        <span
+                          key={`${barcode.format}-${barcode.rawValue}-${i}`}
+                          className="text-[10px] text-text-secondary bg-surface-100 px-1.5 py-0.5 rounded font-mono max-w-full truncate"
+                          title={barcode.rawValue}
+                        >
+                          {BARCODE_FORMAT_LABELS[barcode.format]} {gtin || barcode.rawValue}
+                          {prefix && <span className="font-sans text-text-muted"> · {prefix.name}</span>}
+                        </span>
+                      );
+                    })}
+                  </div>
+                )}
+                {barcodeIssues.map((issue: BarcodeIssue) => {
+                  const copyText = `条码: ${issue.code}\n问题: ${issue.problem}\n建议: ${issue.suggestion}`;
+                  return (
+                    <div
+                      key={issue.id}
+                      data-issue-id={issue.id}
+                      onClick={() => onSelectIssue(issue.id)}
+                      className={`px-3 py-2 border-b border-border/50 last:border-b-0 cursor-pointer transition-all group bg-white ${
+                        selectedIssueId === issue.id ? 'bg-primary-50/50' : 'hover:bg-surface-50'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${
+                          issue.severity === 'high' ? 'bg-red-500' : issue.severity === 'medium' ? 'bg-amber-500' : 'bg-surface-300'
+                        }`}></span>
+                        <span className={`text-[10px] font-medium ${
+                          issue.severity === 'high' ? 'text-red-600' : issue.severity === 'medium' ? 'text-amber-600' : 'text-text-muted'
+                        }`}>
+                          {issue.severity === 'high' ? 'P0' : issue.severity === 'medium' ? 'P1' : 'P2'}
+                        </span>
+                        {issue.format && <span className="text-[9px] text-text-muted font-mono">{BARCODE_FORMAT_LABELS[issue.format]}</span>}
+                        {issue.box_2d && <MapPin size={10} className="text-text-muted" aria-label="已定位到图片" />}
+                        <button
+                          onClick={(e) => { e.stopPropagation(); onCopy(copyText, issue.id); }}
+                          className="p-1 rounded hover:bg-surface-100 transition-colors opacity-0 group-hover:opacity-100 ml-auto"
+                          title="复制"
+                        >
+                          {copiedId === issue.id ? <CheckCheck size={12} className="text-success" /> : <Copy size={12} className="text-text-muted" />}
+                        </button>
+                      </div>
+                      <p className="text-xs text-text-primary mb-1">{issue.problem}</p>
+                      <p className="text-[11px] text-text-secondary">→ {issue.suggestion}</p>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {preflightIssues.length > 0 && (
+              <div>
+                <div className="flex items-center gap-2 px-3 py-2 text-[10px] font-medium text-text-muted bg-surface-50 border-b border-border/50">
+                  <Printer size={10} />
+                  印前检查
+                  <span className="ml-auto text-[9px] text-amber-600 bg-amber-50 px-1.5 py-0.5 rounded">读取 PDF</span>
+                </div>
+                {preflightIssues.map((issue: PreflightIssue) => {
+                  const copyText = `[${ISSUE_TYPE_LABELS[issue.type]}] ${issue.problem}\n建议: ${issue.suggestion}`;
+                  return (
+                    <div
+                      key={issue.id}
+                      data-issue-id={issue.id}
+                      onClick={() => onSelectIssue(issue.id)}
+                      className={`px-3 py-2 border-b border-border/50 last:border-b-0 cursor-pointer transition-all group bg-white ${
+                        selectedIssueId === issue.id ? 'bg-primary-50/50' : 'hover:bg-surface-50'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${
+                          issue.severity === 'high' ? 'bg-red-500' : issue.severity === 'medium' ? 'bg-amber-500' : 'bg-surface-300'
+                        }`}></span>
+                        <span className={`text-[10px] font-medium ${
+                          issue.severity === 'high' ? 'text-red-600' : issue.severity === 'medium' ? 'text-amber-600' : 'text-text-muted'
+                        }`}>
+                          {issue.severity === 'high' ? 'P0' : issue.severity === 'medium' ? 'P1' : 'P2'}
+                        </span>
+                        <span className="text-[9px] text-text-muted bg-surface-100 px-1.5 py-0.5 rounded">{ISSUE_TYPE_LABELS[issue.type]}</span>
+                        {issue.box_2d && <MapPin size={10} className="text-text-muted" aria-label="已定位到图片" />}
+                        <button
+                          onClick={(e) => { e.stopPropagation(); onCopy(copyText, issue.id); }}
+                          className="p-1 rounded hover:bg-surface-100 transition-colors opacity-0 group-hover:opacity-100 ml-auto"
+                          title="复制"
+                        >
+                          {copiedId === issue.id ? <CheckCheck size={12} className="text-success" /> : <Copy size={12} className="text-text-muted" />}
+                        </button>
+                      </div>
+                      <p className="text-xs text-text-primary mb-1">{issue.problem}</p>
+                      <p className="text-[11px] text-text-secondary">→ {issue.suggestion}</p>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {missingStatements.length > 0 && (
+              <div>
+                <div className="flex items-center gap-2 px-3 py-2 text-[10px] font-medium text-text-muted bg-surface-50 border-b border-border/50">
+                  <FileText size={10} />
+                  必备内容缺失
+                  <span className="text-[9px] font-normal" title="按本产品全部图片的 OCR 文本检查">
+                    {requiredResults.length - missingStatements.length}/{requiredResults.length} 已具备
+                  </span>
+                </div>
+                {missingStatements.map((issue: RequiredStatementIssue) => {
+                  const ruleHit = issue.ruleHits[0];
+                  const copyText = `缺失: ${issue.problem}\n建议: ${issue.suggestion}\n来源: ${ruleHit?.source || ''}`;
                   return (
                     <div key={issue.id} className="px-3 py-2 border-b border-border/50 last:border-b-0 bg-white group">
                       <div className="flex items-center gap-2 mb-1">
@@ -324,10 +597,7 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
                           {copiedId === issue.id ? <CheckCheck size={12} className="text-success" /> : <Copy size={12} className="text-text-muted" />}
                         </button>
                       </div>
-                      <p className="text-xs text-text-primary mb-1">
-                        <span className="bg-red-100 text-red-700 px-1 rounded font-medium">{issue.original}</span>
-                      </p>
-                      <p className="text-[11px] text-text-secondary mb-1">{issue.problem}</p>
+                      <p className="text-xs text-text-primary mb-1">{issue.problem}</p>
                       <p className="text-[11px] text-text-secondary">→ {issue.suggestion}</p>
                       {ruleHit?.source && (
                         <div className="flex items-center gap-1 mt-2 text-[10px] text-text-muted">
@@ -338,7 +608,6 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
                               target="_blank"
                               rel="noopener noreferrer"
                               className="text-primary-600 hover:underline inline-flex items-center gap-0.5"
-                              onClick={(e) => e.stopPropagation()}
                             >
                               <ExternalLink size={10} />
                             </a>
@@ -351,17 +620,19 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
               </div>
             )}
 
-            {currentTabData.issues.length > 0 && (
+            {activeLexiconIssues.length > 0 && (
               <div>
                 <div className="flex items-center gap-2 px-3 py-2 text-[10px] font-medium text-text-muted bg-surface-50 border-b border-border/50">
-                  <ShieldAlert size={10} />
-                  AI 建议
+                  <BookOpen size={10} />
+                  词库命中
+                  {activeLexiconIssues[0].lexiconVersion && (
+                    <span className="text-[9px] font-mono font-normal" title="匹配时使用的词库版本">v{activeLexiconIssues[0].lexiconVersion}</span>
+                  )}
+                  <span className="ml-auto text-[9px] text-amber-600 bg-amber-50 px-1.5 py-0.5 rounded">确定性</span>
                 </div>
-                {currentTabData.issues.map((issue) => {
-                  const displayOriginal = issue.original || issue.text || '';
-                  const displayProblem = issue.problem || '';
-                  const copyText = `原文: ${displayOriginal}\n问题: ${displayProblem}\n建议: ${issue.suggestion}`;
-
+                {activeLexiconIssues.map((issue: LexiconIssue) => {
+                  const ruleHit = issue.ruleHits?.[0];
+                  const copyText = `命中词: ${issue.original}\n风险: ${issue.problem}\n建议: ${issue.suggestion}\n来源: ${ruleHit?.source || ''}\n词库版本: ${issue.lexiconVersion || ''}`;
                   return (
                     <div
                       key={issue.id}
@@ -378,25 +649,45 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
                         <span className={`text-[10px] font-medium ${
                           issue.severity === 'high' ? 'text-red-600' : issue.severity === 'medium' ? 'text-amber-600' : 'text-text-muted'
                         }`}>
-                          {issue.severity === 'high' ? '紧急' : issue.severity === 'medium' ? '警告' : '提示'}
+                          {issue.severity === 'high' ? 'P0' : issue.severity === 'medium' ? 'P1' : 'P2'}
                         </span>
+                        <span className="text-[9px] text-text-muted font-mono">{ruleHit?.id}</span>
+                        {issue.box_2d && <MapPin size={10} className="text-text-muted" aria-label="已定位到图片" />}
                         <button
-                          onClick={(e) => { e.stopPropagation(); onCopy(copyText, issue.id); }}
+                          onClick={(e) => { e.stopPropagation(); handleAllowPhrase(issue); }}
                           className="p-1 rounded hover:bg-surface-100 transition-colors opacity-0 group-hover:opacity-100 ml-auto"
+                          title="误报，加入本产品白名单"
+                        >
+                          <EyeOff size={12} className="text-text-muted" />
+                        </button>
+                        <button
+                          onClick={(e) => { e.stopPropagation(); onCopy(copyText, issue.id); }}
+                          className="p-1 rounded hover:bg-surface-100 transition-colors opacity-0 group-hover:opacity-100"
                           title="复制"
                         >
                           {copiedId === issue.id ? <CheckCheck size={12} className="text-success" /> : <Copy size={12} className="text-text-muted" />}
                         </button>
                       </div>
-
-                      <p className="text-xs text-text-primary mb-1">{renderOriginal(displayOriginal)}</p>
-
-                      {displayProblem && (
-                        <p className="text-[11px] text-text-secondary mb-1">{displayProblem}</p>
-                      )}
-
-                      {issue.suggestion && (
-                        <p className="text-[11px] text-text-secondary">→ {issue.suggestion}</p>
+                      <p className="text-xs text-text-primary mb-1">
+                        <span className="bg-red-100 text-red-700 px-1 rounded font-medium">{issue.original}</span>
+                      </p>
+                      <p className="text-[11px] text-text-secondary mb-1">{issue.problem}</p>
+                      <p className="text-[11px] text-text-secondary">→ {issue.suggestion}</p>
+                      {ruleHit?.source && (
+                        <div className="flex items-center gap-1 mt-2 text-[10px] text-text-muted">
+                          <span>来源: {ruleHit.source}</span>
+                          {ruleHit.sourceUrl && (
+                            <a
+                              href={ruleHit.sourceUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-primary-600 hover:underline inline-flex items-center gap-0.5"
+                              onClick={(e) => e.stopPropagation()}
+                            >
+                              <ExternalLink size={10} />
+                            </a>
+                          )}
+                        </div>
                       )}
                     </div>
                   );
@@ -404,9 +695,131 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
               </div>
             )}
 
+            {suppressedLexiconIssues.length > 0 && (
+              <div>
+                <button
+                  onClick={() => setShowSuppressed(!showSuppressed)}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-[10px] font-medium text-text-muted bg-surface-50 border-b border-border/50 hover:text-text-secondary"
+                >
+                  <EyeOff size={10} />
+                  已忽略的词库命中（{suppressedLexiconIssues.length}）
+                  <ChevronDown size={10} className={`ml-auto transition-transform ${showSuppressed ? 'rotate-180' : ''}`} />
+                </button>
+                {showSuppressed && suppressedLexiconIssues.map((issue: LexiconIssue) => (
+                  <div key={issue.id} className="px-3 py-2 border-b border-border/50 last:border-b-0 bg-white group">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-xs text-text-muted line-through">{issue.original}</span>
+                      <span className="text-[9px] text-text-muted font-mono">{issue.ruleHits?.[0]?.id}</span>
+                      {issue.suppressed?.source === 'allow_list' && (
+                        <button
+                          onClick={() => handleRestorePhrase(issue)}
+                          className="text-[10px] text-primary-600 hover:underline opacity-0 group-hover:opacity-100 ml-auto"
+                        >
+                          恢复
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-[11px] text-text-muted">{issue.suppressed?.reason}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {currentTabData.issues.length > 0 && (
+              <div>
+                <div className="flex items-center gap-2 px-3 py-2 text-[10px] font-medium text-text-muted bg-surface-50 border-b border-border/50">
+                  <ShieldAlert size={10} />
+                  AI 建议
+                </div>
+                <div className="flex flex-wrap gap-1 px-3 py-2 border-b border-border/50 bg-white">
+                  <button
+                    onClick={() => setIssueTypeFilter(null)}
+                    className={`px-2 py-0.5 rounded text-[10px] transition-colors ${
+                      activeIssueType === null ? 'bg-primary-50 text-primary-600 font-medium' : 'bg-surface-100 text-text-muted hover:text-text-primary'
+                    }`}
+                  >
+                    全部 {currentTabData.issues.length}
+                  </button>
+                  {issueGroups.map(group => (
+                    <button
+                      key={group.type}
+                      onClick={() => setIssueTypeFilter(activeIssueType === group.type ? null : group.type)}
+                      className={`px-2 py-0.5 rounded text-[10px] transition-colors ${
+                        activeIssueType === group.type ? 'bg-primary-50 text-primary-600 font-medium' : 'bg-surface-100 text-text-muted hover:text-text-primary'
+                      }`}
+                    >
+                      {ISSUE_TYPE_LABELS[group.type]} {group.issues.length}
+                    </button>
+                  ))}
+                </div>
+                {visibleIssueGroups.map(group => (
+                  <div key={group.type || 'all'}>
+                    {group.type && (
+                      <div className="px-3 py-1 text-[10px] text-text-muted bg-surface-50/60 border-b border-border/50">
+                        {ISSUE_TYPE_LABELS[group.type]} · {group.issues.length}
+                      </div>
+                    )}
+                    {group.issues.map((issue) => {
+                      const displayOriginal = issue.original || issue.text || '';
+                      const displayProblem = issue.problem || '';
+                      const consensus = isConsensusTab ? issue as ConsensusIssue : null;
+                      const copyText = `类型: ${ISSUE_TYPE_LABELS[issue.type] || issue.type}\n原文: ${displayOriginal}\n问题: ${displayProblem}\n建议: ${issue.suggestion}`;
+
+                      return (
+                        <div
+                          key={issue.id}
+                          data-issue-id={issue.id}
+                          onClick={() => onSelectIssue(issue.id)}
+                          className={`px-3 py-2 border-b border-border/50 last:border-b-0 cursor-pointer transition-all group bg-white ${
+                            selectedIssueId === issue.id ? 'bg-primary-50/50' : 'hover:bg-surface-50'
+                          }`}
+                        >
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${
+                              issue.severity === 'high' ? 'bg-red-500' : issue.severity === 'medium' ? 'bg-amber-500' : 'bg-surface-300'
+                            }`}></span>
+                            <span className={`text-[10px] font-medium ${
+                              issue.severity === 'high' ? 'text-red-600' : issue.severity === 'medium' ? 'text-amber-600' : 'text-text-muted'
+                            }`}>
+                              {issue.severity === 'high' ? '紧急' : issue.severity === 'medium' ? '警告' : '提示'}
+                            </span>
+                            {consensus && (
+                              <span
+                                className="px-1.5 py-0.5 rounded bg-surface-100 text-[9px] text-text-muted"
+                                title={`发现模型：${consensus.foundBy.map(getModelName).join('、')}`}
+                              >
+                                一致度 {Math.round(consensus.agreement * 100)}% · {CONFIDENCE_LABELS[consensus.confidence || 'possible']}
+                              </span>
+                            )}
+                            <button
+                              onClick={(e) => { e.stopPropagation(); onCopy(copyText, issue.id); }}
+                              className="p-1 rounded hover:bg-surface-100 transition-colors opacity-0 group-hover:opacity-100 ml-auto"
+                              title="复制"
+                            >
+                              {copiedId === issue.id ? <CheckCheck size={12} className="text-success" /> : <Copy size={12} className="text-text-muted" />}
+                            </button>
+                          </div>
+
+                          <p className="text-xs text-text-primary mb-1">{renderOriginal(displayOriginal)}</p>
+
+                          {displayProblem && (
+                            <p className="text-[11px] text-text-secondary mb-1">{displayProblem}</p>
+                          )}
+
+                          {issue.suggestion && (
+                            <p className="text-[11px] text-text-secondary">→ {issue.suggestion}</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            )}
+
             {currentTabData.issues.length === 0 &&
              (!currentTabData.deterministicIssues || currentTabData.deterministicIssues.length === 0) &&
-             (!currentTabData.lexiconIssues || currentTabData.lexiconIssues.length === 0) && (
+             activeLexiconIssues.length === 0 && missingStatements.length === 0 && barcodeIssues.length === 0 && preflightIssues.length === 0 && (
               <div className="text-center py-12 text-text-muted">
                 <CheckCircle size={24} className="mx-auto mb-2 text-emerald-500/50" />
                 <p className="text-xs">未检测到问题</p>
@@ -491,7 +904,7 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({
             <div className="flex-1 overflow-x-auto py-6 pr-6 scroll-smooth">
               <div className="flex gap-3 h-full" style={{ minWidth: `${(modalImage?.issuesByModel ? Object.keys(modalImage.issuesByModel).length : 1) * 270}px` }}>
                 {(modalImage?.issuesByModel ? Object.keys(modalImage.issuesByModel) : [defaultModelId]).map((modelId) => {
-                  const model = AVAILABLE_MODELS.find(m => m.id === modelId);
+                  const model = availableModels.find(m => m.id === modelId);
                   const modelData = modalImage?.issuesByModel?.[modelId];
                   const displayName = model?.name || (modelId.includes('gemini') ? 'Gemini 3 Pro' : modelId);
                   const issues = modelData?.issues || [];
@@ -0,0 +1,250 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Loader2, Flame, ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { CanvasTransform, ImageItem, BoundingBox } from '../../types/types';
+import { InfiniteCanvas } from './InfiniteCanvas';
+import {
+  computeVisualDiff, diffOcrText, trackRevisionIssues, REVISION_STATUS_LABELS,
+  type RevisionIssue, type RevisionIssueStatus, type RevisionVisualDiff
+} from '../../services/revisionService';
+
+interface RevisionCompareViewProps {
+  previous: ImageItem;
+  current: ImageItem;
+  modelId: string;          // 按该模型的 AI 结果配对问题（没有时取第一个已分析模型）
+  allowList: string[];
+  onClose: () => void;
+}
+
+const STATUS_ORDER: RevisionIssueStatus[] = ['persisting', 'new', 'fixed'];
+
+const STATUS_STYLES: Record<RevisionIssueStatus, { dot: string; text: string; box: string }> = {
+  persisting: { dot: 'bg-amber-500', text: 'text-amber-600', box: 'border-amber-400 bg-amber-400/10' },
+  new: { dot: 'bg-red-500', text: 'text-red-600', box: 'border-red-500 bg-red-500/10' },
+  fixed: { dot: 'bg-emerald-500', text: 'text-emerald-600', box: 'border-emerald-500 bg-emerald-500/10' }
+};
+
+const KIND_LABELS: Record<RevisionIssue['kind'], string> = {
+  ai: 'AI',
+  rule: '规则',
+  lexicon: '词库',
+  preflight: '印前'
+};
+
+const getStyleForBox = (box: BoundingBox) => ({
+  top: `${box.ymin / 10}%`,
+  left: `${box.xmin / 10}%`,
+  height: `${(box.ymax - box.ymin) / 10}%`,
+  width: `${(box.xmax - box.xmin) / 10}%`,
+});
+
+export const RevisionCompareView: React.FC<RevisionCompareViewProps> = ({ previous, current, modelId, allowList, onClose }) => {
+  const [transform, setTransform]: [CanvasTransform, (t: CanvasTransform) => void] = useState({ x: 0, y: 0, scale: 1 });
+  const [selectedId, setSelectedId]: [string | null, (id: string | null) => void] = useState(null);
+  const [visual, setVisual]: [RevisionVisualDiff | null, (diff: RevisionVisualDiff | null) => void] = useState(null);
+  const [visualError, setVisualError]: [string | null, (message: string | null) => void] = useState(null);
+  const [showHeatmap, setShowHeatmap] = useState(true);
+
+  // 像素对比在浏览器本地计算（对齐搜索较耗时，切换图片时丢弃过期结果）
+  useEffect(() => {
+    let cancelled = false;
+    setVisual(null);
+    setVisualError(null);
+    computeVisualDiff(previous, current)
+      .then(diff => { if (!cancelled) setVisual(diff); })
+      .catch((error: any) => {
+        console.error('Revision visual diff failed:', error);
+        if (!cancelled) setVisualError(error.message || '像素对比失败');
+      });
+    return () => { cancelled = true; };
+  }, [previous.id, current.id]);
+
+  const revisionIssues: RevisionIssue[] = useMemo(
+    () => trackRevisionIssues(previous, current, modelId, allowList, visual?.alignment),
+    [previous, current, modelId, allowList, visual]
+  );
+  const textDiff = useMemo(() => diffOcrText(previous.ocrText || '', current.ocrText || ''), [previous.ocrText, current.ocrText]);
+  const textChanges = textDiff.filter(entry => entry.type !== 'same');
+  const statusCounts = STATUS_ORDER.map(status => ({ status, count: revisionIssues.filter(issue => issue.status === status).length }));
+
+  // 上一版标注已修复的问题，当前版本标注仍存在和新增的问题
+  const renderOverlay = (image: ImageItem) => {
+    const isCurrent = image.id === current.id;
+    const located = revisionIssues.filter(issue => issue.box_2d && (isCurrent ? issue.status !== 'fixed' : issue.status === 'fixed'));
+    return (
+      <>
+        {isCurrent && showHeatmap && visual && (
+          <img src={visual.heatmap} alt="" className="absolute inset-0 w-full h-full object-contain pointer-events-none" draggable={false} />
+        )}
+        {located.map(issue => (
+          <div
+            key={`${issue.status}-${issue.id}`}
+            onClick={(e) => { e.stopPropagation(); setSelectedId(issue.id); }}
+            className={`absolute rounded-sm cursor-pointer border-2 ${selectedId === issue.id ? 'border-solid shadow-lg z-40' : 'border-dashed'} ${STATUS_STYLES[issue.status].box}`}
+            style={getStyleForBox(issue.box_2d!)}
+            title={`${REVISION_STATUS_LABELS[issue.status]} · ${issue.original || issue.problem}`}
+          />
+        ))}
+        <span className="absolute bottom-2 left-2 text-[10px] text-white bg-black/70 px-2 py-1 rounded pointer-events-none">
+          {isCurrent ? '当前版本' : '上一版'}
+        </span>
+      </>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[9999] bg-surface-50 flex flex-col">
+      {/* 顶部工具栏 */}
+      <div className="shrink-0 h-14 flex items-center justify-between px-4 bg-white/50 border-b border-border">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setTransform({ ...transform, scale: Math.max(0.2, transform.scale / 1.2) })}
+            className="p-2 rounded-lg text-text-muted hover:text-text-primary hover:bg-surface-100 transition-colors"
+            title="缩小"
+          >
+            <ZoomOut size={18} />
+          </button>
+          <span className="text-xs text-text-muted w-12 text-center">{Math.round(transform.scale * 100)}%</span>
+          <button
+            onClick={() => setTransform({ ...transform, scale: Math.min(5, transform.scale * 1.2) })}
+            className="p-2 rounded-lg text-text-muted hover:text-text-primary hover:bg-surface-100 transition-colors"
+            title="放大"
+          >
+            <ZoomIn size={18} />
+          </button>
+          <button
+            onClick={() => setTransform({ x: 0, y: 0, scale: 1 })}
+            className="p-2 rounded-lg text-text-muted hover:text-text-primary hover:bg-surface-100 transition-colors"
+            title="重置视图"
+          >
+            <Maximize2 size={18} />
+          </button>
+          <button
+            onClick={() => setShowHeatmap(!showHeatmap)}
+            disabled={!visual}
+            className={`flex items-center gap-1.5 px-3 py-1.5 ml-2 rounded-full text-xs transition-colors disabled:opacity-50 ${
+              showHeatmap ? 'bg-surface-100 text-text-primary' : 'text-text-muted hover:bg-surface-50'
+            }`}
+          >
+            {visual ? <Flame size={13} /> : <Loader2 size={13} className="animate-spin" />}
+            <span>差异热力图</span>
+          </button>
+        </div>
+        <span className="text-xs text-text-muted truncate max-w-[40%]">
+          {previous.file.name} → {current.file.name}
+        </span>
+        <button
+          onClick={onClose}
+          className="p-2 rounded-lg text-text-muted hover:text-text-primary hover:bg-surface-100 transition-colors"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 flex flex-col md:flex-row min-h-0">
+        {/* 左侧：两版并排 */}
+        <div className="relative flex-1 min-h-[40vh]">
+          <InfiniteCanvas
+            images={[previous, current]}
+            transform={transform}
+            onTransformChange={setTransform}
+            layers={{ diagnosis: false, diff: false }}
+            diagnosisIssues={[]}
+            diffResults={[]}
+            selectedId={selectedId}
+            onSelect={setSelectedId}
+            isProcessing={false}
+            processingImageId={null}
+            renderOverlay={renderOverlay}
+          />
+        </div>
+
+        {/* 右侧：问题追踪与文字差异 */}
+        <div className="w-full md:w-[360px] shrink-0 border-l border-border bg-white overflow-y-auto">
+          <div className="px-3 py-2.5 border-b border-border flex flex-wrap items-center gap-1.5">
+            {statusCounts.map(({ status, count }) => (
+              <span key={status} className={`text-[11px] font-medium px-2 py-0.5 rounded bg-surface-50 ${STATUS_STYLES[status].text}`}>
+                {REVISION_STATUS_LABELS[status]} {count}
+              </span>
+            ))}
+            <span className="ml-auto text-[10px] text-text-muted">
+              {visual ? `画面变化 ${(visual.changedRatio * 100).toFixed(1)}%` : visualError || '正在对齐…'}
+            </span>
+          </div>
+
+          {STATUS_ORDER.map(status => {
+            const issues = revisionIssues.filter(issue => issue.status === status);
+            if (issues.length === 0) return null;
+            return (
+              <div key={status}>
+                <div className="flex items-center gap-2 px-3 py-2 text-[10px] font-medium text-text-muted bg-surface-50 border-b border-border/50">
+                  <span className={`w-1.5 h-1.5 rounded-full ${STATUS_STYLES[status].dot}`}></span>
+                  {REVISION_STATUS_LABELS[status]}
+                  <span className="text-[9px] font-normal">{issues.length}</span>
+                </div>
+                {issues.map(issue => (
+                  <div
+                    key={`${status}-${issue.id}`}
+                    onClick={() => setSelectedId(issue.id)}
+                    className={`px-3 py-2 border-b border-border/50 cursor-pointer transition-all ${
+                      selectedId === issue.id ? 'bg-primary-50/50' : 'hover:bg-surface-50'
+                    }`}
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className={`text-[10px] font-medium ${
+                        issue.severity === 'high' ? 'text-red-600' : issue.severity === 'medium' ? 'text-amber-600' : 'text-text-muted'
+                      }`}>
+                        {issue.severity === 'high' ? 'P0' : issue.severity === 'medium' ? 'P1' : 'P2'}
+                      </span>
+                      <span className="text-[9px] text-text-muted bg-surface-100 px-1.5 py-0.5 rounded">{KIND_LABELS[issue.kind]}</span>
+                      {issue.original && (
+                        <span className={`text-[11px] font-mono truncate ${status === 'fixed' ? 'line-through text-text-muted' : 'text-text-primary'}`}>
+                          {issue.original}
+                        </span>
+                      )}
+                    </div>
+                    {issue.problem && <p className="text-xs text-text-secondary">{issue.problem}</p>}
+                    {issue.reason && <p className="text-[10px] text-text-muted mt-0.5">{issue.reason}</p>}
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+
+          <div className="flex items-center gap-2 px-3 py-2 text-[10px] font-medium text-text-muted bg-surface-50 border-b border-border/50">
+            文字变化
+            <span className="text-[9px] font-normal">{textChanges.length} 处</span>
+          </div>
+          {!previous.ocrText || !current.ocrText ? (
+            <p className="px-3 py-3 text-xs text-text-muted">两版都完成分析后才能比较文字</p>
+          ) : textChanges.length === 0 ? (
+            <p className="px-3 py-3 text-xs text-text-muted">文字内容没有变化</p>
+          ) : (
+            textChanges.map((entry, i) => (
+              <div key={i} className="px-3 py-1.5 border-b border-border/50 text-[11px] font-mono break-all">
+                {entry.type === 'added' && <span className="text-emerald-700 bg-emerald-50">+ {entry.after}</span>}
+                {entry.type === 'removed' && <span className="text-red-600 bg-red-50 line-through">− {entry.before}</span>}
+                {entry.type === 'changed' && (entry.segments ? (
+                  <span>
+                    {entry.segments.map((segment, j) => (
+                      <span
+                        key={j}
+                        className={segment.type === 'added' ? 'text-emerald-700 bg-emerald-100' : segment.type === 'removed' ? 'text-red-600 bg-red-100 line-through' : 'text-text-secondary'}
+                      >
+                        {segment.text}
+                      </span>
+                    ))}
+                  </span>
+                ) : (
+                  <>
+                    <div className="text-red-600 line-through">− {entry.before}</div>
+                    <div className="text-emerald-700">+ {entry.after}</div>
+                  </>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
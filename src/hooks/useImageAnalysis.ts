@@ -1,8 +1,10 @@
 import { useState, useCallback } from 'react';
 import imageCompression from 'browser-image-compression';
-import { diagnoseImage, fileToGenerativePart, localDiffSpecs, getModelId, setModelId, extractOcrOnly } from '../services/openaiService';
-import { useQuotaFirebase, getUserData, saveImageToCloud, updateImageInCloud, UserData } from '../services/cloudflare';
-import { ImageItem, ImageSpec, SourceField, DiffResult, IndustryType, MarketType } from '../types/types';
+import { diagnoseImage, diagnoseImageTiled, fileToGenerativePart, localDiffSpecs, getModelId, setModelId, extractOcrOnly } from '../services/openaiService';
+import { getUserData, saveImageToCloud, updateImageInCloud, UserData } from '../services/cloudflare';
+import { scanBarcodes } from '../services/barcodeService';
+import { loadImageBitmap, shouldTile } from '../services/tileService';
+import { ImageItem, ImageSpec, SourceField, DiffResult, IndustryType, MarketType, BarcodeResult, TextLayer } from '../types/types';
 
 interface UseImageAnalysisProps {
   user: UserData | null;
@@ -11,6 +13,7 @@ interface UseImageAnalysisProps {
   industry: IndustryType;
   markets: MarketType[];
   manualSourceFields: SourceField[];
+  tiledAnalysis: boolean;  // 高清分块分析（大图切块分别分析）
   onShowLogin: () => void;
   onError: (msg: string | null) => void;
   onUserUpdate: (user: UserData) => void;
@@ -23,13 +26,23 @@ interface UseImageAnalysisReturn {
   processingStep: number;
   streamText: string;
   isSyncing: boolean;
-  processFile: (file: File, images: ImageItem[], currentModel: string, existingImageId?: string) => Promise<ImageItem | null>;
+  processFile: (file: File, images: ImageItem[], currentModel: string, existingImageId?: string, textLayer?: TextLayer) => Promise<ImageItem | null>;
   retryAnalysis: (image: ImageItem, images: ImageItem[]) => Promise<void>;
   addModelAnalysis: (image: ImageItem, modelId: string) => Promise<Record<string, any> | null>;
 }
 
+// 客户端超时须长于 Worker 单个供应商的最坏耗时（2 次尝试 × 45 秒 + 退避），否则会放弃仍在进行的请求并重复计费
+const ANALYSIS_TIMEOUT_MS = 120_000;
+
+// 上传时被压缩过（保留原图供分块分析）；HEIC 浏览器无法直接解码，分块用转换后的图片
+const isCompressedUpload = (file: File, processedFile: File, isHeic: boolean) => !isHeic && processedFile !== file;
+
+// PDF 导入的图片重新分析时继续使用文字层
+const textLayerOf = (image: ImageItem): TextLayer | undefined =>
+  image.ocrSource === 'pdf' && image.ocrText ? { ocrText: image.ocrText, ocrLines: image.ocrLines || [] } : undefined;
+
 export function useImageAnalysis({
-  user, sessionId, cloudSyncEnabled, industry, markets, manualSourceFields,
+  user, sessionId, cloudSyncEnabled, industry, markets, manualSourceFields, tiledAnalysis,
   onShowLogin, onError, onUserUpdate
 }: UseImageAnalysisProps): UseImageAnalysisReturn {
   const [isProcessing, setIsProcessing] = useState(false);
@@ -39,7 +52,24 @@ export function useImageAnalysis({
   const [streamText, setStreamText] = useState('');
   const [isSyncing, setIsSyncing] = useState(false);
 
-  const processFile = useCallback(async (file: File, images: ImageItem[], currentModel: string, existingImageId?: string): Promise<ImageItem | null> => {
+  // 分块模式下图片足够大时返回解码后的 bitmap（用完由调用方 close），否则返回 null 走整图分析
+  const loadTileBitmap = useCallback(async (source: Blob): Promise<ImageBitmap | null> => {
+    if (!tiledAnalysis) return null;
+    try {
+      const bitmap = await loadImageBitmap(source);
+      if (shouldTile(bitmap.width, bitmap.height)) return bitmap;
+      bitmap.close();
+    } catch (e) {
+      console.error('Tile source decode failed:', e);
+    }
+    return null;
+  }, [tiledAnalysis]);
+
+  const showTileProgress = useCallback((done: number, total: number) => {
+    setStreamText(`高清分块分析：已完成 ${done}/${total} 块\n`);
+  }, []);
+
+  const processFile = useCallback(async (file: File, images: ImageItem[], currentModel: string, existingImageId?: string, textLayer?: TextLayer): Promise<ImageItem | null> => {
     if (!user) { onShowLogin(); return null; }
 
     const isHeic = file.name.toLowerCase().endsWith('.heic') || file.name.toLowerCase().endsWith('.heif');
@@ -82,9 +112,11 @@ export function useImageAnalysis({
 
       const newImage: ImageItem = {
         id: newImageId, src: url, base64, file: processedFile,
+        ...(isCompressedUpload(file, processedFile, isHeic) ? { originalFile: file } : {}),
         specs: [], issues: [], diffs: [], issuesByModel: {},
         industry,
-        markets
+        markets,
+        ...(textLayer ? { ocrText: textLayer.ocrText, ocrLines: textLayer.ocrLines, ocrSource: 'pdf' as const } : {})
       };
 
       // 立即上传图片到云端（不等待 AI 分析）
@@ -105,20 +137,22 @@ export function useImageAnalysis({
       setStreamText('');
       onError(null);
 
-      let diagResult;
-      let retryCount = 0;
-      while (retryCount <= 1) {
-        try {
-          diagResult = await Promise.race([
-            diagnoseImage(base64, file.type, setProcessingStep, industry, markets, false, (chunk) => setStreamText(prev => prev + chunk)),
-            new Promise<never>((_, reject) => setTimeout(() => reject(new Error('分析超时')), 60000))
-          ]);
-          break;
-        } catch (error: any) {
-          retryCount++;
-          if (error.message !== '分析超时' || retryCount > 1) throw error;
-        }
-      }
+      // 条码在本地扫描，与 AI 分析并行
+      const barcodesPromise = scanBarcodes(base64, processedFile.type).catch((e): BarcodeResult[] => {
+        console.error('Barcode scan failed:', e);
+        return [];
+      });
+
+      const tileBitmap = await loadTileBitmap(newImage.originalFile || processedFile);
+
+      // 重试和供应商故障转移由 Worker AI 代理负责，客户端超时后不再重发（避免重复计费）；
+      // 分块分析耗时随分块数增长，由每次请求自身的超时控制
+      const diagResult = tileBitmap
+        ? await diagnoseImageTiled(tileBitmap, setProcessingStep, industry, markets, showTileProgress, textLayer).finally(() => tileBitmap.close())
+        : await Promise.race([
+          diagnoseImage(base64, file.type, setProcessingStep, industry, markets, false, (chunk) => setStreamText(prev => prev + chunk), undefined, textLayer),
+          new Promise<never>((_, reject) => setTimeout(() => reject(new Error('分析超时')), ANALYSIS_TIMEOUT_MS))
+        ]);
 
       if (!diagResult) throw new Error('分析失败');
 
@@ -134,20 +168,16 @@ export function useImageAnalysis({
         issues: diagResult.issues,
         description: diagResult.description,
         ocrText: diagResult.ocrText,
+        ocrLines: diagResult.ocrLines,
+        ocrSource: textLayer ? 'pdf' : 'model',
+        barcodes: await barcodesPromise,
         deterministicIssues: diagResult.deterministicIssues,
         specs: imageSpecs,
         diffs,
         issuesByModel: { [usedModelId]: { issues: diagResult.issues, deterministicIssues: diagResult.deterministicIssues, lexiconIssues: diagResult.lexiconIssues } }
       };
 
-      // 消耗配额
-      const tokenUsage = diagResult.tokenUsage ? {
-        promptTokens: diagResult.tokenUsage.promptTokens,
-        completionTokens: diagResult.tokenUsage.completionTokens,
-        totalTokens: diagResult.tokenUsage.totalTokens,
-        model: diagResult.tokenUsage.model
-      } : undefined;
-      await useQuotaFirebase(user.uid, 1, file.name, 'analyze', tokenUsage);
+      // 配额已由 Worker AI 代理按实际 token 扣减，这里只刷新用户数据
       const updatedUser = await getUserData(user.uid);
       if (updatedUser) onUserUpdate(updatedUser);
 
@@ -158,6 +188,8 @@ export function useImageAnalysis({
             await updateImageInCloud(user.uid, sessionId, newImageId, {
               description: diagResult.description,
               ocrText: diagResult.ocrText,
+              ocrLines: diagResult.ocrLines,
+              ocrSource: finalImage.ocrSource,
               specs: imageSpecs,
               issues: diagResult.issues,
               deterministicIssues: diagResult.deterministicIssues,
@@ -175,6 +207,7 @@ export function useImageAnalysis({
       if (error.message === '分析超时') {
         onError("⏱️ 检测超时，请重试");
         return { id: newImageId, src: URL.createObjectURL(processedFile), base64: '', file: processedFile,
+          ...(isCompressedUpload(file, processedFile, isHeic) ? { originalFile: file } : {}),
           description: '⏱️ 检测超时', ocrText: '分析超时，请重试', specs: [], issues: [], diffs: [], issuesByModel: {} };
       }
       onError(error.message || "图片处理失败");
@@ -184,7 +217,7 @@ export function useImageAnalysis({
       setProcessingImageId(null);
       setProcessingModelId(null);
     }
-  }, [user, sessionId, cloudSyncEnabled, industry, markets, manualSourceFields, onShowLogin, onError, onUserUpdate]);
+  }, [user, sessionId, cloudSyncEnabled, industry, markets, manualSourceFields, loadTileBitmap, showTileProgress, onShowLogin, onError, onUserUpdate]);
 
   const retryAnalysis = useCallback(async (image: ImageItem, images: ImageItem[]) => {
     if (!user) { onShowLogin(); return; }
@@ -200,22 +233,17 @@ export function useImageAnalysis({
       setProcessingModelId(usedModelId);
       onError(null);
 
-      let diagResult;
-      let retryCount = 0;
-      while (retryCount <= 1) {
-        try {
-          const activeIndustry = image.industry || industry;
-          const activeMarkets = image.markets || markets;
-          diagResult = await Promise.race([
-            diagnoseImage(image.base64, image.file.type, setProcessingStep, activeIndustry, activeMarkets, manualSourceFields.length > 0),
-            new Promise<never>((_, reject) => setTimeout(() => reject(new Error('分析超时')), 60000))
-          ]);
-          break;
-        } catch (error: any) {
-          retryCount++;
-          if (error.message !== '分析超时' || retryCount > 1) throw error;
-        }
-      }
+      // 与首次分析一致：重试和故障转移由 Worker 负责，这里只发一次请求
+      const activeIndustry = image.industry || industry;
+      const activeMarkets = image.markets || markets;
+      const textLayer = textLayerOf(image);
+      const tileBitmap = await loadTileBitmap(image.originalFile || image.file);
+      const diagResult = tileBitmap
+        ? await diagnoseImageTiled(tileBitmap, setProcessingStep, activeIndustry, activeMarkets, showTileProgress, textLayer).finally(() => tileBitmap.close())
+        : await Promise.race([
+          diagnoseImage(image.base64, image.file.type, setProcessingStep, activeIndustry, activeMarkets, manualSourceFields.length > 0, undefined, undefined, textLayer),
+          new Promise<never>((_, reject) => setTimeout(() => reject(new Error('分析超时')), ANALYSIS_TIMEOUT_MS))
+        ]);
 
       if (!diagResult) throw new Error('重新分析失败');
 
@@ -225,14 +253,7 @@ export function useImageAnalysis({
         diffs = localDiffSpecs(manualSourceFields, imageSpecs);
       }
 
-      // 返回更新后的数据，由调用方更新 state
-      const tokenUsage = diagResult.tokenUsage ? {
-        promptTokens: diagResult.tokenUsage.promptTokens,
-        completionTokens: diagResult.tokenUsage.completionTokens,
-        totalTokens: diagResult.tokenUsage.totalTokens,
-        model: diagResult.tokenUsage.model
-      } : undefined;
-      await useQuotaFirebase(user.uid, 1, image.file.name, 'retry', tokenUsage);
+      // 刷新配额
       const updatedUser = await getUserData(user.uid);
       if (updatedUser) onUserUpdate(updatedUser);
 
@@ -246,6 +267,8 @@ export function useImageAnalysis({
             await updateImageInCloud(user.uid, sessionId, image.id, {
               description: diagResult.description,
               ocrText: diagResult.ocrText,
+              ocrLines: diagResult.ocrLines,
+              ocrSource: image.ocrSource,
               specs: imageSpecs,
               issues: diagResult.issues,
               deterministicIssues: diagResult.deterministicIssues,
@@ -268,7 +291,7 @@ export function useImageAnalysis({
       setProcessingImageId(null);
       setProcessingModelId(null);
     }
-  }, [user, sessionId, cloudSyncEnabled, industry, markets, manualSourceFields, onShowLogin, onError, onUserUpdate]);
+  }, [user, sessionId, cloudSyncEnabled, industry, markets, manualSourceFields, loadTileBitmap, showTileProgress, onShowLogin, onError, onUserUpdate]);
 
   const addModelAnalysis = useCallback(async (image: ImageItem, modelId: string): Promise<Record<string, any> | null> => {
     if (!user) { onShowLogin(); return null; }
@@ -288,7 +311,11 @@ export function useImageAnalysis({
 
       const activeIndustry = image.industry || industry;
       const activeMarkets = image.markets || markets;
-      const diagResult = await diagnoseImage(image.base64, image.file.type, setProcessingStep, activeIndustry, activeMarkets, manualSourceFields.length > 0);
+      const textLayer = textLayerOf(image);
+      const tileBitmap = await loadTileBitmap(image.originalFile || image.file);
+      const diagResult = tileBitmap
+        ? await diagnoseImageTiled(tileBitmap, setProcessingStep, activeIndustry, activeMarkets, showTileProgress, textLayer).finally(() => tileBitmap.close())
+        : await diagnoseImage(image.base64, image.file.type, setProcessingStep, activeIndustry, activeMarkets, manualSourceFields.length > 0, undefined, undefined, textLayer);
       setModelId(previousModel);
 
       const newIssuesByModel = {
@@ -296,13 +323,7 @@ export function useImageAnalysis({
         [modelId]: { issues: diagResult.issues, deterministicIssues: diagResult.deterministicIssues, lexiconIssues: diagResult.lexiconIssues }
       };
 
-      const tokenUsage = diagResult.tokenUsage ? {
-        promptTokens: diagResult.tokenUsage.promptTokens,
-        completionTokens: diagResult.tokenUsage.completionTokens,
-        totalTokens: diagResult.tokenUsage.totalTokens,
-        model: diagResult.tokenUsage.model
-      } : undefined;
-      await useQuotaFirebase(user.uid, 1, image.file.name, 'analyze', tokenUsage);
+      // 刷新配额
       const updatedUser = await getUserData(user.uid);
       if (updatedUser) onUserUpdate(updatedUser);
 
@@ -321,7 +342,7 @@ export function useImageAnalysis({
       setProcessingImageId(null);
       setProcessingModelId(null);
     }
-  }, [user, sessionId, cloudSyncEnabled, industry, markets, manualSourceFields, onShowLogin, onError, onUserUpdate]);
+  }, [user, sessionId, cloudSyncEnabled, industry, markets, manualSourceFields, loadTileBitmap, showTileProgress, onShowLogin, onError, onUserUpdate]);
 
   return {
     isProcessing, processingImageId, processingModelId, processingStep, streamText, isSyncing,
@@ -0,0 +1,273 @@
+/**
+ * AI 响应结构定义与校验
+ * 每类调用一份 JSON Schema：支持的模型作为 response_format 发送，所有响应在本地按同一份 schema 校验。
+ * 校验器只实现用到的子集：type / properties / required / items / enum / minimum / maximum / minItems / maxItems
+ */
+
+import { IssueType, ISSUE_TYPE_LIST } from '../types/types';
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface AiResponseSchema {
+  name: string;          // response_format.json_schema.name
+  schema: JsonSchema;    // 根节点为 object
+}
+
+export interface SchemaIssue {
+  path: string;          // 如 $.issues[3].severity
+  message: string;
+}
+
+export type AiResponseErrorKind = 'empty' | 'invalid_json' | 'schema';
+
+// AI 响应无法使用：空内容 / 不是 JSON / 不符合 schema（修正后仍不合格）
+export class AiResponseError extends Error {
+  readonly kind: AiResponseErrorKind;
+  readonly schemaName: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(kind: AiResponseErrorKind, schemaName: string, message: string, issues: SchemaIssue[] = []) {
+    super(message);
+    this.name = 'AiResponseError';
+    this.kind = kind;
+    this.schemaName = schemaName;
+    this.issues = issues;
+  }
+}
+
+const typeOf = (value: unknown): JsonSchemaType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+};
+
+const matchesType = (value: unknown, expected: JsonSchemaType | JsonSchemaType[]) => {
+  const actual = typeOf(value);
+  const types = Array.isArray(expected) ? expected : [expected];
+  return types.some(t => t === actual || (t === 'number' && actual === 'integer'));
+};
+
+/**
+ * 按 schema 校验，返回全部问题（空数组表示通过）
+ */
+export const validateSchema = (value: unknown, schema: JsonSchema, path = '$'): SchemaIssue[] => {
+  if (!matchesType(value, schema.type)) {
+    return [{ path, message: `应为 ${[schema.type].flat().join(' / ')}，实际为 ${typeOf(value)}` }];
+  }
+  const issues: SchemaIssue[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({ path, message: `取值应为 ${schema.enum.join(' / ')} 之一，实际为 ${JSON.stringify(value)}` });
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) issues.push({ path, message: `不能小于 ${schema.minimum}` });
+    if (schema.maximum !== undefined && value > schema.maximum) issues.push({ path, message: `不能大于 ${schema.maximum}` });
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) issues.push({ path, message: `至少 ${schema.minItems} 项` });
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) issues.push({ path, message: `最多 ${schema.maxItems} 项` });
+    if (schema.items) {
+      value.forEach((item, i) => issues.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+    }
+  }
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    (schema.required || []).forEach(key => {
+      if (obj[key] === undefined) issues.push({ path: `${path}.${key}`, message: '缺少必填字段' });
+    });
+    Object.entries(schema.properties || {}).forEach(([key, child]) => {
+      if (obj[key] !== undefined) issues.push(...validateSchema(obj[key], child, `${path}.${key}`));
+    });
+  }
+  return issues;
+};
+
+/**
+ * 把问题按根节点下的数组条目分组（如 $.issues[3].severity → issues / 3），
+ * 返回 null 表示存在条目之外的问题（根节点字段缺失或类型错误），无法按条目修正
+ */
+export const groupItemIssues = (issues: SchemaIssue[]): Map<string, Map<number, SchemaIssue[]>> | null => {
+  const groups = new Map<string, Map<number, SchemaIssue[]>>();
+  for (const issue of issues) {
+    const m = issue.path.match(/^\$\.(\w+)\[(\d+)\]/);
+    if (!m) return null;
+    const items = groups.get(m[1]) || new Map<number, SchemaIssue[]>();
+    const index = Number(m[2]);
+    // 条目内的相对路径，如 severity / box_2d[1]
+    items.set(index, [...(items.get(index) || []), { ...issue, path: issue.path.slice(m[0].length).replace(/^\./, '') || '(整条)' }]);
+    groups.set(m[1], items);
+  }
+  return groups;
+};
+
+// ============================================
+// 各类调用的响应 schema
+// ============================================
+
+export interface OcrLinePayload {
+  text: string;
+  box_2d?: number[];
+  bold?: string[];
+}
+
+export interface DiagnosisResponse {
+  description?: string;
+  ocrText?: string;
+  ocrLines?: OcrLinePayload[];
+  issues: {
+    type: IssueType;
+    original: string;
+    problem: string;
+    suggestion: string;
+    severity: 'high' | 'medium' | 'low';
+    confidence?: 'certain' | 'likely' | 'possible';
+    box_2d?: number[];
+  }[];
+  specs: { key: string; value: string; category: 'content' | 'compliance' | 'specs' }[];
+}
+
+export interface OcrResponse {
+  text?: string;
+  lines: OcrLinePayload[];
+}
+
+export interface SourceFieldsResponse {
+  fields: { key: string; value: string; category: 'content' | 'compliance' | 'specs' }[];
+}
+
+export interface SmartDiffResponse {
+  diffs: {
+    field: string;
+    sourceValue: string;
+    imageValue: string | null;
+    status: 'match' | 'error' | 'warning';
+    matchType: 'strict' | 'semantic' | 'logic';
+    box_2d?: number[];
+    reason?: string;
+  }[];
+}
+
+// [ymin, xmin, ymax, xmax]，0-1000 归一化坐标
+const BOX_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: { type: 'number', minimum: 0, maximum: 1000 },
+  minItems: 4,
+  maxItems: 4
+};
+
+const OCR_LINE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string' },
+    box_2d: BOX_SCHEMA,
+    bold: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['text']
+};
+
+const SOURCE_FIELD_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    key: { type: 'string' },
+    value: { type: 'string' },
+    category: { type: 'string', enum: ['content', 'compliance', 'specs'] }
+  },
+  required: ['key', 'value', 'category']
+};
+
+// 图片分析（单步分析 / 自定义提示词分析）
+export const DIAGNOSIS_SCHEMA: AiResponseSchema = {
+  name: 'packaging_diagnosis',
+  schema: {
+    type: 'object',
+    properties: {
+      description: { type: 'string' },
+      ocrText: { type: 'string' },
+      ocrLines: { type: 'array', items: OCR_LINE_SCHEMA },
+      issues: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ISSUE_TYPE_LIST },
+            original: { type: 'string' },
+            problem: { type: 'string' },
+            suggestion: { type: 'string' },
+            severity: { type: 'string', enum: ['high', 'medium', 'low'] },
+            confidence: { type: 'string', enum: ['certain', 'likely', 'possible'] },
+            box_2d: BOX_SCHEMA
+          },
+          required: ['type', 'original', 'problem', 'suggestion', 'severity']
+        }
+      },
+      specs: { type: 'array', items: SOURCE_FIELD_SCHEMA }
+    },
+    required: ['issues', 'specs']
+  }
+};
+
+// 纯 OCR
+export const OCR_SCHEMA: AiResponseSchema = {
+  name: 'ocr_lines',
+  schema: {
+    type: 'object',
+    properties: {
+      text: { type: 'string' },
+      lines: { type: 'array', items: OCR_LINE_SCHEMA }
+    },
+    required: ['lines']
+  }
+};
+
+// 规格字段（QIL 截图 / 源文本 / 包装图片规格提取）
+export const SOURCE_FIELDS_SCHEMA: AiResponseSchema = {
+  name: 'source_fields',
+  schema: {
+    type: 'object',
+    properties: {
+      fields: { type: 'array', items: SOURCE_FIELD_SCHEMA }
+    },
+    required: ['fields']
+  }
+};
+
+// 智能比对
+export const SMART_DIFF_SCHEMA: AiResponseSchema = {
+  name: 'smart_diff',
+  schema: {
+    type: 'object',
+    properties: {
+      diffs: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            field: { type: 'string' },
+            sourceValue: { type: 'string' },
+            imageValue: { type: ['string', 'null'] },
+            status: { type: 'string', enum: ['match', 'error', 'warning'] },
+            matchType: { type: 'string', enum: ['strict', 'semantic', 'logic'] },
+            box_2d: BOX_SCHEMA,
+            reason: { type: 'string' }
+          },
+          required: ['field', 'sourceValue', 'imageValue', 'status', 'matchType']
+        }
+      }
+    },
+    required: ['diffs']
+  }
+};
@@ -0,0 +1,193 @@
+/**
+ * 过敏原声明交叉核对（确定性规则，食品）
+ * 用配料表（见 inciService.extractIngredients）对照各市场过敏原表，检查：
+ * - 含过敏原的配料是否在配料名称中标明来源，或在 "Contains / 含有" 声明中列出
+ * - "Contains / 含有" 声明与配料表是否一致
+ * - 欧盟：配料表中的过敏原是否加粗强调（需要 OCR 返回加粗信息）
+ */
+
+import allergenData from '../../data/allergens.json';
+import type { OcrLine } from '../types/types';
+import type { DeterministicFinding } from './deterministicRuleService';
+import { extractIngredients, type IngredientToken } from './inciService';
+import { escapeRegex } from './textNormalizeService';
+
+export interface AllergenDef {
+  id: string;
+  label: string;
+  markets: string[];
+  ingredientTerms: string[];   // 配料中出现即视为含该过敏原
+  excludeTerms?: string[];     // 不算（如 cocoa butter、乳化剂之外的近似词）
+  declarationTerms: string[];  // 配料名称 / 声明中出现即视为已标明
+}
+
+export interface AllergenHit {
+  allergen: AllergenDef;
+  token: IngredientToken;
+  term: string;
+  position: number;            // 命中词在 OCR 文本中的偏移
+}
+
+export interface AllergenStatement {
+  text: string;
+  position: number;
+  allergenIds: string[];
+}
+
+const ALLERGENS = allergenData.allergens as AllergenDef[];
+
+export const getAllergenTableVersion = () => allergenData.version;
+
+/**
+ * 适用的过敏原表；未指定市场时合并所有市场
+ */
+export const getAllergensForMarkets = (markets: string[]): AllergenDef[] => {
+  const marketSet = new Set(markets.map(m => m.toUpperCase()).filter(m => m !== 'GENERAL'));
+  return marketSet.size === 0 ? ALLERGENS : ALLERGENS.filter(a => a.markets.some(m => marketSet.has(m)));
+};
+
+// 英文按词边界匹配（wheat 不命中 buckwheat），中文按子串
+const termPattern = (term: string) =>
+  /[A-Za-z]/.test(term) ? new RegExp(`(?<![A-Za-z])${escapeRegex(term)}(?![A-Za-z])`, 'i') : new RegExp(escapeRegex(term));
+
+const findTerm = (text: string, terms: string[], exclude: string[] = []): { term: string; index: number } | null => {
+  // 先把排除词替换成等长空白，保证位置不变
+  let masked = text;
+  for (const ex of exclude) {
+    masked = masked.replace(new RegExp(termPattern(ex).source, 'gi'), m => ' '.repeat(m.length));
+  }
+  for (const term of terms) {
+    const m = masked.match(termPattern(term));
+    if (m && m.index !== undefined) return { term: text.substr(m.index, m[0].length), index: m.index };
+  }
+  return null;
+};
+
+/**
+ * 配料表中的过敏原（每个配料每类过敏原只取一次）
+ */
+export const findAllergenHits = (text: string, markets: string[]): AllergenHit[] => {
+  const allergens = getAllergensForMarkets(markets);
+  const hits: AllergenHit[] = [];
+  for (const token of extractIngredients(text)) {
+    const raw = text.slice(token.position, token.position + token.length);
+    for (const allergen of allergens) {
+      const found = findTerm(raw, allergen.ingredientTerms, allergen.excludeTerms);
+      if (found) hits.push({ allergen, token, term: found.term, position: token.position + found.index });
+    }
+  }
+  return hits;
+};
+
+/**
+ * "Contains: … / 含有… / 过敏原信息：…" 声明（不含 "May contain / 可能含有" 交叉污染提示，
+ * 也不含配料表中的 "Contains 2% or less of"）
+ */
+export const findAllergenStatements = (text: string, markets: string[]): AllergenStatement[] => {
+  const allergens = getAllergensForMarkets(markets);
+  const statements: AllergenStatement[] = [];
+  const pattern = /(?<!may\s)(?<!可能)(?:\bcontains\b|\ballergens?\b|\ballergy advice\b|含有|过敏原信息|过敏原提示|致敏物质)\s*[:：]?/gi;
+
+  for (const m of text.matchAll(pattern)) {
+    const start = (m.index ?? 0) + m[0].length;
+    const rest = text.slice(start);
+    if (/^\s*(?:\d+(?:\.\d+)?\s*%|less than|or less)/i.test(rest)) continue;
+    const end = rest.search(/[.。\n]/);
+    const body = end === -1 ? rest : rest.slice(0, end);
+    const allergenIds = allergens
+      .filter(a => findTerm(body, a.declarationTerms))
+      .map(a => a.id);
+    statements.push({ text: (m[0] + body).trim(), position: m.index ?? 0, allergenIds });
+  }
+  return statements;
+};
+
+/**
+ * 含过敏原的配料未标明来源，也未在声明中列出
+ */
+export const checkAllergenDeclared = (text: string, markets: string[]): DeterministicFinding[] => {
+  const statements = findAllergenStatements(text, markets);
+  const declaredInStatement = new Set(statements.flatMap(s => s.allergenIds));
+  const findings: DeterministicFinding[] = [];
+
+  for (const hit of findAllergenHits(text, markets)) {
+    if (declaredInStatement.has(hit.allergen.id)) continue;
+    const raw = text.slice(hit.token.position, hit.token.position + hit.token.length);
+    // "whey (milk)"、"小麦粉" 这类配料名称本身已标明过敏原来源
+    if (findTerm(raw, hit.allergen.declarationTerms, hit.allergen.excludeTerms)) continue;
+    findings.push({
+      description: `配料 "${raw}" 含过敏原【${hit.allergen.label}】，未在配料名称中标明来源，也未在 "Contains / 含有" 声明中列出`,
+      location: raw,
+      position: hit.token.position,
+      length: hit.token.length,
+      suggestion: `在配料后注明（如 "${hit.term} (${hit.allergen.declarationTerms[0]})"）或在过敏原声明中列出${hit.allergen.label}`
+    });
+  }
+  return findings;
+};
+
+/**
+ * "Contains / 含有" 声明与配料表不一致：漏列配料中的过敏原，或列出了配料中没有的过敏原
+ */
+export const checkAllergenStatementConsistency = (text: string, markets: string[]): DeterministicFinding[] => {
+  const statements = findAllergenStatements(text, markets).filter(s => s.allergenIds.length > 0);
+  if (statements.length === 0) return [];
+  const hits = findAllergenHits(text, markets);
+  if (hits.length === 0 && extractIngredients(text).length === 0) return [];
+
+  const declared = new Set(statements.flatMap(s => s.allergenIds));
+  const present = new Map<string, AllergenHit>();
+  hits.forEach(hit => { if (!present.has(hit.allergen.id)) present.set(hit.allergen.id, hit); });
+  const statement = statements[0];
+  const findings: DeterministicFinding[] = [];
+
+  for (const [id, hit] of present) {
+    if (declared.has(id)) continue;
+    findings.push({
+      description: `过敏原声明遗漏【${hit.allergen.label}】：配料 "${hit.token.name}" 含该过敏原，声明中未列出`,
+      location: statement.text,
+      position: statement.position,
+      length: statement.text.length,
+      suggestion: `在 "${statement.text.split(/[:：]/)[0]}" 声明中补充${hit.allergen.label}`
+    });
+  }
+
+  for (const id of declared) {
+    if (present.has(id)) continue;
+    const allergen = ALLERGENS.find(a => a.id === id)!;
+    findings.push({
+      description: `过敏原声明列出了【${allergen.label}】，但配料表中没有对应配料`,
+      location: statement.text,
+      position: statement.position,
+      length: statement.text.length,
+      severity: 'medium',
+      suggestion: '核对配料表是否漏列配料，或从声明中删除（交叉污染应使用 "May contain / 可能含有"）'
+    });
+  }
+  return findings;
+};
+
+/**
+ * 欧盟 1169/2011 第 21 条：配料表中的过敏原须加粗等方式强调
+ * 只有 OCR 返回了加粗信息时才检查
+ */
+export const checkAllergenEmphasis = (text: string, markets: string[], ocrLines: OcrLine[]): DeterministicFinding[] => {
+  if (!ocrLines.some(line => line.bold !== undefined)) return [];
+  const findings: DeterministicFinding[] = [];
+
+  for (const hit of findAllergenHits(text, markets.length > 0 ? markets : ['EU'])) {
+    const line = ocrLines.find(l => hit.position >= l.start && hit.position < l.start + l.text.length);
+    if (!line) continue;
+    const term = hit.term.toLowerCase();
+    const emphasised = (line.bold || []).some(fragment => fragment.toLowerCase().includes(term));
+    if (emphasised) continue;
+    findings.push({
+      description: `配料表中的过敏原 "${hit.term}"（${hit.allergen.label}）未加粗强调`,
+      location: text.slice(hit.token.position, hit.token.position + hit.token.length),
+      position: hit.position,
+      length: hit.term.length,
+      suggestion: `将 "${hit.term}" 加粗显示`
+    });
+  }
+  return findings;
+};
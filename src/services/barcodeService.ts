@@ -0,0 +1,489 @@
+/**
+ * 条码识别与 GTIN 校验
+ * 在浏览器本地扫描 EAN-13 / UPC-A / ITF-14 / QR：优先用原生 BarcodeDetector，
+ * 不支持时用内置的扫描线解码器识别一维码（QR 只能由原生接口识别）。
+ * 解码出的 GTIN 校验校验位和 GS1 前缀，并与 QIL 中的 GTIN 字段核对
+ */
+
+import gs1Data from '../../data/gs1-prefixes.json';
+import type { BarcodeFormat, BarcodeIssue, BarcodeResult, BoundingBox, SourceField } from '../types/types';
+
+export interface Gs1Prefix {
+  from: string;
+  to: string;
+  name: string;
+  kind?: 'restricted' | 'coupon' | 'publication'; // 不能用于零售商品的号段
+}
+
+export interface GtinValidation {
+  valid: boolean;
+  gtin14?: string;             // 补零到 14 位，用于比较不同长度的写法
+  expectedCheckDigit?: number;
+  error?: string;
+}
+
+const GS1_PREFIXES = gs1Data.prefixes as Gs1Prefix[];
+
+export const BARCODE_FORMAT_LABELS: Record<BarcodeFormat, string> = {
+  ean_13: 'EAN-13',
+  upc_a: 'UPC-A',
+  itf_14: 'ITF-14',
+  qr_code: 'QR'
+};
+
+// QIL 中表示 GTIN 的字段名
+const GTIN_FIELD = /gtin|ean|upc|barcode|条码|条形码|商品编码/i;
+
+// ==================== GTIN 校验 ====================
+
+/**
+ * GS1 mod 10 校验位（从右往左奇数位 ×3）
+ */
+export const gtinCheckDigit = (body: string): number => {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+export const validateGtin = (value: string): GtinValidation => {
+  const digits = value.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits)) return { valid: false, error: '含非数字字符' };
+  if (![8, 12, 13, 14].includes(digits.length)) {
+    return { valid: false, error: `长度为 ${digits.length} 位，GTIN 应为 8 / 12 / 13 / 14 位` };
+  }
+  const expected = gtinCheckDigit(digits.slice(0, -1));
+  return { valid: expected === Number(digits.slice(-1)), gtin14: digits.padStart(14, '0'), expectedCheckDigit: expected };
+};
+
+/**
+ * GS1 前缀（GTIN-12 / 13 / 14 按 GTIN-13 的前 3 位查；GTIN-8 号段不同，不查）
+ */
+export const lookupGs1Prefix = (gtin: string): Gs1Prefix | null => {
+  const digits = gtin.replace(/\D/g, '');
+  if (digits.length < 12) return null;
+  const prefix = digits.padStart(14, '0').slice(1, 4);
+  return GS1_PREFIXES.find(p => prefix >= p.from && prefix <= p.to) || null;
+};
+
+/**
+ * 条码中的 GTIN：一维码即内容本身；QR 只认 GS1 Digital Link（https://…/01/…）或 GS1 元素串（(01)… 或 ]Q3 / ]d2 开头）
+ */
+export const gtinFromBarcode = (barcode: BarcodeResult): string | null => {
+  if (barcode.format !== 'qr_code') return barcode.rawValue;
+  // 普通 QR 内容（以 01 开头的数字、含 /01/ 的非链接文本）不当作 GTIN：必须是 http(s) 链接、带括号的 AI 或带 GS1 符号标识符
+  const match = barcode.rawValue.match(/^https?:\/\/\S*?\/01\/(\d{14})(?!\d)/i) ||
+    barcode.rawValue.match(/^(?:\(01\)|(?:\]Q3|\]d2)\(?01\)?)(\d{14})/);
+  return match ? match[1] : null;
+};
+
+// ==================== 扫描 ====================
+
+const MAX_SCAN_SIDE = 3000;   // 扫描线解码前缩放到的最长边（每个模块需不少于 2 像素）
+const SCAN_LINES = 80;        // 横向 / 纵向各取的扫描线数
+
+// L 码（左侧奇校验）模块宽度：空-条-空-条；G 码为 L 码倒序；R 码与 L 码宽度相同（条-空-条-空）
+const EAN_L_PATTERNS = ['3211', '2221', '2122', '1411', '1132', '1231', '1114', '1312', '1213', '3112'].map(p => p.split('').map(Number));
+const EAN_G_PATTERNS = EAN_L_PATTERNS.map(p => [...p].reverse());
+// 左侧 6 位的奇偶组合决定第 1 位（L = 0，G = 1）
+const EAN_PARITY = ['000000', '001011', '001101', '001110', '010011', '011001', '011100', '010101', '010110', '011010'];
+// ITF 每位 5 个单元的宽窄（W = 宽）
+const ITF_PATTERNS = ['NNWWN', 'WNNNW', 'NWNNW', 'WWNNN', 'NNWNW', 'WNWNN', 'NWWNN', 'NNNWW', 'WNNWN', 'NWNWN'];
+
+interface Run {
+  dark: boolean;
+  start: number;
+  width: number;
+}
+
+export interface ScanlineHit {
+  format: BarcodeFormat;
+  rawValue: string;
+  start: number;   // 在扫描线上的像素范围
+  end: number;
+}
+
+// 局部阈值二值化：窗口内对比度不足时按绝对亮度判断（避免空白处的噪点被拆成条空）
+const binarize = (line: ArrayLike<number>): boolean[] => {
+  const half = 32;
+  const dark: boolean[] = new Array(line.length);
+  for (let i = 0; i < line.length; i++) {
+    let min = 255;
+    let max = 0;
+    for (let j = Math.max(0, i - half); j <= Math.min(line.length - 1, i + half); j++) {
+      if (line[j] < min) min = line[j];
+      if (line[j] > max) max = line[j];
+    }
+    dark[i] = max - min >= 48 ? line[i] < (min + max) / 2 : line[i] < 96;
+  }
+  return dark;
+};
+
+const toRuns = (dark: boolean[]): Run[] => {
+  const runs: Run[] = [];
+  for (let i = 0; i < dark.length; i++) {
+    const last = runs[runs.length - 1];
+    if (last && last.dark === dark[i]) last.width++;
+    else runs.push({ dark: dark[i], start: i, width: 1 });
+  }
+  return runs;
+};
+
+// 4 个单元按 7 个模块归一后与码表比较，返回误差最小的数字
+const matchDigit = (widths: number[], patterns: number[][]): { digit: number; error: number } => {
+  const module = widths.reduce((a, b) => a + b, 0) / 7;
+  let best = { digit: -1, error: Infinity };
+  patterns.forEach((pattern, digit) => {
+    const error = pattern.reduce((sum, p, i) => sum + Math.abs(widths[i] / module - p), 0);
+    if (error < best.error) best = { digit, error };
+  });
+  return best;
+};
+
+const isModules = (width: number, module: number, count: number) =>
+  width >= module * count * 0.5 && width <= module * count * 1.6;
+
+const decodeEanAt = (runs: Run[], i: number): string | null => {
+  if (i + 59 > runs.length || i === 0) return null;
+  const seq = runs.slice(i, i + 59);
+  const module = seq.reduce((sum, r) => sum + r.width, 0) / 95;
+  // 起始符前需要空白区
+  if (runs[i - 1].width < module * 3) return null;
+  const after = runs[i + 59];
+  if (after && after.width < module * 3) return null;
+  const guards = [0, 1, 2, 27, 28, 29, 30, 31, 56, 57, 58];
+  if (!guards.every(g => isModules(seq[g].width, module, 1))) return null;
+
+  let parity = '';
+  let digits = '';
+  for (let k = 0; k < 6; k++) {
+    const widths = seq.slice(3 + k * 4, 7 + k * 4).map(r => r.width);
+    const l = matchDigit(widths, EAN_L_PATTERNS);
+    const g = matchDigit(widths, EAN_G_PATTERNS);
+    const best = l.error <= g.error ? l : g;
+    if (best.error > 1.6) return null;
+    parity += l.error <= g.error ? '0' : '1';
+    digits += best.digit;
+  }
+  for (let k = 0; k < 6; k++) {
+    const widths = seq.slice(32 + k * 4, 36 + k * 4).map(r => r.width);
+    const r = matchDigit(widths, EAN_L_PATTERNS);
+    if (r.error > 1.6) return null;
+    digits += r.digit;
+  }
+  const first = EAN_PARITY.indexOf(parity);
+  return first === -1 ? null : `${first}${digits}`;
+};
+
+const decodeItfAt = (runs: Run[], i: number): string | null => {
+  if (i + 77 > runs.length || i === 0) return null;
+  const narrow = (runs[i].width + runs[i + 1].width + runs[i + 2].width + runs[i + 3].width) / 4;
+  if (![0, 1, 2, 3].every(k => isModules(runs[i + k].width, narrow, 1))) return null;
+  if (runs[i - 1].width < narrow * 5) return null;
+
+  let digits = '';
+  for (let pair = 0; pair < 7; pair++) {
+    const base = i + 4 + pair * 10;
+    const widths = runs.slice(base, base + 10).map(r => r.width);
+    const min = Math.min(...widths);
+    const max = Math.max(...widths);
+    if (max < min * 1.8) return null;
+    const threshold = (min + max) / 2;
+    const bars = [0, 2, 4, 6, 8].map(k => (widths[k] > threshold ? 'W' : 'N')).join('');
+    const spaces = [1, 3, 5, 7, 9].map(k => (widths[k] > threshold ? 'W' : 'N')).join('');
+    const a = ITF_PATTERNS.indexOf(bars);
+    const b = ITF_PATTERNS.indexOf(spaces);
+    if (a === -1 || b === -1) return null;
+    digits += `${a}${b}`;
+  }
+  const end = i + 74;
+  if (runs[end].width < narrow * 1.8 || !isModules(runs[end + 1].width, narrow, 1) || !isModules(runs[end + 2].width, narrow, 1)) return null;
+  return digits;
+};
+
+/**
+ * 解码一条扫描线上的 EAN-13 / UPC-A / ITF-14（正反两个方向）
+ * 不要求校验位正确，印错的条码也要能识别出来
+ */
+export const decodeScanline = (line: ArrayLike<number>): ScanlineHit[] => {
+  const hits: ScanlineHit[] = [];
+  const forward = binarize(line);
+  [false, true].forEach(reversed => {
+    const runs = toRuns(reversed ? [...forward].reverse() : forward);
+    const toLine = (start: number, end: number) => (reversed ? { start: line.length - end, end: line.length - start } : { start, end });
+    for (let i = 1; i < runs.length; i++) {
+      if (!runs[i].dark) continue;
+      const ean = decodeEanAt(runs, i);
+      if (ean) {
+        const last = runs[i + 58];
+        hits.push({
+          format: ean.startsWith('0') ? 'upc_a' : 'ean_13',
+          rawValue: ean.startsWith('0') ? ean.slice(1) : ean,
+          ...toLine(runs[i].start, last.start + last.width)
+        });
+        i += 58;
+        continue;
+      }
+      const itf = decodeItfAt(runs, i);
+      if (itf) {
+        const last = runs[i + 76];
+        hits.push({ format: 'itf_14', rawValue: itf, ...toLine(runs[i].start, last.start + last.width) });
+        i += 76;
+      }
+    }
+  });
+  return hits;
+};
+
+const loadBitmap = async (base64: string, mimeType: string): Promise<ImageBitmap> => {
+  const blob = await fetch(`data:${mimeType};base64,${base64}`).then(r => r.blob());
+  return createImageBitmap(blob);
+};
+
+const toGray = (bitmap: ImageBitmap) => {
+  const scale = Math.min(1, MAX_SCAN_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (rgba[i * 4] * 299 + rgba[i * 4 + 1] * 587 + rgba[i * 4 + 2] * 114) / 1000;
+  }
+  return { gray, width, height };
+};
+
+/**
+ * 内置扫描线解码：横向、纵向各取若干条扫描线，同一内容命中 2 条以上
+ * （或校验位正确）才采用，避免噪点误读
+ */
+const detectByScanlines = (bitmap: ImageBitmap): BarcodeResult[] => {
+  const image = toGray(bitmap);
+  if (!image) return [];
+  const { gray, width, height } = image;
+  const found = new Map<string, { format: BarcodeFormat; rawValue: string; count: number; box: BoundingBox }>();
+
+  const collect = (hits: ScanlineHit[], toBox: (hit: ScanlineHit) => BoundingBox) => {
+    for (const hit of hits) {
+      const key = `${hit.format}:${hit.rawValue}`;
+      const box = toBox(hit);
+      const existing = found.get(key);
+      if (existing) {
+        existing.count++;
+        existing.box = {
+          ymin: Math.min(existing.box.ymin, box.ymin), xmin: Math.min(existing.box.xmin, box.xmin),
+          ymax: Math.max(existing.box.ymax, box.ymax), xmax: Math.max(existing.box.xmax, box.xmax)
+        };
+      } else {
+        found.set(key, { format: hit.format, rawValue: hit.rawValue, count: 1, box });
+      }
+    }
+  };
+
+  const rowStep = height / (SCAN_LINES + 1);
+  for (let n = 1; n <= SCAN_LINES; n++) {
+    const y = Math.round(n * rowStep);
+    collect(decodeScanline(gray.subarray(y * width, (y + 1) * width)), hit => ({
+      ymin: ((y - rowStep / 2) / height) * 1000, xmin: (hit.start / width) * 1000,
+      ymax: ((y + rowStep / 2) / height) * 1000, xmax: (hit.end / width) * 1000
+    }));
+  }
+
+  const colStep = width / (SCAN_LINES + 1);
+  const column = new Uint8Array(height);
+  for (let n = 1; n <= SCAN_LINES; n++) {
+    const x = Math.round(n * colStep);
+    for (let y = 0; y < height; y++) column[y] = gray[y * width + x];
+    collect(decodeScanline(column), hit => ({
+      ymin: (hit.start / height) * 1000, xmin: ((x - colStep / 2) / width) * 1000,
+      ymax: (hit.end / height) * 1000, xmax: ((x + colStep / 2) / width) * 1000
+    }));
+  }
+
+  return [...found.values()]
+    .filter(item => item.count >= 2 || validateGtin(item.rawValue).valid)
+    .map(item => ({ format: item.format, rawValue: item.rawValue, box_2d: item.box }));
+};
+
+// 原生 BarcodeDetector（Chrome / Edge / Android，TS DOM 类型中尚未收录）
+const NATIVE_FORMATS: Record<string, BarcodeFormat> = { ean_13: 'ean_13', upc_a: 'upc_a', itf: 'itf_14', qr_code: 'qr_code' };
+
+const detectNative = async (bitmap: ImageBitmap): Promise<BarcodeResult[] | null> => {
+  const Detector = (globalThis as any).BarcodeDetector;
+  if (!Detector) return null;
+  const supported: string[] = await Detector.getSupportedFormats();
+  const formats = Object.keys(NATIVE_FORMATS).filter(format => supported.includes(format));
+  if (formats.length === 0) return null;
+
+  const detected: Array<{ format: string; rawValue: string; boundingBox: { x: number; y: number; width: number; height: number } }> =
+    await new Detector({ formats }).detect(bitmap);
+  return detected
+    // ITF 其他长度不是 ITF-14
+    .filter(item => item.format !== 'itf' || /^\d{14}$/.test(item.rawValue))
+    .map(item => ({
+      format: NATIVE_FORMATS[item.format],
+      rawValue: item.rawValue,
+      box_2d: {
+        ymin: (item.boundingBox.y / bitmap.height) * 1000,
+        xmin: (item.boundingBox.x / bitmap.width) * 1000,
+        ymax: ((item.boundingBox.y + item.boundingBox.height) / bitmap.height) * 1000,
+        xmax: ((item.boundingBox.x + item.boundingBox.width) / bitmap.width) * 1000
+      }
+    }));
+};
+
+/**
+ * 扫描图片中的条码。原生接口识别到一维码时直接采用（只返回校验通过的结果）；
+ * 否则用内置解码器补充一维码，能识别出校验位错误的条码
+ */
+export const scanBarcodes = async (base64: string, mimeType: string): Promise<BarcodeResult[]> => {
+  const bitmap = await loadBitmap(base64, mimeType);
+  try {
+    const native = (await detectNative(bitmap).catch(error => {
+      console.warn('BarcodeDetector failed:', error);
+      return null;
+    })) || [];
+    if (native.some(barcode => barcode.format !== 'qr_code')) return native;
+    return [...native, ...detectByScanlines(bitmap)];
+  } finally {
+    bitmap.close();
+  }
+};
+
+// ==================== 检查 ====================
+
+const differingDigits = (a: string, b: string) => [...a].filter((char, i) => char !== b[i]).length;
+
+/**
+ * 条码问题：校验位、GS1 前缀、条码下方数字（OCR）与条码不一致、与 QIL 中的 GTIN 不一致。
+ * productBarcodes 为本产品所有图片的扫描结果（全部扫描完成时才传），
+ * 用于判断 QIL 中的 GTIN 是否在任何一面都没有出现
+ */
+export const checkBarcodes = (
+  barcodes: BarcodeResult[],
+  options: { ocrText?: string; sourceFields?: SourceField[]; productBarcodes?: BarcodeResult[] } = {}
+): BarcodeIssue[] => {
+  const issues: BarcodeIssue[] = [];
+  const gtinBarcodes = barcodes
+    .map(barcode => ({ barcode, gtin: gtinFromBarcode(barcode) }))
+    .filter((item): item is { barcode: BarcodeResult; gtin: string } => item.gtin !== null);
+
+  for (const { barcode, gtin } of gtinBarcodes) {
+    const label = BARCODE_FORMAT_LABELS[barcode.format];
+    const validation = validateGtin(gtin);
+    const base = { type: 'barcode' as const, code: gtin, format: barcode.format, box_2d: barcode.box_2d };
+
+    if (!validation.valid) {
+      issues.push({
+        ...base,
+        id: `barcode-${barcode.format}-${gtin}-check`,
+        problem: validation.error
+          ? `${label} 条码内容 ${gtin} 不是有效的 GTIN：${validation.error}`
+          : `${label} 条码 ${gtin} 校验位错误，应为 ${validation.expectedCheckDigit}`,
+        suggestion: validation.error
+          ? '核对条码内容'
+          : `核对 GTIN，按校验位计算应为 ${gtin.slice(0, -1)}${validation.expectedCheckDigit}`,
+        severity: 'high',
+        confidence: 'certain'
+      });
+      continue;
+    }
+
+    const prefix = lookupGs1Prefix(gtin);
+    if (gtin.length >= 12 && !prefix) {
+      issues.push({
+        ...base,
+        id: `barcode-${barcode.format}-${gtin}-prefix`,
+        problem: `${label} 条码 ${gtin} 的 GS1 前缀 ${gtin.padStart(14, '0').slice(1, 4)} 未分配`,
+        suggestion: '确认条码由 GS1 成员组织分配',
+        severity: 'medium',
+        confidence: 'certain'
+      });
+    } else if (prefix?.kind) {
+      issues.push({
+        ...base,
+        id: `barcode-${barcode.format}-${gtin}-prefix`,
+        problem: `${label} 条码 ${gtin} 属于${prefix.name}号段，不能用于零售商品`,
+        suggestion: '使用 GS1 分配的商品条码',
+        severity: prefix.kind === 'publication' ? 'low' : 'medium',
+        confidence: 'certain'
+      });
+    }
+
+    // 条码下方的数字（OCR）与条码内容只差几位，通常是改稿时只改了其中一处
+    const printed = [...(options.ocrText || '').matchAll(/(?<![\dA-Za-z])\d(?:[ -]?\d){7,13}(?![\dA-Za-z])/g)]
+      .map(m => m[0].replace(/[ -]/g, ''))
+      .filter(digits => digits.length === gtin.length && digits !== gtin);
+    const mismatch = printed.find(digits => differingDigits(digits, gtin) <= 3);
+    if (mismatch) {
+      issues.push({
+        ...base,
+        id: `barcode-${barcode.format}-${gtin}-hri`,
+        problem: `条码下方印刷的数字 ${mismatch} 与 ${label} 条码内容 ${gtin} 不一致`,
+        suggestion: `统一为正确的 GTIN（条码内容为 ${gtin}）`,
+        severity: 'high',
+        confidence: 'certain'
+      });
+    }
+  }
+
+  const qilFields = (options.sourceFields || []).filter(field => GTIN_FIELD.test(field.key) && /\d/.test(field.value));
+  for (const field of qilFields) {
+    const expected = field.value.replace(/[\s-]/g, '');
+    const validation = validateGtin(expected);
+    if (!validation.valid) {
+      issues.push({
+        id: `barcode-qil-${field.key}-check`,
+        type: 'barcode',
+        code: expected,
+        problem: validation.error
+          ? `QIL「${field.key}」${expected} 不是有效的 GTIN：${validation.error}`
+          : `QIL「${field.key}」${expected} 校验位错误，应为 ${validation.expectedCheckDigit}`,
+        suggestion: '先核对 QIL 中的 GTIN',
+        severity: 'high',
+        confidence: 'certain'
+      });
+      continue;
+    }
+
+    const matches = (items: BarcodeResult[]) =>
+      items.some(barcode => {
+        const gtin = gtinFromBarcode(barcode);
+        return gtin !== null && gtin.padStart(14, '0') === validation.gtin14;
+      });
+
+    if (gtinBarcodes.length > 0 && !matches(barcodes)) {
+      const { barcode, gtin } = gtinBarcodes[0];
+      issues.push({
+        id: `barcode-qil-${field.key}-mismatch`,
+        type: 'barcode',
+        code: gtin,
+        format: barcode.format,
+        problem: `条码内容 ${gtinBarcodes.map(item => item.gtin).join(' / ')} 与 QIL「${field.key}」${expected} 不一致`,
+        suggestion: `按 QIL 更换条码为 ${expected}`,
+        severity: 'high',
+        confidence: 'certain',
+        box_2d: barcode.box_2d
+      });
+    } else if (gtinBarcodes.length === 0 && options.productBarcodes && !matches(options.productBarcodes)) {
+      issues.push({
+        id: `barcode-qil-${field.key}-missing`,
+        type: 'barcode',
+        code: expected,
+        problem: `本产品所有图片中都未识别到 QIL「${field.key}」${expected} 对应的条码`,
+        suggestion: '确认包装上印有该条码；条码过小或模糊时可上传局部高清图',
+        severity: 'medium',
+        confidence: 'likely'
+      });
+    }
+  }
+
+  return issues;
+};
@@ -1,5 +1,7 @@
 import { auth } from './firebase';
-import { ImageItem, DiagnosisIssue, DiffResult, ImageSpec, DeterministicCheck, SourceField } from '../types/types';
+import { ImageItem, DiagnosisIssue, DiffResult, ImageSpec, DeterministicCheck, SourceField, OcrLine } from '../types/types';
+import type { LexiconEntry, LexiconChange } from './lexiconService';
+import type { ModelProvider } from './modelRegistryService';
 
 // Worker API 基础 URL
 const API_BASE_URL = import.meta.env.VITE_WORKERS_URL || '';
@@ -158,6 +160,7 @@ export interface CloudSession {
   thumbnails?: string[];
   qilFields: SourceField[];
   qilInputText: string;
+  allowList: string[];  // 词库白名单短语
 }
 
 // 云端图片数据接口
@@ -170,6 +173,9 @@ export interface CloudImageData {
   storageUrl: string;
   description?: string;
   ocrText?: string;
+  ocrLines?: OcrLine[];
+  ocrSource?: 'model' | 'pdf';
+  revisionOf?: string;
   specs: ImageSpec[];
   issues: DiagnosisIssue[];
   deterministicIssues?: DeterministicCheck[];
@@ -273,7 +279,7 @@ export const updateImageInCloud = async (
   uid: string,
   sessionId: string,
   imageId: string,
-  updates: Partial<Pick<ImageItem, 'description' | 'ocrText' | 'specs' | 'issues' | 'deterministicIssues' | 'diffs' | 'issuesByModel' | 'status' | 'analyzingStartedAt' | 'errorMessage'>>
+  updates: Partial<Pick<ImageItem, 'description' | 'ocrText' | 'ocrLines' | 'ocrSource' | 'specs' | 'issues' | 'deterministicIssues' | 'diffs' | 'issuesByModel' | 'status' | 'analyzingStartedAt' | 'errorMessage'>>
 ): Promise<void> => {
   await apiRequest(`/api/images/${imageId}`, {
     method: 'PUT',
@@ -323,6 +329,32 @@ export const saveQilToCloud = async (
   });
 };
 
+// 设置图片的上一版（previousId 为空时取消关联）
+export const saveImageRevision = async (imageId: string, previousId: string | null): Promise<boolean> => {
+  try {
+    await apiRequest(`/api/images/${imageId}/revision`, {
+      method: 'PUT',
+      body: JSON.stringify({ revisionOf: previousId })
+    });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// 保存会话白名单短语
+export const saveSessionAllowList = async (sessionId: string, allowList: string[]): Promise<boolean> => {
+  try {
+    await apiRequest(`/api/sessions/${sessionId}/allow-list`, {
+      method: 'PUT',
+      body: JSON.stringify({ allowList })
+    });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
 // 从云端加载会话数据
 export const loadSessionFromCloud = async (
   uid: string,
@@ -344,7 +376,8 @@ export const loadSessionFromCloud = async (
       updatedAt: data.updated_at,
       imageCount: data.image_count,
       qilFields: data.qilFields || [],
-      qilInputText: data.qil_input_text || ''
+      qilInputText: data.qil_input_text || '',
+      allowList: data.allow_list ? JSON.parse(data.allow_list) : []
     };
 
     const images: CloudImageData[] = (data.images || []).map((img: any) => ({
@@ -356,6 +389,9 @@ export const loadSessionFromCloud = async (
       storageUrl: `${API_BASE_URL}/api/public/images/${img.id}`,
       description: img.description,
       ocrText: img.ocr_text,
+      ocrLines: img.ocr_lines ? JSON.parse(img.ocr_lines) : [],
+      ocrSource: img.ocr_source || undefined,
+      revisionOf: img.revision_of || undefined,
       specs: img.specs ? JSON.parse(img.specs) : [],
       issues: img.issues ? JSON.parse(img.issues) : [],
       deterministicIssues: img.deterministic_issues ? JSON.parse(img.deterministic_issues) : [],
@@ -402,7 +438,8 @@ export const getUserSessions = async (uid: string, maxResults: number = 10): Pro
       imageCount: data.image_count || 0,
       thumbnails: data.thumbnails || [],
       qilFields: data.qil_fields ? JSON.parse(data.qil_fields) : [],
-      qilInputText: data.qil_input_text || ''
+      qilInputText: data.qil_input_text || '',
+      allowList: data.allow_list ? JSON.parse(data.allow_list) : []
     }));
   } catch (error) {
     return [];
@@ -509,6 +546,176 @@ export const deleteDetectionConfig = async (id: string): Promise<boolean> => {
   }
 };
 
+// 自定义词库规则接口
+export interface CustomLexiconEntry {
+  rowId: string;
+  scope: 'user' | 'team';
+  teamId?: string;
+  userId: string;
+  entry: LexiconEntry;
+  updatedAt: any;
+}
+
+// 团队接口
+export interface Team {
+  id: string;
+  name: string;
+  ownerId: string;
+  role: 'owner' | 'member';
+  createdAt: any;
+}
+
+const mapCustomLexiconEntry = (data: any): CustomLexiconEntry => ({
+  rowId: data.id,
+  scope: data.team_id ? 'team' : 'user',
+  teamId: data.team_id || undefined,
+  userId: data.user_id,
+  entry: JSON.parse(data.data),
+  updatedAt: data.updated_at
+});
+
+// 获取自定义词库（团队规则在前，个人规则在后，便于合并时个人覆盖团队）
+export const listCustomLexicon = async (): Promise<CustomLexiconEntry[]> => {
+  try {
+    const rows = await apiRequest('/api/lexicons');
+    const entries: CustomLexiconEntry[] = rows.map(mapCustomLexiconEntry);
+    return [
+      ...entries.filter(e => e.scope === 'team'),
+      ...entries.filter(e => e.scope === 'user')
+    ];
+  } catch (error) {
+    return [];
+  }
+};
+
+// 保存自定义规则（同 ID 覆盖）
+export const saveCustomLexiconEntry = async (entry: LexiconEntry, teamId?: string): Promise<CustomLexiconEntry | null> => {
+  try {
+    const row = await apiRequest('/api/lexicons', {
+      method: 'POST',
+      body: JSON.stringify({ entry, teamId })
+    });
+    return mapCustomLexiconEntry(row);
+  } catch (error) {
+    return null;
+  }
+};
+
+// 批量导入自定义规则，返回导入条数（失败返回 null）
+export const importCustomLexiconEntries = async (entries: LexiconEntry[], teamId?: string): Promise<number | null> => {
+  try {
+    const result = await apiRequest('/api/lexicons/import', {
+      method: 'POST',
+      body: JSON.stringify({ entries, teamId })
+    });
+    return result.imported;
+  } catch (error) {
+    return null;
+  }
+};
+
+// 删除自定义规则
+export const deleteCustomLexiconEntry = async (rowId: string): Promise<boolean> => {
+  try {
+    await apiRequest(`/api/lexicons/${rowId}`, { method: 'DELETE' });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// 词库版本记录
+export interface LexiconVersion {
+  id: string;
+  scope: 'user' | 'team';
+  teamId?: string;
+  version: number;
+  authorId: string;
+  authorName: string;
+  changes: LexiconChange[];
+  createdAt: number;
+}
+
+// 获取词库版本记录（按时间倒序）
+export const listLexiconVersions = async (): Promise<LexiconVersion[]> => {
+  try {
+    const rows = await apiRequest('/api/lexicons/versions');
+    return rows.map((data: any) => ({
+      id: data.id,
+      scope: data.team_id ? 'team' : 'user',
+      teamId: data.team_id || undefined,
+      version: data.version,
+      authorId: data.user_id,
+      authorName: data.author_name || data.author_email || data.user_id,
+      changes: JSON.parse(data.changes),
+      createdAt: data.created_at
+    }));
+  } catch (error) {
+    return [];
+  }
+};
+
+// 获取当前用户所在团队
+export const listTeams = async (): Promise<Team[]> => {
+  try {
+    const teams = await apiRequest('/api/teams');
+    return teams.map((data: any) => ({
+      id: data.id,
+      name: data.name,
+      ownerId: data.owner_id,
+      role: data.role,
+      createdAt: data.created_at
+    }));
+  } catch (error) {
+    return [];
+  }
+};
+
+// 获取模型供应商注册表（canEdit 为当前用户是否可管理）
+export const listModelProviders = async (): Promise<{ providers: ModelProvider[]; canEdit: boolean } | null> => {
+  try {
+    return await apiRequest('/api/model-providers');
+  } catch (error) {
+    return null;
+  }
+};
+
+// 保存模型供应商（管理员，同 ID 覆盖）
+export const saveModelProvider = async (provider: ModelProvider): Promise<ModelProvider | null> => {
+  try {
+    return await apiRequest(`/api/model-providers/${encodeURIComponent(provider.id)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ provider })
+    });
+  } catch (error) {
+    return null;
+  }
+};
+
+// 删除模型供应商配置（管理员；内置供应商恢复默认）
+export const deleteModelProvider = async (providerId: string): Promise<boolean> => {
+  try {
+    await apiRequest(`/api/model-providers/${encodeURIComponent(providerId)}`, { method: 'DELETE' });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// AI 代理：OpenAI SDK 的 baseURL 指向 Worker，由 Worker 持有 API Key 并扣减配额
+export const getAiProxyBaseURL = (task: string): string => `${API_BASE_URL}/api/ai/${task}`;
+
+// 给 OpenAI SDK 使用的 fetch：带上登录凭证
+export const aiProxyFetch = async (url: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+  const token = await getAuthToken();
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+  return fetch(url, { ...init, headers });
+};
+
 // 批量报告接口
 export interface BatchReport {
   id: string;
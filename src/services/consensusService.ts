@@ -0,0 +1,174 @@
+/**
+ * 多模型共识
+ * 把多个模型对同一张图片的 AI 建议合并成一份去重列表：按原文文本相似度和 box_2d 重叠度聚类，
+ * 每条合并问题记录发现它的模型和一致度，并按一致度上调 / 下调置信度
+ */
+
+import { BoundingBox, ConfidenceLevel, ConsensusIssue, DiagnosisIssue, ImageItem, IssueType } from '../types/types';
+import { normalizeForMatch } from './textNormalizeService';
+
+// IssuesPanel / 画布中共识结果使用的 tab ID（不会与模型 ID 冲突）
+export const CONSENSUS_TAB_ID = '__consensus__';
+
+// 共识 tab 没有自己的确定性 / 词库结果（不依赖模型判断），取第一个已分析模型的结果
+export const resolveResultModel = (activeTab: string, issuesByModel?: ImageItem['issuesByModel']): string =>
+  activeTab === CONSENSUS_TAB_ID ? Object.keys(issuesByModel || {})[0] || activeTab : activeTab;
+
+const MATCH_THRESHOLD = 0.6;   // 相似度达到阈值才视为同一问题
+const ORIGINAL_WEIGHT = 0.8;   // 文本相似度中原文与问题描述的权重
+const TEXT_WEIGHT = 0.7;       // 双方都有 box_2d 时文本与区域重叠的权重
+
+const CONFIDENCE_ORDER: ConfidenceLevel[] = ['possible', 'likely', 'certain'];
+const SEVERITY_ORDER: DiagnosisIssue['severity'][] = ['low', 'medium', 'high'];
+
+const compactText = (text: string) => normalizeForMatch(text).toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+
+const bigrams = (text: string): string[] => {
+  if (text.length < 2) return text ? [text] : [];
+  const grams: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) grams.push(text.slice(i, i + 2));
+  return grams;
+};
+
+/**
+ * 文本相似度（字符二元组 Dice 系数，0-1）；忽略大小写、全半角、繁简、空白和标点
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  const left = compactText(a);
+  const right = compactText(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const counts = new Map<string, number>();
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  leftGrams.forEach(gram => counts.set(gram, (counts.get(gram) || 0) + 1));
+  let shared = 0;
+  rightGrams.forEach(gram => {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  });
+  return (2 * shared) / (leftGrams.length + rightGrams.length);
+};
+
+/**
+ * 区域重叠度（IoU，0-1）
+ */
+export const boxOverlap = (a: BoundingBox, b: BoundingBox): number => {
+  const width = Math.min(a.xmax, b.xmax) - Math.max(a.xmin, b.xmin);
+  const height = Math.min(a.ymax, b.ymax) - Math.max(a.ymin, b.ymin);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  const area = (box: BoundingBox) => Math.max(0, box.xmax - box.xmin) * Math.max(0, box.ymax - box.ymin);
+  return intersection / (area(a) + area(b) - intersection);
+};
+
+/**
+ * 两条 AI 建议是否指同一问题的相似度（0-1）
+ */
+export const issueSimilarity = (a: DiagnosisIssue, b: DiagnosisIssue): number => {
+  const original = textSimilarity(a.original || a.text || '', b.original || b.text || '');
+  const problem = a.problem && b.problem ? textSimilarity(a.problem, b.problem) : original;
+  const text = ORIGINAL_WEIGHT * original + (1 - ORIGINAL_WEIGHT) * problem;
+  if (!a.box_2d || !b.box_2d) return text;
+  return TEXT_WEIGHT * text + (1 - TEXT_WEIGHT) * boxOverlap(a.box_2d, b.box_2d);
+};
+
+interface Cluster {
+  members: { modelId: string; issue: DiagnosisIssue }[];
+}
+
+// 聚类相似度取簇内成员的最大值
+const clusterSimilarity = (cluster: Cluster, issue: DiagnosisIssue) =>
+  Math.max(...cluster.members.map(member => issueSimilarity(member.issue, issue)));
+
+// 全部模型都发现 → 上调一级；只有一个模型发现 → 下调一级；其余保持
+const adjustConfidence = (base: ConfidenceLevel, found: number, total: number): ConfidenceLevel => {
+  const index = CONFIDENCE_ORDER.indexOf(base);
+  if (total > 1 && found === total) return CONFIDENCE_ORDER[Math.min(index + 1, CONFIDENCE_ORDER.length - 1)];
+  if (total > 1 && found === 1) return CONFIDENCE_ORDER[Math.max(index - 1, 0)];
+  return base;
+};
+
+const toConsensusIssue = (cluster: Cluster, modelCount: number): ConsensusIssue => {
+  const issues = cluster.members.map(member => member.issue);
+  // 代表条目：严重程度最高，其次描述最完整
+  const representative = [...issues].sort((a, b) =>
+    SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity) ||
+    (b.problem || '').length - (a.problem || '').length
+  )[0];
+
+  // 分类取多数，票数相同时用代表条目的分类
+  const typeVotes = new Map<IssueType, number>();
+  issues.forEach(issue => typeVotes.set(issue.type, (typeVotes.get(issue.type) || 0) + 1));
+  let type = representative.type;
+  typeVotes.forEach((votes, candidate) => {
+    if (votes > (typeVotes.get(type) || 0)) type = candidate;
+  });
+
+  const baseConfidence = issues
+    .map(issue => issue.confidence || 'possible')
+    .reduce((best, level) => CONFIDENCE_ORDER.indexOf(level) > CONFIDENCE_ORDER.indexOf(best) ? level : best, 'possible' as ConfidenceLevel);
+  const foundBy = cluster.members.map(member => member.modelId);
+
+  return {
+    ...representative,
+    id: `consensus-${representative.id}`,
+    type,
+    confidence: adjustConfidence(baseConfidence, foundBy.length, modelCount),
+    box_2d: representative.box_2d || issues.find(issue => issue.box_2d)?.box_2d,
+    agreement: foundBy.length / modelCount,
+    foundBy,
+    sourceIds: issues.map(issue => issue.id)
+  };
+};
+
+/**
+ * 合并多个模型的 AI 建议，按置信度、一致度、严重程度排序。
+ * 同一模型的多条建议不会合并到同一簇；modelIds 缺省时使用 issuesByModel 的全部模型
+ */
+export const mergeConsensusIssues = (
+  issuesByModel: ImageItem['issuesByModel'],
+  modelIds: string[] = Object.keys(issuesByModel || {})
+): ConsensusIssue[] => {
+  const models = modelIds.filter(modelId => issuesByModel?.[modelId]);
+  if (models.length === 0) return [];
+
+  const clusters: Cluster[] = [];
+  for (const modelId of models) {
+    const issues = issuesByModel[modelId].issues || [];
+    // 当前模型的每条建议与已有簇两两打分，按分数从高到低贪心配对
+    const candidates: { issueIndex: number; clusterIndex: number; score: number }[] = [];
+    issues.forEach((issue, issueIndex) => {
+      clusters.forEach((cluster, clusterIndex) => {
+        if (cluster.members.some(member => member.modelId === modelId)) return;
+        const score = clusterSimilarity(cluster, issue);
+        if (score >= MATCH_THRESHOLD) candidates.push({ issueIndex, clusterIndex, score });
+      });
+    });
+    candidates.sort((a, b) => b.score - a.score);
+
+    const assignedIssues = new Set<number>();
+    const usedClusters = new Set<number>();
+    for (const { issueIndex, clusterIndex } of candidates) {
+      if (assignedIssues.has(issueIndex) || usedClusters.has(clusterIndex)) continue;
+      clusters[clusterIndex].members.push({ modelId, issue: issues[issueIndex] });
+      assignedIssues.add(issueIndex);
+      usedClusters.add(clusterIndex);
+    }
+    issues.forEach((issue, issueIndex) => {
+      if (!assignedIssues.has(issueIndex)) clusters.push({ members: [{ modelId, issue }] });
+    });
+  }
+
+  return clusters
+    .map(cluster => toConsensusIssue(cluster, models.length))
+    .sort((a, b) =>
+      CONFIDENCE_ORDER.indexOf(b.confidence || 'possible') - CONFIDENCE_ORDER.indexOf(a.confidence || 'possible') ||
+      b.agreement - a.agreement ||
+      SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity)
+    );
+};
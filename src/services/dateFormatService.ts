@@ -0,0 +1,300 @@
+/**
+ * 日期 / 批号格式校验（确定性规则）
+ * 从 OCR 文本中提取日期和批号，按出口市场惯例校验，并检查同一标签内格式是否统一
+ */
+
+import type { DeterministicFinding } from './deterministicRuleService';
+
+export type DateLabelKind = 'expiry' | 'production';
+
+export interface DateMention {
+  raw: string;
+  position: number;
+  year: number;
+  month: number;
+  day?: number;
+  order: 'YMD' | 'YM' | 'NNY' | 'MY' | 'TEXT';  // NNY: 两位数在前，日/月顺序待定
+  format: string;        // 显示用，如 YYYY-MM-DD
+  family: string;        // 判断格式是否统一的分组（顺序 + 分隔符）
+  label?: DateLabelKind; // 紧邻的日期标签
+  labelText?: string;
+}
+
+export interface LotMention {
+  labelText: string;
+  position: number;
+  code?: string;         // 批号内容，为空表示标签后没有批号
+}
+
+const MONTH_NAMES: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6, JUL: 7, AUG: 8, SEP: 9, SEPT: 9, OCT: 10, NOV: 11, DEC: 12
+};
+
+const EXPIRY_LABEL = /\b(?:EXP(?:IRY|IRATION)?\.?(?:\s*DATE)?|USE\s+BY|BEST\s+BEFORE(?:\s+END)?|BBE)\b\.?|有效期至|限期使用日期|保质期至|失效日期|到期日期?/gi;
+const PRODUCTION_LABEL = /\b(?:MFG\.?(?:\s*DATE)?|MFD|MANUFACTURED(?:\s+ON)?|PROD(?:UCTION)?\.?\s*DATE)\b\.?|生产日期|制造日期/gi;
+const LOT_LABEL = /\b(?:LOT|BATCH)(?:\s*(?:NO|NUMBER|CODE|#))?\b\.?|生产批号|批号|批次号/gi;
+
+// 标签与日期之间只允许冒号、空格等分隔
+const LABEL_GAP = /^[\s:：.．#\-/]*$/;
+const MAX_LABEL_GAP = 6;
+
+export const daysInMonth = (year: number, month: number) => new Date(year, month, 0).getDate();
+
+const isValidDate = (year: number, month: number, day?: number) =>
+  month >= 1 && month <= 12 && (day === undefined || (day >= 1 && day <= daysInMonth(year, month)));
+
+/**
+ * 提取文本中的日期（数字格式、中文年月日、英文月份缩写，以及标签后的 YYYYMMDD）
+ */
+export const extractDateMentions = (text: string): DateMention[] => {
+  const mentions: DateMention[] = [];
+  const taken: Array<[number, number]> = [];
+  const overlaps = (start: number, end: number) => taken.some(([s, e]) => start < e && end > s);
+
+  const add = (match: RegExpMatchArray, mention: Omit<DateMention, 'raw' | 'position'>) => {
+    const position = match.index ?? 0;
+    const raw = match[0];
+    if (overlaps(position, position + raw.length)) return;
+    taken.push([position, position + raw.length]);
+    mentions.push({ raw, position, ...mention });
+  };
+
+  // 2024年5月1日 / 2024年05月
+  for (const m of text.matchAll(/((?:19|20)\d{2})\s*年\s*(\d{1,2})\s*月(?:\s*(\d{1,2})\s*日)?/g)) {
+    const day = m[3] ? Number(m[3]) : undefined;
+    add(m, {
+      year: Number(m[1]), month: Number(m[2]), day,
+      order: day === undefined ? 'YM' : 'YMD',
+      format: day === undefined ? 'YYYY年MM月' : 'YYYY年MM月DD日',
+      family: 'Y年'
+    });
+  }
+
+  // 2024-05-01 / 2024/05/01 / 2024.05.01 / 2024-05（年月只认 - 和 /，避免误判小数）
+  for (const m of text.matchAll(/(?<![\d.\/-])((?:19|20)\d{2})([-/.])(\d{1,2})(?:\2(\d{1,2}))?(?![\d.\/-]*\d)/g)) {
+    const day = m[4] ? Number(m[4]) : undefined;
+    if (day === undefined && m[2] === '.') continue;
+    const sep = m[2];
+    add(m, {
+      year: Number(m[1]), month: Number(m[3]), day,
+      order: day === undefined ? 'YM' : 'YMD',
+      format: day === undefined ? `YYYY${sep}MM` : `YYYY${sep}MM${sep}DD`,
+      family: `Y${sep}`
+    });
+  }
+
+  // 01/05/2024：日/月顺序由数值判断
+  for (const m of text.matchAll(/(?<![\d.\/-])(\d{1,2})([-/.])(\d{1,2})\2((?:19|20)\d{2})(?![\d.\/-]*\d)/g)) {
+    const first = Number(m[1]);
+    const second = Number(m[3]);
+    const sep = m[2];
+    // 首位 > 12 只能是日/月/年，次位 > 12 只能是月/日/年
+    const dayFirst = first > 12 && second <= 12;
+    const monthFirst = second > 12 && first <= 12;
+    add(m, {
+      year: Number(m[4]),
+      month: monthFirst ? first : second,
+      day: monthFirst ? second : first,
+      order: 'NNY',
+      format: dayFirst ? `DD${sep}MM${sep}YYYY` : monthFirst ? `MM${sep}DD${sep}YYYY` : `NN${sep}NN${sep}YYYY`,
+      family: `N${sep}`
+    });
+  }
+
+  // EXP 05/2026（需紧跟日期标签，见下方过滤）
+  for (const m of text.matchAll(/(?<![\d.\/-])(\d{1,2})([-/.])((?:19|20)\d{2})(?![\d.\/-]*\d)/g)) {
+    const sep = m[2];
+    add(m, { year: Number(m[3]), month: Number(m[1]), order: 'MY', format: `MM${sep}YYYY`, family: `N${sep}` });
+  }
+
+  // 01 MAY 2026 / MAY 2026 / MAY 01, 2026
+  const monthPattern = Object.keys(MONTH_NAMES).join('|');
+  const textDate = new RegExp(
+    `(?<![A-Za-z\\d])(?:(\\d{1,2})[\\s\\-/.]*)?(${monthPattern})[A-Za-z]*\\.?[\\s\\-/.]*(?:(\\d{1,2}),?\\s+)?((?:19|20)\\d{2})(?!\\d)`,
+    'gi'
+  );
+  for (const m of text.matchAll(textDate)) {
+    const day = m[1] ? Number(m[1]) : m[3] ? Number(m[3]) : undefined;
+    add(m, {
+      year: Number(m[4]), month: MONTH_NAMES[m[2].toUpperCase()], day,
+      order: 'TEXT',
+      format: day === undefined ? 'MON YYYY' : m[1] ? 'DD MON YYYY' : 'MON DD, YYYY',
+      family: 'TEXT'
+    });
+  }
+
+  // 标签
+  const labels: Array<{ kind: DateLabelKind; text: string; end: number }> = [];
+  for (const m of text.matchAll(EXPIRY_LABEL)) labels.push({ kind: 'expiry', text: m[0], end: (m.index ?? 0) + m[0].length });
+  for (const m of text.matchAll(PRODUCTION_LABEL)) labels.push({ kind: 'production', text: m[0], end: (m.index ?? 0) + m[0].length });
+
+  // 标签后的 YYYYMMDD（不带标签的 8 位数字多是条码或编号，不识别）
+  for (const label of labels) {
+    const m = text.slice(label.end).match(/^[\s:：.．#\-/]*((?:19|20)\d{2})(\d{2})(\d{2})(?!\d)/);
+    if (!m) continue;
+    const raw = m[1] + m[2] + m[3];
+    const position = label.end + m[0].length - raw.length;
+    if (overlaps(position, position + raw.length)) continue;
+    taken.push([position, position + raw.length]);
+    mentions.push({
+      raw, position,
+      year: Number(m[1]), month: Number(m[2]), day: Number(m[3]),
+      order: 'YMD', format: 'YYYYMMDD', family: 'Y'
+    });
+  }
+
+  for (const mention of mentions) {
+    const label = labels
+      .filter(l => l.end <= mention.position && mention.position - l.end <= MAX_LABEL_GAP && LABEL_GAP.test(text.slice(l.end, mention.position)))
+      .sort((a, b) => b.end - a.end)[0];
+    if (label) {
+      mention.label = label.kind;
+      mention.labelText = label.text.trim();
+    }
+  }
+
+  // MM/YYYY 没有日期标签时多是比例、编号，不计入
+  return mentions
+    .filter(m => m.order !== 'MY' || m.label)
+    .sort((a, b) => a.position - b.position);
+};
+
+/**
+ * 提取批号标注（标签后跟 "见瓶底" 一类说明时视为已标注；OCR 常把批号拆到下一行，允许一次换行）
+ */
+export const extractLotMentions = (text: string): LotMention[] => {
+  const mentions: LotMention[] = [];
+  for (const m of text.matchAll(LOT_LABEL)) {
+    const position = m.index ?? 0;
+    const rest = text.slice(position + m[0].length);
+    const code = rest.match(/^[ \t:：.．#]*\n?[ \t]*([A-Za-z0-9][A-Za-z0-9\-\/]*)/)?.[1];
+    const reference = /^[ \t:：]*\n?[ \t]*(?:见|详见|参见|see\b|printed\b)/i.test(rest);
+    mentions.push({ labelText: m[0].trim(), position, code: code || (reference ? rest.replace(/^[\s:：]+/, '').split(/\s/)[0] : undefined) });
+  }
+  return mentions;
+};
+
+const dateValue = (mention: DateMention, end: boolean) =>
+  new Date(mention.year, mention.month - 1, mention.day ?? (end ? daysInMonth(mention.year, mention.month) : 1)).getTime();
+
+/**
+ * 日期数值无效，或到期日早于生产日期
+ */
+export const checkDateValidity = (text: string): DeterministicFinding[] => {
+  const findings: DeterministicFinding[] = [];
+  const mentions = extractDateMentions(text);
+
+  for (const mention of mentions) {
+    if (!isValidDate(mention.year, mention.month, mention.day)) {
+      findings.push({
+        description: `日期无效："${mention.raw}" 不是合法日期`,
+        location: mention.labelText ? `${mention.labelText} ${mention.raw}` : mention.raw,
+        position: mention.position,
+        length: mention.raw.length
+      });
+    }
+  }
+
+  const valid = mentions.filter(m => isValidDate(m.year, m.month, m.day));
+  const production = valid.find(m => m.label === 'production');
+  const expiry = valid.find(m => m.label === 'expiry');
+  if (production && expiry && dateValue(expiry, true) <= dateValue(production, false)) {
+    findings.push({
+      description: `到期日 "${expiry.raw}" 不晚于生产日期 "${production.raw}"`,
+      location: `${production.labelText} ${production.raw} / ${expiry.labelText} ${expiry.raw}`,
+      position: expiry.position,
+      length: expiry.raw.length
+    });
+  }
+
+  return findings;
+};
+
+/**
+ * 按出口市场惯例校验日期格式
+ * - 中国：按年、月、日顺序标示（GB 7718）；化妆品到期日用"限期使用日期"并配生产批号
+ * - 其他市场：NN/NN/YYYY 日月顺序无法区分；美国习惯月/日/年，欧盟 / 加拿大习惯日/月/年
+ */
+export const checkDateConventions = (text: string, industry: string, markets: string[]): DeterministicFinding[] => {
+  const findings: DeterministicFinding[] = [];
+  const marketSet = new Set(markets.map(m => m.toUpperCase()));
+  const mentions = extractDateMentions(text).filter(m => isValidDate(m.year, m.month, m.day));
+  const location = (m: DateMention) => (m.labelText ? `${m.labelText} ${m.raw}` : m.raw);
+
+  for (const mention of mentions) {
+    const finding = { location: location(mention), position: mention.position, length: mention.raw.length };
+
+    if (marketSet.has('CN') && mention.order !== 'YMD' && mention.order !== 'YM') {
+      findings.push({ ...finding, description: `中国市场日期应按年、月、日顺序标示，"${mention.raw}" 为 ${mention.format}` });
+      continue;
+    }
+    if (mention.order !== 'NNY') continue;
+
+    if (mention.format.startsWith('NN')) {
+      findings.push({
+        ...finding,
+        description: `"${mention.raw}" 无法区分日/月顺序，建议使用 YYYY-MM-DD 或英文月份缩写（如 01 MAY 2026）`
+      });
+    } else if (marketSet.has('US') && mention.format.startsWith('DD')) {
+      findings.push({ ...finding, description: `美国市场习惯月/日/年，"${mention.raw}" 为日/月/年（${mention.format}），易被误读` });
+    } else if ((marketSet.has('EU') || marketSet.has('CA')) && mention.format.startsWith('MM')) {
+      findings.push({ ...finding, description: `欧盟 / 加拿大市场习惯日/月/年，"${mention.raw}" 为月/日/年（${mention.format}），易被误读` });
+    }
+  }
+
+  if (marketSet.has('CN') && industry === 'cosmetics') {
+    for (const m of text.matchAll(/有效期至|失效日期/g)) {
+      findings.push({
+        description: `化妆品应标注"限期使用日期"（或"生产日期 + 保质期"），不使用"${m[0]}"`,
+        location: m[0],
+        position: m.index,
+        length: m[0].length
+      });
+    }
+    const limitDate = text.match(/限期使用日期/);
+    if (limitDate && extractLotMentions(text).length === 0) {
+      findings.push({
+        description: '标注"限期使用日期"时应同时标注生产批号',
+        location: limitDate[0],
+        position: limitDate.index,
+        length: limitDate[0].length
+      });
+    }
+  }
+
+  return findings;
+};
+
+/**
+ * 同一标签内日期格式不统一（顺序或分隔符不同）
+ */
+export const checkMixedDateFormats = (text: string): DeterministicFinding[] => {
+  const mentions = extractDateMentions(text).filter(m => isValidDate(m.year, m.month, m.day));
+  const families = new Map<string, DateMention>();
+  mentions.forEach(m => {
+    if (!families.has(m.family)) families.set(m.family, m);
+  });
+  if (families.size < 2) return [];
+
+  const samples = Array.from(families.values());
+  const formats = Array.from(new Set(samples.map(m => m.format)));
+  return samples.slice(1).map(mention => ({
+    description: `同一标签日期格式不统一：${formats.join('、')}`,
+    location: samples.map(m => m.raw).join(' / '),
+    position: mention.position,
+    length: mention.raw.length
+  }));
+};
+
+/**
+ * 批号标签后缺少批号
+ */
+export const checkLotNumbers = (text: string): DeterministicFinding[] =>
+  extractLotMentions(text)
+    .filter(lot => !lot.code)
+    .map(lot => ({
+      description: `"${lot.labelText}" 后缺少批号内容`,
+      location: lot.labelText,
+      position: lot.position,
+      length: lot.labelText.length
+    }));
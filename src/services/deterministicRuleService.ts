@@ -0,0 +1,433 @@
+/**
+ * 确定性规则引擎（不依赖 AI，结果可复现）
+ * 规则按 id 注册，可限定行业 / 市场；启用状态和严重度可在检测配置页覆盖，保存在 localStorage
+ */
+
+import { ConfidenceLevel, DeterministicCheck, OcrLine, SourceField } from '../types/types';
+import { checkDateValidity, checkDateConventions, checkMixedDateFormats, checkLotNumbers } from './dateFormatService';
+import { checkUnitFormat, checkUnitConversion, checkNetContentConsistency } from './netContentService';
+import { checkNutritionEnergy, checkNutritionReference, checkNutritionRounding } from './nutritionService';
+import { checkInciSpelling, checkInciUnknown, checkIngredientDuplicates, checkIngredientOrder } from './inciService';
+import { checkAllergenDeclared, checkAllergenStatementConsistency, checkAllergenEmphasis } from './allergenService';
+
+export interface DeterministicFinding {
+  description: string;
+  location: string;        // 在 OCR 文本中的位置描述（通常是上下文）
+  position?: number;       // 字符偏移，用于定位到图片
+  length?: number;
+  severity?: DeterministicCheck['severity'];  // 不传则使用规则严重度
+  suggestion?: string;
+  confidence?: ConfidenceLevel;               // 不传为 certain
+}
+
+export interface DeterministicRuleContext {
+  industry: string;
+  markets: string[];
+  specs: SourceField[];    // AI 提取的规格（没有 OCR 原文时可作为数据来源）
+  ocrLines: OcrLine[];     // OCR 行框（含加粗片段等版式信息）
+}
+
+export interface DeterministicRule {
+  id: string;
+  name: string;
+  description: string;
+  type: string;            // 问题类型，如 bracket_mismatch
+  severity: DeterministicCheck['severity'];
+  domains?: string[];      // 适用行业，不传则所有行业
+  markets?: string[];      // 适用市场，不传则所有市场
+  enabledByDefault?: boolean;  // 默认启用
+  check: (text: string, context: DeterministicRuleContext) => DeterministicFinding[];
+}
+
+// 检测配置页的覆盖项
+export interface DeterministicRuleSetting {
+  enabled?: boolean;
+  severity?: DeterministicCheck['severity'];
+}
+
+const RULE_SETTINGS_KEY = 'packverify_deterministic_rule_settings';
+
+const registry = new Map<string, DeterministicRule>();
+
+/**
+ * 注册规则（同 id 覆盖）
+ */
+export const registerDeterministicRule = (rule: DeterministicRule) => {
+  registry.set(rule.id, rule);
+};
+
+export const unregisterDeterministicRule = (id: string) => {
+  registry.delete(id);
+};
+
+export const getDeterministicRules = (): DeterministicRule[] => Array.from(registry.values());
+
+export const getDeterministicRule = (id: string) => registry.get(id);
+
+export const loadDeterministicRuleSettings = (): Record<string, DeterministicRuleSetting> => {
+  if (typeof window === 'undefined' || !window.localStorage) {
+    return {};
+  }
+  try {
+    const stored = window.localStorage.getItem(RULE_SETTINGS_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    console.warn('Failed to read deterministic rule settings', error);
+    return {};
+  }
+};
+
+export const saveDeterministicRuleSettings = (settings: Record<string, DeterministicRuleSetting>) => {
+  window.localStorage.setItem(RULE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const isDeterministicRuleEnabled = (rule: DeterministicRule, settings: Record<string, DeterministicRuleSetting>) =>
+  settings[rule.id]?.enabled ?? rule.enabledByDefault ?? true;
+
+/**
+ * 规则是否适用于当前行业 / 市场（general 市场的规则适用所有市场）
+ */
+const isRuleApplicable = (rule: DeterministicRule, context: DeterministicRuleContext): boolean => {
+  if (rule.domains && !rule.domains.includes(context.industry)) {
+    return false;
+  }
+  if (rule.markets && context.markets.length > 0) {
+    const markets = new Set(context.markets.map(m => m.toLowerCase()));
+    if (!rule.markets.some(m => m === 'general' || markets.has(m.toLowerCase()))) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * 规则是否会在当前行业 / 市场下运行（已注册、启用且适用）；ruleIds 全部满足时为 true
+ */
+export const areDeterministicRulesActive = (
+  ruleIds: string[],
+  industry: string = 'general',
+  markets: string[] = [],
+  settings: Record<string, DeterministicRuleSetting> = loadDeterministicRuleSettings()
+): boolean => {
+  const context: DeterministicRuleContext = { industry, markets, specs: [], ocrLines: [] };
+  return ruleIds.every(id => {
+    const rule = registry.get(id);
+    return !!rule && isDeterministicRuleEnabled(rule, settings) && isRuleApplicable(rule, context);
+  });
+};
+
+/**
+ * 当前行业 / 市场下是否有任何规则会运行（决定是否需要 OCR 原文）
+ */
+export const hasActiveDeterministicRules = (
+  industry: string = 'general',
+  markets: string[] = [],
+  settings: Record<string, DeterministicRuleSetting> = loadDeterministicRuleSettings()
+): boolean => getDeterministicRules().some(rule => areDeterministicRulesActive([rule.id], industry, markets, settings));
+
+/**
+ * 运行所有启用且适用的规则
+ */
+export const runDeterministicRules = (
+  text: string,
+  industry: string = 'general',
+  markets: string[] = [],
+  specs: SourceField[] = [],
+  ocrLines: OcrLine[] = [],
+  settings: Record<string, DeterministicRuleSetting> = loadDeterministicRuleSettings()
+): DeterministicCheck[] => {
+  const issues: DeterministicCheck[] = [];
+  const context: DeterministicRuleContext = { industry, markets, specs, ocrLines };
+  let idCounter = 0;
+
+  for (const rule of registry.values()) {
+    if (!isDeterministicRuleEnabled(rule, settings) || !isRuleApplicable(rule, context)) {
+      continue;
+    }
+
+    let findings: DeterministicFinding[] = [];
+    try {
+      findings = rule.check(text, context);
+    } catch (error) {
+      console.warn(`Deterministic rule ${rule.id} failed`, error);
+    }
+
+    for (const finding of findings) {
+      issues.push({
+        id: `det-${idCounter++}-${Date.now()}`,
+        type: rule.type,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        description: finding.description,
+        location: finding.location,
+        severity: settings[rule.id]?.severity || finding.severity || rule.severity,
+        confidence: finding.confidence || 'certain',
+        ...(finding.suggestion ? { suggestion: finding.suggestion } : {}),
+        ...(finding.position !== undefined ? { position: finding.position, length: finding.length ?? 1 } : {})
+      });
+    }
+  }
+
+  return issues;
+};
+
+// 旧数据没有 ruleId / ruleName，按类型显示
+const LEGACY_TYPE_LABELS: Record<string, string> = {
+  bracket_mismatch: '括号不配对',
+  encoding_error: '编码错误',
+  format_error: '格式错误'
+};
+
+export const getDeterministicLabel = (issue: DeterministicCheck): string =>
+  issue.ruleName || (issue.ruleId && getDeterministicRule(issue.ruleId)?.name) || LEGACY_TYPE_LABELS[issue.type] || issue.type;
+
+// ============================================
+// 内置规则
+// ============================================
+
+const getContext = (text: string, position: number, size = 20) =>
+  `...${text.substring(Math.max(0, position - size), Math.min(text.length, position + size))}...`;
+
+// 括号配对
+registerDeterministicRule({
+  id: 'bracket-pairing',
+  name: '括号不配对',
+  description: '圆括号、方括号、花括号及中文括号必须成对出现',
+  type: 'bracket_mismatch',
+  severity: 'high',
+  check: (text) => {
+    const findings: DeterministicFinding[] = [];
+    const brackets = [
+      { open: '(', close: ')', name: '圆括号' },
+      { open: '[', close: ']', name: '方括号' },
+      { open: '{', close: '}', name: '花括号' },
+      { open: '（', close: '）', name: '中文圆括号' },
+      { open: '【', close: '】', name: '中文方括号' },
+    ];
+
+    for (const bracket of brackets) {
+      const stack: number[] = [];
+      const unmatchedPositions: { pos: number; char: string }[] = [];
+
+      for (let i = 0; i < text.length; i++) {
+        if (text[i] === bracket.open) {
+          stack.push(i);
+        } else if (text[i] === bracket.close) {
+          if (stack.length > 0) {
+            stack.pop();
+          } else {
+            unmatchedPositions.push({ pos: i, char: bracket.close });
+          }
+        }
+      }
+      // 剩余的开括号也是不配对的
+      stack.forEach(pos => unmatchedPositions.push({ pos, char: bracket.open }));
+
+      for (const unmatched of unmatchedPositions) {
+        findings.push({
+          description: `${bracket.name}不配对：发现 "${unmatched.char}" 缺少匹配`,
+          location: getContext(text, unmatched.pos),
+          position: unmatched.pos
+        });
+      }
+    }
+
+    return findings;
+  }
+});
+
+// 编码问题
+registerDeterministicRule({
+  id: 'encoding',
+  name: '编码错误',
+  description: '文本中出现替换字符（乱码）或控制字符',
+  type: 'encoding_error',
+  severity: 'high',
+  check: (text) => {
+    const encodingPatterns = [
+      { pattern: /\ufffd/g, name: '替换字符（乱码）' },
+      { pattern: /[\x00-\x08\x0b\x0c\x0e-\x1f]/g, name: '控制字符' },
+    ];
+
+    return encodingPatterns.flatMap(enc => {
+      const matches = [...text.matchAll(enc.pattern)];
+      return matches.length > 0
+        ? [{
+            description: `发现${enc.name}，共 ${matches.length} 处`,
+            location: '文本中存在异常字符',
+            position: matches[0].index  // 定位第一处
+          }]
+        : [];
+    });
+  }
+});
+
+// 日期 / 批号（见 dateFormatService）
+registerDeterministicRule({
+  id: 'date-validity',
+  name: '日期无效',
+  description: '日期数值不合法（如 13 月、2 月 30 日），或到期日不晚于生产日期',
+  type: 'date_format',
+  severity: 'high',
+  check: (text) => checkDateValidity(text)
+});
+
+registerDeterministicRule({
+  id: 'date-market-format',
+  name: '日期格式不符合市场惯例',
+  description: '中国按年月日顺序；日/月顺序不明确或与美国、欧盟、加拿大习惯相反；化妆品限期使用日期用语',
+  type: 'date_format',
+  severity: 'medium',
+  check: (text, context) => checkDateConventions(text, context.industry, context.markets)
+});
+
+registerDeterministicRule({
+  id: 'date-mixed-format',
+  name: '日期格式不统一',
+  description: '同一标签内生产日期、到期日等使用了不同的日期格式',
+  type: 'date_format',
+  severity: 'medium',
+  check: (text) => checkMixedDateFormats(text)
+});
+
+registerDeterministicRule({
+  id: 'lot-number',
+  name: '批号缺失',
+  description: 'LOT / Batch / 批号 标签后没有批号内容',
+  type: 'lot_format',
+  severity: 'medium',
+  check: (text) => checkLotNumbers(text)
+});
+
+// 净含量 / 单位（见 netContentService）
+registerDeterministicRule({
+  id: 'unit-format',
+  name: '单位书写不规范',
+  description: '单位大小写（如 500ML）、欧美市场数值与单位间空格、中国市场英制单位、美国容量 oz / fl oz',
+  type: 'unit_format',
+  severity: 'medium',
+  check: (text, context) => checkUnitFormat(text, context.markets)
+});
+
+registerDeterministicRule({
+  id: 'unit-conversion',
+  name: '公英制换算不符',
+  description: '成对标注的公制与英制数量换算不一致（如 50 ml / 1.7 fl oz）',
+  type: 'unit_conversion',
+  severity: 'high',
+  check: (text) => checkUnitConversion(text)
+});
+
+registerDeterministicRule({
+  id: 'net-content-consistency',
+  name: '净含量前后不一致',
+  description: '同一包装上多处净含量声明的数值不同',
+  type: 'net_content',
+  severity: 'high',
+  check: (text) => checkNetContentConsistency(text)
+});
+
+// 营养成分表（见 nutritionService）
+registerDeterministicRule({
+  id: 'nutrition-energy',
+  name: '能量与营养素不符',
+  description: '能量与蛋白质、脂肪、碳水化合物换算不符（GB 28050 能量系数 / 4-4-9），或 kJ 与 kcal 不符',
+  type: 'nutrition_table',
+  severity: 'high',
+  domains: ['food'],
+  check: (text, context) => checkNutritionEnergy(text, context.specs, context.markets)
+});
+
+registerDeterministicRule({
+  id: 'nutrition-reference',
+  name: 'NRV% / %DV 计算错误',
+  description: '营养素参考值百分比与含量不符（GB 28050 NRV、FDA 每日参考值）',
+  type: 'nutrition_table',
+  severity: 'high',
+  domains: ['food'],
+  check: (text, context) => checkNutritionReference(text, context.specs, context.markets)
+});
+
+registerDeterministicRule({
+  id: 'nutrition-rounding',
+  name: '营养成分修约不规范',
+  description: '含量、百分比未按修约间隔或 "0" 界限值标示（GB 28050 / 21 CFR 101.9）',
+  type: 'nutrition_table',
+  severity: 'medium',
+  domains: ['food'],
+  check: (text, context) => checkNutritionRounding(text, context.specs, context.markets)
+});
+
+// 成分表 / INCI（见 inciService）
+registerDeterministicRule({
+  id: 'inci-spelling',
+  name: 'INCI 拼写错误',
+  description: '成分名称与 INCI 词典模糊匹配，给出正确写法（如 Cetareth-25 → Ceteareth-25）',
+  type: 'ingredient',
+  severity: 'high',
+  domains: ['cosmetics'],
+  check: (text) => checkInciSpelling(text)
+});
+
+registerDeterministicRule({
+  id: 'inci-unknown',
+  name: 'INCI 未收录',
+  description: '成分不在本地 INCI 词典中，需人工核对',
+  type: 'ingredient',
+  severity: 'medium',
+  domains: ['cosmetics'],
+  check: (text) => checkInciUnknown(text)
+});
+
+registerDeterministicRule({
+  id: 'ingredient-duplicate',
+  name: '成分重复',
+  description: '同一成分在成分表中出现多次（含 Aqua / Water 等等价写法）',
+  type: 'ingredient',
+  severity: 'medium',
+  domains: ['cosmetics'],
+  check: (text) => checkIngredientDuplicates(text)
+});
+
+registerDeterministicRule({
+  id: 'ingredient-order',
+  name: '成分排序错误',
+  description: '标注了含量的成分中，1% 以上成分未按含量递减排列',
+  type: 'ingredient',
+  severity: 'high',
+  domains: ['cosmetics'],
+  check: (text) => checkIngredientOrder(text)
+});
+
+// 过敏原（见 allergenService）
+registerDeterministicRule({
+  id: 'allergen-undeclared',
+  name: '过敏原未声明',
+  description: '含过敏原的配料既未在名称中标明来源，也未在 Contains / 含有 声明中列出（按市场过敏原表）',
+  type: 'allergen',
+  severity: 'high',
+  domains: ['food'],
+  check: (text, context) => checkAllergenDeclared(text, context.markets)
+});
+
+registerDeterministicRule({
+  id: 'allergen-statement',
+  name: '过敏原声明不一致',
+  description: 'Contains / 含有 声明漏列配料中的过敏原，或列出了配料中没有的过敏原',
+  type: 'allergen',
+  severity: 'high',
+  domains: ['food'],
+  check: (text, context) => checkAllergenStatementConsistency(text, context.markets)
+});
+
+registerDeterministicRule({
+  id: 'allergen-emphasis',
+  name: '过敏原未加粗',
+  description: '欧盟要求配料表中的过敏原加粗强调（OCR 返回加粗信息时检查）',
+  type: 'allergen',
+  severity: 'medium',
+  domains: ['food'],
+  markets: ['EU'],
+  check: (text, context) => checkAllergenEmphasis(text, ['EU'], context.ocrLines)
+});
@@ -0,0 +1,243 @@
+/**
+ * 成分表 / INCI 校验（确定性规则，化妆品）
+ * 在 OCR 文本中定位成分表，按本地 INCI 词典模糊匹配拼写，检查重复成分，
+ * 以及已标注含量的成分是否按 "1% 以上含量递减" 排列
+ */
+
+import inciData from '../../data/inci.json';
+import type { DeterministicFinding } from './deterministicRuleService';
+
+export interface IngredientToken {
+  name: string;            // 括号外的名称
+  alias?: string;          // 括号内的等价写法，如 Aqua (Water)
+  position: number;        // 在 OCR 文本中的偏移
+  length: number;
+  concentration?: number;  // 标注的含量（%）
+  mayContain?: boolean;    // "+/-" / "May Contain" 之后的成分（色粉等，不参与排序）
+}
+
+export interface InciMatch {
+  status: 'known' | 'misspelled' | 'unknown';
+  canonical?: string;      // 词典中的写法（known / misspelled）
+  distance?: number;
+}
+
+// 化妆品成分表与食品配料表共用（过敏原检查见 allergenService）
+const HEADER = /(?:^|[^A-Za-z])(INGREDIENTS?|INGRÉDIENTS|INCI)\s*[:：]|全成分\s*[:：]?|成分\s*[:：]|配料表?\s*[:：]/i;
+const SECTION_END = /\n\s*\n|[.。]\s*(?:\n|$)|[.。]\s*(?=contains|allergens?|allergy|含有|过敏原|致敏|may contain|可能含有)|\n\s*(?:warnings?|caution|directions|how to use|contains|allergens?|使用方法|注意事项|警示|警告|含有|过敏原|致敏|净含量|贮存|保质期|生产|made in)/i;
+const MAY_CONTAIN = /^(?:\[?\s*\+\/-|may contain|peut contenir)\s*[:：]?\s*/i;
+
+const normalize = (name: string) =>
+  name.toUpperCase().replace(/[‐‑‒–—]/g, '-').replace(/\s*([/-])\s*/g, '$1').replace(/\s+/g, ' ').trim();
+
+const digitsOf = (name: string) => (name.match(/\d+/g) || []).join(',');
+
+const DICTIONARY = new Map<string, string>(
+  (inciData.names as string[]).map(name => [normalize(name), name])
+);
+
+const ALIASES = new Map<string, string>(
+  Object.entries(inciData.aliases as Record<string, string>).map(([from, to]) => [normalize(from), normalize(to)])
+);
+
+export const getInciDictionaryVersion = () => inciData.version;
+
+// Damerau-Levenshtein（相邻换位算 1 次编辑）
+const editDistance = (a: string, b: string): number => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+/**
+ * 词典匹配：完全一致为 known；编辑距离为 1 且数字部分相同为 misspelled
+ * （Ceteareth-20 与 Ceteareth-25 是两种成分，数字不同不当作拼写错误）。
+ * 词典只收录常用成分，距离放宽到 2 会把未收录的真实成分改写成别的成分（Sodium Acetate → Sodium Lactate）
+ */
+export const matchInciName = (name: string): InciMatch => {
+  const key = normalize(name);
+  const exact = DICTIONARY.get(key);
+  if (exact) return { status: 'known', canonical: exact };
+
+  const maxDistance = 1;
+  let best: { name: string; distance: number } | null = null;
+  for (const [candidateKey, candidate] of DICTIONARY) {
+    if (Math.abs(candidateKey.length - key.length) > maxDistance) continue;
+    if (digitsOf(candidateKey) !== digitsOf(key)) continue;
+    const distance = editDistance(key, candidateKey);
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { name: candidate, distance };
+    }
+  }
+  return best ? { status: 'misspelled', canonical: best.name, distance: best.distance } : { status: 'unknown' };
+};
+
+/**
+ * 定位成分表 / 配料表并按逗号 / 顿号拆分（括号内的逗号不拆）
+ */
+export const extractIngredients = (text: string): IngredientToken[] => {
+  const header = text.match(HEADER);
+  if (!header || header.index === undefined) return [];
+  const start = header.index + header[0].length;
+  const rest = text.slice(start);
+  const end = rest.search(SECTION_END);
+  const section = end === -1 ? rest : rest.slice(0, end);
+
+  const tokens: IngredientToken[] = [];
+  let depth = 0;
+  let tokenStart = 0;
+  let mayContain = false;
+
+  const push = (from: number, to: number) => {
+    let raw = section.slice(from, to);
+    const leading = raw.length - raw.trimStart().length;
+    raw = raw.trim();
+    if (MAY_CONTAIN.test(raw)) {
+      mayContain = true;
+      const prefix = raw.match(MAY_CONTAIN)![0];
+      raw = raw.slice(prefix.length);
+      from += prefix.length;
+    }
+    raw = raw.replace(/[\]\s.]+$/, '');
+    if (!raw) return;
+
+    // 含量：Niacinamide 5% / Niacinamide (5%)
+    const concentration = raw.match(/\(?\s*(\d+(?:\.\d+)?)\s*%\s*\)?/);
+    let name = concentration ? raw.replace(concentration[0], ' ') : raw;
+    const alias = name.match(/[(（]([^()（）]+)[)）]/);
+    if (alias) name = name.replace(alias[0], ' ');
+    name = name.replace(/[*†]+/g, '').replace(/\s+/g, ' ').trim();
+    if (!name) return;
+
+    tokens.push({
+      name,
+      ...(alias ? { alias: alias[1].trim() } : {}),
+      position: start + from + leading,
+      length: raw.length,
+      ...(concentration ? { concentration: Number(concentration[1]) } : {}),
+      ...(mayContain ? { mayContain: true } : {})
+    });
+  };
+
+  for (let i = 0; i < section.length; i++) {
+    const char = section[i];
+    if (char === '(' || char === '（' || char === '[') depth++;
+    else if ((char === ')' || char === '）' || char === ']') && depth > 0) depth--;
+    else if (depth === 0 && /[,，、;；\n]/.test(char)) {
+      // 1,2-Hexanediol 中的逗号不拆
+      if (char === ',' && /\d/.test(section[i - 1] || '') && /\d/.test(section[i + 1] || '')) continue;
+      push(tokenStart, i);
+      tokenStart = i + 1;
+    }
+  }
+  push(tokenStart, section.length);
+
+  // "[+/- CI 77491, CI 77492]" 整段在方括号内，按其中逗号拆开
+  return tokens.flatMap(token =>
+    token.mayContain && token.name.includes(',')
+      ? token.name.split(/\s*,\s*/).filter(Boolean).map(name => ({ ...token, name }))
+      : [token]
+  );
+};
+
+const isLatinName = (name: string) => /[A-Za-z]/.test(name) && !/[\u4e00-\u9fa5]/.test(name);
+
+const findingFor = (token: IngredientToken, description: string, extra: Partial<DeterministicFinding> = {}): DeterministicFinding => ({
+  description,
+  location: token.alias ? `${token.name} (${token.alias})` : token.name,
+  position: token.position,
+  length: token.length,
+  ...extra
+});
+
+/**
+ * INCI 拼写错误（给出词典写法）
+ */
+export const checkInciSpelling = (text: string): DeterministicFinding[] =>
+  extractIngredients(text)
+    .filter(token => isLatinName(token.name))
+    .flatMap(token => {
+      const main = matchInciName(token.name);
+      if (main.status !== 'misspelled') return [];
+      // 模糊匹配也可能是词典未收录的相近成分，不标为 certain
+      return [findingFor(token, `INCI 名称疑似拼写错误："${token.name}" 应为 "${main.canonical}"`, {
+        suggestion: main.canonical,
+        confidence: 'likely'
+      })];
+    });
+
+/**
+ * 词典未收录的成分（词典不完整，只作提示，汇总为一条）
+ */
+export const checkInciUnknown = (text: string): DeterministicFinding[] => {
+  const unknown = extractIngredients(text).filter(token =>
+    isLatinName(token.name) &&
+    matchInciName(token.name).status === 'unknown' &&
+    (!token.alias || matchInciName(token.alias).status === 'unknown')
+  );
+  if (unknown.length === 0) return [];
+  return [findingFor(unknown[0], `${unknown.length} 个成分未收录于 INCI 词典（${getInciDictionaryVersion()}）：${unknown.slice(0, 5).map(t => t.name).join('、')}${unknown.length > 5 ? ' 等' : ''}`, {
+    suggestion: '请核对 INCI 名称（PCPC / CosIng）',
+    confidence: 'possible'
+  })];
+};
+
+// 重复判断：括号别名、Aqua/Water 等等价写法视为同一成分
+const identityOf = (token: IngredientToken) => {
+  const resolve = (name: string) => {
+    const match = isLatinName(name) ? matchInciName(name) : null;
+    const key = normalize(match?.status === 'known' ? match.canonical! : name);
+    return ALIASES.get(key) || key;
+  };
+  return resolve(token.alias && isLatinName(token.alias) && !isLatinName(token.name) ? token.alias : token.name);
+};
+
+/**
+ * 成分重复
+ */
+export const checkIngredientDuplicates = (text: string): DeterministicFinding[] => {
+  const seen = new Map<string, IngredientToken>();
+  const findings: DeterministicFinding[] = [];
+  for (const token of extractIngredients(text)) {
+    const identity = identityOf(token);
+    const first = seen.get(identity);
+    if (first) {
+      findings.push(findingFor(token, `成分重复："${token.name}" 与前面的 "${first.name}" 为同一成分`, {
+        suggestion: `删除重复的 "${token.name}"`,
+        confidence: 'certain'
+      }));
+    } else {
+      seen.set(identity, token);
+    }
+  }
+  return findings;
+};
+
+/**
+ * 含量 1% 以上的成分应按含量递减排列（只比较标注了含量的成分）
+ */
+export const checkIngredientOrder = (text: string): DeterministicFinding[] => {
+  const known = extractIngredients(text).filter(token => token.concentration !== undefined && !token.mayContain);
+  const findings: DeterministicFinding[] = [];
+  for (let i = 1; i < known.length; i++) {
+    const token = known[i];
+    const earlier = known.slice(0, i).find(prev => token.concentration! > 1 && token.concentration! > prev.concentration!);
+    if (earlier) {
+      findings.push(findingFor(token,
+        `成分排序错误："${token.name}"（${token.concentration}%）排在含量更低的 "${earlier.name}"（${earlier.concentration}%）之后，1% 以上成分应按含量递减排列`, {
+        suggestion: `将 "${token.name}" 移到 "${earlier.name}" 之前`,
+        confidence: 'certain'
+      }));
+    }
+  }
+  return findings;
+};
@@ -0,0 +1,371 @@
+/**
+ * 词库导入 / 导出
+ * 支持 CSV（与 data/lexicon-template.csv 同列）和 JSON（{ entries: [...] } 或数组）
+ */
+
+import type { LexiconEntry, LexiconException, LexiconFixtures } from './lexiconService';
+
+export const LEXICON_CSV_COLUMNS = [
+  'id', 'pattern', 'patternType', 'domain', 'market', 'severity',
+  'reason', 'suggestion', 'source', 'sourceUrl', 'category', 'exceptions', 'fixtures', 'kind'
+] as const;
+
+const VALID_PATTERN_TYPES = ['keyword', 'regex', 'stem'];
+const VALID_DOMAINS = ['general', 'cosmetics', 'food', 'pharma', 'supplement', 'medical_device', 'infant', 'household'];
+const VALID_MARKETS = ['general', 'US', 'EU', 'CN', 'CA'];
+const VALID_SEVERITIES = ['P0', 'P1', 'P2'];
+const VALID_EXCEPTION_TYPES = ['followed_by', 'preceded_by', 'inside_phrase'];
+const VALID_KINDS = ['forbidden', 'required'];
+
+export interface LexiconImportRow {
+  line: number;            // CSV 行号 / JSON 条目序号（从 1 开始）
+  entry: LexiconEntry | null;
+  errors: string[];        // 有错误的行不会被合并
+  warnings: string[];      // 仅提示，不影响合并
+}
+
+export interface LexiconImportReport {
+  format: 'csv' | 'json';
+  rows: LexiconImportRow[];
+  validEntries: LexiconEntry[];
+  errorCount: number;
+  warningCount: number;
+}
+
+/**
+ * 解析 CSV（RFC 4180：支持引号、转义引号、字段内换行）
+ * 返回每条记录及其起始行号
+ */
+const parseCsvRecords = (text: string): Array<{ line: number; fields: string[] }> => {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  const input = text.replace(/^﻿/, '');
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      fields.push(field);
+      if (fields.some(f => f.trim() !== '')) {
+        records.push({ line: recordLine, fields });
+      }
+      fields = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  if (fields.some(f => f.trim() !== '')) {
+    records.push({ line: recordLine, fields });
+  }
+
+  return records;
+};
+
+const escapeCsvField = (value: string): string => {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+/**
+ * 校验例外条件（JSON 数组；CSV 中为单元格内的 JSON 字符串）
+ */
+const parseExceptions = (raw: unknown, errors: string[]): LexiconException[] | undefined => {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      errors.push('例外条件不是有效的 JSON 数组');
+      return undefined;
+    }
+  }
+  if (!Array.isArray(value)) {
+    errors.push('例外条件必须是数组');
+    return undefined;
+  }
+
+  const exceptions: LexiconException[] = [];
+  value.forEach((item: any, idx: number) => {
+    const type = String(item?.type ?? '');
+    const pattern = String(item?.pattern ?? '').trim();
+    if (!VALID_EXCEPTION_TYPES.includes(type)) {
+      errors.push(`例外 ${idx + 1} 类型无效：${type || '(空)'}（可选 ${VALID_EXCEPTION_TYPES.join('/')}）`);
+      return;
+    }
+    if (!pattern) {
+      errors.push(`例外 ${idx + 1} 缺少匹配模式`);
+      return;
+    }
+    try {
+      new RegExp(pattern, 'i');
+    } catch (e) {
+      errors.push(`例外 ${idx + 1} 正则无法编译：${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    exceptions.push({
+      type: type as LexiconException['type'],
+      pattern,
+      ...(item.reason ? { reason: String(item.reason) } : {})
+    });
+  });
+
+  return exceptions.length > 0 ? exceptions : undefined;
+};
+
+/**
+ * 校验规则样例（{ shouldMatch: [], shouldNotMatch: [] }；CSV 中为单元格内的 JSON 字符串）
+ */
+const parseFixtures = (raw: unknown, errors: string[]): LexiconFixtures | undefined => {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      errors.push('样例不是有效的 JSON 对象');
+      return undefined;
+    }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push('样例必须是包含 shouldMatch / shouldNotMatch 的对象');
+    return undefined;
+  }
+
+  const fixtures: LexiconFixtures = {};
+  for (const key of ['shouldMatch', 'shouldNotMatch'] as const) {
+    const samples = (value as any)[key];
+    if (samples === undefined) continue;
+    if (!Array.isArray(samples) || samples.some(s => typeof s !== 'string')) {
+      errors.push(`样例 ${key} 必须是字符串数组`);
+      continue;
+    }
+    const nonEmpty = samples.filter((s: string) => s.trim());
+    if (nonEmpty.length > 0) fixtures[key] = nonEmpty;
+  }
+
+  return fixtures.shouldMatch || fixtures.shouldNotMatch ? fixtures : undefined;
+};
+
+/**
+ * 校验单条规则，返回规范化后的 entry 和错误信息
+ */
+const validateEntry = (raw: Record<string, any>): { entry: LexiconEntry | null; errors: string[]; warnings: string[] } => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const str = (key: string) => (raw[key] === undefined || raw[key] === null ? '' : String(raw[key]).trim());
+
+  const id = str('id');
+  const pattern = str('pattern');
+  const patternType = str('patternType') || 'keyword';
+  const domain = str('domain') || 'general';
+  const market = str('market') || 'general';
+  const severity = str('severity').toUpperCase();
+  const kind = str('kind') || 'forbidden';
+
+  if (!id) errors.push('缺少规则 ID');
+  if (!pattern) errors.push('缺少匹配模式');
+  if (!VALID_PATTERN_TYPES.includes(patternType)) {
+    errors.push(`匹配类型无效：${patternType}（可选 ${VALID_PATTERN_TYPES.join('/')}）`);
+  }
+  if (!VALID_DOMAINS.includes(domain)) {
+    errors.push(`行业无效：${domain}`);
+  }
+  if (!VALID_MARKETS.includes(market)) {
+    errors.push(`市场无效：${market}（可选 ${VALID_MARKETS.join('/')}）`);
+  }
+  if (!VALID_SEVERITIES.includes(severity)) {
+    errors.push(`严重度无效：${str('severity') || '(空)'}（可选 P0/P1/P2）`);
+  }
+  if (!VALID_KINDS.includes(kind)) {
+    errors.push(`规则类型无效：${kind}（可选 ${VALID_KINDS.join('/')}）`);
+  }
+  if (pattern && patternType === 'regex') {
+    try {
+      new RegExp(pattern, 'gi');
+    } catch (e) {
+      errors.push(`正则无法编译：${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  const exceptions = parseExceptions(raw.exceptions, errors);
+  const fixtures = parseFixtures(raw.fixtures, errors);
+  if (!str('reason')) warnings.push('缺少风险原因');
+  if (!str('suggestion')) warnings.push('缺少修改建议');
+
+  if (errors.length > 0) {
+    return { entry: null, errors, warnings };
+  }
+
+  const entry: LexiconEntry = {
+    id,
+    pattern,
+    patternType: patternType as LexiconEntry['patternType'],
+    domain: domain as LexiconEntry['domain'],
+    market: market as LexiconEntry['market'],
+    severity: severity as LexiconEntry['severity'],
+    reason: str('reason'),
+    suggestion: str('suggestion'),
+    source: str('source') || undefined,
+    sourceUrl: str('sourceUrl') || undefined,
+    category: str('category') || undefined,
+    ...(kind === 'required' ? { kind: 'required' as const } : {}),
+    exceptions,
+    fixtures
+  };
+
+  return { entry, errors, warnings };
+};
+
+/**
+ * 生成导入校验报告
+ * @param rawRows 已解析的原始行
+ * @param existingIds 当前词库中已存在的 ID（重复时提示将覆盖）
+ */
+const buildReport = (
+  format: 'csv' | 'json',
+  rawRows: Array<{ line: number; data: Record<string, any> | null; parseError?: string }>,
+  existingIds: Set<string>
+): LexiconImportReport => {
+  const seenIds = new Map<string, number>();
+  const rows: LexiconImportRow[] = rawRows.map(({ line, data, parseError }) => {
+    if (!data) {
+      return { line, entry: null, errors: [parseError || '无法解析'], warnings: [] };
+    }
+
+    const { entry, errors, warnings } = validateEntry(data);
+    const id = String(data.id ?? '').trim();
+    if (id) {
+      const firstLine = seenIds.get(id);
+      if (firstLine !== undefined) {
+        errors.push(`规则 ID 重复（与第 ${firstLine} 行相同）`);
+      } else {
+        seenIds.set(id, line);
+        if (existingIds.has(id)) warnings.push('ID 已存在，导入后将覆盖现有规则');
+      }
+    }
+
+    return { line, entry: errors.length > 0 ? null : entry, errors, warnings };
+  });
+
+  return {
+    format,
+    rows,
+    validEntries: rows.filter(r => r.entry).map(r => r.entry!),
+    errorCount: rows.filter(r => r.errors.length > 0).length,
+    warningCount: rows.filter(r => r.warnings.length > 0).length
+  };
+};
+
+export const parseLexiconCsv = (text: string, existingIds: Set<string> = new Set()): LexiconImportReport => {
+  const records = parseCsvRecords(text);
+  if (records.length === 0) {
+    return buildReport('csv', [], existingIds);
+  }
+
+  const header = records[0].fields.map(h => h.trim());
+  const missingColumns = ['id', 'pattern', 'severity'].filter(col => !header.includes(col));
+  if (missingColumns.length > 0) {
+    return buildReport('csv', [{ line: records[0].line, data: null, parseError: `表头缺少列：${missingColumns.join(', ')}` }], existingIds);
+  }
+
+  const rawRows = records.slice(1).map(({ line, fields }) => {
+    if (fields.length > header.length) {
+      return { line, data: null, parseError: `列数过多（${fields.length} > ${header.length}），请检查未加引号的逗号` };
+    }
+    const data: Record<string, string> = {};
+    header.forEach((col, idx) => {
+      data[col] = fields[idx] ?? '';
+    });
+    return { line, data };
+  });
+
+  return buildReport('csv', rawRows, existingIds);
+};
+
+export const parseLexiconJson = (text: string, existingIds: Set<string> = new Set()): LexiconImportReport => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text.replace(/^﻿/, ''));
+  } catch (e) {
+    return buildReport('json', [{ line: 1, data: null, parseError: `JSON 格式错误：${e instanceof Error ? e.message : String(e)}` }], existingIds);
+  }
+
+  const items = Array.isArray(parsed) ? parsed : parsed?.entries;
+  if (!Array.isArray(items)) {
+    return buildReport('json', [{ line: 1, data: null, parseError: 'JSON 中未找到 entries 数组' }], existingIds);
+  }
+
+  const rawRows = items.map((item: any, idx: number) => (
+    item && typeof item === 'object'
+      ? { line: idx + 1, data: item }
+      : { line: idx + 1, data: null, parseError: '条目不是对象' }
+  ));
+
+  return buildReport('json', rawRows, existingIds);
+};
+
+/**
+ * 根据文件名选择解析器
+ */
+export const parseLexiconFile = async (file: File, existingIds: Set<string> = new Set()): Promise<LexiconImportReport> => {
+  const text = await file.text();
+  return file.name.toLowerCase().endsWith('.json')
+    ? parseLexiconJson(text, existingIds)
+    : parseLexiconCsv(text, existingIds);
+};
+
+export const serializeLexiconCsv = (entries: LexiconEntry[]): string => {
+  const lines = [LEXICON_CSV_COLUMNS.join(',')];
+  for (const entry of entries) {
+    lines.push(LEXICON_CSV_COLUMNS.map(col => {
+      if (col === 'exceptions') {
+        return escapeCsvField(entry.exceptions?.length ? JSON.stringify(entry.exceptions) : '');
+      }
+      if (col === 'fixtures') {
+        return escapeCsvField(entry.fixtures ? JSON.stringify(entry.fixtures) : '');
+      }
+      return escapeCsvField(String(entry[col] ?? ''));
+    }).join(','));
+  }
+  return lines.join('\n') + '\n';
+};
+
+export const serializeLexiconJson = (entries: LexiconEntry[], version: string): string => {
+  return JSON.stringify({
+    version,
+    updatedAt: new Date().toISOString().split('T')[0],
+    entries
+  }, null, 2);
+};
@@ -4,11 +4,13 @@
  */
 
 import lexiconData from '../../data/lexicon.json';
+import { normalizeForMatch, buildKeywordSource, buildStemSource, escapeRegex } from './textNormalizeService';
+import type { RequiredStatementIssue } from '../types/types';
 
 export interface LexiconEntry {
   id: string;
   pattern: string;
-  patternType: 'keyword' | 'regex';
+  patternType: 'keyword' | 'regex' | 'stem';  // stem: 英文词形变化（cure → cures / cured / curing）
   domain: 'general' | 'cosmetics' | 'food' | 'pharma' | 'supplement' | 'medical_device' | 'infant' | 'household';
   market: 'general' | 'US' | 'EU' | 'CN' | 'CA';
   severity: 'P0' | 'P1' | 'P2';
@@ -17,6 +19,49 @@ export interface LexiconEntry {
   source?: string;
   sourceUrl?: string;
   category?: string;
+  disabled?: boolean;  // 自定义覆盖时用于停用内置规则
+  kind?: 'forbidden' | 'required';  // required: 必备内容，文本中缺失时报告（默认 forbidden：出现即报告）
+  exceptions?: LexiconException[];  // 例外条件，满足任一条即视为误报
+  fixtures?: LexiconFixtures;  // 回归样例，修改 pattern 时用于检查是否误伤
+}
+
+/**
+ * 规则样例：shouldMatch 必须命中，shouldNotMatch 不能命中
+ */
+export interface LexiconFixtures {
+  shouldMatch?: string[];
+  shouldNotMatch?: string[];
+}
+
+export interface LexiconFixtureCase {
+  sample: string;
+  expected: 'match' | 'no_match';
+  passed: boolean;
+  matchedText?: string;  // 实际命中的文本（未命中时为空）
+}
+
+export interface LexiconFixtureResult {
+  entryId: string;
+  passed: boolean;  // 没有样例时视为通过
+  cases: LexiconFixtureCase[];
+}
+
+/**
+ * 规则例外（pattern 为大小写不敏感的正则）
+ * - followed_by: 命中词后紧跟 pattern，如 treat + ment plan
+ * - preceded_by: 命中词前紧邻 pattern
+ * - inside_phrase: 命中词位于 pattern 匹配的短语内，如品牌名 "Heal & Co"
+ */
+export interface LexiconException {
+  type: 'followed_by' | 'preceded_by' | 'inside_phrase';
+  pattern: string;
+  reason?: string;
+}
+
+export interface LexiconSuppression {
+  source: 'exception' | 'allow_list';
+  reason: string;
+  phrase?: string;  // 命中的白名单短语
 }
 
 export interface LexiconHit {
@@ -24,72 +69,336 @@ export interface LexiconHit {
   matchedText: string;
   position: number;
   context: string;  // 命中位置的上下文
+  suppressed?: LexiconSuppression;  // 命中例外或白名单，仅记录不计入问题
+}
+
+// 必备内容检查结果（present 为 false 时即缺失）
+export interface RequiredStatementResult {
+  entry: LexiconEntry;
+  present: boolean;
+  matchedText?: string;
+  position?: number;
+}
+
+// 词库条目级变更（自定义规则每次保存 / 导入 / 删除生成一个版本）
+export interface LexiconChange {
+  entryId: string;
+  action: 'added' | 'removed' | 'modified';
+  before?: LexiconEntry;
+  after?: LexiconEntry;
+}
+
+// 自定义规则作用域的当前版本
+export interface LexiconScopeVersion {
+  scope: 'user' | 'team';
+  teamId?: string;
+  version: number;
 }
 
 // 加载词库
 const lexicon: LexiconEntry[] = lexiconData.entries as LexiconEntry[];
 
+// 当前登录用户的自定义规则（团队规则在前，个人规则在后）
+let customEntries: LexiconEntry[] = [];
+
+export const getBuiltinLexicon = () => lexicon;
+
+export const setCustomLexiconEntries = (entries: LexiconEntry[]) => {
+  customEntries = entries;
+};
+
+// 当前生效的自定义规则版本（与内置词库版本一起写入检测结果）
+let customVersions: LexiconScopeVersion[] = [];
+
+export const setCustomLexiconVersions = (versions: LexiconScopeVersion[]) => {
+  customVersions = versions;
+};
+
+/**
+ * 当前词库版本：内置版本 + 各自定义作用域版本，如 1.0.0+user.12+team.ab12cd34.3
+ */
+export const getLexiconVersion = (): string => {
+  const parts = customVersions.map(v => (v.scope === 'team' ? `team.${(v.teamId || '').slice(0, 8)}.${v.version}` : `user.${v.version}`));
+  return [lexiconData.version, ...parts].join('+');
+};
+
+/**
+ * 从版本记录中取每个作用域的最新版本号
+ */
+export const getLatestScopeVersions = (versions: LexiconScopeVersion[]): LexiconScopeVersion[] => {
+  const latest = new Map<string, LexiconScopeVersion>();
+  for (const v of versions) {
+    const key = v.scope === 'team' ? `team:${v.teamId}` : 'user';
+    const current = latest.get(key);
+    if (!current || v.version > current.version) {
+      latest.set(key, { scope: v.scope, teamId: v.teamId, version: v.version });
+    }
+  }
+  return Array.from(latest.values()).sort((a, b) => (a.scope === b.scope ? 0 : a.scope === 'team' ? -1 : 1));
+};
+
+/**
+ * 合并多个版本的变更（按时间先后传入），得到两个版本之间的净变化
+ */
+export const composeLexiconChanges = (changeSets: LexiconChange[][]): LexiconChange[] => {
+  const byEntry = new Map<string, { before?: LexiconEntry; after?: LexiconEntry; existedBefore: boolean }>();
+  for (const changes of changeSets) {
+    for (const change of changes) {
+      const current = byEntry.get(change.entryId);
+      if (!current) {
+        byEntry.set(change.entryId, {
+          before: change.before,
+          after: change.after,
+          existedBefore: change.action !== 'added'
+        });
+      } else {
+        current.after = change.after;
+      }
+    }
+  }
+
+  const result: LexiconChange[] = [];
+  for (const [entryId, { before, after, existedBefore }] of byEntry) {
+    if (!existedBefore && after) {
+      result.push({ entryId, action: 'added', after });
+    } else if (existedBefore && !after) {
+      result.push({ entryId, action: 'removed', before });
+    } else if (existedBefore && after && JSON.stringify(before) !== JSON.stringify(after)) {
+      result.push({ entryId, action: 'modified', before, after });
+    }
+  }
+  return result.sort((a, b) => a.entryId.localeCompare(b.entryId));
+};
+
+/**
+ * 规则字段级差异（用于展示 modified 变更）
+ */
+export const diffLexiconEntryFields = (before?: LexiconEntry, after?: LexiconEntry) => {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const fields: Array<{ field: string; before: string; after: string }> = [];
+  for (const key of keys) {
+    const prev = (before as any)?.[key];
+    const next = (after as any)?.[key];
+    if (JSON.stringify(prev) !== JSON.stringify(next)) {
+      const format = (value: unknown) => (value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value));
+      fields.push({ field: key, before: format(prev), after: format(next) });
+    }
+  }
+  return fields;
+};
+
+// 当前产品会话的白名单短语（已审核通过，不再报出）
+let sessionAllowList: string[] = [];
+
+export const setSessionAllowList = (phrases: string[]) => {
+  sessionAllowList = phrases;
+};
+
+export const getSessionAllowList = () => sessionAllowList;
+
+/**
+ * 合并词库：后面的规则按 id 覆盖前面的规则
+ */
+export const mergeLexicon = (...sets: LexiconEntry[][]): LexiconEntry[] => {
+  const merged = new Map<string, LexiconEntry>();
+  for (const set of sets) {
+    for (const entry of set) {
+      merged.set(entry.id, entry);
+    }
+  }
+  return Array.from(merged.values());
+};
+
+/**
+ * 内置词库 + 当前用户自定义规则（不含已停用的规则）
+ */
+export const getMergedLexicon = (): LexiconEntry[] => {
+  return mergeLexicon(lexicon, customEntries).filter(entry => !entry.disabled);
+};
+
 /**
  * 匹配词库
  * @param text OCR 提取的文本
  * @param domain 行业（可选，不传则匹配所有）
  * @param market 市场（可选，不传则匹配所有）
+ * @param allowList 白名单短语（默认使用当前会话白名单）
  */
 export const matchLexicon = (
   text: string,
   domain?: string,
   markets?: string[],
-  enabledDomains?: string[]
+  enabledDomains?: string[],
+  allowList: string[] = sessionAllowList
 ): LexiconHit[] => {
   const hits: LexiconHit[] = [];
-  const lowerText = text.toLowerCase();
+  // 全角 / 繁体归一化后匹配，长度不变，位置与原文一致
+  const normalizedText = normalizeForMatch(text);
+
+  for (const entry of getApplicableEntries(domain, markets, enabledDomains)) {
+    if (entry.kind === 'required') continue;
+    hits.push(...matchEntry(entry, text, normalizedText, allowList));
+  }
+
+  // 去重（同一位置只保留最高优先级）
+  return deduplicateHits(hits);
+};
+
+/**
+ * 按行业 / 市场筛选当前生效的规则（general 匹配所有）
+ */
+const getApplicableEntries = (domain?: string, markets?: string[], enabledDomains?: string[]): LexiconEntry[] => {
   const domainWhitelist = enabledDomains ? new Set(enabledDomains) : null;
   const marketWhitelist = markets && markets.length ? new Set(markets.map(m => m.toLowerCase())) : null;
 
-  for (const entry of lexicon) {
-    if (domainWhitelist && !domainWhitelist.has(entry.domain)) {
-      continue;
-    }
-    // 过滤 domain（general 匹配所有）
-    if (domain && entry.domain !== 'general' && entry.domain !== domain) {
-      continue;
+  return getMergedLexicon().filter(entry => {
+    if (domainWhitelist && !domainWhitelist.has(entry.domain)) return false;
+    if (domain && entry.domain !== 'general' && entry.domain !== domain) return false;
+    if (marketWhitelist && entry.market !== 'general' && !marketWhitelist.has(entry.market.toLowerCase())) return false;
+    return true;
+  });
+};
+
+/**
+ * 必备内容检查：kind 为 required 的规则在文本中没有命中即视为缺失
+ * 命中规则例外的不算具备；会话白名单只用于忽略误报，这里不生效
+ * @param text 产品全部图片的 OCR 文本（必备内容可能印在任意一面）
+ */
+export const checkRequiredStatements = (
+  text: string,
+  domain?: string,
+  markets?: string[],
+  enabledDomains?: string[]
+): RequiredStatementResult[] => {
+  const normalizedText = normalizeForMatch(text);
+  return getApplicableEntries(domain, markets, enabledDomains)
+    .filter(entry => entry.kind === 'required')
+    .map(entry => {
+      const hit = matchEntry(entry, text, normalizedText, []).find(h => !h.suppressed);
+      return hit
+        ? { entry, present: true, matchedText: hit.matchedText, position: hit.position }
+        : { entry, present: false };
+    });
+};
+
+/**
+ * 单条规则在文本上的全部命中（normalizedText 为 normalizeForMatch(text)）
+ */
+const matchEntry = (entry: LexiconEntry, text: string, normalizedText: string, allowList: string[]): LexiconHit[] => {
+  let matches: RegExpMatchArray[] = [];
+
+  if (entry.patternType === 'keyword') {
+    // 关键词匹配（大小写不敏感，中文按子串匹配）
+    const pattern = new RegExp(buildKeywordSource(entry.pattern), 'gi');
+    matches = [...normalizedText.matchAll(pattern)];
+  } else if (entry.patternType === 'stem') {
+    // 词干匹配（英文词形变化）
+    const pattern = new RegExp(buildStemSource(entry.pattern), 'gi');
+    matches = [...normalizedText.matchAll(pattern)];
+  } else {
+    // 正则匹配
+    try {
+      const pattern = new RegExp(entry.pattern, 'gi');
+      matches = [...normalizedText.matchAll(pattern)];
+    } catch (e) {
+      console.warn(`Invalid regex pattern: ${entry.pattern}`, e);
     }
-    // 过滤 market（general 匹配所有）
-    if (marketWhitelist && entry.market !== 'general' && !marketWhitelist.has(entry.market.toLowerCase())) {
-      continue;
+  }
+
+  const hits: LexiconHit[] = [];
+  for (const match of matches) {
+    if (!match[0]) continue;
+    const position = match.index || 0;
+    hits.push({
+      entry,
+      matchedText: text.substr(position, match[0].length),
+      position,
+      context: getContext(text, position, match[0].length),
+      suppressed: findSuppression(normalizedText, entry, position, match[0].length, allowList)
+    });
+  }
+  return hits;
+};
+
+/**
+ * 运行单条规则的样例（不受行业 / 市场过滤和会话白名单影响）
+ * shouldMatch 需要至少一处未被例外忽略的命中；shouldNotMatch 不能有未被忽略的命中
+ */
+export const runLexiconFixtures = (entry: LexiconEntry): LexiconFixtureResult => {
+  const run = (sample: string, expected: LexiconFixtureCase['expected']): LexiconFixtureCase => {
+    const hit = matchEntry(entry, sample, normalizeForMatch(sample), []).find(h => !h.suppressed);
+    return {
+      sample,
+      expected,
+      passed: expected === 'match' ? !!hit : !hit,
+      ...(hit ? { matchedText: hit.matchedText } : {})
+    };
+  };
+
+  const cases = [
+    ...(entry.fixtures?.shouldMatch || []).filter(s => s.trim()).map(s => run(s, 'match')),
+    ...(entry.fixtures?.shouldNotMatch || []).filter(s => s.trim()).map(s => run(s, 'no_match'))
+  ];
+  return { entryId: entry.id, passed: cases.every(c => c.passed), cases };
+};
+
+/**
+ * 查找命中区间 [start, start + length) 是否落在 pattern 的某个匹配内
+ */
+const isInsideMatch = (text: string, pattern: RegExp, start: number, length: number): boolean => {
+  for (const match of text.matchAll(pattern)) {
+    const matchStart = match.index || 0;
+    if (match[0] && matchStart <= start && start + length <= matchStart + match[0].length) {
+      return true;
     }
+  }
+  return false;
+};
 
-    let matches: RegExpMatchArray[] = [];
+const compileException = (pattern: string, anchor: 'start' | 'end' | 'none'): RegExp | null => {
+  try {
+    if (anchor === 'start') return new RegExp(`^\\s*(?:${pattern})`, 'i');
+    if (anchor === 'end') return new RegExp(`(?:${pattern})\\s*$`, 'i');
+    return new RegExp(pattern, 'gi');
+  } catch (e) {
+    console.warn(`Invalid exception pattern: ${pattern}`, e);
+    return null;
+  }
+};
 
-    if (entry.patternType === 'keyword') {
-      // 关键词匹配（大小写不敏感）
-      const pattern = new RegExp(`\\b${escapeRegex(entry.pattern)}\\b`, 'gi');
-      matches = [...lowerText.matchAll(pattern)];
+/**
+ * 判断命中是否属于规则例外或会话白名单（text 为归一化后的文本）
+ */
+const findSuppression = (
+  text: string,
+  entry: LexiconEntry,
+  position: number,
+  length: number,
+  allowList: string[]
+): LexiconSuppression | undefined => {
+  for (const exception of entry.exceptions || []) {
+    let matched = false;
+    if (exception.type === 'followed_by') {
+      matched = !!compileException(exception.pattern, 'start')?.test(text.slice(position + length));
+    } else if (exception.type === 'preceded_by') {
+      matched = !!compileException(exception.pattern, 'end')?.test(text.slice(0, position));
     } else {
-      // 正则匹配
-      try {
-        const pattern = new RegExp(entry.pattern, 'gi');
-        matches = [...text.matchAll(pattern)];
-      } catch (e) {
-        console.warn(`Invalid regex pattern: ${entry.pattern}`, e);
-      }
+      const pattern = compileException(exception.pattern, 'none');
+      matched = !!pattern && isInsideMatch(text, pattern, position, length);
     }
+    if (matched) {
+      return { source: 'exception', reason: exception.reason || `规则例外：${exception.pattern}` };
+    }
+  }
 
-    for (const match of matches) {
-      const position = match.index || 0;
-      const context = getContext(text, position, match[0].length);
-
-      hits.push({
-        entry,
-        matchedText: match[0],
-        position,
-        context
-      });
+  for (const phrase of allowList) {
+    if (!phrase.trim()) continue;
+    const pattern = new RegExp(escapeRegex(normalizeForMatch(phrase.trim())), 'gi');
+    if (isInsideMatch(text, pattern, position, length)) {
+      return { source: 'allow_list', reason: `白名单短语：${phrase.trim()}`, phrase: phrase.trim() };
     }
   }
 
-  // 去重（同一位置只保留最高优先级）
-  return deduplicateHits(hits);
+  return undefined;
 };
 
 /**
@@ -106,13 +415,6 @@ const getContext = (text: string, position: number, matchLength: number, context
   return context;
 };
 
-/**
- * 转义正则特殊字符
- */
-const escapeRegex = (str: string): string => {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-};
-
 /**
  * 去重：同一位置只保留最高优先级的命中
  */
@@ -129,10 +431,13 @@ const deduplicateHits = (hits: LexiconHit[]): LexiconHit[] => {
     byPosition.get(key)!.push(hit);
   }
 
-  // 每个位置只保留最高优先级
+  // 每个位置只保留最高优先级（未被忽略的命中优先）
   const result: LexiconHit[] = [];
   for (const group of byPosition.values()) {
-    group.sort((a, b) => severityOrder[a.entry.severity] - severityOrder[b.entry.severity]);
+    group.sort((a, b) =>
+      Number(!!a.suppressed) - Number(!!b.suppressed) ||
+      severityOrder[a.entry.severity] - severityOrder[b.entry.severity]
+    );
     result.push(group[0]);
   }
 
@@ -157,14 +462,64 @@ export const lexiconHitsToIssues = (hits: LexiconHit[]) => {
       source: hit.entry.source,
       sourceUrl: hit.entry.sourceUrl
     }],
-    context: hit.context
+    context: hit.context,
+    position: hit.position,
+    lexiconVersion: getLexiconVersion(),
+    ...(hit.suppressed ? { suppressed: hit.suppressed } : {})
   }));
 };
 
+/**
+ * 缺失的必备内容转换为问题（没有原文位置，无法在图片上定位）
+ */
+export const requiredStatementsToIssues = (results: RequiredStatementResult[]): RequiredStatementIssue[] => {
+  return results.filter(result => !result.present).map(({ entry }) => ({
+    id: `req-${entry.id}`,
+    type: 'required_statement' as const,
+    problem: entry.reason,
+    suggestion: entry.suggestion,
+    severity: entry.severity === 'P0' ? 'high' : entry.severity === 'P1' ? 'medium' : 'low',
+    confidence: 'likely' as const,  // OCR 漏识别也会表现为缺失
+    ruleHits: [{
+      type: 'lexicon' as const,
+      id: entry.id,
+      source: entry.source,
+      sourceUrl: entry.sourceUrl
+    }],
+    lexiconVersion: getLexiconVersion()
+  }));
+};
+
+/**
+ * 按会话白名单重新标记已有的词库问题（分析完成后新增的白名单短语也能生效）
+ * 有 OCR 原文和命中位置时按位置判断，否则退化为上下文包含判断
+ */
+export const applyAllowListToIssues = <T extends { original: string; context: string; position?: number; suppressed?: LexiconSuppression }>(
+  issues: T[],
+  allowList: string[],
+  ocrText?: string
+): T[] => {
+  return issues.map(issue => {
+    if (issue.suppressed) return issue;
+    const original = normalizeForMatch(issue.original).toLowerCase();
+    const phrase = allowList.find(p => {
+      const normalized = normalizeForMatch(p.trim()).toLowerCase();
+      if (!normalized || !normalized.includes(original)) return false;
+      if (ocrText && issue.position !== undefined) {
+        return isInsideMatch(normalizeForMatch(ocrText), new RegExp(escapeRegex(normalized), 'gi'), issue.position, issue.original.length);
+      }
+      return normalizeForMatch(issue.context).toLowerCase().includes(normalized);
+    });
+    return phrase
+      ? { ...issue, suppressed: { source: 'allow_list' as const, reason: `白名单短语：${phrase.trim()}`, phrase: phrase.trim() } }
+      : issue;
+  });
+};
+
 /**
  * 获取词库统计信息
  */
-export const getLexiconStats = (entries: LexiconEntry[] = lexicon) => {
+export const getLexiconStats = (entries: LexiconEntry[] = getMergedLexicon()) => {
   const stats = {
     total: entries.length,
     byDomain: {} as Record<string, number>,
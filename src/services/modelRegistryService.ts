@@ -0,0 +1,122 @@
+/**
+ * 模型供应商注册表
+ * 内置供应商见 data/model-providers.json；登录后从 Worker 拉取管理员配置（同 id 覆盖内置），
+ * 新增模型或自建 OpenAI 兼容服务（Ollama / vLLM 等）不需要重新部署。
+ * 实际请求由 Worker 的 /api/ai 代理按同一份注册表转发
+ */
+
+import registryData from '../../data/model-providers.json';
+
+export interface ModelCapabilities {
+  vision: boolean;     // 支持图片输入（图片分析只列出支持视觉的模型）
+  jsonMode: boolean;   // 支持 response_format: json_object
+  jsonSchema?: boolean; // 支持 response_format: json_schema（按 schema 约束输出结构）
+  streaming: boolean;  // 支持流式输出
+}
+
+export interface ModelPricing {
+  input: number;       // 每百万 token 的美元成本价
+  output: number;
+}
+
+export interface ModelDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  capabilities: ModelCapabilities;
+  maxTokens: number;   // 单次输出上限，请求的 max_tokens 不超过该值
+  pricing?: ModelPricing;
+  fallbacks?: string[];  // 该模型所有供应商都不可用时，按顺序改用的模型 ID（最后走 Worker 备用线路）
+  enabled?: boolean;
+}
+
+export interface ModelProvider {
+  id: string;
+  name: string;
+  baseURL: string;
+  apiKeyRef?: string;  // API Key 所在的 Worker secret 名（自建服务可不填），Key 不下发到浏览器
+  models: ModelDefinition[];
+  enabled?: boolean;
+  builtin?: boolean;   // 内置供应商（删除配置后恢复默认）
+}
+
+// 展开后的模型（带所属供应商的连接信息）
+export interface RegisteredModel extends ModelDefinition {
+  providerId: string;
+  providerName: string;
+  baseURL: string;
+  apiKeyRef?: string;
+}
+
+const DEFAULT_PROVIDERS: ModelProvider[] = (registryData.providers as ModelProvider[]).map(provider => ({ ...provider, builtin: true }));
+
+let providers: ModelProvider[] = DEFAULT_PROVIDERS;
+
+export const getDefaultModelProviders = () => DEFAULT_PROVIDERS;
+
+export const getModelProviders = () => providers;
+
+export const setModelProviders = (list: ModelProvider[]) => {
+  providers = list.length > 0 ? list : DEFAULT_PROVIDERS;
+};
+
+/**
+ * 启用的模型（按供应商顺序）；visionOnly 时只返回支持图片输入的模型
+ */
+export const getAvailableModels = (visionOnly = true): RegisteredModel[] =>
+  providers
+    .filter(provider => provider.enabled !== false)
+    .flatMap(provider => provider.models
+      .filter(model => model.enabled !== false && (!visionOnly || model.capabilities?.vision))
+      .map(model => ({
+        ...model,
+        providerId: provider.id,
+        providerName: provider.name,
+        baseURL: provider.baseURL,
+        apiKeyRef: provider.apiKeyRef
+      })));
+
+export const getRegisteredModel = (modelId: string): RegisteredModel | undefined =>
+  getAvailableModels(false).find(model => model.id === modelId);
+
+/**
+ * 供应商配置校验（与 Worker 端规则一致），返回错误列表
+ */
+export const validateModelProvider = (provider: any): string[] => {
+  const errors: string[] = [];
+  if (!provider || typeof provider !== 'object') return ['配置必须是 JSON 对象'];
+  if (!provider.id || !/^[a-z0-9][a-z0-9_-]*$/i.test(provider.id)) errors.push('id 只能包含字母、数字、- 和 _');
+  if (!provider.name) errors.push('缺少 name');
+  if (!/^https?:\/\//.test(provider.baseURL || '')) errors.push('baseURL 必须以 http:// 或 https:// 开头');
+  if (provider.apiKeyRef && !/^[A-Z0-9_]+_API_KEY$/.test(provider.apiKeyRef)) errors.push('apiKeyRef 应为以 _API_KEY 结尾的 Worker secret 名（如 PACKY_API_KEY）');
+  if (!Array.isArray(provider.models) || provider.models.length === 0) {
+    errors.push('至少需要一个模型');
+  } else {
+    provider.models.forEach((model: any, i: number) => {
+      if (!model?.id || !model?.name) errors.push(`第 ${i + 1} 个模型缺少 id 或 name`);
+      if (model?.maxTokens !== undefined && !(Number(model.maxTokens) > 0)) errors.push(`模型 ${model.id} 的 maxTokens 无效`);
+      if (model?.fallbacks !== undefined && !(Array.isArray(model.fallbacks) && model.fallbacks.every((id: any) => typeof id === 'string'))) {
+        errors.push(`模型 ${model.id} 的 fallbacks 应为模型 ID 列表`);
+      }
+    });
+  }
+  return errors;
+};
+
+// 新增供应商时的模板（自建 Ollama，OpenAI 兼容接口；请求从 Worker 发出，地址需公网可达）
+export const MODEL_PROVIDER_TEMPLATE: ModelProvider = {
+  id: 'self-hosted-ollama',
+  name: '自建 Ollama',
+  baseURL: 'https://ollama.example.com/v1',
+  enabled: true,
+  models: [
+    {
+      id: 'llava:13b',
+      name: 'LLaVA 13B（自建）',
+      description: '自建部署，不产生 API 费用',
+      capabilities: { vision: true, jsonMode: true, streaming: true },
+      maxTokens: 4096,
+      pricing: { input: 0, output: 0 }
+    }
+  ]
+};
@@ -0,0 +1,276 @@
+/**
+ * 净含量 / 计量单位校验（确定性规则）
+ * 解析 OCR 文本中的数量（ml、g、fl oz、oz、克等），校验单位大小写与空格、公英制换算，
+ * 以及同一包装上净含量声明是否前后一致
+ */
+
+import type { DeterministicFinding } from './deterministicRuleService';
+
+export type QuantityDimension = 'volume' | 'mass';
+
+export interface Quantity {
+  raw: string;
+  position: number;
+  value: number;
+  unit: string;            // 原文单位（保留大小写）
+  canonicalUnit: string;   // 规范写法，如 ml、fl oz、克
+  dimension: QuantityDimension;
+  system: 'metric' | 'imperial';
+  base: number;            // 换算为 ml 或 g
+  spaced: boolean;         // 数值与单位之间有空格
+}
+
+interface UnitDef {
+  pattern: string;
+  canonical: string;
+  dimension: QuantityDimension;
+  system: 'metric' | 'imperial';
+  factor: number;          // 换算为 ml / g 的系数
+  accepted?: string[];     // 可接受的写法（大小写敏感），不传则只接受 canonical
+  cjk?: boolean;           // 中文单位，不检查大小写和空格
+}
+
+const FL_OZ_ML = 29.5735;
+const OZ_G = 28.3495;
+const LB_G = 453.592;
+
+// 长的写法在前，避免 fl oz 被拆成 oz
+const UNITS: UnitDef[] = [
+  { pattern: 'fl\\.?\\s*oz\\.?', canonical: 'fl oz', dimension: 'volume', system: 'imperial', factor: FL_OZ_ML, accepted: ['fl oz', 'FL OZ', 'Fl Oz', 'fl. oz.', 'FL. OZ.', 'fl.oz.', 'FL.OZ.', 'fl.oz', 'FL.OZ'] },
+  { pattern: 'oz\\.?', canonical: 'oz', dimension: 'mass', system: 'imperial', factor: OZ_G, accepted: ['oz', 'OZ', 'Oz', 'oz.', 'OZ.'] },
+  { pattern: 'lbs?\\.?', canonical: 'lb', dimension: 'mass', system: 'imperial', factor: LB_G, accepted: ['lb', 'LB', 'Lb', 'lbs', 'LBS', 'lb.', 'LB.'] },
+  { pattern: 'kg', canonical: 'kg', dimension: 'mass', system: 'metric', factor: 1000 },
+  { pattern: 'mg', canonical: 'mg', dimension: 'mass', system: 'metric', factor: 0.001 },
+  { pattern: 'ml', canonical: 'ml', dimension: 'volume', system: 'metric', factor: 1, accepted: ['ml', 'mL'] },
+  { pattern: 'cl', canonical: 'cl', dimension: 'volume', system: 'metric', factor: 10 },
+  { pattern: 'l', canonical: 'L', dimension: 'volume', system: 'metric', factor: 1000, accepted: ['L', 'l'] },
+  { pattern: 'g', canonical: 'g', dimension: 'mass', system: 'metric', factor: 1 },
+  { pattern: '千克|公斤', canonical: '千克', dimension: 'mass', system: 'metric', factor: 1000, cjk: true },
+  { pattern: '毫克', canonical: '毫克', dimension: 'mass', system: 'metric', factor: 0.001, cjk: true },
+  { pattern: '克', canonical: '克', dimension: 'mass', system: 'metric', factor: 1, cjk: true },
+  { pattern: '毫升', canonical: '毫升', dimension: 'volume', system: 'metric', factor: 1, cjk: true },
+  { pattern: '升', canonical: '升', dimension: 'volume', system: 'metric', factor: 1000, cjk: true },
+];
+
+const QUANTITY_PATTERN = new RegExp(
+  `(?<![\\d.,A-Za-z])(\\d+(?:[.,]\\d+)?)(\\s*)(${UNITS.map(u => `(${u.pattern})`).join('|')})(?![A-Za-z])`,
+  'gi'
+);
+
+// 净含量声明标签
+const NET_CONTENT_LABEL = /净含量|內容量|内容量|\bNET\s*(?:WT|WEIGHT|VOL(?:UME)?|CONTENTS?|QUANTITY)?\b\.?|\bPOIDS\s+NET\b|\bCONTENU\s+NET\b|\bNETTO(?:GEWICHT|INHALT)?\b/gi;
+
+// 1,000 视为千分位，1,5 视为小数点
+const parseNumber = (raw: string) =>
+  Number(/^\d{1,3},\d{3}$/.test(raw) ? raw.replace(',', '') : raw.replace(',', '.'));
+
+const decimals = (raw: string) => raw.split(/[.,]/)[1]?.length ?? 0;
+
+/**
+ * 解析文本中的全部数量（"1 lb 8 oz" 合并为一个数量）
+ */
+export const extractQuantities = (text: string): Quantity[] => {
+  const quantities: Quantity[] = [];
+
+  for (const m of text.matchAll(QUANTITY_PATTERN)) {
+    const unitIndex = UNITS.findIndex((_, i) => m[4 + i] !== undefined);
+    if (unitIndex === -1) continue;
+    const def = UNITS[unitIndex];
+    const value = parseNumber(m[1]);
+    quantities.push({
+      raw: m[0],
+      position: m.index ?? 0,
+      value,
+      unit: m[3].trim(),
+      canonicalUnit: def.canonical,
+      dimension: def.dimension,
+      system: def.system,
+      base: value * def.factor,
+      spaced: m[2].length > 0
+    });
+  }
+
+  // 1 lb 8 oz
+  const merged: Quantity[] = [];
+  for (const q of quantities) {
+    const prev = merged[merged.length - 1];
+    if (
+      prev && prev.canonicalUnit === 'lb' && q.canonicalUnit === 'oz' &&
+      /^\s*$/.test(text.slice(prev.position + prev.raw.length, q.position))
+    ) {
+      merged[merged.length - 1] = {
+        ...prev,
+        raw: text.slice(prev.position, q.position + q.raw.length),
+        base: prev.base + q.base
+      };
+      continue;
+    }
+    merged.push(q);
+  }
+  return merged;
+};
+
+/**
+ * 公英制成对标注：相邻两个数量之间只有括号、斜杠、空格
+ */
+export const findQuantityPairs = (text: string, quantities: Quantity[]): Array<[Quantity, Quantity]> => {
+  const pairs: Array<[Quantity, Quantity]> = [];
+  for (let i = 0; i < quantities.length - 1; i++) {
+    const a = quantities[i];
+    const b = quantities[i + 1];
+    const between = text.slice(a.position + a.raw.length, b.position);
+    if (a.system === b.system || !/^[\s(（/|=≈]*$/.test(between) || between.length > 4) continue;
+    // 与 ml 成对的 oz 按液量盎司处理
+    const [metric, imperial] = a.system === 'metric' ? [a, b] : [b, a];
+    if (metric.canonicalUnit === 'mg' || metric.canonicalUnit === '毫克') continue;
+    if (metric.dimension === 'volume' && imperial.canonicalUnit === 'oz') {
+      pairs.push([a, b]);
+    } else if (a.dimension === b.dimension) {
+      pairs.push([a, b]);
+    }
+    i++;
+  }
+  return pairs;
+};
+
+const LABEL_WINDOW = 24;   // 标签后多少个字符内的数量视为净含量声明（含紧随的公英制对照）
+
+// 数量前 LABEL_WINDOW 个字符内有净含量标签
+const isNearNetContentLabel = (text: string, q: Quantity) =>
+  [...text.matchAll(NET_CONTENT_LABEL)].some(m => {
+    const end = (m.index ?? 0) + m[0].length;
+    return end <= q.position && q.position - end <= LABEL_WINDOW;
+  });
+
+/**
+ * 单位大小写、空格（按市场）；中国市场不使用英制单位；美国容量用 fl oz
+ */
+export const checkUnitFormat = (text: string, markets: string[]): DeterministicFinding[] => {
+  const findings: DeterministicFinding[] = [];
+  const marketSet = new Set(markets.map(m => m.toUpperCase()));
+  const defOf = (q: Quantity) => UNITS.find(u => u.canonical === q.canonicalUnit)!;
+  const isMiscased = (q: Quantity) => {
+    const def = defOf(q);
+    return !def.cjk && !(def.accepted || [def.canonical]).includes(q.unit.replace(/\s+/g, ' '));
+  };
+  // 大小写不规范的写法（如 5G 网络）只有紧跟净含量标签时才按单位处理
+  const quantities = extractQuantities(text).filter(q => !isMiscased(q) || isNearNetContentLabel(text, q));
+
+  for (const q of quantities) {
+    const def = defOf(q);
+    if (isMiscased(q)) {
+      findings.push({
+        description: `单位大小写不规范："${q.raw}" 应写作 "${q.raw.slice(0, q.raw.length - q.unit.length)}${def.canonical}"`,
+        location: q.raw,
+        position: q.position,
+        length: q.raw.length
+      });
+    }
+    if (marketSet.has('CN') && q.system === 'imperial') {
+      findings.push({
+        description: `中国市场净含量应使用法定计量单位（g、ml 等），"${q.raw}" 为英制单位`,
+        location: q.raw,
+        position: q.position,
+        length: q.raw.length
+      });
+    }
+  }
+
+  // 欧盟 / 美国 / 加拿大按 SI 书写：数值与单位之间空一格（汇总为一条）
+  if (['EU', 'US', 'CA'].some(m => marketSet.has(m))) {
+    const unspaced = quantities.filter(q => !q.spaced && !defOf(q).cjk);
+    if (unspaced.length > 0) {
+      findings.push({
+        description: `数值与单位之间应有空格（如 "500 ml"），共 ${unspaced.length} 处：${unspaced.slice(0, 3).map(q => q.raw).join('、')}`,
+        location: unspaced[0].raw,
+        position: unspaced[0].position,
+        length: unspaced[0].raw.length
+      });
+    }
+  }
+
+  if (marketSet.has('US')) {
+    for (const [a, b] of findQuantityPairs(text, quantities)) {
+      const imperial = a.system === 'imperial' ? a : b;
+      const metric = a.system === 'metric' ? a : b;
+      if (metric.dimension === 'volume' && imperial.canonicalUnit === 'oz') {
+        findings.push({
+          description: `容量应标注 fl oz，"${imperial.raw}" 会被理解为重量盎司`,
+          location: `${a.raw} / ${b.raw}`,
+          position: imperial.position,
+          length: imperial.raw.length
+        });
+      }
+    }
+  }
+
+  return findings;
+};
+
+/**
+ * 公英制换算：允许两边声明值末位的四舍五入误差，至少 1% 容差
+ */
+export const checkUnitConversion = (text: string): DeterministicFinding[] => {
+  const findings: DeterministicFinding[] = [];
+  for (const [a, b] of findQuantityPairs(text, extractQuantities(text))) {
+    const [metric, imperial] = a.system === 'metric' ? [a, b] : [b, a];
+    // 统一换算为盎司数比较（容量为 fl oz，与 ml 成对的 oz 也按 fl oz）；lb 组合已合并为 oz
+    const ozFactor = metric.dimension === 'volume' ? FL_OZ_ML : OZ_G;
+    const stated = imperial.canonicalUnit === 'fl oz' ? imperial.base / FL_OZ_ML : imperial.base / OZ_G;
+    const expected = metric.base / ozFactor;
+
+    const metricNumber = metric.raw.match(/\d+(?:[.,]\d+)?/)?.[0] || '';
+    const imperialNumber = imperial.raw.match(/\d+(?:[.,]\d+)?/g)?.pop() || '';
+    const imperialStep = imperial.canonicalUnit === 'lb' && !/oz/i.test(imperial.raw) ? 16 : 1;
+    const metricUnit = UNITS.find(u => u.canonical === metric.canonicalUnit)!;
+    const rounding =
+      0.5 * Math.pow(10, -decimals(imperialNumber)) * imperialStep +
+      0.5 * Math.pow(10, -decimals(metricNumber)) * metricUnit.factor / ozFactor;
+    const tolerance = Math.max(rounding, expected * 0.01);
+
+    if (Math.abs(stated - expected) > tolerance) {
+      const unitLabel = metric.dimension === 'volume' ? 'fl oz' : 'oz';
+      findings.push({
+        description: `公英制换算不符："${metric.raw}" 约合 ${expected.toFixed(2)} ${unitLabel}，标注为 "${imperial.raw}"`,
+        location: `${a.raw} / ${b.raw}`,
+        position: imperial.position,
+        length: imperial.raw.length
+      });
+    }
+  }
+  return findings;
+};
+
+/**
+ * 同一包装上的净含量声明数值不一致（按 ml / g 比较，容差 1%）
+ */
+export const checkNetContentConsistency = (text: string): DeterministicFinding[] => {
+  const quantities = extractQuantities(text);
+  const declarations: Quantity[] = [];
+
+  for (const m of text.matchAll(NET_CONTENT_LABEL)) {
+    const end = (m.index ?? 0) + m[0].length;
+    // 取标签后 12 个字符内的第一个公制数量（没有则取英制）
+    const nearby = quantities.filter(q => q.position >= end && q.position - end <= 12);
+    const declared = nearby.find(q => q.system === 'metric') || nearby[0];
+    if (declared && !declarations.includes(declared)) declarations.push(declared);
+  }
+
+  const findings: DeterministicFinding[] = [];
+  for (const dimension of ['volume', 'mass'] as QuantityDimension[]) {
+    const items = declarations.filter(q => q.dimension === dimension);
+    if (items.length < 2) continue;
+    const first = items[0];
+    for (const q of items.slice(1)) {
+      if (Math.abs(q.base - first.base) > Math.max(first.base, q.base) * 0.01) {
+        findings.push({
+          description: `净含量前后不一致："${first.raw}" 与 "${q.raw}"`,
+          location: `${first.raw} / ${q.raw}`,
+          position: q.position,
+          length: q.raw.length
+        });
+      }
+    }
+  }
+  return findings;
+};
@@ -0,0 +1,344 @@
+/**
+ * 营养成分表算术校验（确定性规则，食品）
+ * 从 OCR 文本（没有时用 specs）解析营养成分表各行，校验：
+ * - 能量与蛋白质 / 脂肪 / 碳水化合物是否相符（GB 28050 能量系数，或 4/4/9），kJ 与 kcal 是否相符
+ * - NRV% / %DV 是否与含量相符（GB 28050 NRV、FDA 每日参考值）
+ * - 含量和百分比是否按修约规则标示（GB 28050 表 1 / 表 C.1，21 CFR 101.9）
+ */
+
+import type { SourceField } from '../types/types';
+import type { DeterministicFinding } from './deterministicRuleService';
+
+export type NutrientKey =
+  | 'energy' | 'protein' | 'fat' | 'saturatedFat' | 'transFat' | 'cholesterol'
+  | 'carbohydrate' | 'sugars' | 'fiber' | 'sodium';
+
+export type NutritionStandard = 'CN' | 'US';
+
+export interface NutritionRow {
+  key: NutrientKey;
+  name: string;
+  raw: string;             // 整行原文，用于报告
+  position?: number;       // 在 OCR 文本中的偏移（来自 specs 时没有）
+  amount?: number;         // 能量以外的含量，单位 g 或 mg（见 NUTRIENTS）
+  amountText?: string;     // 含量原文数字，用于判断小数位
+  lessThan?: boolean;      // "<1 g" / "less than 1g"
+  kj?: number;
+  kjText?: string;
+  kcal?: number;
+  kcalText?: string;
+  percent?: number;        // NRV% / %DV
+  percentText?: string;
+}
+
+interface NutrientDef {
+  key: NutrientKey | 'ignore';
+  names: string[];         // 正则片段，长的写法在前
+  unit: 'g' | 'mg' | 'energy';
+}
+
+// 英文名按长度排列，保证 "Saturated Fat" 先于 "Fat" 匹配；ignore 只用于吞掉不参与校验的行
+const NUTRIENTS: NutrientDef[] = [
+  { key: 'ignore', names: ['Calories\\s+from\\s+Fat', 'Includes\\s+\\d+(?:\\.\\d+)?\\s*g\\s+Added\\s+Sugars', 'Added\\s+Sugars'], unit: 'g' },
+  { key: 'energy', names: ['能量', 'Energy', 'Calories'], unit: 'energy' },
+  { key: 'saturatedFat', names: ['饱和脂肪酸?', 'Saturated\\s+Fat', 'Sat\\.?\\s+Fat'], unit: 'g' },
+  { key: 'transFat', names: ['反式脂肪酸?', 'Trans\\s+Fat'], unit: 'g' },
+  { key: 'fat', names: ['脂肪', 'Total\\s+Fat', 'Fat'], unit: 'g' },
+  { key: 'cholesterol', names: ['胆固醇', 'Cholesterol'], unit: 'mg' },
+  { key: 'carbohydrate', names: ['碳水化合物', 'Total\\s+Carbohydrates?', 'Carbohydrates?'], unit: 'g' },
+  { key: 'fiber', names: ['膳食纤维', 'Dietary\\s+Fib(?:er|re)', 'Fib(?:er|re)'], unit: 'g' },
+  { key: 'sugars', names: ['糖', 'Total\\s+Sugars', 'Sugars'], unit: 'g' },
+  { key: 'protein', names: ['蛋白质', 'Protein'], unit: 'g' },
+  { key: 'sodium', names: ['钠', 'Sodium'], unit: 'mg' },
+];
+
+const NUTRIENT_PATTERN = new RegExp(
+  `(?<![\\u4e00-\\u9fa5A-Za-z])(?:${NUTRIENTS.map((n, i) => `(?<n${i}>${n.names.join('|')})`).join('|')})(?![A-Za-z])`,
+  'gi'
+);
+
+// GB 28050 营养素参考值（NRV）
+const CN_NRV: Partial<Record<NutrientKey, number>> = {
+  energy: 8400, protein: 60, fat: 60, saturatedFat: 20, cholesterol: 300, carbohydrate: 300, fiber: 25, sodium: 2000
+};
+
+// FDA 每日参考值（21 CFR 101.9，2016 修订）
+const US_DV: Partial<Record<NutrientKey, number>> = {
+  fat: 78, saturatedFat: 20, cholesterol: 300, sodium: 2300, carbohydrate: 275, fiber: 28, protein: 50
+};
+
+// GB 28050 表 C.1 "0" 界限值
+const CN_ZERO_LIMIT: Partial<Record<NutrientKey, number>> = {
+  energy: 17, protein: 0.5, fat: 0.5, saturatedFat: 0.1, transFat: 0.3, cholesterol: 5, carbohydrate: 0.5, sugars: 0.5, fiber: 0.5, sodium: 5
+};
+
+const NAME_LABELS: Record<NutrientKey, string> = {
+  energy: '能量', protein: '蛋白质', fat: '脂肪', saturatedFat: '饱和脂肪', transFat: '反式脂肪', cholesterol: '胆固醇',
+  carbohydrate: '碳水化合物', sugars: '糖', fiber: '膳食纤维', sodium: '钠'
+};
+
+const KCAL_KJ = 4.184;
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+
+const decimals = (raw?: string) => raw?.split('.')[1]?.length ?? 0;
+
+const isMultipleOf = (value: number, step: number) => Math.abs(value / step - Math.round(value / step)) < 1e-6;
+
+/**
+ * 解析一行营养成分（segment 为名称之后、下一项之前的文字）
+ */
+const parseSegment = (def: NutrientDef, name: string, segment: string): Omit<NutritionRow, 'raw' | 'position'> | null => {
+  const key = def.key as NutrientKey;
+  const percentMatch = segment.match(new RegExp(`${NUMBER}\\s*%`));
+  const percent = percentMatch ? { percent: Number(percentMatch[1]), percentText: percentMatch[1] } : {};
+
+  if (def.unit === 'energy') {
+    const kj = segment.match(new RegExp(`${NUMBER}\\s*(?:kJ|千焦)`, 'i'));
+    const kcal = segment.match(new RegExp(`${NUMBER}\\s*(?:kcal|千卡|大卡)`, 'i'));
+    const bare = !kj && !kcal ? segment.match(new RegExp(`^[\\s:：]*${NUMBER}(?!\\s*%)`)) : null;
+    if (!kj && !kcal && !bare) return null;
+    // 没有单位时：Calories 为 kcal，能量为 kJ
+    const bareIsKcal = /calories/i.test(name);
+    return {
+      key, name,
+      ...(kj ? { kj: Number(kj[1]), kjText: kj[1] } : bare && !bareIsKcal ? { kj: Number(bare[1]), kjText: bare[1] } : {}),
+      ...(kcal ? { kcal: Number(kcal[1]), kcalText: kcal[1] } : bare && bareIsKcal ? { kcal: Number(bare[1]), kcalText: bare[1] } : {}),
+      ...percent
+    };
+  }
+
+  const amount = segment.match(new RegExp(`(<|less\\s+than|少于)?\\s*${NUMBER}\\s*(mg|g|毫克|克)(?![A-Za-z])`, 'i'));
+  if (!amount) return null;
+  const isMg = /^(mg|毫克)$/i.test(amount[3]);
+  const value = Number(amount[2]);
+  const normalized = def.unit === 'mg' ? (isMg ? value : value * 1000) : (isMg ? value / 1000 : value);
+  // 百分比必须在含量之后
+  const afterAmount = segment.slice((amount.index ?? 0) + amount[0].length);
+  const pct = afterAmount.match(new RegExp(`${NUMBER}\\s*%`));
+  return {
+    key, name,
+    amount: normalized,
+    amountText: amount[2],
+    lessThan: !!amount[1],
+    ...(pct ? { percent: Number(pct[1]), percentText: pct[1] } : {})
+  };
+};
+
+/**
+ * 从 OCR 文本解析营养成分表（每种营养素只取第一次出现）
+ */
+export const parseNutritionRows = (text: string): NutritionRow[] => {
+  const matches = [...text.matchAll(NUTRIENT_PATTERN)];
+  const rows: NutritionRow[] = [];
+  const seen = new Set<NutrientKey>();
+
+  matches.forEach((m, idx) => {
+    const defIndex = NUTRIENTS.findIndex((_, i) => m.groups?.[`n${i}`] !== undefined);
+    const def = NUTRIENTS[defIndex];
+    if (!def || def.key === 'ignore' || seen.has(def.key)) return;
+
+    const start = (m.index ?? 0) + m[0].length;
+    const nextStart = matches[idx + 1]?.index ?? text.length;
+    const lineEnd = text.indexOf('\n', start);
+    const end = Math.min(nextStart, lineEnd === -1 ? text.length : lineEnd, start + 40);
+    const parsed = parseSegment(def, m[0], text.slice(start, end));
+    if (!parsed) return;
+
+    seen.add(def.key);
+    rows.push({ ...parsed, raw: text.slice(m.index ?? 0, end).trim(), position: m.index ?? 0 });
+  });
+
+  return rows;
+};
+
+/**
+ * 从 specs 解析营养成分表（单步分析时没有 OCR 原文）
+ */
+export const parseNutritionSpecs = (specs: SourceField[]): NutritionRow[] => {
+  const rows: NutritionRow[] = [];
+  const seen = new Set<NutrientKey>();
+  for (const spec of specs) {
+    const key = spec.key.trim();
+    const def = NUTRIENTS.find(n => new RegExp(`^(?:${n.names.join('|')})`, 'i').test(key));
+    if (!def || def.key === 'ignore' || seen.has(def.key)) continue;
+    const parsed = parseSegment(def, key, ` ${spec.value}`);
+    if (!parsed) continue;
+    seen.add(def.key);
+    rows.push({ ...parsed, raw: `${spec.key}: ${spec.value}` });
+  }
+  return rows;
+};
+
+/**
+ * 判断适用标准：表头 NRV / Daily Value 优先，其次中文表按 GB 28050，最后看出口市场
+ */
+export const detectNutritionStandard = (source: string, rows: NutritionRow[], markets: string[]): NutritionStandard | null => {
+  if (/Daily\s+Value|%\s*DV/i.test(source)) return 'US';
+  if (/NRV|营养素参考值/i.test(source)) return 'CN';
+  if (rows.some(row => /[\u4e00-\u9fa5]/.test(row.name))) return 'CN';
+  const marketSet = new Set(markets.map(m => m.toUpperCase()));
+  if (marketSet.has('US')) return 'US';
+  if (marketSet.has('CN')) return 'CN';
+  return null;
+};
+
+const toFinding = (row: NutritionRow, description: string): DeterministicFinding => ({
+  description,
+  location: row.raw,
+  ...(row.position !== undefined ? { position: row.position, length: row.raw.length } : {})
+});
+
+const resolveRows = (text: string, specs: SourceField[]) => {
+  const rows = parseNutritionRows(text);
+  if (rows.length > 0) return { rows, source: text };
+  return { rows: parseNutritionSpecs(specs), source: specs.map(s => `${s.key} ${s.value}`).join('\n') };
+};
+
+/**
+ * 能量与三大营养素相符；kJ 与 kcal 相符
+ */
+export const checkNutritionEnergy = (text: string, specs: SourceField[], markets: string[]): DeterministicFinding[] => {
+  const { rows, source } = resolveRows(text, specs);
+  const energy = rows.find(r => r.key === 'energy');
+  if (!energy) return [];
+  const findings: DeterministicFinding[] = [];
+  const get = (key: NutrientKey) => {
+    const row = rows.find(r => r.key === key);
+    return row?.amount === undefined ? undefined : row.lessThan ? 0 : row.amount;
+  };
+
+  if (energy.kj !== undefined && energy.kcal !== undefined) {
+    const expectedKj = energy.kcal * KCAL_KJ;
+    if (Math.abs(energy.kj - expectedKj) > Math.max(expectedKj * 0.02, 5)) {
+      findings.push(toFinding(energy, `能量 ${energy.kjText} kJ 与 ${energy.kcalText} kcal 不符（${energy.kcalText} kcal ≈ ${Math.round(expectedKj)} kJ）`));
+    }
+  }
+
+  const protein = get('protein');
+  const fat = get('fat');
+  const carbohydrate = get('carbohydrate');
+  if (protein === undefined || fat === undefined || carbohydrate === undefined) return findings;
+
+  const standard = detectNutritionStandard(source, rows, markets);
+  if (energy.kj !== undefined && (standard !== 'US' || energy.kcal === undefined)) {
+    // GB 28050 附录：蛋白质 17、脂肪 37、碳水化合物 17、膳食纤维 8 kJ/g
+    const computed = protein * 17 + fat * 37 + carbohydrate * 17 + (get('fiber') ?? 0) * 8;
+    if (Math.abs(energy.kj - computed) > Math.max(computed * 0.1, 17)) {
+      findings.push(toFinding(energy,
+        `能量与营养素不符：按 蛋白质 ${protein}g×17 + 脂肪 ${fat}g×37 + 碳水化合物 ${carbohydrate}g×17 计算约 ${Math.round(computed)} kJ，标示 ${energy.kjText} kJ`));
+    }
+  } else if (energy.kcal !== undefined) {
+    const computed = protein * 4 + carbohydrate * 4 + fat * 9;
+    if (Math.abs(energy.kcal - computed) > Math.max(computed * 0.1, 10)) {
+      findings.push(toFinding(energy,
+        `能量与营养素不符：按 4/4/9（蛋白质 ${protein}g、碳水化合物 ${carbohydrate}g、脂肪 ${fat}g）计算约 ${Math.round(computed)} kcal，标示 ${energy.kcalText} kcal`));
+    }
+  }
+
+  return findings;
+};
+
+/**
+ * NRV% / %DV 与含量相符（含量本身按标示精度有修约误差，百分比另允许 ±1）
+ */
+export const checkNutritionReference = (text: string, specs: SourceField[], markets: string[]): DeterministicFinding[] => {
+  const { rows, source } = resolveRows(text, specs);
+  const standard = detectNutritionStandard(source, rows, markets);
+  if (!standard) return [];
+  const references = standard === 'CN' ? CN_NRV : US_DV;
+  const label = standard === 'CN' ? 'NRV%' : '%DV';
+  const findings: DeterministicFinding[] = [];
+
+  for (const row of rows) {
+    const reference = references[row.key];
+    if (row.percent === undefined || reference === undefined || row.lessThan) continue;
+    const amount = row.key === 'energy' ? row.kj : row.amount;
+    const amountText = row.key === 'energy' ? row.kjText : row.amountText;
+    if (amount === undefined) continue;
+
+    const half = 0.5 * Math.pow(10, -decimals(amountText));
+    const low = Math.round(Math.max(0, amount - half) / reference * 100) - 1;
+    const high = Math.round((amount + half) / reference * 100) + 1;
+    if (row.percent < low || row.percent > high) {
+      const expected = Math.round(amount / reference * 100);
+      const unit = row.key === 'energy' ? 'kJ' : row.key === 'sodium' || row.key === 'cholesterol' ? 'mg' : 'g';
+      findings.push(toFinding(row,
+        `${NAME_LABELS[row.key]} ${label} 计算错误：${amountText}${unit} ÷ ${reference}${unit} ≈ ${expected}%，标示 ${row.percentText}%`));
+    }
+  }
+
+  return findings;
+};
+
+// 21 CFR 101.9 修约规则：返回问题描述，符合时返回 null
+const usRoundingIssue = (row: NutritionRow): string | null => {
+  if (row.key === 'energy') {
+    const kcal = row.kcal;
+    if (kcal === undefined) return null;
+    if (kcal < 5) return kcal === 0 ? null : '热量低于 5 kcal 应标示为 0';
+    if (kcal <= 50) return isMultipleOf(kcal, 5) ? null : '热量 ≤50 kcal 时应修约至 5 的倍数';
+    return isMultipleOf(kcal, 10) ? null : '热量 >50 kcal 时应修约至 10 的倍数';
+  }
+  const value = row.amount;
+  if (value === undefined || row.lessThan) return null;
+  switch (row.key) {
+    case 'fat':
+    case 'saturatedFat':
+    case 'transFat':
+      if (value < 0.5) return value === 0 ? null : '低于 0.5 g 应标示为 0 g';
+      if (value < 5) return isMultipleOf(value, 0.5) ? null : '低于 5 g 时应修约至 0.5 g';
+      return isMultipleOf(value, 1) ? null : '5 g 及以上应修约至整数 g';
+    case 'cholesterol':
+      if (value < 2) return value === 0 ? null : '低于 2 mg 应标示为 0 mg';
+      if (value <= 5) return '2–5 mg 应标示为 "less than 5 mg"';
+      return isMultipleOf(value, 5) ? null : '应修约至 5 mg 的倍数';
+    case 'sodium':
+      if (value < 5) return value === 0 ? null : '低于 5 mg 应标示为 0 mg';
+      if (value <= 140) return isMultipleOf(value, 5) ? null : '5–140 mg 时应修约至 5 mg 的倍数';
+      return isMultipleOf(value, 10) ? null : '超过 140 mg 时应修约至 10 mg 的倍数';
+    default:
+      if (value < 0.5) return value === 0 ? null : '低于 0.5 g 应标示为 0 g';
+      if (value < 1) return '0.5–1 g 应标示为 "less than 1 g"';
+      return isMultipleOf(value, 1) ? null : '应修约至整数 g';
+  }
+};
+
+// GB 28050 表 1 修约间隔与表 C.1 "0" 界限值
+const cnRoundingIssue = (row: NutritionRow): string | null => {
+  const zeroLimit = CN_ZERO_LIMIT[row.key];
+  if (row.key === 'energy') {
+    if (row.kj === undefined) return null;
+    if (decimals(row.kjText) > 0) return '能量应修约至整数 kJ';
+    return zeroLimit !== undefined && row.kj > 0 && row.kj <= zeroLimit ? `能量 ≤${zeroLimit} kJ 时应标示为 0` : null;
+  }
+  if (row.amount === undefined || row.lessThan) return null;
+  const isMg = row.key === 'sodium' || row.key === 'cholesterol';
+  if (isMg && decimals(row.amountText) > 0) return '应修约至整数 mg';
+  if (!isMg && decimals(row.amountText) > 1) return '修约间隔为 0.1 g';
+  if (zeroLimit !== undefined && row.amount > 0 && row.amount <= zeroLimit) {
+    return `含量 ≤${zeroLimit}${isMg ? ' mg' : ' g'} 时应标示为 0`;
+  }
+  return null;
+};
+
+/**
+ * 含量 / 百分比修约规则
+ */
+export const checkNutritionRounding = (text: string, specs: SourceField[], markets: string[]): DeterministicFinding[] => {
+  const { rows, source } = resolveRows(text, specs);
+  const standard = detectNutritionStandard(source, rows, markets);
+  if (!standard) return [];
+  const findings: DeterministicFinding[] = [];
+
+  for (const row of rows) {
+    const issue = standard === 'CN' ? cnRoundingIssue(row) : usRoundingIssue(row);
+    if (issue) {
+      findings.push(toFinding(row, `${NAME_LABELS[row.key]}修约不规范：${issue}（${standard === 'CN' ? 'GB 28050' : '21 CFR 101.9'}）`));
+    }
+    if (row.percentText && decimals(row.percentText) > 0) {
+      findings.push(toFinding(row, `${NAME_LABELS[row.key]} ${standard === 'CN' ? 'NRV%' : '%DV'} 应修约至整数`));
+    }
+  }
+
+  return findings;
+};
@@ -0,0 +1,122 @@
+/**
+ * OCR 版面定位
+ * 模型逐行返回文字和行框，这里把每行对齐到 ocrText 的字符偏移，
+ * 词库 / 确定性检查的命中位置（字符偏移）再据此映射回图片区域
+ */
+
+import { BoundingBox, OcrLine } from '../types/types';
+import { containsCjk } from './textNormalizeService';
+
+const toBox = (raw: unknown): BoundingBox | null => {
+  if (!Array.isArray(raw) || raw.length !== 4 || raw.some(v => typeof v !== 'number' || !Number.isFinite(v))) {
+    return null;
+  }
+  const [ymin, xmin, ymax, xmax] = raw as number[];
+  if (ymax <= ymin || xmax <= xmin) return null;
+  return { ymin, xmin, ymax, xmax };
+};
+
+/**
+ * 解析模型返回的 OCR 结果
+ * @param rawText 模型返回的整段文字（可为空，此时按行拼接，换行分隔）
+ * @param rawLines [{ text, box_2d: [ymin, xmin, ymax, xmax], bold?: [加粗片段] }]，0-1000 归一化坐标
+ */
+export const parseOcrLayout = (rawText: unknown, rawLines: unknown): { ocrText: string; ocrLines: OcrLine[] } => {
+  const items = Array.isArray(rawLines)
+    ? rawLines
+        .map((raw: any) => ({
+          text: typeof raw?.text === 'string' ? raw.text : '',
+          box: toBox(raw?.box_2d),
+          bold: Array.isArray(raw?.bold) ? raw.bold.filter((b: unknown): b is string => typeof b === 'string' && !!b.trim()) : undefined
+        }))
+        .filter(item => item.text.trim())
+    : [];
+
+  // 只有逐行结果：直接拼接，偏移精确
+  if (typeof rawText !== 'string' || !rawText) {
+    const ocrLines: OcrLine[] = [];
+    let offset = 0;
+    for (const item of items) {
+      if (item.box) ocrLines.push({ text: item.text, start: offset, box_2d: item.box, ...(item.bold ? { bold: item.bold } : {}) });
+      offset += item.text.length + 1;
+    }
+    return { ocrText: items.map(item => item.text).join('\n'), ocrLines };
+  }
+
+  // 同时有整段文字：按顺序向后查找每一行，找不到（模型改写了文字）的行丢弃
+  const ocrLines: OcrLine[] = [];
+  let cursor = 0;
+  for (const item of items) {
+    const text = item.text.trim();
+    if (!item.box) continue;
+    let start = rawText.indexOf(text, cursor);
+    if (start === -1) start = rawText.indexOf(text);
+    if (start === -1) continue;
+    ocrLines.push({ text, start, box_2d: item.box, ...(item.bold ? { bold: item.bold } : {}) });
+    cursor = start + text.length;
+  }
+  return { ocrText: rawText, ocrLines };
+};
+
+// 中日韩 / 全角字符按两个半角宽度估算
+const charWidth = (char: string): number => {
+  const code = char.charCodeAt(0);
+  return containsCjk(char) || (code >= 0xff01 && code <= 0xff5e) || code === 0x3000 ? 2 : 1;
+};
+
+const textWidth = (text: string): number => {
+  let width = 0;
+  for (const char of text) width += charWidth(char);
+  return width;
+};
+
+/**
+ * 字符区间 [position, position + length) → 图片区域
+ * 行框内按字符宽度比例估算横向范围，跨行时取各行片段的并集
+ */
+export const locateTextRange = (lines: OcrLine[], position: number, length: number): BoundingBox | undefined => {
+  const end = position + Math.max(1, length);
+  let result: BoundingBox | undefined;
+
+  for (const line of lines) {
+    const lineEnd = line.start + line.text.length;
+    if (lineEnd <= position || line.start >= end) continue;
+
+    const total = textWidth(line.text) || 1;
+    const from = textWidth(line.text.slice(0, Math.max(position, line.start) - line.start)) / total;
+    const to = textWidth(line.text.slice(0, Math.min(end, lineEnd) - line.start)) / total;
+    const { ymin, ymax, xmin, xmax } = line.box_2d;
+    const box: BoundingBox = {
+      ymin,
+      ymax,
+      xmin: xmin + (xmax - xmin) * from,
+      xmax: xmin + (xmax - xmin) * to
+    };
+
+    result = result
+      ? {
+          ymin: Math.min(result.ymin, box.ymin),
+          xmin: Math.min(result.xmin, box.xmin),
+          ymax: Math.max(result.ymax, box.ymax),
+          xmax: Math.max(result.xmax, box.xmax)
+        }
+      : box;
+  }
+
+  return result;
+};
+
+/**
+ * 为带字符偏移的问题补上 box_2d（length 缺省时取 original 长度）
+ */
+export const attachTextBoxes = <T extends { position?: number; length?: number; original?: string; box_2d?: BoundingBox }>(
+  issues: T[],
+  lines: OcrLine[]
+): T[] => {
+  if (lines.length === 0) return issues;
+  return issues.map(issue => {
+    if (issue.position === undefined) return issue;
+    const box = locateTextRange(lines, issue.position, issue.length ?? issue.original?.length ?? 1);
+    return box ? { ...issue, box_2d: box } : issue;
+  });
+};
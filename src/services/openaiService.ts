@@ -1,10 +1,19 @@
 import OpenAI from 'openai';
-import { DiagnosisIssue, DiffResult, SourceField, DiagnosisResult, DeterministicCheck, TokenUsage, LexiconIssue } from "../types/types";
+import { DiagnosisIssue, DiffResult, SourceField, DiagnosisResult, DeterministicCheck, TokenUsage, LexiconIssue, OcrLine, BoundingBox, TextLayer, ISSUE_TYPE_LABELS, ISSUE_TYPE_LIST } from "../types/types";
 import { matchLexicon, lexiconHitsToIssues } from './lexiconService';
+import { parseOcrLayout, attachTextBoxes } from './ocrLayoutService';
+import { runDeterministicRules, areDeterministicRulesActive, hasActiveDeterministicRules } from './deterministicRuleService';
+import { planTiles, renderTile, mapTileBox, stitchOcrLines, mergeTileIssues, mergeTileSpecs } from './tileService';
+import { getRegisteredModel } from './modelRegistryService';
+import { getAiProxyBaseURL, aiProxyFetch } from './cloudflare';
+import {
+    validateSchema, groupItemIssues, AiResponseError, DIAGNOSIS_SCHEMA, OCR_SCHEMA, SOURCE_FIELDS_SCHEMA, SMART_DIFF_SCHEMA,
+    type AiResponseSchema, type JsonSchema, type SchemaIssue, type DiagnosisResponse, type OcrResponse, type SourceFieldsResponse, type SmartDiffResponse
+} from './aiSchemaService';
 
 const LEXICON_TOGGLE_KEY = 'packverify_lexicon_domain_toggles';
 
-const getEnabledLexiconDomains = (): string[] | null => {
+export const getEnabledLexiconDomains = (): string[] | null => {
     if (typeof window === 'undefined' || !window.localStorage) {
         return null;
     }
@@ -38,29 +47,38 @@ export const fileToGenerativePart = async (file: File): Promise<string> => {
     });
 };
 
+// 已有确定性规则的检查项（日期格式、净含量单位、INCI 拼写）：对应规则全部启用且有 OCR 原文时由本地规则检查，
+// 否则仍交给 AI（规则被关闭或没有 OCR 原文时不能漏检）
+interface RuleBackedItem {
+    item: string;
+    ruleIds: string[];
+    example?: string;
+}
+
 // 行业检查规则配置
 interface IndustryRules {
     name: string;
     checkItems: string[];
     examples: string[];
+    ruleBackedItems?: RuleBackedItem[];
 }
 
 export const INDUSTRY_RULES: Record<string, IndustryRules> = {
     cosmetics: {
         name: '化妆品',
         checkItems: [
-            'INCI 成分名称拼写（如 Ceteareth-25, Glycerin）',
             '功效宣称合规性（不得宣称医疗功效）',
             '警示用语（如"请置于儿童接触不到的地方"）',
             '生产许可证号格式',
-            '净含量单位（ml/g）',
-            '保质期/限期使用日期格式',
             '过敏原标注'
         ],
         examples: [
-            'Cetareth-25 → Ceteareth-25',
-            '美白祛斑 → 需符合特殊化妆品要求',
-            '500ML → 500ml'
+            '美白祛斑 → 需符合特殊化妆品要求'
+        ],
+        ruleBackedItems: [
+            { item: 'INCI 成分名称拼写（如 Ceteareth-25, Glycerin）', ruleIds: ['inci-spelling'], example: 'Cetareth-25 → Ceteareth-25' },
+            { item: '净含量单位（ml/g）', ruleIds: ['unit-format'], example: '500ML → 500ml' },
+            { item: '保质期/限期使用日期格式', ruleIds: ['date-validity', 'date-market-format'] }
         ]
     },
     food: {
@@ -71,13 +89,15 @@ export const INDUSTRY_RULES: Record<string, IndustryRules> = {
             '营养成分表格式（能量、蛋白质等）',
             'QS/SC 生产许可证号',
             '贮存条件',
-            '生产日期/保质期格式',
             '添加剂使用规范'
         ],
         examples: [
             '配料未按含量排序',
             '缺少"含麸质"警告',
             '营养成分表缺少钠含量'
+        ],
+        ruleBackedItems: [
+            { item: '生产日期/保质期格式', ruleIds: ['date-validity', 'date-market-format'] }
         ]
     },
     pharma: {
@@ -89,13 +109,15 @@ export const INDUSTRY_RULES: Record<string, IndustryRules> = {
             '用法用量准确性',
             '禁忌症/注意事项',
             '不良反应说明',
-            '贮藏条件',
-            '有效期格式'
+            '贮藏条件'
         ],
         examples: [
             '国药准字格式错误',
             '禁忌症缺失',
             '用法用量模糊'
+        ],
+        ruleBackedItems: [
+            { item: '有效期格式', ruleIds: ['date-validity', 'date-market-format'] }
         ]
     },
     general: {
@@ -104,41 +126,33 @@ export const INDUSTRY_RULES: Record<string, IndustryRules> = {
             '拼写错误',
             '标点错误（中英文混用、多余空格）',
             '语法错误（主谓不一致、缺字漏字）',
-            '格式错误（日期格式、单位错误）'
+            '格式错误'
         ],
         examples: [
-            '中文后使用英文逗号',
-            '日期格式不统一'
+            '中文后使用英文逗号'
+        ],
+        ruleBackedItems: [
+            { item: '日期格式统一', ruleIds: ['date-mixed-format'], example: '日期格式不统一' },
+            { item: '单位书写（大小写、空格）', ruleIds: ['unit-format'] }
         ]
     }
 };
 
-// 模型配置 - 支持不同的 baseURL
-interface ModelConfig {
-    id: string;
-    name: string;
-    description: string;
-    baseURL: string;
-    apiKeyEnv?: string; // 使用的 API Key 环境变量
-}
+// prompt 中的检查项：有 OCR 原文且对应规则全部启用的项交给本地规则，其余仍由 AI 检查
+const promptCheckItems = (rules: IndustryRules, industry: string, markets: string[], hasOcrText: boolean) => {
+    const aiItems = (rules.ruleBackedItems || []).filter(item =>
+        !hasOcrText || !areDeterministicRulesActive(item.ruleIds, industry, markets)
+    );
+    return {
+        checkItems: [...rules.checkItems, ...aiItems.map(item => item.item)],
+        examples: [...rules.examples, ...aiItems.flatMap(item => item.example ? [item.example] : [])]
+    };
+};
 
-// 可用的模型列表
-export const AVAILABLE_MODELS: ModelConfig[] = [
-    {
-        id: "gemini-3-pro-preview",
-        name: "Gemini 3 Pro",
-        description: "最新版本（推荐）",
-        baseURL: "https://api-slb.packyapi.com/v1",
-        apiKeyEnv: "VITE_PACKY_API_KEY"
-    },
-    {
-        id: "gpt-5.1",
-        name: "GPT-5.1",
-        description: "最新 GPT 模型",
-        baseURL: "https://api-slb.packyapi.com/v1",
-        apiKeyEnv: "VITE_PACKY_GPT_API_KEY"
-    },
-];
+// issue 分类说明（prompt 中要求 AI 为每条问题选一个分类，取值与 IssueType 一致）
+const ISSUE_TYPE_HINT = ISSUE_TYPE_LIST.map(type => `${type}（${ISSUE_TYPE_LABELS[type]}）`).join('、');
+
+const MAX_KNOWN_TEXT_LENGTH = 12000;  // 随 prompt 发送的 PDF 文字层长度上限
 
 // 默认使用 PackyAPI Gemini 3 Pro
 let currentModelId = import.meta.env.VITE_OPENAI_MODEL || "gemini-3-pro-preview";
@@ -150,47 +164,35 @@ export const setModelId = (modelId: string) => {
     console.log("Model changed to:", currentModelId);
 };
 
-// 根据模型 ID 获取对应的 client
-const getClient = (useBackup = false) => {
-    const modelConfig = AVAILABLE_MODELS.find(m => m.id === currentModelId);
-
-    // 如果使用备用，切换到 Zenmux
-    const baseURL = useBackup
-        ? import.meta.env.VITE_ZENMUX_BASE_URL
-        : (modelConfig?.baseURL || import.meta.env.VITE_PACKY_BASE_URL);
-
-    // 根据模型配置获取对应的 API Key
-    let apiKey: string;
-    if (useBackup) {
-        apiKey = import.meta.env.VITE_ZENMUX_API_KEY;
-    } else if (modelConfig?.apiKeyEnv) {
-        apiKey = import.meta.env[modelConfig.apiKeyEnv];
-    } else {
-        apiKey = import.meta.env.VITE_PACKY_API_KEY;
-    }
-
-    if (!apiKey) {
-        console.error("API Key not found");
-    }
+// AI 调用类型，对应 Worker 代理路由 /api/ai/:task（也是配额记录的类型）
+type AiTask = 'quick-check' | 'ocr' | 'analyze' | 'custom-analyze' | 'source' | 'specs' | 'diff' | 'qil' | 'batch-summary';
 
-    console.log(`Using model: ${currentModelId}, baseURL: ${baseURL}, backup: ${useBackup}`);
+// 所有 AI 请求经 Worker 代理：API Key 只保存在 Worker 端，配额在同一请求中按实际 token 扣减
+// 重试、故障转移和熔断都在 Worker 端完成，客户端不再重试（避免重复计费）
+const getClient = (task: AiTask) => {
+    const model = getRegisteredModel(currentModelId);
+    console.log(`Using model: ${currentModelId}, provider: ${model?.providerId || 'unregistered'}, task: ${task}`);
 
     return new OpenAI({
-        apiKey: apiKey || 'dummy',
-        baseURL,
+        apiKey: 'worker-proxy', // 占位，认证由 aiProxyFetch 带上
+        baseURL: getAiProxyBaseURL(task),
+        fetch: aiProxyFetch,
         dangerouslyAllowBrowser: true,
-        timeout: 60000, // 60秒超时
+        maxRetries: 0,
+        timeout: 120000, // 120秒超时（含 Worker 端的重试和故障转移）
     });
 };
 
-// Zenmux 客户端（使用 OpenAI SDK）
-const getZenmuxClient = () => {
-    return new OpenAI({
-        apiKey: import.meta.env.VITE_ZENMUX_API_KEY || 'dummy',
-        baseURL: 'https://zenmux.ai/api/v1',
-        dangerouslyAllowBrowser: true,
-        timeout: 60000, // 60秒超时
-    });
+// Worker 实际使用的供应商和模型（故障转移后可能与请求的不同）
+const servedBy = (raw: Response, requestedModel: string) => ({
+    model: raw.headers.get('X-AI-Model') || requestedModel,
+    provider: raw.headers.get('X-AI-Provider') || undefined
+});
+
+// 请求的 max_tokens 不超过模型配置的上限
+const maxTokensFor = (requested: number): number => {
+    const limit = getRegisteredModel(currentModelId)?.maxTokens;
+    return limit ? Math.min(requested, limit) : requested;
 };
 
 // 解析 JSON，处理 Gemini 返回的 markdown 包裹格式
@@ -253,6 +255,117 @@ const repairTruncatedJSON = (text: string): any => {
     return JSON.parse(repaired);
 };
 
+// 结构化输出：支持 json_schema 的模型直接按 schema 约束输出，只支持 JSON 模式的退回 json_object，其余靠 prompt
+const responseFormatFor = (modelId: string, schema: AiResponseSchema): { response_format?: any } => {
+    const capabilities = getRegisteredModel(modelId)?.capabilities;
+    if (capabilities?.jsonSchema) {
+        return { response_format: { type: 'json_schema', json_schema: { name: schema.name, schema: schema.schema, strict: false } } };
+    }
+    if (capabilities?.jsonMode) return { response_format: { type: 'json_object' } };
+    return {};
+};
+
+const MAX_REASK_ITEMS = 30;
+
+// 定向修正：只把不合格的条目和错误说明发回模型（不带图片），按原顺序取回修正结果；
+// 修正后仍不合格的位置返回 undefined
+const reaskInvalidItems = async (
+    client: OpenAI,
+    modelId: string,
+    schemaName: string,
+    itemSchema: JsonSchema,
+    entries: { item: unknown; issues: SchemaIssue[] }[]
+): Promise<unknown[]> => {
+    const wrapper: AiResponseSchema = {
+        name: `${schemaName}_fix`,
+        schema: { type: 'object', properties: { items: { type: 'array', items: itemSchema } }, required: ['items'] }
+    };
+    const prompt = `以下 JSON 条目不符合格式要求。请逐条修正列出的问题，其余内容保持原样，返回 {"items": [...]}，数量和顺序与输入一致。
+
+条目格式（JSON Schema）：
+${JSON.stringify(itemSchema)}
+
+待修正条目：
+${entries.map((entry, i) => `${i + 1}. ${JSON.stringify(entry.item)}\n   问题：${entry.issues.map(issue => `${issue.path} ${issue.message}`).join('；')}`).join('\n')}`;
+
+    try {
+        const response = await client.chat.completions.create({
+            model: modelId,
+            messages: [{ role: 'user', content: prompt }],
+            max_tokens: maxTokensFor(2000),
+            temperature: 0,
+            ...responseFormatFor(modelId, wrapper)
+        });
+        const parsed = parseJSON(response.choices[0].message.content || '');
+        const items: unknown[] = Array.isArray(parsed?.items) ? parsed.items : [];
+        return entries.map((_, i) => items[i] !== undefined && validateSchema(items[i], itemSchema).length === 0 ? items[i] : undefined);
+    } catch (error) {
+        console.warn(`[Schema] Re-ask for ${schemaName} failed:`, error);
+        return entries.map(() => undefined);
+    }
+};
+
+// 解析并按 schema 校验 AI 输出。不合格的条目定向修正一次，仍不合格的丢弃并记录；
+// 空内容、非 JSON、根节点结构不符时抛出 AiResponseError
+const parseStructured = async <T>(
+    client: OpenAI,
+    modelId: string,
+    text: string | null | undefined,
+    schema: AiResponseSchema,
+    truncated = false
+): Promise<T> => {
+    if (!text) throw new AiResponseError('empty', schema.name, 'AI 返回空内容');
+
+    let parsed: any;
+    try {
+        parsed = parseJSON(text);
+    } catch (parseError) {
+        if (!truncated) {
+            console.error(`[Schema] ${schema.name}: invalid JSON`, text);
+            throw new AiResponseError('invalid_json', schema.name, '解析 AI 响应失败，可能输出被截断或格式错误');
+        }
+        // 被截断时尝试修复 JSON
+        try {
+            parsed = repairTruncatedJSON(text);
+        } catch (repairError) {
+            throw new AiResponseError('invalid_json', schema.name, '分析结果被截断，无法解析');
+        }
+    }
+
+    // 部分模型直接返回数组：放进 schema 中唯一的数组字段
+    const arrayKeys = Object.entries(schema.schema.properties || {}).filter(([, child]) => child.type === 'array').map(([key]) => key);
+    if (Array.isArray(parsed) && arrayKeys.length === 1) parsed = { [arrayKeys[0]]: parsed };
+    // 截断的输出缺少后面的数组字段属正常，按空数组处理
+    if (truncated && parsed && typeof parsed === 'object') {
+        arrayKeys.forEach(key => { if (parsed[key] === undefined) parsed[key] = []; });
+    }
+
+    const issues = validateSchema(parsed, schema.schema);
+    if (issues.length === 0) return parsed as T;
+
+    const groups = groupItemIssues(issues);
+    if (!groups) {
+        const rootIssues = issues.filter(issue => !/^\$\.\w+\[\d+\]/.test(issue.path));
+        throw new AiResponseError('schema', schema.name, `AI 响应结构不符合要求：${rootIssues.map(issue => `${issue.path} ${issue.message}`).join('；')}`, issues);
+    }
+
+    for (const [key, invalid] of groups) {
+        const itemSchema = schema.schema.properties![key].items!;
+        const indexes = [...invalid.keys()].slice(0, MAX_REASK_ITEMS);
+        console.warn(`[Schema] ${schema.name}.${key}: ${invalid.size} invalid item(s), re-asking`, Object.fromEntries(invalid));
+        const fixed = await reaskInvalidItems(client, modelId, schema.name, itemSchema, indexes.map(i => ({ item: parsed[key][i], issues: invalid.get(i)! })));
+        const replacements = new Map(indexes.map((index, i) => [index, fixed[i]]));
+        const dropped = [...invalid.keys()].filter(index => replacements.get(index) === undefined);
+        if (dropped.length > 0) {
+            console.warn(`[Schema] ${schema.name}.${key}: dropped ${dropped.length} item(s) still invalid after re-ask`, dropped.map(index => parsed[key][index]));
+        }
+        parsed[key] = parsed[key]
+            .map((item: unknown, index: number) => invalid.has(index) ? replacements.get(index) : item)
+            .filter((item: unknown) => item !== undefined);
+    }
+    return parsed as T;
+};
+
 // ============================================
 // 快速预检：判断是否为包装设计图片
 // ============================================
@@ -262,7 +375,7 @@ export const quickCheckImage = async (
 ): Promise<{ isPackaging: boolean; description: string; confidence: 'high' | 'medium' | 'low' }> => {
     const startTime = Date.now();
     try {
-        const client = getClient();
+        const client = getClient('quick-check');
         const modelId = getModelId();
         console.log(`[QuickCheck] Starting with model: ${modelId}`);
 
@@ -313,7 +426,7 @@ export const quickCheckImage = async (
                     ]
                 }
             ],
-            max_tokens: 100, // 限制 token 数量，节省成本
+            max_tokens: maxTokensFor(100), // 限制 token 数量，节省成本
             timeout: 15000 // 15秒超时
         });
 
@@ -345,81 +458,16 @@ export const quickCheckImage = async (
 
 // ============================================
 // 确定性规则检查（不依赖 GPT，100% 准确）
+// 规则在 deterministicRuleService 中注册，这里按行业 / 市场运行启用的规则
 // ============================================
-export const runDeterministicChecks = (text: string): DeterministicCheck[] => {
-    const issues: DeterministicCheck[] = [];
-    let idCounter = 0;
-
-    // 1. 括号配对检查
-    const brackets = [
-        { open: '(', close: ')', name: '圆括号' },
-        { open: '[', close: ']', name: '方括号' },
-        { open: '{', close: '}', name: '花括号' },
-        { open: '（', close: '）', name: '中文圆括号' },
-        { open: '【', close: '】', name: '中文方括号' },
-    ];
-
-    for (const bracket of brackets) {
-        const openCount = (text.match(new RegExp('\\' + bracket.open, 'g')) || []).length;
-        const closeCount = (text.match(new RegExp('\\' + bracket.close, 'g')) || []).length;
-
-        if (openCount !== closeCount) {
-            // 找到不配对的位置
-            let stack: number[] = [];
-            let unmatchedPositions: { pos: number; char: string }[] = [];
-
-            for (let i = 0; i < text.length; i++) {
-                if (text[i] === bracket.open) {
-                    stack.push(i);
-                } else if (text[i] === bracket.close) {
-                    if (stack.length > 0) {
-                        stack.pop();
-                    } else {
-                        unmatchedPositions.push({ pos: i, char: bracket.close });
-                    }
-                }
-            }
-            // 剩余的开括号也是不配对的
-            stack.forEach(pos => unmatchedPositions.push({ pos, char: bracket.open }));
-
-            for (const unmatched of unmatchedPositions) {
-                // 获取上下文
-                const start = Math.max(0, unmatched.pos - 20);
-                const end = Math.min(text.length, unmatched.pos + 20);
-                const context = text.substring(start, end);
-
-                issues.push({
-                    id: `det-${idCounter++}-${Date.now()}`,
-                    type: 'bracket_mismatch',
-                    description: `${bracket.name}不配对：发现 "${unmatched.char}" 缺少匹配`,
-                    location: `...${context}...`,
-                    severity: 'high'
-                });
-            }
-        }
-    }
-
-    // 2. 常见编码问题检查
-    const encodingPatterns = [
-        { pattern: /\ufffd/g, name: '替换字符（乱码）' },
-        { pattern: /[\x00-\x08\x0b\x0c\x0e-\x1f]/g, name: '控制字符' },
-    ];
-
-    for (const enc of encodingPatterns) {
-        const matches = text.match(enc.pattern);
-        if (matches && matches.length > 0) {
-            issues.push({
-                id: `det-${idCounter++}-${Date.now()}`,
-                type: 'encoding_error',
-                description: `发现${enc.name}，共 ${matches.length} 处`,
-                location: '文本中存在异常字符',
-                severity: 'high'
-            });
-        }
-    }
-
-    return issues;
-};
+export const runDeterministicChecks = (
+    text: string,
+    industry: string = 'general',
+    markets: string[] = [],
+    specs: SourceField[] = [],
+    ocrLines: OcrLine[] = []
+): DeterministicCheck[] =>
+    runDeterministicRules(text, industry, markets, specs, ocrLines);
 
 // ============================================
 // 轻量级 OCR：仅提取文字（用于 QIL 对比）
@@ -427,19 +475,21 @@ export const runDeterministicChecks = (text: string): DeterministicCheck[] => {
 export const extractOcrOnly = async (
     base64Image: string,
     mimeType: string
-): Promise<{ ocrText: string; tokenUsage?: TokenUsage }> => {
+): Promise<{ ocrText: string; ocrLines: OcrLine[]; tokenUsage?: TokenUsage }> => {
     try {
-        const client = getClient();
+        const client = getClient('ocr');
         const modelId = getModelId();
         console.log(`[OCR-Only] Starting lightweight OCR with model: ${modelId}`);
 
-        const prompt = `提取图片中的所有文字，按原样输出，保持换行。
+        const prompt = `逐行提取图片中的所有文字，按原样输出，每个元素是一行。
+box_2d 为该行文字在图片上的位置 [ymin, xmin, ymax, xmax]（0-1000）。
+bold 为该行中加粗显示的文字片段，没有加粗时省略。
 返回JSON格式：
 {
-  "text": "提取的文字内容"
+  "lines": [{"text": "一行文字", "box_2d": [ymin, xmin, ymax, xmax], "bold": ["加粗片段"]}]
 }`;
 
-        const response = await client.chat.completions.create({
+        const { data: response, response: raw } = await client.chat.completions.create({
             model: modelId,
             messages: [
                 {
@@ -456,14 +506,15 @@ export const extractOcrOnly = async (
                     ]
                 }
             ],
-            max_tokens: 2000,  // OCR 只需要文字，不需要太多
+            max_tokens: maxTokensFor(4000),  // OCR 只需要文字和行框，不需要太多
             temperature: 0.1,
-        });
+            ...responseFormatFor(modelId, OCR_SCHEMA)
+        }).withResponse();
 
         const text = response.choices[0].message.content;
         if (!text) {
             console.warn('[OCR-Only] No response text');
-            return { ocrText: '' };
+            return { ocrText: '', ocrLines: [] };
         }
 
         // ✅ 检测是否被截断
@@ -473,7 +524,7 @@ export const extractOcrOnly = async (
             // OCR 截断不算致命错误，继续处理（但文字可能不完整）
         }
 
-        const parsed = parseJSON(text);
+        const parsed = await parseStructured<OcrResponse>(client, modelId, text, OCR_SCHEMA, finishReason === 'length');
 
         // 提取 token 使用信息
         let tokenUsage: TokenUsage | undefined;
@@ -482,14 +533,17 @@ export const extractOcrOnly = async (
                 promptTokens: response.usage.prompt_tokens || 0,
                 completionTokens: response.usage.completion_tokens || 0,
                 totalTokens: response.usage.total_tokens || 0,
-                model: modelId,
+                ...servedBy(raw, modelId),
                 timestamp: new Date()
             };
             console.log('[OCR-Only] Token usage:', tokenUsage);
         }
 
+        const { ocrText, ocrLines } = parseOcrLayout(parsed.text, parsed.lines);
+
         return {
-            ocrText: parsed.text || '',
+            ocrText,
+            ocrLines,
             tokenUsage
         };
     } catch (error) {
@@ -506,14 +560,16 @@ export const analyzeImageSinglePass = async (
     mimeType: string,
     industry: string = 'general',
     includeOcr: boolean = false,  // 是否包含 OCR 原文
-    onStream?: (chunk: string) => void  // 流式输出回调
-): Promise<{ description: string; ocrText: string; issues: DiagnosisIssue[]; specs: SourceField[]; tokenUsage?: TokenUsage }> => {
+    onStream?: (chunk: string) => void,  // 流式输出回调
+    knownText?: string,  // PDF 内嵌文字层（随 prompt 发送，此时 includeOcr 应为 false）
+    markets: string[] = []  // 出口市场（决定哪些检查项由本地规则负责）
+): Promise<{ description: string; ocrText: string; ocrLines: OcrLine[]; issues: DiagnosisIssue[]; specs: SourceField[]; tokenUsage?: TokenUsage }> => {
     // 性能埋点
     const perfLog: { [key: string]: number } = {};
     const overallStart = Date.now();
 
     try {
-        const client = getClient();
+        const client = getClient('analyze');
         const modelId = getModelId();
         console.log("╔══════════════════════════════════════════════════════════╗");
         console.log("║  [Performance Analysis] Single-pass Image Analysis       ║");
@@ -525,29 +581,40 @@ export const analyzeImageSinglePass = async (
         // 1. 准备 prompt
         const promptStart = Date.now();
         const rules = INDUSTRY_RULES[industry] || INDUSTRY_RULES.general;
-        const checkItemsList = rules.checkItems.map((item, idx) => `   ${idx + 1}. ${item}`).join('\n');
-        const examplesList = rules.examples.map(ex => `   - ${ex}`).join('\n');
+        const { checkItems, examples } = promptCheckItems(rules, industry, markets, includeOcr || !!knownText);
+        const checkItemsList = checkItems.map((item, idx) => `   ${idx + 1}. ${item}`).join('\n');
+        const examplesList = examples.map(ex => `   - ${ex}`).join('\n');
+        // 食品：营养成分表逐行提取，供本地算术校验使用
+        const nutritionSpecHint = industry === 'food'
+            ? '；营养成分表每行单独一项（key 为项目名，value 为该行原文，含单位和 NRV%/%DV）'
+            : '';
+
+        // 文字层来自设计文件本身，比识别结果准确；过长时截断（图片中仍可看到全部文字）
+        const knownTextHint = knownText
+            ? `\n\n以下是设计文件内嵌的文字层，即包装上实际印刷的文字（比从图片识别更准确）。检查时以此为准，original 引用其中的文字：\n"""\n${knownText.slice(0, MAX_KNOWN_TEXT_LENGTH)}\n"""`
+            : '';
 
         const prompt = includeOcr
             ? `分析${rules.name}包装图片，返回JSON：
 {
   "description": "一句话描述",
-  "ocrText": "提取所有文字，换行分隔",
-  "issues": [{"original": "错误原文", "problem": "问题", "suggestion": "建议", "severity": "high/medium/low"}],
+  "ocrLines": [{"text": "一行文字", "box_2d": [ymin, xmin, ymax, xmax], "bold": ["加粗片段"]}],
+  "issues": [{"type": "分类", "original": "错误原文", "problem": "问题", "suggestion": "建议", "severity": "high/medium/low"}],
   "specs": [{"key": "项目名", "value": "值", "category": "content/compliance/specs"}]
 }
 
 要求：
-1. OCR提取所有文字
+1. OCR逐行提取所有文字，box_2d 为该行位置（0-1000），bold 为该行加粗的片段（没有则省略）
 2. 检查${rules.name}行业错误（100%确定才报告）：
 ${checkItemsList}
 示例：${examplesList}
+type 从以下分类中选一个：${ISSUE_TYPE_HINT}
 如无错误返回空数组[]
-3. 提取specs：品名、成分、警告、净含量等`
+3. 提取specs：品名、成分、警告、净含量等${nutritionSpecHint}`
             : `分析${rules.name}包装图片，返回JSON（无需OCR原文）：
 {
   "description": "一句话描述",
-  "issues": [{"original": "错误原文", "problem": "问题", "suggestion": "建议", "severity": "high/medium/low"}],
+  "issues": [{"type": "分类", "original": "错误原文", "problem": "问题", "suggestion": "建议", "severity": "high/medium/low"}],
   "specs": [{"key": "项目名", "value": "值", "category": "content/compliance/specs"}]
 }
 
@@ -555,8 +622,9 @@ ${checkItemsList}
 1. 检查${rules.name}行业错误（100%确定才报告）：
 ${checkItemsList}
 示例：${examplesList}
+type 从以下分类中选一个：${ISSUE_TYPE_HINT}
 如无错误返回空数组[]
-2. 提取specs：品名、成分、警告、净含量等`;
+2. 提取specs：品名、成分、警告、净含量等${nutritionSpecHint}${knownTextHint}`;
 
         perfLog['1_prompt_preparation'] = Date.now() - promptStart;
         console.log(`⏱️  Prompt preparation: ${perfLog['1_prompt_preparation']}ms`);
@@ -566,112 +634,79 @@ ${checkItemsList}
         console.log(`🚀 Calling API...`);
 
         let response;
-        let usedBackup = false;
+        let raw: Response;
         let fullText = '';
-
-	        try {
-	            if (onStream) {
-	                // 流式输出
-	                let streamFinishReason: string | null = null;
-	                let streamUsage: any | undefined;
-	                const stream = await client.chat.completions.create({
-	                    model: modelId,
-	                    messages: [
-	                        {
-                            role: "user",
-                            content: [
-                                { type: "text", text: prompt },
-                                {
-                                    type: "image_url",
-                                    image_url: {
-                                        url: `data:${mimeType};base64,${base64Image}`,
-                                        detail: "high"
-                                    }
-                                }
-                            ]
-                        }
-	                    ],
-	                    max_tokens: includeOcr ? 8000 : 6000,
-	                    temperature: 0.1,
-	                    stream: true,
-	                    // 尝试在流式场景下返回 usage（OpenAI 兼容实现会在最后一个 chunk 带上 usage）
-	                    // 若上游不支持，该字段会被忽略，不影响流式输出。
-	                    stream_options: { include_usage: true } as any,
-	                });
-
-	                for await (const chunk of stream) {
-	                    const content = chunk.choices[0]?.delta?.content || '';
-	                    const finishReason = chunk.choices[0]?.finish_reason ?? null;
-	                    if (finishReason) streamFinishReason = finishReason;
-	                    // usage 通常只在最后一个 chunk 出现
-	                    if ((chunk as any).usage) streamUsage = (chunk as any).usage;
-	                    if (content) {
-	                        fullText += content;
-	                        onStream(content);
-	                    }
-	                }
-
-	                // 构造完整响应
-	                response = {
-	                    choices: [{
-	                        message: { content: fullText },
-	                        finish_reason: streamFinishReason || 'stop'
-	                    }],
-	                    usage: streamUsage
-	                } as any;
-	            } else {
-	                // 非流式输出
-	                response = await client.chat.completions.create({
-	                    model: modelId,
-                    messages: [
-                        {
-                            role: "user",
-                            content: [
-                                { type: "text", text: prompt },
-                                {
-                                    type: "image_url",
-                                    image_url: {
-                                        url: `data:${mimeType};base64,${base64Image}`,
-                                        detail: "high"
-                                    }
-                                }
-                            ]
-                        }
-                    ],
-                    max_tokens: includeOcr ? 8000 : 6000,
-                    temperature: 0.1,
-                });
-            }
-        } catch (primaryError) {
-            console.warn(`⚠️  PackyAPI failed, trying Zenmux backup...`, primaryError);
-            usedBackup = true;
-
-            // 使用 Zenmux（OpenAI SDK）
-            const zenmuxClient = getZenmuxClient();
-            response = await zenmuxClient.chat.completions.create({
-                model: 'google/gemini-2.5-pro',
-                messages: [
+        const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+            {
+                role: "user",
+                content: [
+                    { type: "text", text: prompt },
                     {
-                        role: 'user',
-                        content: [
-                            { type: 'text', text: prompt },
-                            {
-                                type: 'image_url',
-                                image_url: {
-                                    url: `data:${mimeType};base64,${base64Image}`,
-                                    detail: 'high'
-                                }
-                            }
-                        ]
+                        type: "image_url",
+                        image_url: {
+                            url: `data:${mimeType};base64,${base64Image}`,
+                            detail: "high"
+                        }
                     }
-                ],
-                max_tokens: includeOcr ? 8000 : 6000,
+                ]
+            }
+        ];
+
+        // 供应商故障时 Worker 自动重试并转移到下一个供应商，这里只发一次请求
+        // 模型不支持流式输出时退回普通请求
+        if (onStream && getRegisteredModel(modelId)?.capabilities.streaming !== false) {
+            // 流式输出
+            let streamFinishReason: string | null = null;
+            let streamUsage: any | undefined;
+            const { data: stream, response: streamResponse } = await client.chat.completions.create({
+                model: modelId,
+                messages,
+                max_tokens: maxTokensFor(includeOcr ? 8000 : 6000),
                 temperature: 0.1,
-            });
+                ...responseFormatFor(modelId, DIAGNOSIS_SCHEMA),
+                stream: true,
+                // 尝试在流式场景下返回 usage（OpenAI 兼容实现会在最后一个 chunk 带上 usage）
+                // 若上游不支持，该字段会被忽略，不影响流式输出。
+                stream_options: { include_usage: true } as any,
+            }).withResponse();
+            raw = streamResponse;
+
+            for await (const chunk of stream) {
+                const content = chunk.choices[0]?.delta?.content || '';
+                const finishReason = chunk.choices[0]?.finish_reason ?? null;
+                if (finishReason) streamFinishReason = finishReason;
+                // usage 通常只在最后一个 chunk 出现
+                if ((chunk as any).usage) streamUsage = (chunk as any).usage;
+                if (content) {
+                    fullText += content;
+                    onStream(content);
+                }
+            }
+
+            // 构造完整响应
+            response = {
+                choices: [{
+                    message: { content: fullText },
+                    finish_reason: streamFinishReason || 'stop'
+                }],
+                usage: streamUsage
+            } as any;
+        } else {
+            // 非流式输出
+            const result = await client.chat.completions.create({
+                model: modelId,
+                messages,
+                max_tokens: maxTokensFor(includeOcr ? 8000 : 6000),
+                temperature: 0.1,
+                ...responseFormatFor(modelId, DIAGNOSIS_SCHEMA)
+            }).withResponse();
+            response = result.data;
+            raw = result.response;
         }
+        const served = servedBy(raw, modelId);
 
         perfLog['2_api_call'] = Date.now() - apiStart;
-        console.log(`⏱️  API call: ${perfLog['2_api_call']}ms ${usedBackup ? '(Zenmux backup)' : '(PackyAPI)'}`);
+        console.log(`⏱️  API call: ${perfLog['2_api_call']}ms (provider: ${served.provider || 'unknown'}, model: ${served.model})`);
 
         // ✅ 检测是否被截断
         const finishReason = response.choices[0].finish_reason;
@@ -680,7 +715,7 @@ ${checkItemsList}
 
         if (wasTruncated) {
             console.warn('⚠️  Output truncated! Will try to parse partial content.');
-            console.warn(`   Max tokens: ${includeOcr ? 8000 : 6000}, Used: ${response.usage?.completion_tokens || 0}`);
+            console.warn(`   Max tokens: ${maxTokensFor(includeOcr ? 8000 : 6000)}, Used: ${response.usage?.completion_tokens || 0}`);
         }
 
         // 3. 提取 token 使用信息
@@ -691,7 +726,7 @@ ${checkItemsList}
                 promptTokens: response.usage.prompt_tokens || 0,
                 completionTokens: response.usage.completion_tokens || 0,
                 totalTokens: response.usage.total_tokens || 0,
-                model: modelId,
+                ...served,
                 timestamp: new Date()
             };
             console.log('💰 Token usage:', tokenUsage);
@@ -712,25 +747,13 @@ ${checkItemsList}
             throw new Error(`API 返回空内容（finish_reason: ${finishReason}）。可能是 API 错误或模型问题。`);
         }
 
-        let parsed;
+        let parsed: DiagnosisResponse;
         try {
-            parsed = parseJSON(text);
+            parsed = await parseStructured<DiagnosisResponse>(client, modelId, text, DIAGNOSIS_SCHEMA, wasTruncated);
         } catch (parseError) {
-            if (wasTruncated) {
-                // 被截断时尝试修复 JSON
-                console.warn('⚠️  JSON parsing failed on truncated output, attempting repair...');
-                try {
-                    parsed = repairTruncatedJSON(text);
-                    console.log('✅ JSON repair successful');
-                } catch (repairError) {
-                    console.error('❌ JSON repair also failed:', repairError);
-                    parsed = { description: '分析结果被截断，无法解析', issues: [], specs: [] };
-                }
-            } else {
-                console.error('❌ JSON parsing failed:', parseError);
-                console.error('Response text:', text);
-                throw new Error('解析 AI 响应失败，可能输出被截断或格式错误');
-            }
+            if (!(wasTruncated && parseError instanceof AiResponseError)) throw parseError;
+            console.error('❌ Truncated output could not be recovered:', parseError);
+            parsed = { description: '分析结果被截断，无法解析', issues: [], specs: [] };
         }
 
         perfLog['4_json_parsing'] = Date.now() - parseStart;
@@ -738,34 +761,26 @@ ${checkItemsList}
 
         // 5. 处理 issues
         const issuesStart = Date.now();
-        const issues: DiagnosisIssue[] = Array.isArray(parsed.issues)
-            ? parsed.issues.map((item: any, idx: number) => ({
-                id: `issue-${idx}-${Date.now()}`,
-                type: 'content' as const,
-                original: item.original || '',
-                problem: item.problem || '',
-                suggestion: item.suggestion || '',
-                severity: item.severity || 'medium',
-                confidence: item.confidence || 'possible',
-                box_2d: item.box_2d && item.box_2d.length === 4 ? {
-                    ymin: item.box_2d[0],
-                    xmin: item.box_2d[1],
-                    ymax: item.box_2d[2],
-                    xmax: item.box_2d[3]
-                } : undefined
-            }))
-            : [];
+        const issues: DiagnosisIssue[] = parsed.issues.map((item, idx) => ({
+            id: `issue-${idx}-${Date.now()}`,
+            type: item.type,
+            original: item.original,
+            problem: item.problem,
+            suggestion: item.suggestion,
+            severity: item.severity,
+            confidence: item.confidence || 'possible',
+            box_2d: item.box_2d ? {
+                ymin: item.box_2d[0],
+                xmin: item.box_2d[1],
+                ymax: item.box_2d[2],
+                xmax: item.box_2d[3]
+            } : undefined
+        }));
         perfLog['5_issues_processing'] = Date.now() - issuesStart;
 
         // 6. 处理 specs
         const specsStart = Date.now();
-        const specs: SourceField[] = Array.isArray(parsed.specs)
-            ? parsed.specs.map((item: any) => ({
-                key: item.key || '',
-                value: item.value || '',
-                category: item.category || 'content'
-            }))
-            : [];
+        const specs: SourceField[] = parsed.specs.map(({ key, value, category }) => ({ key, value, category }));
         perfLog['6_specs_processing'] = Date.now() - specsStart;
 
         // 总耗时
@@ -782,9 +797,12 @@ ${checkItemsList}
         });
         console.log("╚══════════════════════════════════════════════════════════╝\n");
 
+        const { ocrText, ocrLines } = parseOcrLayout(parsed.ocrText, parsed.ocrLines);
+
         return {
             description: parsed.description || '',
-            ocrText: parsed.ocrText || '',
+            ocrText,
+            ocrLines,
             issues,
             specs,
             tokenUsage,
@@ -796,6 +814,63 @@ ${checkItemsList}
     }
 };
 
+// 词库匹配的行业域；检测配置中关闭了该行业和通用词库时返回 null
+const lexiconDomainFor = (industry: string): { targetDomain: string; enabledDomains: string[] | null } | null => {
+    const domainMap: Record<string, string> = {
+        cosmetics: 'cosmetics',
+        food: 'food',
+        pharma: 'pharma',
+        supplement: 'supplement',
+        medical_device: 'medical_device',
+        infant: 'infant',
+        household: 'household',
+        general: 'general'
+    };
+    const enabledDomains = getEnabledLexiconDomains();
+    const targetDomain = domainMap[industry] || 'general';
+    const shouldRunLexicon = !enabledDomains ||
+        enabledDomains.includes(targetDomain) ||
+        enabledDomains.includes('general');
+    return shouldRunLexicon ? { targetDomain, enabledDomains } : null;
+};
+
+// 本地规则和词库都在 OCR 原文上运行，有任一启用时分析需要带 OCR 行框
+export const needsLocalOcr = (industry: string, markets: string[]) =>
+    hasActiveDeterministicRules(industry, markets) || !!lexiconDomainFor(industry);
+
+// AI 结果之后的本地检查：确定性规则 + 词库匹配（不调用 API）
+const runLocalChecks = (
+    aiResult: { description: string; ocrText: string; ocrLines: OcrLine[]; issues: DiagnosisIssue[]; specs: SourceField[]; tokenUsage?: TokenUsage },
+    industry: string,
+    markets: string[],
+    onStepChange?: (step: number) => void
+): DiagnosisResult => {
+    // Step 2: 本地确定性规则检查（100% 准确，不调用 API）
+    onStepChange?.(2);
+    const deterministicIssues = attachTextBoxes(runDeterministicChecks(aiResult.ocrText, industry, markets, aiResult.specs, aiResult.ocrLines), aiResult.ocrLines);
+    console.log("Deterministic checks found:", deterministicIssues.length, "issues");
+
+    // Step 3: 词库匹配（本地，确定性，0 token）
+    const lexiconDomain = lexiconDomainFor(industry);
+    const lexiconHits = lexiconDomain
+        ? matchLexicon(aiResult.ocrText, lexiconDomain.targetDomain, markets, lexiconDomain.enabledDomains || undefined)
+        : [];
+    // 命中位置按 OCR 行框映射到图片区域
+    const lexiconIssues = attachTextBoxes(lexiconHitsToIssues(lexiconHits) as LexiconIssue[], aiResult.ocrLines);
+    console.log("Lexicon matches found:", lexiconIssues.length, "issues");
+
+    return {
+        description: aiResult.description,
+        ocrText: aiResult.ocrText,
+        ocrLines: aiResult.ocrLines,
+        issues: aiResult.issues,
+        deterministicIssues,
+        lexiconIssues,
+        specs: aiResult.specs,
+        tokenUsage: aiResult.tokenUsage
+    };
+};
+
 // Main diagnosis function - 单次 AI 调用 + 本地规则检查
 export const diagnoseImage = async (
     base64Image: string,
@@ -805,67 +880,96 @@ export const diagnoseImage = async (
     markets: string[] = [],
     includeOcr: boolean = false,  // 是否包含 OCR 原文
     onStream?: (chunk: string) => void,  // 流式输出回调
-    customPrompt?: string  // 自定义检测提示词
+    customPrompt?: string,  // 自定义检测提示词
+    textLayer?: TextLayer  // PDF 内嵌文字层：替代模型 OCR 用于本地检查
 ): Promise<DiagnosisResult> => {
     try {
         console.log("Starting analysis (AI → Rules)...");
 
-        // Step 1: AI 单步分析（OCR + 问题检测 + 规格提取，一次 API 调用）
+        // Step 1: AI 单步分析（OCR + 问题检测 + 规格提取，一次 API 调用）；有文字层时不需要模型 OCR，
+        // 否则本地规则 / 词库启用时必须带 OCR 原文，不然本地检查在空文本上运行
         onStepChange?.(1);
-        const aiResult = customPrompt
-            ? await analyzeImageWithCustomPrompt(base64Image, mimeType, customPrompt, includeOcr, onStream)
-            : await analyzeImageSinglePass(base64Image, mimeType, industry, includeOcr, onStream);
+        const withOcr = !textLayer && (includeOcr || needsLocalOcr(industry, markets));
+        const modelResult = customPrompt
+            ? await analyzeImageWithCustomPrompt(base64Image, mimeType, customPrompt, withOcr, onStream)
+            : await analyzeImageSinglePass(base64Image, mimeType, industry, withOcr, onStream, textLayer?.ocrText, markets);
+        const aiResult = textLayer ? { ...modelResult, ocrText: textLayer.ocrText, ocrLines: textLayer.ocrLines } : modelResult;
         console.log("AI analysis complete. Description:", aiResult.description);
         console.log("OCR text length:", aiResult.ocrText.length);
         console.log("AI issues found:", aiResult.issues.length);
         console.log("Specs extracted:", aiResult.specs.length);
         console.log("=== OCR提取的文字 ===\n", aiResult.ocrText, "\n=== END ===");
 
-        // Step 2: 本地确定性规则检查（100% 准确，不调用 API）
-        onStepChange?.(2);
-        const deterministicIssues = runDeterministicChecks(aiResult.ocrText);
-        console.log("Deterministic checks found:", deterministicIssues.length, "issues");
-
-        // Step 3: 词库匹配（本地，确定性，0 token）
-        const domainMap: Record<string, string> = {
-            cosmetics: 'cosmetics',
-            food: 'food',
-            pharma: 'pharma',
-            supplement: 'supplement',
-            medical_device: 'medical_device',
-            infant: 'infant',
-            household: 'household',
-            general: 'general'
-        };
-        const enabledDomains = getEnabledLexiconDomains();
-        const targetDomain = domainMap[industry] || 'general';
-        const shouldRunLexicon = !enabledDomains ||
-            enabledDomains.includes(targetDomain) ||
-            enabledDomains.includes('general');
-        const lexiconHits = shouldRunLexicon
-            ? matchLexicon(aiResult.ocrText, targetDomain, markets, enabledDomains || undefined)
-            : [];
-        const lexiconIssues = lexiconHitsToIssues(lexiconHits) as LexiconIssue[];
-        console.log("Lexicon matches found:", lexiconIssues.length, "issues");
+        return runLocalChecks(aiResult, industry, markets, onStepChange);
+    } catch (error) {
+        console.error("Diagnosis failed:", error);
+        throw error;
+    }
+};
 
-        return {
-            description: aiResult.description,
-            ocrText: aiResult.ocrText,
-            issues: aiResult.issues,
-            deterministicIssues,
-            lexiconIssues,
-            specs: aiResult.specs,
-            tokenUsage: aiResult.tokenUsage
+const TILE_CONCURRENCY = 3;  // 同时分析的分块数
+
+// 高清分块分析：原图切成重叠分块分别分析（没有文字层时每块都带 OCR 行框），结果映射回整图坐标后合并，再做本地检查。
+// 任一分块失败时整体失败，避免漏检的区域被当作没有问题；bitmap 由调用方释放
+export const diagnoseImageTiled = async (
+    bitmap: ImageBitmap,
+    onStepChange?: (step: number) => void,
+    industry: string = 'general',
+    markets: string[] = [],
+    onTileProgress?: (done: number, total: number) => void,
+    textLayer?: TextLayer  // PDF 内嵌文字层：替代各分块拼接的 OCR
+): Promise<DiagnosisResult> => {
+    try {
+        onStepChange?.(1);
+        const plan = planTiles(bitmap.width, bitmap.height);
+        console.log(`Starting tiled analysis: ${bitmap.width}x${bitmap.height} → ${plan.tiles.length} tiles`);
+
+        const results: Awaited<ReturnType<typeof analyzeImageSinglePass>>[] = new Array(plan.tiles.length);
+        let next = 0;
+        let done = 0;
+        onTileProgress?.(0, plan.tiles.length);
+        const worker = async () => {
+            while (next < plan.tiles.length) {
+                const tile = plan.tiles[next++];
+                results[tile.index] = await analyzeImageSinglePass(renderTile(bitmap, tile), 'image/jpeg', industry, !textLayer, undefined, undefined, markets);
+                onTileProgress?.(++done, plan.tiles.length);
+            }
         };
+        await Promise.all(Array.from({ length: Math.min(TILE_CONCURRENCY, plan.tiles.length) }, worker));
+
+        const toImageBox = (box: BoundingBox | undefined, tileIndex: number) =>
+            box ? mapTileBox(box, plan.tiles[tileIndex], plan) : undefined;
+        const { ocrText, ocrLines } = textLayer || stitchOcrLines(results.map((result, i) =>
+            result.ocrLines.map(({ start, ...line }) => ({ ...line, box_2d: toImageBox(line.box_2d, i)! }))
+        ));
+        const issues = mergeTileIssues(results.map((result, i) =>
+            result.issues.map(issue => ({ ...issue, id: `${issue.id}-t${i}`, box_2d: toImageBox(issue.box_2d, i) }))
+        ));
+        const usages = results.map(result => result.tokenUsage).filter((usage): usage is TokenUsage => !!usage);
+
+        console.log(`Tiled analysis complete: ${issues.length} issues, ${ocrLines.length} OCR lines`);
+        return runLocalChecks({
+            description: results.find(result => result.description)?.description || '',
+            ocrText,
+            ocrLines,
+            issues,
+            specs: mergeTileSpecs(results.map(result => result.specs)),
+            tokenUsage: usages.length > 0 ? {
+                ...usages[0],
+                promptTokens: usages.reduce((sum, usage) => sum + usage.promptTokens, 0),
+                completionTokens: usages.reduce((sum, usage) => sum + usage.completionTokens, 0),
+                totalTokens: usages.reduce((sum, usage) => sum + usage.totalTokens, 0)
+            } : undefined
+        }, industry, markets, onStepChange);
     } catch (error) {
-        console.error("Diagnosis failed:", error);
+        console.error("Tiled diagnosis failed:", error);
         throw error;
     }
 };
 
 export const parseSourceText = async (sourceText: string): Promise<SourceField[]> => {
     try {
-        const client = getClient();
+        const client = getClient('source');
         const modelId = getModelId();
 
         const prompt = `
@@ -885,13 +989,14 @@ export const parseSourceText = async (sourceText: string): Promise<SourceField[]
             messages: [
                 { role: "user", content: prompt }
             ],
-            // response_format 部分代理不支持，通过 prompt 要求返回 JSON
+            // response_format 只发给支持的模型，其余通过 prompt 要求返回 JSON
+            ...responseFormatFor(modelId, SOURCE_FIELDS_SCHEMA)
         });
 
         const text = response.choices[0].message.content;
         if (!text) return [];
-        const parsed = parseJSON(text);
-        return parsed.fields || [];
+        const parsed = await parseStructured<SourceFieldsResponse>(client, modelId, text, SOURCE_FIELDS_SCHEMA);
+        return parsed.fields;
 
     } catch (error) {
         console.error("Parsing failed:", error);
@@ -902,7 +1007,7 @@ export const parseSourceText = async (sourceText: string): Promise<SourceField[]
 // 从图片中提取产品规格信息
 export const extractProductSpecs = async (base64Image: string, mimeType: string): Promise<SourceField[]> => {
     try {
-        const client = getClient();
+        const client = getClient('specs');
         const modelId = getModelId();
 
         const prompt = `
@@ -945,13 +1050,14 @@ export const extractProductSpecs = async (base64Image: string, mimeType: string)
                     ]
                 }
             ],
-            // response_format 部分代理不支持，通过 prompt 要求返回 JSON
+            // response_format 只发给支持的模型，其余通过 prompt 要求返回 JSON
+            ...responseFormatFor(modelId, SOURCE_FIELDS_SCHEMA)
         });
 
         const text = response.choices[0].message.content;
         if (!text) return [];
-        const parsed = parseJSON(text);
-        return parsed.fields || [];
+        const parsed = await parseStructured<SourceFieldsResponse>(client, modelId, text, SOURCE_FIELDS_SCHEMA);
+        return parsed.fields;
 
     } catch (error) {
         console.error("Extract specs failed:", error);
@@ -964,7 +1070,7 @@ export const performSmartDiff = async (
     sourceFields: SourceField[]
 ): Promise<DiffResult[]> => {
     try {
-        const client = getClient();
+        const client = getClient('diff');
         const modelId = getModelId();
 
         const sourceJson = JSON.stringify(sourceFields);
@@ -1016,21 +1122,19 @@ export const performSmartDiff = async (
                     ]
                 }
             ],
-            // response_format 部分代理不支持，通过 prompt 要求返回 JSON
+            // response_format 只发给支持的模型，其余通过 prompt 要求返回 JSON
+            ...responseFormatFor(modelId, SMART_DIFF_SCHEMA)
         });
 
         const text = response.choices[0].message.content;
         if (!text) return [];
 
-        const parsed = parseJSON(text);
-        const data = parsed.diffs || parsed;
-
-        if (!Array.isArray(data)) return [];
+        const parsed = await parseStructured<SmartDiffResponse>(client, modelId, text, SMART_DIFF_SCHEMA);
 
-        return data.map((item: any, idx: number) => ({
+        return parsed.diffs.map((item, idx) => ({
             ...item,
             id: `diff-${idx}-${Date.now()}`,
-            box_2d: item.box_2d && item.box_2d.length === 4 ? {
+            box_2d: item.box_2d ? {
                 ymin: item.box_2d[0],
                 xmin: item.box_2d[1],
                 ymax: item.box_2d[2],
@@ -1047,7 +1151,7 @@ export const performSmartDiff = async (
 // 从 QIL 图片中提取规格数据
 export const parseQILImage = async (base64Image: string, mimeType: string): Promise<SourceField[]> => {
     try {
-        const client = getClient();
+        const client = getClient('qil');
         const modelId = getModelId();
         console.log("Parsing QIL image with model:", modelId);
 
@@ -1094,14 +1198,15 @@ export const parseQILImage = async (base64Image: string, mimeType: string): Prom
                     ]
                 }
             ],
-            // response_format 部分代理不支持，通过 prompt 要求返回 JSON
+            // response_format 只发给支持的模型，其余通过 prompt 要求返回 JSON
+            ...responseFormatFor(modelId, SOURCE_FIELDS_SCHEMA)
         });
 
         const text = response.choices[0].message.content;
         if (!text) return [];
 
-        const parsed = parseJSON(text);
-        return parsed.fields || [];
+        const parsed = await parseStructured<SourceFieldsResponse>(client, modelId, text, SOURCE_FIELDS_SCHEMA);
+        return parsed.fields;
 
     } catch (error) {
         console.error("Parse QIL image failed:", error);
@@ -1186,16 +1291,16 @@ export const analyzeImageWithCustomPrompt = async (
     customPrompt: string,
     includeOcr: boolean = false,
     onStream?: (chunk: string) => void
-): Promise<{ description: string; ocrText: string; issues: DiagnosisIssue[]; specs: SourceField[]; tokenUsage?: TokenUsage }> => {
+): Promise<{ description: string; ocrText: string; ocrLines: OcrLine[]; issues: DiagnosisIssue[]; specs: SourceField[]; tokenUsage?: TokenUsage }> => {
     try {
-        const client = getClient();
+        const client = getClient('custom-analyze');
         const modelId = getModelId();
 
         const prompt = includeOcr
-            ? `${customPrompt}\n\n返回JSON格式：\n{\n  "description": "一句话描述",\n  "ocrText": "提取所有文字，换行分隔",\n  "issues": [{"original": "错误原文", "problem": "问题", "suggestion": "建议", "severity": "high/medium/low"}],\n  "specs": [{"key": "项目名", "value": "值", "category": "content/compliance/specs"}]\n}`
-            : `${customPrompt}\n\n返回JSON格式（无需OCR原文）：\n{\n  "description": "一句话描述",\n  "issues": [{"original": "错误原文", "problem": "问题", "suggestion": "建议", "severity": "high/medium/low"}],\n  "specs": [{"key": "项目名", "value": "值", "category": "content/compliance/specs"}]\n}`;
+            ? `${customPrompt}\n\n返回JSON格式：\n{\n  "description": "一句话描述",\n  "ocrLines": [{"text": "一行文字", "box_2d": [ymin, xmin, ymax, xmax], "bold": ["加粗片段"]}],\n  "issues": [{"type": "分类", "original": "错误原文", "problem": "问题", "suggestion": "建议", "severity": "high/medium/low"}],\n  "specs": [{"key": "项目名", "value": "值", "category": "content/compliance/specs"}]\n}\n\nissues 的 type 从以下分类中选一个：${ISSUE_TYPE_HINT}`
+            : `${customPrompt}\n\n返回JSON格式（无需OCR原文）：\n{\n  "description": "一句话描述",\n  "issues": [{"type": "分类", "original": "错误原文", "problem": "问题", "suggestion": "建议", "severity": "high/medium/low"}],\n  "specs": [{"key": "项目名", "value": "值", "category": "content/compliance/specs"}]\n}\n\nissues 的 type 从以下分类中选一个：${ISSUE_TYPE_HINT}`;
 
-        const response = await client.chat.completions.create({
+        const { data: response, response: raw } = await client.chat.completions.create({
             model: modelId,
             messages: [{
                 role: "user",
@@ -1204,34 +1309,38 @@ export const analyzeImageWithCustomPrompt = async (
                     { type: "image_url", image_url: { url: `data:${mimeType};base64,${base64Image}`, detail: "high" } }
                 ]
             }],
-            max_tokens: includeOcr ? 8000 : 6000,
-            temperature: 0.1
-        });
+            max_tokens: maxTokensFor(includeOcr ? 8000 : 6000),
+            temperature: 0.1,
+            ...responseFormatFor(modelId, DIAGNOSIS_SCHEMA)
+        }).withResponse();
 
-        const text = response.choices[0].message.content || '';
-        const parsed = parseJSON(text);
+        const text = response.choices[0].message.content;
+        const parsed = await parseStructured<DiagnosisResponse>(client, modelId, text, DIAGNOSIS_SCHEMA, response.choices[0].finish_reason === 'length');
 
         const tokenUsage: TokenUsage | undefined = response.usage ? {
             promptTokens: response.usage.prompt_tokens || 0,
             completionTokens: response.usage.completion_tokens || 0,
             totalTokens: response.usage.total_tokens || 0,
-            model: modelId,
+            ...servedBy(raw, modelId),
             timestamp: new Date()
         } : undefined;
 
+        const { ocrText, ocrLines } = parseOcrLayout(parsed.ocrText, parsed.ocrLines);
+
         return {
             description: parsed.description || '',
-            ocrText: parsed.ocrText || parsed.text || '',
-            issues: (parsed.issues || []).map((issue: any, idx: number) => ({
+            ocrText,
+            ocrLines,
+            issues: parsed.issues.map((issue, idx) => ({
                 id: `issue-${idx}-${Date.now()}`,
-                type: 'content',
-                original: issue.original || issue.text,
+                type: issue.type,
+                original: issue.original,
                 problem: issue.problem,
                 suggestion: issue.suggestion,
-                severity: issue.severity || 'medium',
+                severity: issue.severity,
                 confidence: 'likely'
             })),
-            specs: parsed.specs || [],
+            specs: parsed.specs.map(({ key, value, category }) => ({ key, value, category })),
             tokenUsage
         };
     } catch (error) {
@@ -1244,7 +1353,9 @@ export const analyzeImageWithCustomPrompt = async (
 export const analyzeBatchWithCustomPrompt = async (
     images: Array<{ base64: string; mimeType: string; id: string }>,
     customPrompt: string,
-    onProgress?: (current: number, total: number) => void
+    onProgress?: (current: number, total: number) => void,
+    industry: string = 'general',
+    markets: string[] = []
 ): Promise<Array<{ id: string; result: DiagnosisResult; error?: string }>> => {
     const results: Array<{ id: string; result: DiagnosisResult; error?: string }> = [];
 
@@ -1253,8 +1364,8 @@ export const analyzeBatchWithCustomPrompt = async (
         onProgress?.(i + 1, images.length);
 
         try {
-            const aiResult = await analyzeImageWithCustomPrompt(image.base64, image.mimeType, customPrompt, false);
-            const deterministicIssues = runDeterministicChecks(aiResult.ocrText);
+            const aiResult = await analyzeImageWithCustomPrompt(image.base64, image.mimeType, customPrompt, needsLocalOcr(industry, markets));
+            const deterministicIssues = runDeterministicChecks(aiResult.ocrText, industry, markets, aiResult.specs, aiResult.ocrLines);
 
             results.push({
                 id: image.id,
@@ -1290,7 +1401,7 @@ export const generateBatchSummary = async (
     results: Array<{ id: string; fileName: string; result: DiagnosisResult }>
 ): Promise<string> => {
     try {
-        const client = getClient();
+        const client = getClient('batch-summary');
         const modelId = getModelId();
 
         const summaryData = results.map(r => ({
@@ -1316,7 +1427,7 @@ ${JSON.stringify(summaryData, null, 2)}
         const response = await client.chat.completions.create({
             model: modelId,
             messages: [{ role: "user", content: prompt }],
-            max_tokens: 1000,
+            max_tokens: maxTokensFor(1000),
             temperature: 0.3
         });
 
@@ -0,0 +1,153 @@
+/**
+ * PDF 导入
+ * 印刷用 PDF（以及以 PDF 兼容格式保存的 AI 文件）在浏览器内逐页栅格化为图片，
+ * 页面中嵌入的文字层提取为带行框的准确原文，替代模型 OCR 用于确定性规则 / 词库检查。
+ * 文字已转曲的页面没有文字层，仍由模型识别
+ */
+
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { BoundingBox, PreflightIssue, TextLayer } from '../types/types';
+import { stitchOcrLines } from './tileService';
+
+export const PDF_RENDER_DPI = 300;          // 栅格化分辨率
+export const MAX_PDF_PAGE_PIXELS = 48_000_000; // 单页像素上限（浏览器画布面积限制），超出时降低分辨率
+export const MAX_PDF_PAGES = 30;            // 与单个产品的图片数上限一致
+
+const TEXT_LAYER_MIN_CHARS = 10;            // 文字层少于该字符数视为没有文字层（文字已转曲）
+
+export interface PdfPage {
+  pageNumber: number;
+  file: File;              // 栅格化后的 JPEG
+  width: number;
+  height: number;
+  textLayer?: TextLayer;   // 页面内嵌文字层（没有时为 undefined）
+  preflight: PreflightIssue[]; // 印前检查结果
+}
+
+export const isPdfFile = (file: File) =>
+  file.type === 'application/pdf' || /\.(pdf|ai)$/i.test(file.name);
+
+const loadPdfJs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  return pdfjs;
+};
+
+type PdfJs = Awaited<ReturnType<typeof loadPdfJs>>;
+type PdfPageProxy = Awaited<ReturnType<Awaited<ReturnType<PdfJs['getDocument']>['promise']>['getPage']>>;
+type PageViewport = ReturnType<PdfPageProxy['getViewport']>;
+
+/**
+ * 提取页面文字层：按 pdf.js 的行尾标记把文字片段拼成行，坐标换算为渲染视口下的 0-1000 归一化行框
+ */
+const extractTextLayer = async (pdfjs: PdfJs, page: PdfPageProxy, viewport: PageViewport): Promise<TextLayer | undefined> => {
+  const content = await page.getTextContent();
+  const lines: { text: string; box_2d: BoundingBox }[] = [];
+  let text = '';
+  let box: BoundingBox | null = null;
+
+  const flush = () => {
+    if (box && text.trim()) lines.push({ text: text.trim(), box_2d: box });
+    text = '';
+    box = null;
+  };
+
+  for (const item of content.items) {
+    if (!('str' in item)) continue;
+    const textItem = item as TextItem;
+    if (textItem.str) {
+      const tx = pdfjs.Util.transform(viewport.transform, textItem.transform);
+      const fontHeight = Math.hypot(tx[2], tx[3]);
+      const itemBox: BoundingBox = {
+        ymin: ((tx[5] - fontHeight) / viewport.height) * 1000,
+        xmin: (tx[4] / viewport.width) * 1000,
+        ymax: (tx[5] / viewport.height) * 1000,
+        xmax: ((tx[4] + textItem.width * viewport.scale) / viewport.width) * 1000
+      };
+      // 没有行尾标记但换到了另一行（基线不重叠）时也断行
+      if (box && (itemBox.ymin >= box.ymax || itemBox.ymax <= box.ymin)) flush();
+      text += textItem.str;
+      box = box ? {
+        ymin: Math.min(box.ymin, itemBox.ymin), xmin: Math.min(box.xmin, itemBox.xmin),
+        ymax: Math.max(box.ymax, itemBox.ymax), xmax: Math.max(box.xmax, itemBox.xmax)
+      } : itemBox;
+    }
+    if (textItem.hasEOL) flush();
+  }
+  flush();
+
+  const charCount = lines.reduce((sum, line) => sum + line.text.replace(/\s/g, '').length, 0);
+  if (charCount < TEXT_LAYER_MIN_CHARS) return undefined;
+  return stitchOcrLines([lines]);
+};
+
+const canvasToFile = (canvas: HTMLCanvasElement, name: string): Promise<File> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(new File([blob], name, { type: 'image/jpeg' }));
+      else reject(new Error('页面导出失败'));
+    }, 'image/jpeg', 0.92);
+  });
+
+/**
+ * 逐页栅格化 PDF；maxPages 之后的页面忽略（totalPages 为 PDF 实际页数）。onPage 在每页完成后回调（用于显示进度）
+ */
+export const rasterizePdf = async (
+  file: File,
+  maxPages = MAX_PDF_PAGES,
+  onPage?: (done: number, total: number) => void
+): Promise<{ pages: PdfPage[]; totalPages: number }> => {
+  const pdfjs = await loadPdfJs();
+  const data = new Uint8Array(await file.arrayBuffer());
+  let pdf;
+  try {
+    // pdf.js 会把数据转移到 worker，传副本，原数据留给印前检查
+    pdf = await pdfjs.getDocument({ data: data.slice() }).promise;
+  } catch (error: any) {
+    if (error?.name === 'PasswordException') throw new Error('PDF 已加密，无法解析');
+    throw new Error('PDF 解析失败，请确认文件为 PDF（AI 文件需保存为 PDF 兼容格式）');
+  }
+
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  const total = Math.min(pdf.numPages, maxPages);
+  const preflight = await import('./preflightService')
+    .then(({ preflightPdf }) => preflightPdf(data, total))
+    .catch((error): PreflightIssue[][] => {
+      console.error('PDF preflight failed:', error);
+      return [];
+    });
+  const pages: PdfPage[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= total; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const base = page.getViewport({ scale: 1 });  // 1 单位 = 1/72 英寸
+      const scale = Math.min(PDF_RENDER_DPI / 72, Math.sqrt(MAX_PDF_PAGE_PIXELS / (base.width * base.height)));
+      const viewport = page.getViewport({ scale });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('无法创建画布');
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvas, viewport }).promise;
+
+      pages.push({
+        pageNumber,
+        file: await canvasToFile(canvas, `${baseName}-p${pageNumber}.jpg`),
+        width: canvas.width,
+        height: canvas.height,
+        textLayer: await extractTextLayer(pdfjs, page, viewport),
+        preflight: preflight[pageNumber - 1] || []
+      });
+      page.cleanup();
+      canvas.width = 0;  // 尽快释放大画布内存
+      onPage?.(pageNumber, total);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return { pages, totalPages: pdf.numPages };
+};
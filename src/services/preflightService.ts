@@ -0,0 +1,619 @@
+/**
+ * PDF 印前检查
+ * 直接读取 PDF 的页面框、字体、图片和颜色数据做确定性检查（栅格图上 AI 只能猜测）：
+ * 成品框 / 出血框、字体嵌入、图片有效分辨率、RGB 对象、四色黑文字与总墨量、专色。
+ * 结果按检查清单的问题分类（file_setting / font / image_quality / color / bleed）输出
+ */
+
+import {
+  PDFArray, PDFBool, PDFDict, PDFDocument, PDFName, PDFNumber, PDFObject, PDFPage, PDFRawStream, PDFStream, decodePDFRawStream
+} from 'pdf-lib';
+import { BoundingBox, PreflightCheck, PreflightIssue } from '../types/types';
+
+export const MIN_BLEED_MM = 3;             // 出血下限
+export const MIN_IMAGE_PPI = 300;          // 印刷图片有效分辨率下限
+export const LOW_IMAGE_PPI = 150;          // 低于该值标为严重
+export const MAX_INK_COVERAGE = 300;       // 总墨量上限（%）
+
+const RICH_BLACK_K = 0.9;                  // K 达到该值且叠加了 CMY 视为四色黑
+const MIN_IMAGE_SIDE_MM = 3;               // 置入尺寸小于该值的图片（装饰点、透明度拼合碎片）不检查分辨率
+const MAX_FORM_DEPTH = 10;                 // Form XObject 嵌套深度上限
+const PT_TO_MM = 25.4 / 72;
+
+// 印刷四色（DeviceN / Separation 中出现时不算专色）
+const PROCESS_COLORANTS = new Set(['Cyan', 'Magenta', 'Yellow', 'Black']);
+
+type ColorKind = 'gray' | 'rgb' | 'cmyk' | 'spot' | 'lab' | 'pattern' | 'other';
+
+interface ColorSpaceInfo {
+  kind: ColorKind;
+  spots: string[];   // 专色名称
+}
+
+interface ColorState {
+  space: ColorSpaceInfo;
+  values: number[];
+  pattern?: string;  // scn 设置的图案资源名
+}
+
+interface GraphicsState {
+  ctm: number[];
+  fill: ColorState;
+  stroke: ColorState;
+  textRender: number;
+}
+
+interface PlacedImage {
+  width: number;     // 像素
+  height: number;
+  ppi: number;       // 有效分辨率（两个方向取小）
+  widthMm: number;   // 置入尺寸
+  heightMm: number;
+  space: ColorSpaceInfo;
+  bounds: number[];  // 用户空间 [x1, y1, x2, y2]
+}
+
+interface PageScan {
+  fonts: Map<string, boolean>;  // 字体名 → 是否嵌入
+  images: PlacedImage[];
+  rgbText: number;
+  rgbVectors: number;
+  richBlackText: number;
+  maxInk: number;
+  spots: Set<string>;
+}
+
+// ==================== PDF 对象读取 ====================
+
+const get = (dict: PDFDict | undefined, key: string): PDFObject | undefined => dict?.lookup(PDFName.of(key));
+
+// 资源字典中的条目既可能是字典也可能是流（Shading、Form 等）
+const asDict = (obj: PDFObject | undefined): PDFDict | undefined =>
+  obj instanceof PDFDict ? obj : obj instanceof PDFStream ? obj.dict : undefined;
+
+const getName = (dict: PDFDict | undefined, key: string): string | undefined => {
+  const value = get(dict, key);
+  return value instanceof PDFName ? value.decodeText() : undefined;
+};
+
+const getNumber = (dict: PDFDict | undefined, key: string): number | undefined => {
+  const value = get(dict, key);
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+};
+
+const getNumbers = (obj: PDFObject | undefined): number[] | undefined => {
+  if (!(obj instanceof PDFArray)) return undefined;
+  const numbers = obj.asArray().map((_, i) => obj.lookup(i)).map(item => item instanceof PDFNumber ? item.asNumber() : NaN);
+  return numbers.some(Number.isNaN) ? undefined : numbers;
+};
+
+const getResource = (resources: PDFDict | undefined, category: string, name: string) =>
+  get(asDict(get(resources, category)), name);
+
+// 页面框 [x1, y1, x2, y2]（坐标按大小排序）
+const getBox = (obj: PDFObject | undefined): number[] | undefined => {
+  const values = getNumbers(obj);
+  if (!values || values.length !== 4) return undefined;
+  return [Math.min(values[0], values[2]), Math.min(values[1], values[3]), Math.max(values[0], values[2]), Math.max(values[1], values[3])];
+};
+
+const intersectBox = (a: number[], b: number[]) =>
+  [Math.max(a[0], b[0]), Math.max(a[1], b[1]), Math.min(a[2], b[2]), Math.min(a[3], b[3])];
+
+const decodeStream = (stream: PDFObject | undefined): Uint8Array | null => {
+  if (!(stream instanceof PDFRawStream)) return null;
+  try {
+    return decodePDFRawStream(stream).decode();
+  } catch (error) {
+    console.warn('Preflight: unsupported stream filter', error);
+    return null;
+  }
+};
+
+// ==================== 颜色空间 ====================
+
+const DEVICE_SPACES: Record<string, ColorKind> = {
+  DeviceGray: 'gray', G: 'gray', CalGray: 'gray',
+  DeviceRGB: 'rgb', RGB: 'rgb', CalRGB: 'rgb',
+  DeviceCMYK: 'cmyk', CMYK: 'cmyk',
+  Lab: 'lab',
+  Pattern: 'pattern'
+};
+
+const space = (kind: ColorKind, spots: string[] = []): ColorSpaceInfo => ({ kind, spots });
+
+const colorantSpace = (names: string[]): ColorSpaceInfo => {
+  const spots = names.filter(name => !PROCESS_COLORANTS.has(name) && name !== 'None' && name !== 'All');
+  if (spots.length > 0) return space('spot', spots);
+  return space(names.every(name => PROCESS_COLORANTS.has(name)) ? 'cmyk' : 'other');
+};
+
+const resolveColorSpace = (obj: PDFObject | undefined, resources: PDFDict | undefined, depth = 0): ColorSpaceInfo => {
+  if (!obj || depth > 5) return space('other');
+  if (obj instanceof PDFName) {
+    const name = obj.decodeText();
+    if (DEVICE_SPACES[name]) return space(DEVICE_SPACES[name]);
+    return resolveColorSpace(getResource(resources, 'ColorSpace', name), resources, depth + 1);
+  }
+  if (!(obj instanceof PDFArray)) return space('other');
+
+  const family = obj.lookup(0);
+  const familyName = family instanceof PDFName ? family.decodeText() : '';
+  switch (familyName) {
+    case 'ICCBased': {
+      const components = getNumber(asDict(obj.lookup(1)), 'N');
+      return space(components === 4 ? 'cmyk' : components === 3 ? 'rgb' : components === 1 ? 'gray' : 'other');
+    }
+    case 'Indexed':
+    case 'I':
+      return resolveColorSpace(obj.lookup(1), resources, depth + 1);
+    case 'Separation': {
+      const colorant = obj.lookup(1);
+      return colorantSpace(colorant instanceof PDFName ? [colorant.decodeText()] : []);
+    }
+    case 'DeviceN': {
+      const colorants = obj.lookup(1);
+      const names = colorants instanceof PDFArray
+        ? colorants.asArray().map((_, i) => colorants.lookup(i)).filter((item): item is PDFName => item instanceof PDFName).map(item => item.decodeText())
+        : [];
+      return colorantSpace(names);
+    }
+    default:
+      return space(DEVICE_SPACES[familyName] || 'other');
+  }
+};
+
+// 内联图片的颜色空间（缩写名或 [/I base hival lookup]）
+const resolveInlineColorSpace = (value: Operand | undefined, resources: PDFDict | undefined): ColorSpaceInfo => {
+  if (typeof value === 'string') {
+    return DEVICE_SPACES[value] ? space(DEVICE_SPACES[value]) : resolveColorSpace(PDFName.of(value), resources);
+  }
+  if (Array.isArray(value) && (value[0] === 'I' || value[0] === 'Indexed')) return resolveInlineColorSpace(value[1], resources);
+  return space('other');
+};
+
+const initialColor = (colorSpace: ColorSpaceInfo): ColorState => ({
+  space: colorSpace,
+  values: colorSpace.kind === 'cmyk' ? [0, 0, 0, 1] : colorSpace.kind === 'rgb' ? [0, 0, 0] : colorSpace.kind === 'spot' ? [1] : [0]
+});
+
+// ==================== 内容流解析 ====================
+
+interface OperandDict { [key: string]: Operand }
+// 名称为 string（不含 /），字符串内容不需要，解析为 null
+type Operand = number | boolean | string | null | Operand[] | OperandDict;
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set([...'()<>[]{}/%'].map(char => char.charCodeAt(0)));
+const isRegular = (code: number) => !WHITESPACE.has(code) && !DELIMITERS.has(code);
+
+const toDict = (items: Operand[]): OperandDict => {
+  const dict: OperandDict = {};
+  for (let i = 0; i + 1 < items.length; i += 2) {
+    if (typeof items[i] === 'string') dict[items[i] as string] = items[i + 1];
+  }
+  return dict;
+};
+
+/**
+ * 逐个操作符回调内容流；内联图片（BI … ID 数据 EI）以 'BI' 操作符和图片字典回调
+ */
+const parseContentStream = (bytes: Uint8Array, onOperator: (operator: string, operands: Operand[]) => void) => {
+  const containers: Operand[][] = [[]];
+  const push = (value: Operand) => containers[containers.length - 1].push(value);
+  let i = 0;
+
+  while (i < bytes.length) {
+    const code = bytes[i];
+    const char = String.fromCharCode(code);
+    if (WHITESPACE.has(code)) {
+      i++;
+    } else if (char === '%') {
+      while (i < bytes.length && bytes[i] !== 10 && bytes[i] !== 13) i++;
+    } else if (char === '(') {
+      let depth = 1;
+      i++;
+      while (i < bytes.length && depth > 0) {
+        if (bytes[i] === 92) i++;  // 反斜杠转义
+        else if (bytes[i] === 40) depth++;
+        else if (bytes[i] === 41) depth--;
+        i++;
+      }
+      push(null);
+    } else if (char === '<' && bytes[i + 1] === 60) {
+      containers.push([]);
+      i += 2;
+    } else if (char === '>' && bytes[i + 1] === 62) {
+      const items = containers.length > 1 ? containers.pop()! : [];
+      push(toDict(items));
+      i += 2;
+    } else if (char === '<') {
+      while (i < bytes.length && bytes[i] !== 62) i++;
+      i++;
+      push(null);
+    } else if (char === '[') {
+      containers.push([]);
+      i++;
+    } else if (char === ']') {
+      if (containers.length > 1) {
+        const items = containers.pop()!;
+        push(items);
+      }
+      i++;
+    } else if (char === '/') {
+      const start = ++i;
+      while (i < bytes.length && isRegular(bytes[i])) i++;
+      push(String.fromCharCode(...bytes.subarray(start, i)).replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+    } else if (!isRegular(code)) {
+      i++;  // 孤立的 { } ) >
+    } else {
+      const start = i;
+      while (i < bytes.length && isRegular(bytes[i])) i++;
+      const token = String.fromCharCode(...bytes.subarray(start, i));
+      const number = Number(token);
+      if (/^[+\-.\d]/.test(token) && !Number.isNaN(number)) {
+        push(number);
+      } else if (token === 'true' || token === 'false') {
+        push(token === 'true');
+      } else if (token === 'null') {
+        push(null);
+      } else if (token === 'ID') {
+        // 跳过内联图片数据：找到前后都是空白的 EI
+        const dict = toDict(containers[0]);
+        i++;
+        while (i < bytes.length && !(bytes[i] === 69 && bytes[i + 1] === 73 && WHITESPACE.has(bytes[i - 1]) &&
+          (i + 2 >= bytes.length || !isRegular(bytes[i + 2])))) i++;
+        i += 2;
+        containers.length = 1;
+        containers[0] = [];
+        onOperator('BI', [dict]);
+      } else {
+        if (token !== 'BI') onOperator(token, containers[0]);
+        containers.length = 1;
+        containers[0] = [];
+      }
+    }
+  }
+};
+
+// ==================== 页面扫描 ====================
+
+const IDENTITY = [1, 0, 0, 1, 0, 0];
+
+// m × ctm（PDF 行向量约定）
+const multiply = (m: number[], ctm: number[]) => [
+  m[0] * ctm[0] + m[1] * ctm[2],
+  m[0] * ctm[1] + m[1] * ctm[3],
+  m[2] * ctm[0] + m[3] * ctm[2],
+  m[2] * ctm[1] + m[3] * ctm[3],
+  m[4] * ctm[0] + m[5] * ctm[2] + ctm[4],
+  m[4] * ctm[1] + m[5] * ctm[3] + ctm[5]
+];
+
+// 单位正方形（图片空间）经 ctm 变换后的外接框
+const unitSquareBounds = (ctm: number[]) => {
+  const points = [[0, 0], [1, 0], [0, 1], [1, 1]].map(([x, y]) => [ctm[0] * x + ctm[2] * y + ctm[4], ctm[1] * x + ctm[3] * y + ctm[5]]);
+  const xs = points.map(point => point[0]);
+  const ys = points.map(point => point[1]);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+};
+
+// 字体是否嵌入：Type3 字形在 PDF 内定义；Type0 看后代字体的 FontDescriptor
+const isFontEmbedded = (font: PDFDict): boolean => {
+  const subtype = getName(font, 'Subtype');
+  if (subtype === 'Type3') return true;
+  let owner: PDFDict | undefined = font;
+  if (subtype === 'Type0') {
+    const descendants = get(font, 'DescendantFonts');
+    owner = descendants instanceof PDFArray ? asDict(descendants.lookup(0)) : undefined;
+  }
+  const descriptor = asDict(get(owner, 'FontDescriptor'));
+  return !!descriptor && ['FontFile', 'FontFile2', 'FontFile3'].some(key => get(descriptor, key));
+};
+
+const scanPage = (page: PDFPage): PageScan => {
+  const scan: PageScan = { fonts: new Map(), images: [], rgbText: 0, rgbVectors: 0, richBlackText: 0, maxInk: 0, spots: new Set() };
+
+  const useColor = (color: ColorState, target: 'text' | 'vector', resources: PDFDict | undefined) => {
+    let colorSpace = color.space;
+    // 渐变图案：取其 Shading 的颜色空间
+    if (colorSpace.kind === 'pattern' && color.pattern) {
+      const pattern = asDict(getResource(resources, 'Pattern', color.pattern));
+      if (getNumber(pattern, 'PatternType') === 2) colorSpace = resolveColorSpace(get(asDict(get(pattern, 'Shading')), 'ColorSpace'), resources);
+    }
+    colorSpace.spots.forEach(name => scan.spots.add(name));
+    if (colorSpace.kind === 'rgb') {
+      if (target === 'text') scan.rgbText++;
+      else scan.rgbVectors++;
+    }
+    if (colorSpace.kind === 'cmyk' && color.values.length === 4) {
+      const [c, m, y, k] = color.values;
+      scan.maxInk = Math.max(scan.maxInk, (c + m + y + k) * 100);
+      if (target === 'text' && k >= RICH_BLACK_K && c + m + y > 0) scan.richBlackText++;
+    }
+  };
+
+  const placeImage = (width: number, height: number, colorSpace: ColorSpaceInfo, ctm: number[]) => {
+    const widthPt = Math.hypot(ctm[0], ctm[1]);
+    const heightPt = Math.hypot(ctm[2], ctm[3]);
+    if (!width || !height || widthPt * PT_TO_MM < MIN_IMAGE_SIDE_MM || heightPt * PT_TO_MM < MIN_IMAGE_SIDE_MM) return;
+    scan.images.push({
+      width,
+      height,
+      ppi: Math.min(width / (widthPt / 72), height / (heightPt / 72)),
+      widthMm: widthPt * PT_TO_MM,
+      heightMm: heightPt * PT_TO_MM,
+      space: colorSpace,
+      bounds: unitSquareBounds(ctm)
+    });
+  };
+
+  const scanContent = (bytes: Uint8Array, resources: PDFDict | undefined, ctm: number[], forms: Set<PDFObject>) => {
+    const defaultColor = initialColor(space('gray'));
+    let state: GraphicsState = { ctm, fill: defaultColor, stroke: defaultColor, textRender: 0 };
+    const saved: GraphicsState[] = [];
+
+    const setSpace = (name: Operand) => initialColor(typeof name === 'string' ? resolveColorSpace(PDFName.of(name), resources) : space('other'));
+    const setValues = (color: ColorState, operands: Operand[]): ColorState => {
+      const last = operands[operands.length - 1];
+      return {
+        space: color.space,
+        values: operands.filter((value): value is number => typeof value === 'number'),
+        pattern: typeof last === 'string' ? last : undefined
+      };
+    };
+    const showText = () => {
+      const mode = state.textRender % 4;  // 0 填充 / 1 描边 / 2 填充+描边 / 3 不可见
+      if (mode === 0 || mode === 2) useColor(state.fill, 'text', resources);
+      if (mode === 1 || mode === 2) useColor(state.stroke, 'text', resources);
+    };
+
+    parseContentStream(bytes, (operator, operands) => {
+      switch (operator) {
+        case 'q': saved.push(state); break;
+        case 'Q': state = saved.pop() || state; break;
+        case 'cm':
+          if (operands.length === 6 && operands.every(value => typeof value === 'number')) {
+            state = { ...state, ctm: multiply(operands as number[], state.ctm) };
+          }
+          break;
+        case 'g': state = { ...state, fill: { space: space('gray'), values: operands as number[] } }; break;
+        case 'G': state = { ...state, stroke: { space: space('gray'), values: operands as number[] } }; break;
+        case 'rg': state = { ...state, fill: { space: space('rgb'), values: operands as number[] } }; break;
+        case 'RG': state = { ...state, stroke: { space: space('rgb'), values: operands as number[] } }; break;
+        case 'k': state = { ...state, fill: { space: space('cmyk'), values: operands as number[] } }; break;
+        case 'K': state = { ...state, stroke: { space: space('cmyk'), values: operands as number[] } }; break;
+        case 'cs': state = { ...state, fill: setSpace(operands[0]) }; break;
+        case 'CS': state = { ...state, stroke: setSpace(operands[0]) }; break;
+        case 'sc': case 'scn': state = { ...state, fill: setValues(state.fill, operands) }; break;
+        case 'SC': case 'SCN': state = { ...state, stroke: setValues(state.stroke, operands) }; break;
+        case 'Tr': state = { ...state, textRender: typeof operands[0] === 'number' ? operands[0] : 0 }; break;
+        case 'f': case 'F': case 'f*':
+          useColor(state.fill, 'vector', resources);
+          break;
+        case 'S': case 's':
+          useColor(state.stroke, 'vector', resources);
+          break;
+        case 'B': case 'B*': case 'b': case 'b*':
+          useColor(state.fill, 'vector', resources);
+          useColor(state.stroke, 'vector', resources);
+          break;
+        case 'Tj': case 'TJ': case "'": case '"':
+          showText();
+          break;
+        case 'Tf': {
+          const font = typeof operands[0] === 'string' ? asDict(getResource(resources, 'Font', operands[0])) : undefined;
+          if (font) {
+            const name = (getName(font, 'BaseFont') || operands[0] as string).replace(/^[A-Z]{6}\+/, '');  // 去掉子集前缀
+            scan.fonts.set(name, (scan.fonts.get(name) ?? true) && isFontEmbedded(font));
+          }
+          break;
+        }
+        case 'sh': {
+          const shading = typeof operands[0] === 'string' ? asDict(getResource(resources, 'Shading', operands[0])) : undefined;
+          if (shading) useColor(initialColor(resolveColorSpace(get(shading, 'ColorSpace'), resources)), 'vector', resources);
+          break;
+        }
+        case 'BI': {
+          const dict = operands[0] as OperandDict;
+          if (dict.IM === true || dict.ImageMask === true) break;
+          placeImage(Number(dict.W ?? dict.Width), Number(dict.H ?? dict.Height), resolveInlineColorSpace(dict.CS ?? dict.ColorSpace, resources), state.ctm);
+          break;
+        }
+        case 'Do': {
+          const xobject = typeof operands[0] === 'string' ? getResource(resources, 'XObject', operands[0]) : undefined;
+          const dict = asDict(xobject);
+          if (!xobject || !dict) break;
+          const subtype = getName(dict, 'Subtype');
+          if (subtype === 'Image') {
+            const imageMask = get(dict, 'ImageMask');
+            if (imageMask instanceof PDFBool && imageMask.asBoolean()) break;  // 模板蒙版（单色线稿）不检查
+            placeImage(getNumber(dict, 'Width') || 0, getNumber(dict, 'Height') || 0, resolveColorSpace(get(dict, 'ColorSpace'), resources), state.ctm);
+          } else if (subtype === 'Form' && !forms.has(xobject) && forms.size < MAX_FORM_DEPTH) {
+            const content = decodeStream(xobject);
+            if (!content) break;
+            const matrix = getNumbers(get(dict, 'Matrix'));
+            forms.add(xobject);
+            scanContent(content, asDict(get(dict, 'Resources')) || resources, matrix?.length === 6 ? multiply(matrix, state.ctm) : state.ctm, forms);
+            forms.delete(xobject);
+          }
+          break;
+        }
+      }
+    });
+  };
+
+  const contents = page.node.Contents();
+  const streams = contents instanceof PDFArray ? contents.asArray().map((_, i) => contents.lookup(i)) : [contents];
+  const parts = streams.map(decodeStream).filter((part): part is Uint8Array => !!part);
+  // 多个内容流按顺序拼接（流之间用换行分隔，操作符可能跨流）
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length + 1, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    bytes.set(part, offset);
+    bytes[offset + part.length] = 10;
+    offset += part.length + 1;
+  });
+  scanContent(bytes, page.node.Resources(), IDENTITY, new Set());
+  return scan;
+};
+
+// ==================== 问题生成 ====================
+
+const mm = (pt: number) => Math.round(pt * PT_TO_MM * 10) / 10;
+
+// 用户空间外接框 → 渲染视口（裁切框 + 页面旋转）下的 0-1000 归一化坐标
+const toViewBox = (bounds: number[], view: number[], rotation: number): BoundingBox => {
+  const width = view[2] - view[0];
+  const height = view[3] - view[1];
+  const clamp = (value: number) => Math.min(1000, Math.max(0, value * 1000));
+  const left = (bounds[0] - view[0]) / width;
+  const right = (bounds[2] - view[0]) / width;
+  const top = (view[3] - bounds[3]) / height;
+  const bottom = (view[3] - bounds[1]) / height;
+  switch (((rotation % 360) + 360) % 360) {
+    case 90: return { xmin: clamp(1 - bottom), xmax: clamp(1 - top), ymin: clamp(left), ymax: clamp(right) };
+    case 180: return { xmin: clamp(1 - right), xmax: clamp(1 - left), ymin: clamp(1 - bottom), ymax: clamp(1 - top) };
+    case 270: return { xmin: clamp(top), xmax: clamp(bottom), ymin: clamp(1 - right), ymax: clamp(1 - left) };
+    default: return { xmin: clamp(left), xmax: clamp(right), ymin: clamp(top), ymax: clamp(bottom) };
+  }
+};
+
+const preflightPage = (page: PDFPage, pageNumber: number, hasOutputIntent: boolean): PreflightIssue[] => {
+  const issues: PreflightIssue[] = [];
+  const add = (check: PreflightCheck, issue: Omit<PreflightIssue, 'id' | 'check' | 'confidence'>) => {
+    issues.push({ id: `preflight-${pageNumber}-${check}-${issues.length}`, check, confidence: 'certain', ...issue });
+  };
+
+  // 出血：BleedBox 缺省为 CropBox，都限制在 MediaBox 内
+  const mediaBox = getBox(page.node.MediaBox()) || [0, 0, 612, 792];
+  const view = intersectBox(getBox(page.node.CropBox()) || mediaBox, mediaBox);
+  const trimBox = getBox(get(page.node, 'TrimBox'));
+  if (!trimBox) {
+    add('no_trim_box', {
+      type: 'file_setting',
+      problem: '页面未设置成品尺寸（TrimBox），无法确认裁切位置和出血',
+      suggestion: '使用 PDF/X 预设导出，并勾选“使用文档出血设置”',
+      severity: 'medium'
+    });
+  } else {
+    const bleedBox = intersectBox(getBox(get(page.node, 'BleedBox')) || view, mediaBox);
+    const sides = {
+      上: bleedBox[3] - trimBox[3],
+      下: trimBox[1] - bleedBox[1],
+      左: trimBox[0] - bleedBox[0],
+      右: bleedBox[2] - trimBox[2]
+    };
+    const minBleed = Math.max(0, Math.min(...Object.values(sides)));
+    if (mm(minBleed) < MIN_BLEED_MM) {
+      add('insufficient_bleed', {
+        type: 'bleed',
+        problem: Math.max(...Object.values(sides)) * PT_TO_MM < 0.1
+          ? '没有出血（页面内容未延伸到成品线外）'
+          : `出血不足 ${MIN_BLEED_MM}mm（${Object.entries(sides).map(([side, value]) => `${side} ${mm(Math.max(0, value))}`).join(' / ')} mm）`,
+        suggestion: `贴边的背景和图片向成品线外延伸 ${MIN_BLEED_MM}mm，导出时包含出血`,
+        severity: 'high'
+      });
+    }
+  }
+
+  if (pageNumber === 1 && !hasOutputIntent) {
+    add('no_output_intent', {
+      type: 'file_setting',
+      problem: '文件未包含输出意图（OutputIntent），不是 PDF/X 印刷文件',
+      suggestion: '使用 PDF/X-1a 或 PDF/X-4 预设导出，并指定印厂的色彩配置文件',
+      severity: 'low'
+    });
+  }
+
+  const scan = scanPage(page);
+  const rotation = page.getRotation().angle;
+
+  scan.fonts.forEach((embedded, name) => {
+    if (embedded) return;
+    add('font_not_embedded', {
+      type: 'font',
+      problem: `字体未嵌入：${name}`,
+      suggestion: '导出时嵌入全部字体，或将文字转曲',
+      severity: 'high'
+    });
+  });
+
+  scan.images.filter(image => image.ppi < MIN_IMAGE_PPI).forEach(image => {
+    add('low_resolution', {
+      type: 'image_quality',
+      problem: `图片有效分辨率 ${Math.round(image.ppi)} ppi，印刷需要 ${MIN_IMAGE_PPI} ppi（${image.width}×${image.height} 像素，置入 ${Math.round(image.widthMm)}×${Math.round(image.heightMm)} mm）`,
+      suggestion: `更换 ${MIN_IMAGE_PPI} ppi 以上的原图，或缩小置入尺寸`,
+      severity: image.ppi < LOW_IMAGE_PPI ? 'high' : 'medium',
+      box_2d: toViewBox(image.bounds, view, rotation)
+    });
+  });
+
+  const rgbImages = scan.images.filter(image => image.space.kind === 'rgb');
+  if (rgbImages.length > 0) {
+    add('rgb_image', {
+      type: 'color',
+      problem: `${rgbImages.length} 张图片为 RGB 颜色模式`,
+      suggestion: '按印厂的色彩配置文件转换为 CMYK，避免印刷偏色',
+      severity: 'medium',
+      box_2d: rgbImages.length === 1 ? toViewBox(rgbImages[0].bounds, view, rotation) : undefined
+    });
+  }
+
+  const rgbObjects = [scan.rgbText > 0 && '文字', scan.rgbVectors > 0 && '矢量图形'].filter(Boolean);
+  if (rgbObjects.length > 0) {
+    add('rgb_vector', {
+      type: 'color',
+      problem: `${rgbObjects.join('和')}使用 RGB 颜色`,
+      suggestion: '将颜色改为 CMYK 数值或专色',
+      severity: 'medium'
+    });
+  }
+
+  if (scan.richBlackText > 0) {
+    add('rich_black_text', {
+      type: 'color',
+      problem: `文字使用四色黑（K≥${RICH_BLACK_K * 100}% 且叠加 CMY），套印偏差会导致文字发虚`,
+      suggestion: '文字（尤其是小字号）改用单色黑 K100',
+      severity: 'medium'
+    });
+  }
+
+  if (scan.maxInk > MAX_INK_COVERAGE) {
+    add('ink_coverage', {
+      type: 'color',
+      problem: `最高总墨量 ${Math.round(scan.maxInk)}%，超过 ${MAX_INK_COVERAGE}%，容易糊版、背面粘脏`,
+      suggestion: '降低深色区域的 CMY 比例（如 C60 M40 Y40 K100）',
+      severity: 'high'
+    });
+  }
+
+  if (scan.spots.size > 0) {
+    add('spot_color', {
+      type: 'color',
+      problem: `使用专色：${[...scan.spots].join('、')}`,
+      suggestion: '确认专色为设计意图并与印厂核对色号；不单独印专色时转换为 CMYK',
+      severity: 'low'
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * 对 PDF 前 maxPages 页做印前检查，返回每页的问题（下标 = 页码 - 1）。
+ * 加密文件的内容流无法读取，返回空数组
+ */
+export const preflightPdf = async (data: Uint8Array, maxPages: number): Promise<PreflightIssue[][]> => {
+  const doc = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+  if (doc.isEncrypted) return [];
+  const hasOutputIntent = get(doc.catalog, 'OutputIntents') instanceof PDFArray;
+  return doc.getPages().slice(0, maxPages).map((page, index) => {
+    try {
+      return preflightPage(page, index + 1, hasOutputIntent);
+    } catch (error) {
+      console.error(`Preflight failed on page ${index + 1}:`, error);
+      return [];
+    }
+  });
+};
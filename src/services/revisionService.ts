@@ -0,0 +1,481 @@
+/**
+ * 设计稿修订对比
+ * 把同一设计稿的上一版与当前版本对齐后计算像素差异热力图、OCR 文本差异，
+ * 并把上一版报告的问题与当前版本的问题配对，区分已修复 / 仍存在 / 新增
+ */
+
+import { BoundingBox, DiagnosisIssue, ImageItem } from '../types/types';
+import { issueSimilarity } from './consensusService';
+import { applyAllowListToIssues } from './lexiconService';
+import { normalizeForMatch } from './textNormalizeService';
+
+const ALIGN_SIZE = 128;            // 粗对齐的工作尺寸（长边像素）
+const DIFF_SIZE = 1024;            // 差异计算的工作尺寸（长边像素）
+const ALIGN_SCALES = [0.96, 0.98, 1, 1.02, 1.04]; // 重新导出时画板尺寸可能略有变化
+const MAX_SHIFT = 0.1;             // 平移搜索范围（占边长的比例）
+const DIFF_THRESHOLD = 40;         // 通道差（0-255）超过阈值视为变化
+const CELL_SIZE = 16;              // 变化区域网格（像素）
+const CELL_CHANGED_RATIO = 0.08;   // 网格内变化像素占比达到该值视为变化网格
+const MAX_REGIONS = 50;
+const ISSUE_MATCH_THRESHOLD = 0.6; // 与多模型共识相同的配对阈值
+const MAX_CHAR_DIFF_LENGTH = 400;  // 超过该长度的行不做字符级差异
+
+// 上一版 0-1000 坐标 → 当前版本 0-1000 坐标
+export interface RevisionAlignment {
+  scaleX: number;
+  scaleY: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface RevisionVisualDiff {
+  heatmap: string;            // PNG data URL（与当前版本图片同比例，未变化处透明）
+  regions: BoundingBox[];     // 变化区域（当前版本 0-1000 坐标）
+  changedRatio: number;       // 变化像素占比（0-1）
+  alignment: RevisionAlignment;
+}
+
+export type TextDiffSegment = { type: 'same' | 'added' | 'removed'; text: string };
+
+export interface TextDiffEntry {
+  type: 'same' | 'added' | 'removed' | 'changed';
+  before?: string;
+  after?: string;
+  segments?: TextDiffSegment[]; // changed 行的字符级差异
+}
+
+export type RevisionIssueStatus = 'fixed' | 'persisting' | 'new';
+
+export interface RevisionIssue {
+  id: string;
+  status: RevisionIssueStatus;
+  kind: 'ai' | 'rule' | 'lexicon' | 'preflight';
+  original: string;
+  problem: string;
+  severity: 'high' | 'medium' | 'low';
+  box_2d?: BoundingBox;       // fixed 为上一版坐标，其余为当前版本坐标
+  reason?: string;            // 判定依据（未被模型重复报告时的补充说明）
+}
+
+export const REVISION_STATUS_LABELS: Record<RevisionIssueStatus, string> = {
+  fixed: '已修复',
+  persisting: '仍存在',
+  new: '新增'
+};
+
+/**
+ * 图片的修订链是否包含 targetId（用于避免把图片标记为自己后续版本的修订版，形成环）
+ */
+export const isInRevisionChain = (images: ImageItem[], imageId: string, targetId: string): boolean => {
+  const seen = new Set<string>();
+  let current: string | undefined = imageId;
+  while (current && !seen.has(current)) {
+    if (current === targetId) return true;
+    seen.add(current);
+    current = images.find(image => image.id === current)?.revisionOf;
+  }
+  return false;
+};
+
+// ==================== 像素差异 ====================
+
+// 用 base64 解码（云端加载的图片 src 为跨域地址，画布读取像素会受限）
+const loadImage = (item: ImageItem): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('图片加载失败'));
+    image.src = item.base64 ? `data:${item.file.type || 'image/jpeg'};base64,${item.base64}` : item.src;
+  });
+
+const fitSize = (width: number, height: number, longSide: number) => {
+  const scale = longSide / Math.max(width, height);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// 把图片按 (scale, x, y) 画到白底画布上，返回 RGBA 像素
+const drawPixels = (image: HTMLImageElement, width: number, height: number, scale: number, x = 0, y = 0): Uint8ClampedArray => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('无法创建画布');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(image, x, y, image.naturalWidth * scale, image.naturalHeight * scale);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+const toGray = (pixels: Uint8ClampedArray): Float32Array => {
+  const gray = new Float32Array(pixels.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+  }
+  return gray;
+};
+
+// 平均绝对差（只统计重叠区域，重叠不足一半时视为不匹配）
+const meanDifference = (current: Float32Array, previous: Float32Array, width: number, height: number, dx: number, dy: number) => {
+  let sum = 0;
+  let count = 0;
+  for (let y = Math.max(0, dy); y < Math.min(height, height + dy); y++) {
+    const rowCurrent = y * width;
+    const rowPrevious = (y - dy) * width;
+    for (let x = Math.max(0, dx); x < Math.min(width, width + dx); x++) {
+      sum += Math.abs(current[rowCurrent + x] - previous[rowPrevious + x - dx]);
+      count++;
+    }
+  }
+  return count < (width * height) / 2 ? Infinity : sum / count;
+};
+
+/**
+ * 对齐两版图片：上一版按宽度缩放到当前版本，在小尺寸上搜索缩放和平移，再在差异尺寸上细调平移
+ */
+const alignImages = (previous: HTMLImageElement, current: HTMLImageElement) => {
+  const coarse = fitSize(current.naturalWidth, current.naturalHeight, ALIGN_SIZE);
+  const coarseCurrent = toGray(drawPixels(current, coarse.width, coarse.height, coarse.width / current.naturalWidth));
+  const maxShift = Math.round(Math.max(coarse.width, coarse.height) * MAX_SHIFT);
+
+  let best = { scale: 1, dx: 0, dy: 0, score: Infinity };
+  for (const scale of ALIGN_SCALES) {
+    const coarsePrevious = toGray(drawPixels(previous, coarse.width, coarse.height, (coarse.width / previous.naturalWidth) * scale));
+    for (let dy = -maxShift; dy <= maxShift; dy++) {
+      for (let dx = -maxShift; dx <= maxShift; dx++) {
+        const score = meanDifference(coarseCurrent, coarsePrevious, coarse.width, coarse.height, dx, dy);
+        if (score < best.score) best = { scale, dx, dy, score };
+      }
+    }
+  }
+
+  const fine = fitSize(current.naturalWidth, current.naturalHeight, DIFF_SIZE);
+  const ratio = fine.width / coarse.width;
+  const fineCurrent = toGray(drawPixels(current, fine.width, fine.height, fine.width / current.naturalWidth));
+  const finePrevious = toGray(drawPixels(previous, fine.width, fine.height, (fine.width / previous.naturalWidth) * best.scale));
+  const range = Math.ceil(ratio / 2);  // 粗对齐误差在半个粗像素内
+  let refined = { dx: Math.round(best.dx * ratio), dy: Math.round(best.dy * ratio), score: Infinity };
+  const center = { dx: refined.dx, dy: refined.dy };
+  for (let dy = center.dy - range; dy <= center.dy + range; dy++) {
+    for (let dx = center.dx - range; dx <= center.dx + range; dx++) {
+      const score = meanDifference(fineCurrent, finePrevious, fine.width, fine.height, dx, dy);
+      if (score < refined.score) refined = { dx, dy, score };
+    }
+  }
+  return { fine, scale: best.scale, dx: refined.dx, dy: refined.dy };
+};
+
+// 变化网格的连通区域 → 外接框
+const findRegions = (changed: Uint8Array, width: number, height: number): BoundingBox[] => {
+  const columns = Math.ceil(width / CELL_SIZE);
+  const rows = Math.ceil(height / CELL_SIZE);
+  const cells = new Uint8Array(columns * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let count = 0;
+      let total = 0;
+      for (let y = row * CELL_SIZE; y < Math.min(height, (row + 1) * CELL_SIZE); y++) {
+        for (let x = column * CELL_SIZE; x < Math.min(width, (column + 1) * CELL_SIZE); x++) {
+          count += changed[y * width + x];
+          total++;
+        }
+      }
+      cells[row * columns + column] = count / total >= CELL_CHANGED_RATIO ? 1 : 0;
+    }
+  }
+
+  const regions: { box: BoundingBox; area: number }[] = [];
+  const visited = new Uint8Array(cells.length);
+  for (let start = 0; start < cells.length; start++) {
+    if (!cells[start] || visited[start]) continue;
+    const queue = [start];
+    visited[start] = 1;
+    let [minColumn, minRow, maxColumn, maxRow] = [columns, rows, 0, 0];
+    while (queue.length > 0) {
+      const index = queue.pop()!;
+      const column = index % columns;
+      const row = Math.floor(index / columns);
+      minColumn = Math.min(minColumn, column);
+      maxColumn = Math.max(maxColumn, column);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+      const neighbours = [
+        column > 0 ? index - 1 : -1,
+        column < columns - 1 ? index + 1 : -1,
+        row > 0 ? index - columns : -1,
+        row < rows - 1 ? index + columns : -1
+      ];
+      neighbours.forEach(next => {
+        if (next >= 0 && cells[next] && !visited[next]) {
+          visited[next] = 1;
+          queue.push(next);
+        }
+      });
+    }
+    regions.push({
+      box: {
+        xmin: ((minColumn * CELL_SIZE) / width) * 1000,
+        ymin: ((minRow * CELL_SIZE) / height) * 1000,
+        xmax: Math.min(1000, (((maxColumn + 1) * CELL_SIZE) / width) * 1000),
+        ymax: Math.min(1000, (((maxRow + 1) * CELL_SIZE) / height) * 1000)
+      },
+      area: (maxColumn - minColumn + 1) * (maxRow - minRow + 1)
+    });
+  }
+  return regions.sort((a, b) => b.area - a.area).slice(0, MAX_REGIONS).map(region => region.box);
+};
+
+/**
+ * 对齐后逐像素比较两版图片（取 RGB 通道最大差，颜色变化也能识别），生成热力图和变化区域
+ */
+export const computeVisualDiff = async (previousImage: ImageItem, currentImage: ImageItem): Promise<RevisionVisualDiff> => {
+  const [previous, current] = await Promise.all([loadImage(previousImage), loadImage(currentImage)]);
+  const { fine, scale, dx, dy } = alignImages(previous, current);
+  const { width, height } = fine;
+
+  const currentPixels = drawPixels(current, width, height, width / current.naturalWidth);
+  const previousPixels = drawPixels(previous, width, height, (width / previous.naturalWidth) * scale, dx, dy);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('无法创建画布');
+  const heatmap = ctx.createImageData(width, height);
+  const changed = new Uint8Array(width * height);
+  let changedCount = 0;
+
+  for (let i = 0; i < changed.length; i++) {
+    const offset = i * 4;
+    const difference = Math.max(
+      Math.abs(currentPixels[offset] - previousPixels[offset]),
+      Math.abs(currentPixels[offset + 1] - previousPixels[offset + 1]),
+      Math.abs(currentPixels[offset + 2] - previousPixels[offset + 2])
+    );
+    if (difference < DIFF_THRESHOLD) continue;
+    changed[i] = 1;
+    changedCount++;
+    heatmap.data[offset] = 239;
+    heatmap.data[offset + 1] = 68;
+    heatmap.data[offset + 2] = 68;
+    heatmap.data[offset + 3] = Math.min(255, 96 + difference);
+  }
+  ctx.putImageData(heatmap, 0, 0);
+
+  const previousAspect = previous.naturalHeight / previous.naturalWidth;
+  const currentAspect = current.naturalHeight / current.naturalWidth;
+  return {
+    heatmap: canvas.toDataURL('image/png'),
+    regions: findRegions(changed, width, height),
+    changedRatio: changedCount / changed.length,
+    alignment: {
+      scaleX: scale,
+      scaleY: (scale * previousAspect) / currentAspect,
+      offsetX: (dx / width) * 1000,
+      offsetY: (dy / height) * 1000
+    }
+  };
+};
+
+export const mapBoxToCurrent = (box: BoundingBox, alignment: RevisionAlignment): BoundingBox => ({
+  xmin: box.xmin * alignment.scaleX + alignment.offsetX,
+  xmax: box.xmax * alignment.scaleX + alignment.offsetX,
+  ymin: box.ymin * alignment.scaleY + alignment.offsetY,
+  ymax: box.ymax * alignment.scaleY + alignment.offsetY
+});
+
+// ==================== 文本差异 ====================
+
+const compactLine = (line: string) => normalizeForMatch(line).replace(/\s+/g, ' ').trim().toLowerCase();
+
+// 最长公共子序列回溯，返回按顺序的 same / removed / added 操作
+const lcsDiff = <T>(before: T[], after: T[], equals: (a: T, b: T) => boolean): { type: 'same' | 'removed' | 'added'; index: number }[] => {
+  const table: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      table[i][j] = equals(before[i], after[j]) ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  const ops: { type: 'same' | 'removed' | 'added'; index: number }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && equals(before[i], after[j])) {
+      ops.push({ type: 'same', index: j });
+      i++;
+      j++;
+    } else if (i < before.length && (j === after.length || table[i + 1][j] >= table[i][j + 1])) {
+      ops.push({ type: 'removed', index: i++ });
+    } else {
+      ops.push({ type: 'added', index: j++ });
+    }
+  }
+  return ops;
+};
+
+// 字符差异；两行相同字符过少（基本是另一行文字）时返回 undefined，按整行删除 + 新增显示
+const charDiff = (before: string, after: string): TextDiffSegment[] | undefined => {
+  const segments: TextDiffSegment[] = [];
+  const left = [...before];
+  const right = [...after];
+  lcsDiff(left, right, (a, b) => a === b).forEach(op => {
+    const text = op.type === 'removed' ? left[op.index] : right[op.index];
+    const last = segments[segments.length - 1];
+    if (last && last.type === op.type) last.text += text;
+    else segments.push({ type: op.type, text });
+  });
+  const sameLength = segments.reduce((sum, segment) => sum + (segment.type === 'same' ? segment.text.length : 0), 0);
+  return sameLength * 2 >= Math.min(left.length, right.length) ? segments : undefined;
+};
+
+/**
+ * 按行比较两版 OCR 文本（忽略全半角、大小写和多余空白）；相邻的删除 + 新增行配成修改行并给出字符级差异
+ */
+export const diffOcrText = (before: string, after: string): TextDiffEntry[] => {
+  const beforeLines = before.split('\n').filter(line => line.trim());
+  const afterLines = after.split('\n').filter(line => line.trim());
+  const entries: TextDiffEntry[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      entries.push({
+        type: 'changed',
+        before: removed[k],
+        after: added[k],
+        segments: removed[k].length + added[k].length <= MAX_CHAR_DIFF_LENGTH ? charDiff(removed[k], added[k]) : undefined
+      });
+    }
+    removed.slice(paired).forEach(line => entries.push({ type: 'removed', before: line }));
+    added.slice(paired).forEach(line => entries.push({ type: 'added', after: line }));
+    removed = [];
+    added = [];
+  };
+
+  lcsDiff(beforeLines, afterLines, (a, b) => compactLine(a) === compactLine(b)).forEach(op => {
+    if (op.type === 'removed') removed.push(beforeLines[op.index]);
+    else if (op.type === 'added') added.push(afterLines[op.index]);
+    else {
+      flush();
+      entries.push({ type: 'same', before: afterLines[op.index], after: afterLines[op.index] });
+    }
+  });
+  flush();
+  return entries;
+};
+
+// ==================== 问题追踪 ====================
+
+// matchKey：没有引用原文的问题（印前检查、缺少批号等规则）无法按文本相似度配对，按检查项 + 描述直接配对
+type ReviewIssue = Omit<RevisionIssue, 'status' | 'reason'> & { matchKey?: string };
+
+/**
+ * 图片的全部问题（AI 建议、确定性规则、未被忽略的词库命中、印前检查）；modelId 没有结果时取第一个已分析模型
+ */
+export const collectReviewIssues = (image: ImageItem, modelId: string, allowList: string[]): ReviewIssue[] => {
+  const tabData = image.issuesByModel?.[modelId] || Object.values(image.issuesByModel || {})[0];
+  const ocrText = image.ocrText || '';
+  const lexiconIssues = applyAllowListToIssues(tabData?.lexiconIssues || [], allowList, image.ocrText).filter(issue => !issue.suppressed);
+  return [
+    ...(tabData?.issues || image.issues || []).map(issue => ({
+      id: issue.id, kind: 'ai' as const, original: issue.original || issue.text || '', problem: issue.problem || '', severity: issue.severity, box_2d: issue.box_2d
+    })),
+    ...(tabData?.deterministicIssues || image.deterministicIssues || []).map(issue => {
+      const original = issue.position !== undefined && issue.length ? ocrText.slice(issue.position, issue.position + issue.length) : '';
+      return {
+        id: issue.id,
+        kind: 'rule' as const,
+        original,
+        problem: issue.description,
+        severity: issue.severity,
+        box_2d: issue.box_2d,
+        matchKey: original ? undefined : `rule:${issue.ruleId || issue.type}:${issue.description}`
+      };
+    }),
+    ...lexiconIssues.map(issue => ({
+      id: issue.id, kind: 'lexicon' as const, original: issue.original, problem: issue.problem, severity: issue.severity, box_2d: issue.box_2d
+    })),
+    ...(image.preflight || []).map(issue => ({
+      id: issue.id, kind: 'preflight' as const, original: '', problem: issue.problem, severity: issue.severity, box_2d: issue.box_2d,
+      matchKey: `preflight:${issue.check}:${issue.problem}`
+    }))
+  ];
+};
+
+const asDiagnosisIssue = (issue: ReviewIssue, box?: BoundingBox): DiagnosisIssue => ({
+  id: issue.id, type: 'content', original: issue.original, problem: issue.problem, suggestion: '', severity: issue.severity, box_2d: box
+});
+
+const containsText = (text: string, fragment: string) => {
+  const needle = compactLine(fragment);
+  return needle.length >= 2 && compactLine(text).includes(needle);
+};
+
+/**
+ * 配对两版问题：没有引用原文的问题按 matchKey 配对，其余同类问题按原文 / 描述相似度和（对齐后的）区域重叠度贪心配对。
+ * 没有配对上的上一版问题，原文仍在当前版本中时判为仍存在（模型这次没有重复报告），否则为已修复
+ */
+export const trackRevisionIssues = (
+  previous: ImageItem,
+  current: ImageItem,
+  modelId: string,
+  allowList: string[],
+  alignment?: RevisionAlignment
+): RevisionIssue[] => {
+  const previousIssues = collectReviewIssues(previous, modelId, allowList);
+  const currentIssues = collectReviewIssues(current, modelId, allowList);
+
+  const matchedPrevious = new Set<number>();
+  const matchedCurrent = new Set<number>();
+  const results: RevisionIssue[] = [];
+  const pair = (previousIndex: number, currentIndex: number) => {
+    matchedPrevious.add(previousIndex);
+    matchedCurrent.add(currentIndex);
+    const { matchKey, ...issue } = currentIssues[currentIndex];
+    results.push({ ...issue, status: 'persisting' });
+  };
+
+  // 有 matchKey 的问题先按键配对
+  previousIssues.forEach((before, previousIndex) => {
+    if (!before.matchKey) return;
+    const currentIndex = currentIssues.findIndex((after, index) => !matchedCurrent.has(index) && after.matchKey === before.matchKey);
+    if (currentIndex >= 0) pair(previousIndex, currentIndex);
+  });
+
+  const candidates: { previousIndex: number; currentIndex: number; score: number }[] = [];
+  previousIssues.forEach((before, previousIndex) => {
+    if (before.matchKey) return;
+    const mappedBox = before.box_2d && alignment ? mapBoxToCurrent(before.box_2d, alignment) : before.box_2d;
+    currentIssues.forEach((after, currentIndex) => {
+      if (before.kind !== after.kind || after.matchKey) return;
+      const score = issueSimilarity(asDiagnosisIssue(before, mappedBox), asDiagnosisIssue(after, after.box_2d));
+      if (score >= ISSUE_MATCH_THRESHOLD) candidates.push({ previousIndex, currentIndex, score });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  candidates.forEach(({ previousIndex, currentIndex }) => {
+    if (matchedPrevious.has(previousIndex) || matchedCurrent.has(currentIndex)) return;
+    pair(previousIndex, currentIndex);
+  });
+
+  previousIssues.forEach(({ matchKey, ...issue }, index) => {
+    if (matchedPrevious.has(index)) return;
+    if (issue.kind !== 'preflight' && containsText(current.ocrText || '', issue.original)) {
+      results.push({ ...issue, box_2d: issue.box_2d && alignment ? mapBoxToCurrent(issue.box_2d, alignment) : undefined, status: 'persisting', reason: '原文未修改，本次分析未重复报告' });
+    } else {
+      results.push({ ...issue, status: 'fixed' });
+    }
+  });
+
+  currentIssues.forEach(({ matchKey, ...issue }, index) => {
+    if (matchedCurrent.has(index)) return;
+    const unchanged = issue.kind !== 'preflight' && containsText(previous.ocrText || '', issue.original);
+    results.push({ ...issue, status: 'new', reason: unchanged ? '原文未修改，上一版未报告' : undefined });
+  });
+
+  const order: RevisionIssueStatus[] = ['persisting', 'new', 'fixed'];
+  const severity = ['high', 'medium', 'low'];
+  return results.sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status) || severity.indexOf(a.severity) - severity.indexOf(b.severity));
+};
@@ -0,0 +1,98 @@
+/**
+ * 文本归一化（词库匹配用）
+ * 全角 → 半角、繁体 → 简体均为单字替换，归一化前后长度一致，命中位置可直接映射回原文
+ */
+
+import variantsData from '../../data/cjk-variants.json';
+
+const traditionalToSimplified = new Map<string, string>();
+for (let i = 0; i < variantsData.traditional.length; i++) {
+  traditionalToSimplified.set(variantsData.traditional[i], variantsData.simplified[i]);
+}
+
+// 中日韩文字（汉字、假名、谚文）
+const CJK_REGEX = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/;
+
+export const containsCjk = (text: string): boolean => CJK_REGEX.test(text);
+
+/**
+ * 单字归一化：全角 ASCII / 全角空格 → 半角，繁体 → 简体
+ */
+const normalizeChar = (char: string): string => {
+  const code = char.charCodeAt(0);
+  if (code >= 0xff01 && code <= 0xff5e) {
+    return String.fromCharCode(code - 0xfee0);
+  }
+  if (code === 0x3000) {
+    return ' ';
+  }
+  return traditionalToSimplified.get(char) || char;
+};
+
+/**
+ * 归一化文本（不改变长度，不改变大小写）
+ */
+export const normalizeForMatch = (text: string): string => {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    result += normalizeChar(text[i]);
+  }
+  return result;
+};
+
+/**
+ * 转义正则特殊字符
+ */
+export const escapeRegex = (str: string): string => {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
+
+const WORD_CHAR = /[A-Za-z0-9_]/;
+
+/**
+ * 关键词正则：只在拉丁字母 / 数字边界加 \b，中文等无词边界的文字按子串匹配
+ * 如 "cure" → \bcure\b，"美白" → 美白，"FDA认证" → \bFDA认证
+ */
+export const buildKeywordSource = (keyword: string): string => {
+  const normalized = normalizeForMatch(keyword.trim());
+  const prefix = WORD_CHAR.test(normalized[0] || '') ? '\\b' : '';
+  const suffix = WORD_CHAR.test(normalized[normalized.length - 1] || '') ? '\\b' : '';
+  return `${prefix}${escapeRegex(normalized)}${suffix}`;
+};
+
+/**
+ * 英文词形变化：cure → cure/cures/cured/curing，remedy → remedies，stop → stopped
+ */
+const inflectWord = (word: string): string => {
+  const lower = word.toLowerCase();
+  if (!/^[a-z]+$/.test(lower) || lower.length < 3) {
+    return escapeRegex(word);
+  }
+  if (lower.endsWith('e')) {
+    return `${lower.slice(0, -1)}(?:e|es|ed|ing)`;
+  }
+  if (/[^aeiou]y$/.test(lower)) {
+    return `${lower.slice(0, -1)}(?:y|ies|ied|ying)`;
+  }
+  if (/(?:s|x|z|ch|sh)$/.test(lower)) {
+    return `${lower}(?:es|ed|ing)?`;
+  }
+  // 辅音-元音-辅音结尾（stop → stopped / stopping）允许双写末尾辅音
+  if (/[^aeiou][aeiou][bdgklmnprt]$/.test(lower)) {
+    const last = lower[lower.length - 1];
+    return `${lower}(?:s|ed|ing|${last}ed|${last}ing)?`;
+  }
+  return `${lower}(?:s|ed|ing)?`;
+};
+
+/**
+ * 词干匹配正则：逐词展开英文词形变化，非英文部分按关键词处理
+ */
+export const buildStemSource = (pattern: string): string => {
+  const normalized = normalizeForMatch(pattern.trim());
+  if (containsCjk(normalized)) {
+    return buildKeywordSource(normalized);
+  }
+  const words = normalized.split(/\s+/).filter(Boolean);
+  return `\\b${words.map(inflectWord).join('\\s+')}\\b`;
+};
@@ -0,0 +1,233 @@
+/**
+ * 高清分块分析
+ * 大幅面刀版图（如 A1 导出稿）整图发送时会被压缩，小字号法规文字无法识别。
+ * 这里把原图切成互相重叠的分块分别分析，再把 box_2d 映射回整图坐标，
+ * 合并重叠区重复报告的问题，并按阅读顺序拼接各块的 OCR 行
+ */
+
+import { BoundingBox, DiagnosisIssue, OcrLine, SourceField } from '../types/types';
+import { textSimilarity } from './consensusService';
+
+export const TILE_SIZE = 2048;              // 分块边长（像素）
+export const TILE_OVERLAP = 256;            // 相邻分块重叠宽度，需大于一行小字的高度，避免文字被切断
+export const MAX_TILES = 16;                // 分块数上限，超出时放大分块边长
+export const TILED_ANALYSIS_MIN_SIDE = 3072; // 长边达到该值才分块，更小的图整图发送即可
+
+const DUPLICATE_TEXT_SIMILARITY = 0.7;      // 重叠区内文字相似度达到阈值视为同一行 / 同一问题
+const DUPLICATE_BOX_OVERLAP = 0.5;          // 交集占较小框面积的比例
+
+export interface ImageTile {
+  index: number;
+  x: number;       // 原图像素坐标
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TilePlan {
+  width: number;   // 原图尺寸
+  height: number;
+  tiles: ImageTile[];
+}
+
+// 单轴切分：分块数 + 均匀分布的起点，首尾分块贴齐图片边缘
+const splitAxis = (length: number, size: number, overlap: number): { start: number; length: number }[] => {
+  if (length <= size) return [{ start: 0, length }];
+  const count = Math.ceil((length - overlap) / (size - overlap));
+  const step = (length - size) / (count - 1);
+  return Array.from({ length: count }, (_, i) => ({ start: Math.round(i * step), length: size }));
+};
+
+/**
+ * 规划分块；分块数超过 maxTiles 时逐步放大分块边长
+ */
+export const planTiles = (width: number, height: number, tileSize = TILE_SIZE, overlap = TILE_OVERLAP, maxTiles = MAX_TILES): TilePlan => {
+  let size = tileSize;
+  let columns = splitAxis(width, size, overlap);
+  let rows = splitAxis(height, size, overlap);
+  while (columns.length * rows.length > maxTiles) {
+    size = Math.round(size * 1.25);
+    columns = splitAxis(width, size, overlap);
+    rows = splitAxis(height, size, overlap);
+  }
+
+  const tiles: ImageTile[] = [];
+  rows.forEach(row => columns.forEach(column => {
+    tiles.push({ index: tiles.length, x: column.start, y: row.start, width: column.length, height: row.length });
+  }));
+  return { width, height, tiles };
+};
+
+export const shouldTile = (width: number, height: number) => Math.max(width, height) >= TILED_ANALYSIS_MIN_SIDE;
+
+export const loadImageBitmap = (image: Blob): Promise<ImageBitmap> => createImageBitmap(image);
+
+/**
+ * 裁出单个分块（JPEG base64，不含 data URL 前缀）；逐块生成，避免同时持有所有分块
+ */
+export const renderTile = (bitmap: ImageBitmap, tile: ImageTile): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = tile.width;
+  canvas.height = tile.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('无法创建画布');
+  ctx.fillStyle = '#ffffff';  // 透明背景（PNG 导出稿）转 JPEG 时填白
+  ctx.fillRect(0, 0, tile.width, tile.height);
+  ctx.drawImage(bitmap, tile.x, tile.y, tile.width, tile.height, 0, 0, tile.width, tile.height);
+  return canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+};
+
+/**
+ * 分块内的 0-1000 坐标 → 整图 0-1000 坐标
+ */
+export const mapTileBox = (box: BoundingBox, tile: ImageTile, plan: TilePlan): BoundingBox => ({
+  ymin: ((tile.y + (box.ymin / 1000) * tile.height) / plan.height) * 1000,
+  xmin: ((tile.x + (box.xmin / 1000) * tile.width) / plan.width) * 1000,
+  ymax: ((tile.y + (box.ymax / 1000) * tile.height) / plan.height) * 1000,
+  xmax: ((tile.x + (box.xmax / 1000) * tile.width) / plan.width) * 1000
+});
+
+const area = (box: BoundingBox) => Math.max(0, box.xmax - box.xmin) * Math.max(0, box.ymax - box.ymin);
+
+// 交集占较小框面积的比例：分块边缘被切断的框只覆盖完整框的一部分，IoU 会偏低
+const containment = (a: BoundingBox, b: BoundingBox): number => {
+  const width = Math.min(a.xmax, b.xmax) - Math.max(a.xmin, b.xmin);
+  const height = Math.min(a.ymax, b.ymax) - Math.max(a.ymin, b.ymin);
+  if (width <= 0 || height <= 0) return 0;
+  return (width * height) / Math.max(1e-6, Math.min(area(a), area(b)));
+};
+
+// 文字相同或互相包含（被切断的一侧只有部分文字）
+const isSameText = (a: string, b: string) => {
+  const left = a.trim();
+  const right = b.trim();
+  if (!left || !right) return false;
+  return left.includes(right) || right.includes(left) || textSimilarity(left, right) >= DUPLICATE_TEXT_SIMILARITY;
+};
+
+/**
+ * 合并各分块的问题：文字相同且区域重叠的视为重叠区重复报告，保留原文更完整的一条。
+ * 同样的错误出现在图片不同位置（区域不重叠）时分别保留
+ */
+export const mergeTileIssues = (tileIssues: DiagnosisIssue[][]): DiagnosisIssue[] => {
+  const merged: DiagnosisIssue[] = [];
+  tileIssues.forEach(issues => issues.forEach(issue => {
+    const duplicateIndex = merged.findIndex(existing =>
+      isSameText(existing.original || existing.text || '', issue.original || issue.text || '') &&
+      (!existing.box_2d || !issue.box_2d || containment(existing.box_2d, issue.box_2d) >= DUPLICATE_BOX_OVERLAP)
+    );
+    if (duplicateIndex === -1) {
+      merged.push(issue);
+      return;
+    }
+    const existing = merged[duplicateIndex];
+    if ((issue.original || issue.text || '').length > (existing.original || existing.text || '').length) {
+      merged[duplicateIndex] = { ...issue, id: existing.id };
+    }
+  }));
+  return merged;
+};
+
+/**
+ * 合并各分块提取的规格字段（key + value 相同的只保留一条）
+ */
+export const mergeTileSpecs = (tileSpecs: SourceField[][]): SourceField[] => {
+  const seen = new Set<string>();
+  return tileSpecs.flat().filter(spec => {
+    const key = `${spec.key.trim().toLowerCase()}\u0000${spec.value.trim().toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+type StitchLine = Omit<OcrLine, 'start'>;
+
+const MIN_JOIN_OVERLAP = 3;  // 左右两段文字至少重合的字符数
+
+// 比分块重叠区还长的行会被切成左右两段：同一行高、横向相接且首尾文字重合时拼回一行
+const joinSplitLine = (a: StitchLine, b: StitchLine): StitchLine | null => {
+  const [left, right] = a.box_2d.xmin <= b.box_2d.xmin ? [a, b] : [b, a];
+  const rowOverlap = Math.min(left.box_2d.ymax, right.box_2d.ymax) - Math.max(left.box_2d.ymin, right.box_2d.ymin);
+  const minHeight = Math.min(left.box_2d.ymax - left.box_2d.ymin, right.box_2d.ymax - right.box_2d.ymin);
+  if (rowOverlap < minHeight / 2 || right.box_2d.xmin > left.box_2d.xmax) return null;
+
+  for (let k = Math.min(left.text.length, right.text.length) - 1; k >= MIN_JOIN_OVERLAP; k--) {
+    if (!left.text.endsWith(right.text.slice(0, k))) continue;
+    const bold = [...(left.bold || []), ...(right.bold || [])];
+    return {
+      text: left.text + right.text.slice(k),
+      box_2d: {
+        ymin: Math.min(left.box_2d.ymin, right.box_2d.ymin),
+        xmin: left.box_2d.xmin,
+        ymax: Math.max(left.box_2d.ymax, right.box_2d.ymax),
+        xmax: Math.max(left.box_2d.xmax, right.box_2d.xmax)
+      },
+      ...(bold.length > 0 ? { bold: [...new Set(bold)] } : {})
+    };
+  }
+  return null;
+};
+
+// 按一个轴上的空隙把行分成若干组（组与组之间在该轴上没有重叠），同时返回最宽的空隙
+const splitByGap = (lines: StitchLine[], min: (box: BoundingBox) => number, max: (box: BoundingBox) => number) => {
+  const sorted = [...lines].sort((a, b) => min(a.box_2d) - min(b.box_2d));
+  const groups: StitchLine[][] = [];
+  let groupEnd = -Infinity;
+  let widestGap = 0;
+  for (const line of sorted) {
+    const last = groups[groups.length - 1];
+    if (last && min(line.box_2d) < groupEnd) {
+      last.push(line);
+    } else {
+      if (last) widestGap = Math.max(widestGap, min(line.box_2d) - groupEnd);
+      groups.push([line]);
+    }
+    groupEnd = Math.max(groupEnd, max(line.box_2d));
+  }
+  return { groups, widestGap };
+};
+
+// XY-cut 阅读顺序：在横向 / 纵向空白中选更宽的一条切开（上下分段或左右分栏），递归直到不能再切。
+// 刀版上并排的面板之间的空白比行距宽，会先被切成不同栏，各面板内的文字保持连续
+const readingOrder = (lines: StitchLine[]): StitchLine[] => {
+  if (lines.length <= 1) return lines;
+  const bands = splitByGap(lines, box => box.ymin, box => box.ymax);
+  const columns = splitByGap(lines, box => box.xmin, box => box.xmax);
+  if (bands.groups.length > 1 && bands.widestGap >= columns.widestGap) return bands.groups.flatMap(readingOrder);
+  if (columns.groups.length > 1) return columns.groups.flatMap(readingOrder);
+  return [...lines].sort((a, b) => a.box_2d.ymin - b.box_2d.ymin || a.box_2d.xmin - b.box_2d.xmin);
+};
+
+/**
+ * 拼接各分块的 OCR 行（box_2d 已映射为整图坐标）：去掉重叠区重复识别的行（保留文字更完整的一行）、
+ * 拼回被分块边界切断的长行，按阅读顺序排列后重新计算 ocrText 和每行的字符偏移
+ */
+export const stitchOcrLines = (tileLines: StitchLine[][]): { ocrText: string; ocrLines: OcrLine[] } => {
+  const unique: StitchLine[] = [];
+  tileLines.forEach(lines => lines.forEach(line => {
+    const duplicateIndex = unique.findIndex(existing =>
+      containment(existing.box_2d, line.box_2d) >= DUPLICATE_BOX_OVERLAP && isSameText(existing.text, line.text)
+    );
+    if (duplicateIndex !== -1) {
+      if (line.text.trim().length > unique[duplicateIndex].text.trim().length) unique[duplicateIndex] = line;
+      return;
+    }
+    for (let i = 0; i < unique.length; i++) {
+      const joined = joinSplitLine(unique[i], line);
+      if (joined) {
+        unique[i] = joined;
+        return;
+      }
+    }
+    unique.push(line);
+  }));
+
+  const ocrLines: OcrLine[] = [];
+  let offset = 0;
+  for (const line of readingOrder(unique)) {
+    ocrLines.push({ ...line, start: offset });
+    offset += line.text.length + 1;
+  }
+  return { ocrText: ocrLines.map(line => line.text).join('\n'), ocrLines };
+};
@@ -6,6 +6,20 @@ export interface BoundingBox {
   xmax: number;
 }
 
+// OCR 文本行（start 为该行在 ocrText 中的字符偏移，box_2d 为 0-1000 归一化坐标）
+export interface OcrLine {
+  text: string;
+  start: number;
+  box_2d: BoundingBox;
+  bold?: string[];  // 该行中加粗显示的片段（模型识别出字重时才有）
+}
+
+// PDF 内嵌文字层（设计文件中的准确原文，替代模型 OCR）
+export interface TextLayer {
+  ocrText: string;
+  ocrLines: OcrLine[];
+}
+
 // Updated to match the 8-point checklist
 export type IssueType =
   | 'file_setting'   // 1. File settings/Layout
@@ -18,9 +32,30 @@ export type IssueType =
   | 'format'         // 8. Output Format
   | 'compliance';    // Extra: Ads law/Regulations
 
+export const ISSUE_TYPE_LABELS: Record<IssueType, string> = {
+  file_setting: '文件设置',
+  font: '字体',
+  image_quality: '图片质量',
+  color: '颜色',
+  bleed: '出血/边距',
+  content: '内容校对',
+  annotation: '标注/刀线',
+  format: '输出格式',
+  compliance: '法规合规'
+};
+
+// 展示和筛选顺序（与检查清单一致）
+export const ISSUE_TYPE_LIST: IssueType[] = ['content', 'compliance', 'font', 'image_quality', 'color', 'bleed', 'annotation', 'file_setting', 'format'];
+
 // 置信度级别
 export type ConfidenceLevel = 'certain' | 'likely' | 'possible';
 
+export const CONFIDENCE_LABELS: Record<ConfidenceLevel, string> = {
+  certain: '确定',
+  likely: '较可能',
+  possible: '待确认'
+};
+
 export interface DiagnosisIssue {
   id: string;
   type: IssueType;
@@ -34,13 +69,27 @@ export interface DiagnosisIssue {
   box_2d?: BoundingBox; // Normalized 0-1000
 }
 
+// 多模型共识合并后的 AI 建议（confidence 已按一致度调整）
+export interface ConsensusIssue extends DiagnosisIssue {
+  agreement: number;    // 发现该问题的模型占比（0-1）
+  foundBy: string[];    // 发现该问题的模型 ID
+  sourceIds: string[];  // 合并前各模型的 issue ID
+}
+
 // 确定性检查结果（括号配对等）
 export interface DeterministicCheck {
   id: string;
-  type: 'bracket_mismatch' | 'encoding_error' | 'format_error';
+  type: string;         // 内置：bracket_mismatch / encoding_error / format_error，注册的规则可自定义
+  ruleId?: string;      // 触发的规则 ID
+  ruleName?: string;    // 触发的规则名称
   description: string;
   location: string; // 在 OCR 文本中的位置描述
   severity: 'high' | 'medium';
+  suggestion?: string;  // 修改建议（如 INCI 正确写法）
+  confidence?: ConfidenceLevel; // 规则结果为 certain；依赖不完整词典的提示为 possible
+  position?: number;    // 在 OCR 文本中的字符偏移
+  length?: number;
+  box_2d?: BoundingBox; // 由 OCR 行框推算的图片区域
 }
 
 // 词库命中结果
@@ -53,12 +102,84 @@ export interface LexiconIssue {
   severity: 'high' | 'medium' | 'low';
   confidence: 'certain'; // 词库命中是确定性的
   context: string;       // 上下文
+  position?: number;     // 命中词在 OCR 文本中的偏移
+  box_2d?: BoundingBox;  // 由 OCR 行框推算的图片区域
+  lexiconVersion?: string; // 匹配时使用的词库版本（内置 + 自定义作用域版本）
   ruleHits: Array<{
     type: 'lexicon';
     id: string;          // 规则 ID
     source?: string;     // 来源（如 FDA 21 CFR）
     sourceUrl?: string;  // 来源链接
   }>;
+  suppressed?: {         // 命中规则例外或会话白名单：保留记录，不计入问题
+    source: 'exception' | 'allow_list';
+    reason: string;
+    phrase?: string;     // 命中的白名单短语
+  };
+}
+
+// 必备内容缺失（按产品全部图片的 OCR 文本检查）
+export interface RequiredStatementIssue {
+  id: string;
+  type: 'required_statement';
+  problem: string;       // 为什么必须标注
+  suggestion: string;    // 应添加的内容
+  severity: 'high' | 'medium' | 'low';
+  confidence: 'likely';  // OCR 漏识别也会表现为缺失
+  lexiconVersion?: string;
+  ruleHits: Array<{
+    type: 'lexicon';
+    id: string;
+    source?: string;
+    sourceUrl?: string;
+  }>;
+}
+
+// 条码识别结果（浏览器本地扫描）
+export type BarcodeFormat = 'ean_13' | 'upc_a' | 'itf_14' | 'qr_code';
+
+export interface BarcodeResult {
+  format: BarcodeFormat;
+  rawValue: string;      // 解码内容（一维码为数字串）
+  box_2d?: BoundingBox;  // Normalized 0-1000
+}
+
+// 条码 / GTIN 问题（校验位、GS1 前缀、与 QIL 核对）
+export interface BarcodeIssue {
+  id: string;
+  type: 'barcode';
+  code: string;          // 相关的条码内容或 QIL 中的 GTIN
+  format?: BarcodeFormat;
+  problem: string;
+  suggestion: string;
+  severity: 'high' | 'medium' | 'low';
+  confidence: 'certain' | 'likely'; // 未识别到条码可能是扫描失败，为 likely
+  box_2d?: BoundingBox;
+}
+
+// PDF 印前检查项
+export type PreflightCheck =
+  | 'no_trim_box'
+  | 'insufficient_bleed'
+  | 'no_output_intent'
+  | 'font_not_embedded'
+  | 'low_resolution'
+  | 'rgb_image'
+  | 'rgb_vector'
+  | 'rich_black_text'
+  | 'ink_coverage'
+  | 'spot_color';
+
+// PDF 印前检查结果（读取 PDF 实际数据，确定性的）
+export interface PreflightIssue {
+  id: string;
+  type: IssueType;       // file_setting / font / image_quality / color / bleed
+  check: PreflightCheck;
+  problem: string;
+  suggestion: string;
+  severity: 'high' | 'medium' | 'low';
+  confidence: 'certain';
+  box_2d?: BoundingBox;  // 图片类问题在页面上的区域
 }
 
 export interface SourceField {
@@ -149,8 +270,15 @@ export interface ImageItem {
   src: string;
   base64: string;
   file: File;
+  originalFile?: File;  // 压缩前的原图（仅本次会话，用于高清分块分析；未压缩或 HEIC 转换时为 undefined）
   description?: string; // 图片内容描述
   ocrText?: string;     // OCR 提取的原文（所有模型共用）
+  ocrLines?: OcrLine[]; // OCR 行框（用于把词库命中定位到图片上）
+  ocrSource?: 'model' | 'pdf'; // OCR 来源：pdf 为 PDF 内嵌文字层（重新分析时保留，不用模型 OCR 覆盖）
+  barcodes?: BarcodeResult[]; // 本地扫描的条码（不同步云端，未扫描时为 undefined）
+  preflight?: PreflightIssue[]; // PDF 印前检查结果（仅本次上传的 PDF 页面有，不同步云端）
+  revisionOf?: string;  // 上一版设计稿的图片 ID（同一产品内，用于修订对比）
+  consensusModels?: string[]; // 共识检测所选的模型 ID（不同步云端，未运行过时合并全部已分析模型）
   specs: ImageSpec[];   // 图片提取的参数（所有模型共用）
   // 多模型支持：按模型 ID 存储检测结果
   issuesByModel: {
@@ -178,7 +306,8 @@ export interface TokenUsage {
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
-  model: string;
+  model: string;      // 实际提供服务的模型（故障转移后可能与所选模型不同）
+  provider?: string;  // 实际提供服务的供应商 ID
   timestamp: Date;
 }
 
@@ -186,6 +315,7 @@ export interface TokenUsage {
 export interface DiagnosisResult {
   description: string;
   ocrText: string;      // OCR 原文
+  ocrLines?: OcrLine[]; // OCR 行框
   issues: DiagnosisIssue[];
   deterministicIssues: DeterministicCheck[]; // 确定性问题
   lexiconIssues?: LexiconIssue[];  // 词库命中问题
@@ -1,10 +1,8 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-    readonly VITE_PACKY_API_KEY: string
-    readonly VITE_PACKY_BASE_URL: string
-    readonly VITE_ZENMUX_API_KEY: string
-    readonly VITE_ZENMUX_BASE_URL: string
+    readonly VITE_WORKERS_URL: string
+    // AI 供应商的 API Key 只配置在 Worker（wrangler secret put），不要以 VITE_ 前缀暴露给前端
     // more env variables...
 }
 
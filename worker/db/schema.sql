@@ -21,6 +21,7 @@ CREATE TABLE IF NOT EXISTS sessions (
   image_count INTEGER DEFAULT 0,
   qil_fields TEXT,
   qil_input_text TEXT,
+  allow_list TEXT,
   FOREIGN KEY (user_id) REFERENCES users(uid) ON DELETE CASCADE
 );
 
@@ -34,6 +35,9 @@ CREATE TABLE IF NOT EXISTS images (
   storage_path TEXT NOT NULL,
   description TEXT,
   ocr_text TEXT,
+  ocr_lines TEXT,
+  ocr_source TEXT,
+  revision_of TEXT,
   specs TEXT,
   issues TEXT,
   deterministic_issues TEXT,
@@ -110,3 +114,64 @@ CREATE INDEX IF NOT EXISTS idx_detection_configs_user_id ON detection_configs(us
 CREATE INDEX IF NOT EXISTS idx_batch_reports_user_id ON batch_reports(user_id);
 CREATE INDEX IF NOT EXISTS idx_batch_reports_status ON batch_reports(status);
 CREATE INDEX IF NOT EXISTS idx_batch_report_images_report_id ON batch_report_images(report_id);
+
+-- 团队表
+CREATE TABLE IF NOT EXISTS teams (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  owner_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (owner_id) REFERENCES users(uid) ON DELETE CASCADE
+);
+
+-- 团队成员表
+CREATE TABLE IF NOT EXISTS team_members (
+  team_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  role TEXT DEFAULT 'member',
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (team_id, user_id),
+  FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(uid) ON DELETE CASCADE
+);
+
+-- 自定义词库表（个人 / 团队规则，与内置词库按 entry_id 合并）
+CREATE TABLE IF NOT EXISTS lexicon_entries (
+  id TEXT PRIMARY KEY,
+  entry_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  team_id TEXT,
+  data TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(uid) ON DELETE CASCADE,
+  FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON team_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_lexicon_entries_user_id ON lexicon_entries(user_id);
+CREATE INDEX IF NOT EXISTS idx_lexicon_entries_team_id ON lexicon_entries(team_id);
+
+-- 词库版本表（每次自定义规则变更生成一个版本，user_id 为作者，changes 为条目级 diff）
+CREATE TABLE IF NOT EXISTS lexicon_versions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  team_id TEXT,
+  version INTEGER NOT NULL,
+  changes TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(uid) ON DELETE CASCADE,
+  FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_lexicon_versions_user_id ON lexicon_versions(user_id);
+CREATE INDEX IF NOT EXISTS idx_lexicon_versions_team_id ON lexicon_versions(team_id);
+
+-- 模型供应商表（管理员配置，按 id 覆盖内置供应商；data 为供应商 JSON）
+CREATE TABLE IF NOT EXISTS model_providers (
+  id TEXT PRIMARY KEY,
+  data TEXT NOT NULL,
+  updated_by TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
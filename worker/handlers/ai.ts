@@ -0,0 +1,306 @@
+import { Env } from '../middleware/auth';
+import { getModelProviders } from './model-providers';
+import { debitQuota } from './quota';
+
+// AI 调用类型（路由 /api/ai/:task/chat/completions，同时作为配额记录的 type）
+const AI_TASKS = new Set([
+  'quick-check',
+  'ocr',
+  'analyze',
+  'custom-analyze',
+  'source',
+  'specs',
+  'diff',
+  'qil',
+  'batch-summary'
+]);
+
+interface UpstreamTarget {
+  providerId: string;
+  baseURL: string;
+  apiKey: string;
+  model: string;
+  maxTokens?: number;
+  capabilities?: { jsonMode?: boolean; jsonSchema?: boolean };  // 备用线路未知
+}
+
+const ATTEMPTS_PER_PROVIDER = 2;     // 5xx / 429 / 网络错误时同一供应商最多尝试次数
+const ATTEMPT_TIMEOUT_MS = 45_000;   // 等待上游响应头的超时；流式输出开始后不再中断
+const BREAKER_THRESHOLD = 3;         // 连续失败次数达到阈值后熔断
+const BREAKER_COOLDOWN_MS = 60_000;  // 熔断冷却时间，到期后放行请求试探
+
+// 供应商熔断状态（按 Worker 实例内存保存，实例回收后重置）
+const breakers = new Map<string, { failures: number; openUntil: number }>();
+
+const isCircuitOpen = (providerId: string) => (breakers.get(providerId)?.openUntil || 0) > Date.now();
+
+const recordSuccess = (providerId: string) => {
+  breakers.delete(providerId);
+};
+
+const recordFailure = (providerId: string) => {
+  const state = breakers.get(providerId) || { failures: 0, openUntil: 0 };
+  state.failures += 1;
+  if (state.failures >= BREAKER_THRESHOLD && state.openUntil <= Date.now()) {
+    state.openUntil = Date.now() + BREAKER_COOLDOWN_MS;
+    console.warn(`AI provider ${providerId} circuit opened for ${BREAKER_COOLDOWN_MS / 1000}s`);
+  }
+  breakers.set(providerId, state);
+};
+
+// 故障转移顺序：提供该模型的供应商（注册表顺序）→ 模型配置的 fallbacks 模型 → 备用线路 AI_API_URL（固定使用 AI_MODEL）。
+// 未注册的模型不可用（返回空列表），避免用服务端 Key 调用备用线路上的任意模型；apiKeyRef 为 Worker secret 名
+async function resolveUpstreams(env: Env, modelId: string): Promise<UpstreamTarget[]> {
+  const providers = (await getModelProviders(env)).filter(provider => provider.enabled !== false);
+  const secrets = env as unknown as Record<string, string | undefined>;
+  const targets: UpstreamTarget[] = [];
+
+  const addModel = (id: string) => {
+    for (const provider of providers) {
+      const model = provider.models.find((m: any) => m.id === id && m.enabled !== false);
+      if (!model || targets.some(t => t.providerId === provider.id && t.model === id)) continue;
+      targets.push({
+        providerId: provider.id,
+        baseURL: provider.baseURL,
+        apiKey: provider.apiKeyRef ? secrets[provider.apiKeyRef] || '' : 'not-required',
+        model: id,
+        maxTokens: model.maxTokens,
+        capabilities: model.capabilities
+      });
+    }
+  };
+
+  const requested = providers.flatMap(provider => provider.models).find((m: any) => m.id === modelId && m.enabled !== false);
+  if (!requested) return [];
+  addModel(modelId);
+  (requested.fallbacks || []).forEach(addModel);
+
+  if (env.AI_API_URL && env.AI_MODEL) {
+    targets.push({
+      providerId: 'backup',
+      baseURL: env.AI_API_URL,
+      apiKey: env.AI_API_KEY,
+      model: env.AI_MODEL
+    });
+  }
+  return targets;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 故障转移后的模型可能不支持客户端请求的 response_format：json_schema 降级为 json_object，都不支持时去掉（靠 prompt 约束）
+const responseFormatFor = (target: UpstreamTarget, requested: any) => {
+  if (!requested) return undefined;
+  if (requested.type === 'json_schema' && target.capabilities?.jsonSchema) return requested;
+  if (target.capabilities?.jsonMode || target.capabilities?.jsonSchema) return { type: 'json_object' };
+  return undefined;
+};
+
+// 指数退避（带抖动）；429 优先按 Retry-After，最多等 5 秒
+const backoffDelay = (attempt: number, response?: Response) => {
+  const retryAfter = Number(response?.headers.get('Retry-After'));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, 5000);
+  return 500 * 2 ** attempt + Math.random() * 250;
+};
+
+// 上游错误信息转发给客户端（用于 schema 重问等判断），只保留 error 字段并截断，避免回传过大的响应
+const upstreamErrorBody = (detail: string) => {
+  let error: any = detail.slice(0, 1000);
+  try {
+    const parsed = JSON.parse(detail);
+    error = parsed?.error ?? parsed;
+  } catch {
+    // 非 JSON 响应按文本转发
+  }
+  if (typeof error === 'object' && error) {
+    error = { ...error, message: typeof error.message === 'string' ? error.message.slice(0, 1000) : error.message };
+  }
+  return JSON.stringify({ error });
+};
+
+// 对单个供应商发起请求：5xx / 429 / 网络错误按退避重试，超时和鉴权失败直接换下一个供应商。
+// 返回 null 表示该供应商不可用；请求本身有误（400 / 413 / 422）时返回上游的错误信息，不再转移
+async function callUpstream(target: UpstreamTarget, payload: any): Promise<Response | null> {
+  const body = JSON.stringify({
+    ...payload,
+    model: target.model,
+    max_tokens: target.maxTokens && payload.max_tokens ? Math.min(payload.max_tokens, target.maxTokens) : payload.max_tokens,
+    response_format: responseFormatFor(target, payload.response_format)
+  });
+
+  for (let attempt = 0; attempt < ATTEMPTS_PER_PROVIDER; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), ATTEMPT_TIMEOUT_MS);
+    let response: Response;
+    try {
+      response = await fetch(`${target.baseURL.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${target.apiKey}`
+        },
+        body,
+        signal: controller.signal
+      });
+    } catch (error: any) {
+      const timedOut = controller.signal.aborted;
+      console.error(`AI upstream ${target.providerId} ${timedOut ? 'timed out' : 'failed'} (attempt ${attempt + 1}):`, error?.message);
+      recordFailure(target.providerId);
+      if (timedOut || isCircuitOpen(target.providerId)) return null;
+      if (attempt + 1 < ATTEMPTS_PER_PROVIDER) await sleep(backoffDelay(attempt));
+      continue;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.ok && response.body) {
+      recordSuccess(target.providerId);
+      return response;
+    }
+
+    const detail = await response.text().catch(() => '');
+    console.error(`AI upstream ${target.providerId} error (attempt ${attempt + 1}):`, response.status, detail.slice(0, 500));
+    if ([400, 413, 422].includes(response.status)) {
+      return new Response(upstreamErrorBody(detail), {
+        status: response.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    recordFailure(target.providerId);
+    // 401 / 403 / 404 多为 Key 或模型配置问题，重试无意义
+    if ((response.status !== 429 && response.status < 500) || isCircuitOpen(target.providerId)) return null;
+    if (attempt + 1 < ATTEMPTS_PER_PROVIDER) await sleep(backoffDelay(attempt, response));
+  }
+  return null;
+}
+
+// 从 SSE 流中取出 usage（OpenAI 兼容实现在最后一个 chunk 带上 usage），流结束后扣减配额
+function meterStream(body: ReadableStream<Uint8Array>, onDone: (usage: any) => Promise<void>): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let usage: any;
+
+  const scan = (line: string) => {
+    if (!line.startsWith('data:')) return;
+    const data = line.slice(5).trim();
+    if (!data || data === '[DONE]' || !data.includes('"usage"')) return;
+    try {
+      const chunk = JSON.parse(data);
+      if (chunk.usage) usage = chunk.usage;
+    } catch {
+      // 非 JSON 行忽略
+    }
+  };
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk);
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(scan);
+    },
+    async flush() {
+      scan(buffer);
+      await onDone(usage);
+    }
+  }));
+}
+
+// AI 代理：转发 OpenAI 兼容的 chat/completions 请求，API Key 只保存在 Worker 端；
+// 调用前检查配额，失败时按故障转移顺序换供应商，调用完成后按实际 token 用量扣减
+export async function handleAiChatCompletion(request: Request, env: Env, uid: string, task: string): Promise<Response> {
+  if (!AI_TASKS.has(task)) {
+    return new Response(JSON.stringify({ error: 'Unknown AI task' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const user = await env.DB.prepare('SELECT * FROM users WHERE uid = ?').bind(uid).first() as any;
+  if (!user) {
+    return new Response(JSON.stringify({ error: 'User not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+  if (user.used >= user.quota) {
+    return new Response(JSON.stringify({ error: 'Quota exceeded' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const body = await request.json() as any;
+  const upstreams = await resolveUpstreams(env, body.model);
+  if (upstreams.length === 0) {
+    return new Response(JSON.stringify({ error: 'Model not available' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const payload = { ...body };
+  if (payload.stream) payload.stream_options = { ...payload.stream_options, include_usage: true };
+
+  // 依次尝试，跳过熔断中的供应商
+  let served: { target: UpstreamTarget; response: Response } | null = null;
+  for (const target of upstreams) {
+    if (isCircuitOpen(target.providerId)) {
+      console.warn(`AI provider ${target.providerId} circuit open, skipping`);
+      continue;
+    }
+    const response = await callUpstream(target, payload);
+    if (response) {
+      served = { target, response };
+      break;
+    }
+  }
+
+  if (!served) {
+    return new Response(JSON.stringify({ error: 'All AI providers are unavailable, please retry later' }), {
+      status: 503,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const { target: upstream, response: upstreamResponse } = served;
+  if (!upstreamResponse.ok || !upstreamResponse.body) {
+    return new Response(JSON.stringify({ error: `AI request rejected: ${upstreamResponse.status}` }), {
+      status: upstreamResponse.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // 实际提供服务的供应商和模型（故障转移后可能与请求的不同）
+  const servedBy = { 'X-AI-Provider': upstream.providerId, 'X-AI-Model': upstream.model };
+
+  const debit = (usage: any) => debitQuota(env, user, {
+    type: task,
+    imageName: '',
+    tokenUsage: usage ? {
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0,
+      totalTokens: usage.total_tokens || 0,
+      model: upstream.model,
+      provider: upstream.providerId
+    } : undefined
+  }, false).then(() => undefined);
+
+  if (payload.stream) {
+    return new Response(meterStream(upstreamResponse.body, debit), {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        ...servedBy
+      }
+    });
+  }
+
+  const result = await upstreamResponse.json() as any;
+  await debit(result.usage);
+
+  return new Response(JSON.stringify(result), {
+    headers: { 'Content-Type': 'application/json', ...servedBy }
+  });
+}
@@ -49,10 +49,12 @@ export async function handleUpdateImage(request: Request, env: Env, uid: string,
   const now = Date.now();
 
   await env.DB.prepare(
-    'UPDATE images SET description = ?, ocr_text = ?, specs = ?, issues = ?, deterministic_issues = ?, diffs = ?, issues_by_model = ?, status = ?, analyzing_started_at = ?, error_message = ?, updated_at = ? WHERE id = ? AND user_id = ?'
+    'UPDATE images SET description = ?, ocr_text = ?, ocr_lines = ?, ocr_source = ?, specs = ?, issues = ?, deterministic_issues = ?, diffs = ?, issues_by_model = ?, status = ?, analyzing_started_at = ?, error_message = ?, updated_at = ? WHERE id = ? AND user_id = ?'
   ).bind(
     body.description || null,
     body.ocrText || null,
+    body.ocrLines ? JSON.stringify(body.ocrLines) : null,
+    body.ocrSource || null,
     body.specs ? JSON.stringify(body.specs) : null,
     body.issues ? JSON.stringify(body.issues) : null,
     body.deterministicIssues ? JSON.stringify(body.deterministicIssues) : null,
@@ -73,6 +75,38 @@ export async function handleUpdateImage(request: Request, env: Env, uid: string,
   });
 }
 
+export async function handleUpdateImageRevision(request: Request, env: Env, uid: string, imageId: string): Promise<Response> {
+  const body = await request.json() as any;
+  const revisionOf = typeof body.revisionOf === 'string' && body.revisionOf ? body.revisionOf : null;
+
+  const image = await env.DB.prepare('SELECT session_id FROM images WHERE id = ? AND user_id = ?').bind(imageId, uid).first() as any;
+  if (!image) {
+    return new Response(JSON.stringify({ error: 'Image not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // 上一版必须是同一产品内的其他图片
+  if (revisionOf) {
+    const previous = await env.DB.prepare('SELECT id FROM images WHERE id = ? AND session_id = ? AND user_id = ?').bind(revisionOf, image.session_id, uid).first();
+    if (!previous || revisionOf === imageId) {
+      return new Response(JSON.stringify({ error: 'Invalid previous revision' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  await env.DB.prepare(
+    'UPDATE images SET revision_of = ?, updated_at = ? WHERE id = ?'
+  ).bind(revisionOf, Date.now(), imageId).run();
+
+  return new Response(JSON.stringify({ success: true, revisionOf }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
 export async function handleDeleteImage(request: Request, env: Env, uid: string, imageId: string): Promise<Response> {
   const image = await env.DB.prepare('SELECT * FROM images WHERE id = ? AND user_id = ?').bind(imageId, uid).first() as any;
 
@@ -86,8 +120,9 @@ export async function handleDeleteImage(request: Request, env: Env, uid: string,
   // 从 R2 删除
   await env.IMAGES.delete(image.storage_path);
 
-  // 从 D1 删除
+  // 从 D1 删除，并解除以它为上一版的修订关联
   await env.DB.prepare('DELETE FROM images WHERE id = ?').bind(imageId).run();
+  await env.DB.prepare('UPDATE images SET revision_of = NULL WHERE revision_of = ?').bind(imageId).run();
 
   // 更新会话的图片数量
   await env.DB.prepare(
@@ -0,0 +1,172 @@
+import { Env } from '../middleware/auth';
+import { isTeamMember } from './teams';
+
+// 列出当前用户可用的自定义词库（个人规则 + 所在团队的规则）
+export async function handleListLexicons(request: Request, env: Env, uid: string): Promise<Response> {
+  const entries = await env.DB.prepare(
+    `SELECT * FROM lexicon_entries
+     WHERE (team_id IS NULL AND user_id = ?)
+        OR team_id IN (SELECT team_id FROM team_members WHERE user_id = ?)
+     ORDER BY updated_at ASC`
+  ).bind(uid, uid).all();
+
+  return new Response(JSON.stringify(entries.results), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// 条目级变更：added 只有 after，removed 只有 before
+interface LexiconChange {
+  entryId: string;
+  action: 'added' | 'removed' | 'modified';
+  before?: any;
+  after?: any;
+}
+
+// 同一作用域内按 entry_id 覆盖，返回行 ID 和变更（内容未变时 change 为 null）
+async function upsertLexiconEntry(
+  env: Env,
+  uid: string,
+  teamId: string | null,
+  entry: any,
+  now: number
+): Promise<{ rowId: string; change: LexiconChange | null }> {
+  const existing = teamId
+    ? await env.DB.prepare('SELECT id, data FROM lexicon_entries WHERE team_id = ? AND entry_id = ?').bind(teamId, entry.id).first() as any
+    : await env.DB.prepare('SELECT id, data FROM lexicon_entries WHERE team_id IS NULL AND user_id = ? AND entry_id = ?').bind(uid, entry.id).first() as any;
+  const data = JSON.stringify(entry);
+
+  if (existing) {
+    if (existing.data === data) {
+      return { rowId: existing.id, change: null };
+    }
+    await env.DB.prepare(
+      'UPDATE lexicon_entries SET data = ?, updated_at = ? WHERE id = ?'
+    ).bind(data, now, existing.id).run();
+    return {
+      rowId: existing.id,
+      change: { entryId: entry.id, action: 'modified', before: JSON.parse(existing.data), after: entry }
+    };
+  }
+
+  const rowId = crypto.randomUUID();
+  await env.DB.prepare(
+    'INSERT INTO lexicon_entries (id, entry_id, user_id, team_id, data, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  ).bind(rowId, entry.id, uid, teamId, data, now, now).run();
+  return { rowId, change: { entryId: entry.id, action: 'added', after: entry } };
+}
+
+// 记录一次词库变更（作用域内版本号递增）
+async function recordLexiconVersion(env: Env, uid: string, teamId: string | null, changes: LexiconChange[], now: number): Promise<void> {
+  if (changes.length === 0) return;
+
+  const latest = teamId
+    ? await env.DB.prepare('SELECT MAX(version) as version FROM lexicon_versions WHERE team_id = ?').bind(teamId).first() as any
+    : await env.DB.prepare('SELECT MAX(version) as version FROM lexicon_versions WHERE team_id IS NULL AND user_id = ?').bind(uid).first() as any;
+
+  await env.DB.prepare(
+    'INSERT INTO lexicon_versions (id, user_id, team_id, version, changes, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+  ).bind(crypto.randomUUID(), uid, teamId, (latest?.version || 0) + 1, JSON.stringify(changes), now).run();
+}
+
+// 新增或覆盖规则（同一作用域内按 entry_id 去重）
+export async function handleSaveLexicon(request: Request, env: Env, uid: string): Promise<Response> {
+  const body = await request.json() as any;
+  const entry = body.entry;
+  const teamId: string | null = body.teamId || null;
+
+  if (!entry || !entry.id || !entry.pattern) {
+    return new Response(JSON.stringify({ error: 'Missing required fields' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (teamId && !(await isTeamMember(env, uid, teamId))) {
+    return new Response(JSON.stringify({ error: 'Forbidden' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const now = Date.now();
+  const { rowId, change } = await upsertLexiconEntry(env, uid, teamId, entry, now);
+  await recordLexiconVersion(env, uid, teamId, change ? [change] : [], now);
+  const saved = await env.DB.prepare('SELECT * FROM lexicon_entries WHERE id = ?').bind(rowId).first();
+
+  return new Response(JSON.stringify(saved), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// 批量导入（CSV / JSON 校验通过的规则）
+export async function handleImportLexicons(request: Request, env: Env, uid: string): Promise<Response> {
+  const body = await request.json() as any;
+  const entries: any[] = Array.isArray(body.entries) ? body.entries : [];
+  const teamId: string | null = body.teamId || null;
+
+  if (entries.length === 0 || entries.some(entry => !entry || !entry.id || !entry.pattern)) {
+    return new Response(JSON.stringify({ error: 'Missing required fields' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (teamId && !(await isTeamMember(env, uid, teamId))) {
+    return new Response(JSON.stringify({ error: 'Forbidden' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const now = Date.now();
+  const changes: LexiconChange[] = [];
+  for (const entry of entries) {
+    const { change } = await upsertLexiconEntry(env, uid, teamId, entry, now);
+    if (change) changes.push(change);
+  }
+  await recordLexiconVersion(env, uid, teamId, changes, now);
+
+  return new Response(JSON.stringify({ success: true, imported: entries.length }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+export async function handleDeleteLexicon(request: Request, env: Env, uid: string, rowId: string): Promise<Response> {
+  const row = await env.DB.prepare('SELECT * FROM lexicon_entries WHERE id = ?').bind(rowId).first() as any;
+
+  const allowed = row && (row.team_id
+    ? await isTeamMember(env, uid, row.team_id)
+    : row.user_id === uid);
+
+  if (!allowed) {
+    return new Response(JSON.stringify({ error: 'Lexicon entry not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  await env.DB.prepare('DELETE FROM lexicon_entries WHERE id = ?').bind(rowId).run();
+  await recordLexiconVersion(env, uid, row.team_id || null, [
+    { entryId: row.entry_id, action: 'removed', before: JSON.parse(row.data) }
+  ], Date.now());
+
+  return new Response(JSON.stringify({ success: true }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// 词库版本记录（个人 + 所在团队），附作者信息
+export async function handleListLexiconVersions(request: Request, env: Env, uid: string): Promise<Response> {
+  const versions = await env.DB.prepare(
+    `SELECT lexicon_versions.*, users.email AS author_email, users.display_name AS author_name
+     FROM lexicon_versions LEFT JOIN users ON users.uid = lexicon_versions.user_id
+     WHERE (lexicon_versions.team_id IS NULL AND lexicon_versions.user_id = ?)
+        OR lexicon_versions.team_id IN (SELECT team_id FROM team_members WHERE user_id = ?)
+     ORDER BY lexicon_versions.created_at DESC`
+  ).bind(uid, uid).all();
+
+  return new Response(JSON.stringify(versions.results), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
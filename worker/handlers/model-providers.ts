@@ -0,0 +1,104 @@
+import { Env } from '../middleware/auth';
+import defaultRegistry from '../../data/model-providers.json';
+
+// 判断用户是否为管理员
+export async function isAdmin(env: Env, uid: string): Promise<boolean> {
+  const user = await env.DB.prepare('SELECT is_admin FROM users WHERE uid = ?').bind(uid).first() as any;
+  return !!user?.is_admin;
+}
+
+// 内置供应商 + D1 中的配置（同 id 覆盖内置）
+export async function getModelProviders(env: Env): Promise<any[]> {
+  const rows = await env.DB.prepare('SELECT data FROM model_providers ORDER BY created_at ASC').all();
+  const providers = new Map<string, any>(defaultRegistry.providers.map(provider => [provider.id, { ...provider, builtin: true }]));
+  for (const row of rows.results as any[]) {
+    const provider = JSON.parse(row.data);
+    providers.set(provider.id, { ...provider, builtin: providers.has(provider.id) });
+  }
+  return [...providers.values()];
+}
+
+// 供应商配置校验，返回错误列表
+function validateProvider(provider: any): string[] {
+  const errors: string[] = [];
+  if (!provider || typeof provider !== 'object') return ['Invalid provider'];
+  if (!provider.id || !/^[a-z0-9][a-z0-9_-]*$/i.test(provider.id)) errors.push('Invalid provider id');
+  if (!provider.name) errors.push('Missing provider name');
+  if (!/^https?:\/\//.test(provider.baseURL || '')) errors.push('baseURL must start with http:// or https://');
+  // 只允许引用 *_API_KEY，避免把 BETTER_AUTH_SECRET 等其他 secret 发往自定义 baseURL
+  if (provider.apiKeyRef && !/^[A-Z0-9_]+_API_KEY$/.test(provider.apiKeyRef)) errors.push('apiKeyRef must be a worker secret name ending with _API_KEY');
+  if (!Array.isArray(provider.models) || provider.models.length === 0) {
+    errors.push('At least one model is required');
+  } else {
+    provider.models.forEach((model: any, i: number) => {
+      if (!model?.id || !model?.name) errors.push(`Model #${i + 1} is missing id or name`);
+      if (model?.maxTokens !== undefined && !(Number(model.maxTokens) > 0)) errors.push(`Model ${model.id} has invalid maxTokens`);
+      if (model?.fallbacks !== undefined && !(Array.isArray(model.fallbacks) && model.fallbacks.every((id: any) => typeof id === 'string'))) {
+        errors.push(`Model ${model.id} fallbacks must be a list of model ids`);
+      }
+    });
+  }
+  return errors;
+}
+
+// 模型供应商列表：管理员看到全部（含停用），其他用户只看到启用的供应商和模型
+export async function handleListModelProviders(request: Request, env: Env, uid: string): Promise<Response> {
+  const admin = await isAdmin(env, uid);
+  const providers = await getModelProviders(env);
+  const visible = admin
+    ? providers
+    : providers
+        .filter(provider => provider.enabled !== false)
+        .map(provider => ({ ...provider, models: provider.models.filter((model: any) => model.enabled !== false) }));
+
+  return new Response(JSON.stringify({ providers: visible, canEdit: admin }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// 新增或覆盖供应商（仅管理员）
+export async function handleSaveModelProvider(request: Request, env: Env, uid: string, providerId: string): Promise<Response> {
+  if (!(await isAdmin(env, uid))) {
+    return new Response(JSON.stringify({ error: 'Forbidden' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const body = await request.json() as any;
+  const provider = { ...body.provider, id: providerId };
+  delete provider.builtin;
+  const errors = validateProvider(provider);
+  if (errors.length > 0) {
+    return new Response(JSON.stringify({ error: errors.join('; ') }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const now = Date.now();
+  await env.DB.prepare(
+    `INSERT INTO model_providers (id, data, updated_by, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_by = excluded.updated_by, updated_at = excluded.updated_at`
+  ).bind(providerId, JSON.stringify(provider), uid, now, now).run();
+
+  return new Response(JSON.stringify(provider), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// 删除供应商配置（仅管理员）；内置供应商删除后恢复默认配置，停用请保存 enabled: false
+export async function handleDeleteModelProvider(request: Request, env: Env, uid: string, providerId: string): Promise<Response> {
+  if (!(await isAdmin(env, uid))) {
+    return new Response(JSON.stringify({ error: 'Forbidden' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  await env.DB.prepare('DELETE FROM model_providers WHERE id = ?').bind(providerId).run();
+
+  return new Response(JSON.stringify({ success: true }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
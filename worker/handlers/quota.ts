@@ -1,4 +1,5 @@
 import { Env } from '../middleware/auth';
+import { getModelProviders } from './model-providers';
 
 // 模型价格配置（每百万 token 的美元价格，已含 30% 利润）
 // 基准：1 积分 = $0.01 成本
@@ -17,40 +18,45 @@ const MODEL_PRICING: Record<string, { input: number; output: number }> = {
   'gemini-2.0-flash-exp': { input: 0.1 * MARKUP, output: 0.4 * MARKUP },
 };
 
+// 模型价格：优先用模型供应商配置中的成本价，未配置时用上表
+async function getModelPricing(env: Env, model: string): Promise<{ input: number; output: number }> {
+  const providers = await getModelProviders(env);
+  const configured = providers.flatMap(provider => provider.models).find((m: any) => m.id === model)?.pricing;
+  if (configured) return { input: configured.input * MARKUP, output: configured.output * MARKUP };
+  return MODEL_PRICING[model] || MODEL_PRICING['gpt-4o']; // 默认用 gpt-4o 价格
+}
+
 // 计算 token 成本（美元）
-function calculateTokenCost(model: string, promptTokens: number, completionTokens: number): number {
-  const pricing = MODEL_PRICING[model] || MODEL_PRICING['gpt-4o']; // 默认用 gpt-4o 价格
+function calculateTokenCost(pricing: { input: number; output: number }, promptTokens: number, completionTokens: number): number {
   const inputCost = (promptTokens / 1_000_000) * pricing.input;
   const outputCost = (completionTokens / 1_000_000) * pricing.output;
   return inputCost + outputCost;
 }
 
-export async function handleUseQuota(request: Request, env: Env, uid: string): Promise<Response> {
-  const body = await request.json() as any;
-
-  // 检查配额
-  const user = await env.DB.prepare('SELECT * FROM users WHERE uid = ?').bind(uid).first() as any;
-
-  if (!user) {
-    return new Response(JSON.stringify({ error: 'User not found' }), {
-      status: 404,
-      headers: { 'Content-Type': 'application/json' }
-    });
-  }
+export interface QuotaUsageInput {
+  type: string;
+  imageName: string;
+  count?: number;
+  tokenUsage?: { promptTokens?: number; completionTokens?: number; totalTokens?: number; model?: string; provider?: string };
+}
 
+// 按计费模式扣减积分并记录用量；enforceLimit 时超出配额返回 false（不扣减）
+// AI 代理在上游调用完成后扣减，此时 token 已产生，不再拦截
+export async function debitQuota(env: Env, user: any, usage: QuotaUsageInput, enforceLimit = true): Promise<boolean> {
   const billingMode = env.BILLING_MODE || 'tokens'; // 默认按 token 计费
   const creditsPerCent = parseFloat(env.CREDITS_PER_CENT || '1'); // 每美分对应多少积分，默认 1
 
-  const tokenUsage = body.tokenUsage && typeof body.tokenUsage === 'object' ? body.tokenUsage : undefined;
+  const tokenUsage = usage.tokenUsage && typeof usage.tokenUsage === 'object' ? usage.tokenUsage : undefined;
   const promptTokens = Number(tokenUsage?.promptTokens ?? 0);
   const completionTokens = Number(tokenUsage?.completionTokens ?? 0);
   const model = tokenUsage?.model || 'gpt-4o';
+  const pricing = await getModelPricing(env, model);
 
   // 默认按 count 计费；若启用 tokens，则按实际成本换算为积分
-  let debit = Number(body.count || 1);
+  let debit = Number(usage.count || 1);
   if (billingMode === 'tokens') {
     if (promptTokens > 0 || completionTokens > 0) {
-      const costUsd = calculateTokenCost(model, promptTokens, completionTokens);
+      const costUsd = calculateTokenCost(pricing, promptTokens, completionTokens);
       const costCents = costUsd * 100;
       debit = Math.max(1, Math.ceil(costCents * creditsPerCent));
     } else {
@@ -60,11 +66,8 @@ export async function handleUseQuota(request: Request, env: Env, uid: string): P
     debit = Math.max(1, debit);
   }
 
-  if ((user.used + debit) > user.quota) {
-    return new Response(JSON.stringify({ error: 'Quota exceeded' }), {
-      status: 403,
-      headers: { 'Content-Type': 'application/json' }
-    });
+  if (enforceLimit && (user.used + debit) > user.quota) {
+    return false;
   }
 
   const now = Date.now();
@@ -72,7 +75,7 @@ export async function handleUseQuota(request: Request, env: Env, uid: string): P
 
   // 计算成本信息（用于日志）
   const costInfo = (promptTokens > 0 || completionTokens > 0)
-    ? { costUsd: calculateTokenCost(model, promptTokens, completionTokens), model, billingMode, creditsPerCent }
+    ? { costUsd: calculateTokenCost(pricing, promptTokens, completionTokens), model, billingMode, creditsPerCent }
     : { billingMode };
 
   // 记录使用
@@ -80,9 +83,9 @@ export async function handleUseQuota(request: Request, env: Env, uid: string): P
     'INSERT INTO quota_usage (id, user_id, type, image_name, count, timestamp, token_usage) VALUES (?, ?, ?, ?, ?, ?, ?)'
   ).bind(
     usageId,
-    uid,
-    body.type,
-    body.imageName,
+    user.uid,
+    usage.type,
+    usage.imageName,
     debit,
     now,
     tokenUsage ? JSON.stringify({ ...tokenUsage, ...costInfo }) : null
@@ -91,7 +94,37 @@ export async function handleUseQuota(request: Request, env: Env, uid: string): P
   // 更新用户配额
   await env.DB.prepare(
     'UPDATE users SET used = used + ? WHERE uid = ?'
-  ).bind(debit, uid).run();
+  ).bind(debit, user.uid).run();
+
+  return true;
+}
+
+export async function handleUseQuota(request: Request, env: Env, uid: string): Promise<Response> {
+  const body = await request.json() as any;
+
+  // 检查配额
+  const user = await env.DB.prepare('SELECT * FROM users WHERE uid = ?').bind(uid).first() as any;
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: 'User not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const debited = await debitQuota(env, user, {
+    type: body.type,
+    imageName: body.imageName,
+    count: body.count,
+    tokenUsage: body.tokenUsage
+  });
+
+  if (!debited) {
+    return new Response(JSON.stringify({ error: 'Quota exceeded' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
 
   const updatedUser = await env.DB.prepare('SELECT * FROM users WHERE uid = ?').bind(uid).first();
 
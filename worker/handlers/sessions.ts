@@ -91,6 +91,30 @@ export async function handleUpdateSession(request: Request, env: Env, uid: strin
   });
 }
 
+// 更新会话白名单短语
+export async function handleUpdateSessionAllowList(request: Request, env: Env, uid: string, sessionId: string): Promise<Response> {
+  const body = await request.json() as any;
+  const phrases: string[] = Array.isArray(body.allowList)
+    ? body.allowList.filter((p: unknown) => typeof p === 'string' && p.trim())
+    : [];
+
+  const session = await env.DB.prepare('SELECT id FROM sessions WHERE id = ? AND user_id = ?').bind(sessionId, uid).first();
+  if (!session) {
+    return new Response(JSON.stringify({ error: 'Session not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  await env.DB.prepare(
+    'UPDATE sessions SET allow_list = ?, updated_at = ? WHERE id = ?'
+  ).bind(JSON.stringify(phrases), Date.now(), sessionId).run();
+
+  return new Response(JSON.stringify({ success: true, allowList: phrases }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
 export async function handleDeleteSession(request: Request, env: Env, uid: string, sessionId: string): Promise<Response> {
   // 先获取该 session 的所有图片，删除 R2 中的文件
   const images = await env.DB.prepare('SELECT storage_path FROM images WHERE session_id = ? AND user_id = ?').bind(sessionId, uid).all();
@@ -0,0 +1,74 @@
+import { Env } from '../middleware/auth';
+
+// 判断用户是否为团队成员
+export async function isTeamMember(env: Env, uid: string, teamId: string): Promise<boolean> {
+  const member = await env.DB.prepare('SELECT 1 FROM team_members WHERE team_id = ? AND user_id = ?').bind(teamId, uid).first();
+  return !!member;
+}
+
+export async function handleCreateTeam(request: Request, env: Env, uid: string): Promise<Response> {
+  const body = await request.json() as any;
+  const now = Date.now();
+  const teamId = crypto.randomUUID();
+
+  if (!body.name) {
+    return new Response(JSON.stringify({ error: 'Missing team name' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  await env.DB.prepare(
+    'INSERT INTO teams (id, name, owner_id, created_at) VALUES (?, ?, ?, ?)'
+  ).bind(teamId, body.name, uid, now).run();
+
+  // 创建者自动成为 owner
+  await env.DB.prepare(
+    'INSERT INTO team_members (team_id, user_id, role, created_at) VALUES (?, ?, ?, ?)'
+  ).bind(teamId, uid, 'owner', now).run();
+
+  const team = await env.DB.prepare('SELECT * FROM teams WHERE id = ?').bind(teamId).first();
+
+  return new Response(JSON.stringify(team), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+export async function handleListTeams(request: Request, env: Env, uid: string): Promise<Response> {
+  const teams = await env.DB.prepare(
+    'SELECT teams.*, team_members.role FROM teams JOIN team_members ON team_members.team_id = teams.id WHERE team_members.user_id = ? ORDER BY teams.created_at ASC'
+  ).bind(uid).all();
+
+  return new Response(JSON.stringify(teams.results), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// 通过邮箱添加团队成员（仅 owner）
+export async function handleAddTeamMember(request: Request, env: Env, uid: string, teamId: string): Promise<Response> {
+  const body = await request.json() as any;
+
+  const team = await env.DB.prepare('SELECT * FROM teams WHERE id = ? AND owner_id = ?').bind(teamId, uid).first();
+  if (!team) {
+    return new Response(JSON.stringify({ error: 'Team not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const member = await env.DB.prepare('SELECT uid FROM users WHERE email = ?').bind(body.email).first() as any;
+  if (!member) {
+    return new Response(JSON.stringify({ error: 'User not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  await env.DB.prepare(
+    'INSERT OR IGNORE INTO team_members (team_id, user_id, role, created_at) VALUES (?, ?, ?, ?)'
+  ).bind(teamId, member.uid, 'member', Date.now()).run();
+
+  return new Response(JSON.stringify({ success: true }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
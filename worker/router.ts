@@ -1,11 +1,15 @@
 import { Env, requireAuth } from './middleware/auth';
 import { handleGetUser, handleCreateOrUpdateUser } from './handlers/users';
-import { handleCreateSession, handleGetSession, handleListSessions, handleUpdateSession, handleDeleteSession } from './handlers/sessions';
-import { handleUploadImage, handleUpdateImage, handleDeleteImage, handleGetImageData, handleGetImagePublic } from './handlers/images';
+import { handleCreateSession, handleGetSession, handleListSessions, handleUpdateSession, handleUpdateSessionAllowList, handleDeleteSession } from './handlers/sessions';
+import { handleUploadImage, handleUpdateImage, handleUpdateImageRevision, handleDeleteImage, handleGetImageData, handleGetImagePublic } from './handlers/images';
 import { handleUseQuota, handleGetQuotaHistory } from './handlers/quota';
 import { handleCreateConfig, handleListConfigs, handleGetConfig, handleUpdateConfig, handleDeleteConfig } from './handlers/detection-configs';
 import { handleCreateReport, handleListReports, handleGetReport, handleUpdateReport, handleDeleteReport, handleAddReportImage, handleUpdateReportImage, handleGetReportImageData, handleAnalyzeReport } from './handlers/batch-reports';
 import { handleCreateCheckout, handleGetPackages, handleStripeWebhook } from './handlers/stripe';
+import { handleListLexicons, handleSaveLexicon, handleImportLexicons, handleDeleteLexicon, handleListLexiconVersions } from './handlers/lexicons';
+import { handleCreateTeam, handleListTeams, handleAddTeamMember } from './handlers/teams';
+import { handleListModelProviders, handleSaveModelProvider, handleDeleteModelProvider } from './handlers/model-providers';
+import { handleAiChatCompletion } from './handlers/ai';
 
 export async function handleAPI(request: Request, env: Env, ctx?: ExecutionContext): Promise<Response> {
   const url = new URL(request.url);
@@ -16,7 +20,9 @@ export async function handleAPI(request: Request, env: Env, ctx?: ExecutionConte
   const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    // AI 代理由 OpenAI SDK 调用，会带上 X-Stainless-* 等自定义请求头
+    'Access-Control-Allow-Headers': request.headers.get('Access-Control-Request-Headers') || 'Content-Type, Authorization',
+    'Access-Control-Expose-Headers': 'X-AI-Provider, X-AI-Model',
   };
 
   if (method === 'OPTIONS') {
@@ -58,6 +64,12 @@ export async function handleAPI(request: Request, env: Env, ctx?: ExecutionConte
       return addCorsHeaders(response, corsHeaders);
     }
 
+    if (path.match(/^\/api\/sessions\/[^/]+\/allow-list$/) && method === 'PUT') {
+      const sessionId = path.split('/')[3];
+      const response = await requireAuth((req, env, uid) => handleUpdateSessionAllowList(req, env, uid, sessionId))(request, env);
+      return addCorsHeaders(response, corsHeaders);
+    }
+
     if (path.match(/^\/api\/sessions\/[^/]+$/) && method === 'DELETE') {
       const sessionId = path.split('/')[3];
       const response = await requireAuth((req, env, uid) => handleDeleteSession(req, env, uid, sessionId))(request, env);
@@ -76,6 +88,12 @@ export async function handleAPI(request: Request, env: Env, ctx?: ExecutionConte
       return addCorsHeaders(response, corsHeaders);
     }
 
+    if (path.match(/^\/api\/images\/[^/]+\/revision$/) && method === 'PUT') {
+      const imageId = path.split('/')[3];
+      const response = await requireAuth((req, env, uid) => handleUpdateImageRevision(req, env, uid, imageId))(request, env);
+      return addCorsHeaders(response, corsHeaders);
+    }
+
     if (path.match(/^\/api\/images\/[^/]+$/) && method === 'DELETE') {
       const imageId = path.split('/')[3];
       const response = await requireAuth((req, env, uid) => handleDeleteImage(req, env, uid, imageId))(request, env);
@@ -135,6 +153,75 @@ export async function handleAPI(request: Request, env: Env, ctx?: ExecutionConte
       return addCorsHeaders(response, corsHeaders);
     }
 
+    // Lexicon routes
+    if (path === '/api/lexicons' && method === 'GET') {
+      const response = await requireAuth(handleListLexicons)(request, env);
+      return addCorsHeaders(response, corsHeaders);
+    }
+
+    if (path === '/api/lexicons' && method === 'POST') {
+      const response = await requireAuth(handleSaveLexicon)(request, env);
+      return addCorsHeaders(response, corsHeaders);
+    }
+
+    if (path === '/api/lexicons/versions' && method === 'GET') {
+      const response = await requireAuth(handleListLexiconVersions)(request, env);
+      return addCorsHeaders(response, corsHeaders);
+    }
+
+    if (path === '/api/lexicons/import' && method === 'POST') {
+      const response = await requireAuth(handleImportLexicons)(request, env);
+      return addCorsHeaders(response, corsHeaders);
+    }
+
+    if (path.match(/^\/api\/lexicons\/[^/]+$/) && method === 'DELETE') {
+      const rowId = path.split('/')[3];
+      const response = await requireAuth((req, env, uid) => handleDeleteLexicon(req, env, uid, rowId))(request, env);
+      return addCorsHeaders(response, corsHeaders);
+    }
+
+    // Model provider routes
+    if (path === '/api/model-providers' && method === 'GET') {
+      const response = await requireAuth(handleListModelProviders)(request, env);
+      return addCorsHeaders(response, corsHeaders);
+    }
+
+    if (path.match(/^\/api\/model-providers\/[^/]+$/) && method === 'PUT') {
+      const providerId = path.split('/')[3];
+      const response = await requireAuth((req, env, uid) => handleSaveModelProvider(req, env, uid, providerId))(request, env);
+      return addCorsHeaders(response, corsHeaders);
+    }
+
+    if (path.match(/^\/api\/model-providers\/[^/]+$/) && method === 'DELETE') {
+      const providerId = path.split('/')[3];
+      const response = await requireAuth((req, env, uid) => handleDeleteModelProvider(req, env, uid, providerId))(request, env);
+      return addCorsHeaders(response, corsHeaders);
+    }
+
+    // AI proxy routes
+    if (path.match(/^\/api\/ai\/[^/]+\/chat\/completions$/) && method === 'POST') {
+      const task = path.split('/')[3];
+      const response = await requireAuth((req, env, uid) => handleAiChatCompletion(req, env, uid, task))(request, env);
+      return addCorsHeaders(response, corsHeaders);
+    }
+
+    // Team routes
+    if (path === '/api/teams' && method === 'POST') {
+      const response = await requireAuth(handleCreateTeam)(request, env);
+      return addCorsHeaders(response, corsHeaders);
+    }
+
+    if (path === '/api/teams' && method === 'GET') {
+      const response = await requireAuth(handleListTeams)(request, env);
+      return addCorsHeaders(response, corsHeaders);
+    }
+
+    if (path.match(/^\/api\/teams\/[^/]+\/members$/) && method === 'POST') {
+      const teamId = path.split('/')[3];
+      const response = await requireAuth((req, env, uid) => handleAddTeamMember(req, env, uid, teamId))(request, env);
+      return addCorsHeaders(response, corsHeaders);
+    }
+
     // Batch report routes
     if (path === '/api/batch-reports' && method === 'POST') {
       const response = await requireAuth(handleCreateReport)(request, env);